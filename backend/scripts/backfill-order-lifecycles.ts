@@ -0,0 +1,22 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import mongoose from 'mongoose';
+import { backfillOrderLifecycles } from '../src/services/orderLifecycleService';
+
+async function main() {
+  const mongoUri = process.env.MONGO_URI;
+  if (!mongoUri) { console.error('MONGO_URI not set'); process.exit(1); }
+
+  console.log('Connecting to MongoDB...');
+  await mongoose.connect(mongoUri);
+  console.log('Connected.');
+
+  console.log('Starting order lifecycle backfill...');
+  const result = await backfillOrderLifecycles();
+  console.log(`Done. ${result.orders} order(s) checked, ${result.changed} state change(s).`);
+
+  await mongoose.disconnect();
+}
+
+main().catch((err) => { console.error('Backfill failed:', err); process.exit(1); });
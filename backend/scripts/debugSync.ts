@@ -21,14 +21,13 @@ async function debugSync() {
     const chargeMap = new Map();
     charges.forEach(c => chargeMap.set(c.orderNumber, c));
 
-    // 3. Get the latest Orders Cache
-    const cache = await db.collection('shopifyordercaches').findOne({ cacheKey: 'all_orders_1000' });
-    if (!cache || !cache.orders) {
-      console.log('No order cache found for key "all_orders_1000".');
+    // 3. Get the stored orders
+    const orders = await db.collection('shopifyorderrecords').find({}).toArray();
+    if (orders.length === 0) {
+      console.log('No stored orders found.');
       return;
     }
-    const orders = cache.orders;
-    console.log(`Analyzing ${orders.length} orders from cache...`);
+    console.log(`Analyzing ${orders.length} stored orders...`);
 
     const sync_Active = [];
     const sync_TerminalMissingCharge = [];
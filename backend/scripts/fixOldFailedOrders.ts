@@ -31,9 +31,9 @@ async function fixOldFailedOrders() {
     const db = mongoose.connection.db;
 
     // Step 1: Find all fulfilled orders before Feb 10 that are missing charges
-    const cache = await db.collection('shopifyordercaches').findOne({ cacheKey: 'all_orders_1000' });
-    if (!cache || !cache.orders) {
-      console.log('❌ No order cache found');
+    const storedOrders = await db.collection('shopifyorderrecords').find({}).toArray();
+    if (storedOrders.length === 0) {
+      console.log('❌ No stored orders found');
       return;
     }
 
@@ -48,7 +48,7 @@ async function fixOldFailedOrders() {
     const cutoffDate = new Date('2026-02-10T00:00:00');
 
     const missingOrders: string[] = [];
-    for (const order of cache.orders) {
+    for (const order of storedOrders) {
       if (order.cancelled_at) continue;
       if (new Date(order.created_at) >= cutoffDate) continue;
       if (!order.fulfillment_status || order.fulfillment_status === 'unfulfilled') continue;
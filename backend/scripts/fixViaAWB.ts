@@ -26,8 +26,8 @@ async function fixViaAWB() {
     const db = mongoose.connection.db;
 
     // Step 1: Find all fulfilled orders before Feb 10 missing charges
-    const cache = await db.collection('shopifyordercaches').findOne({ cacheKey: 'all_orders_1000' });
-    if (!cache?.orders) { console.log('❌ No cache'); return; }
+    const storedOrders = await db.collection('shopifyorderrecords').find({}).toArray();
+    if (storedOrders.length === 0) { console.log('❌ No stored orders'); return; }
 
     const existingCharges = await db.collection('shippingcharges').find({}).toArray();
     const chargeSet = new Set<string>();
@@ -40,7 +40,7 @@ async function fixViaAWB() {
     const cutoffDate = new Date('2026-02-10T00:00:00');
 
     const missingOrders: { name: string; awb: string | null; date: string }[] = [];
-    for (const order of cache.orders) {
+    for (const order of storedOrders) {
       if (order.cancelled_at) continue;
       if (new Date(order.created_at) >= cutoffDate) continue;
       if (!order.fulfillment_status || order.fulfillment_status === 'unfulfilled') continue;
@@ -24,13 +24,12 @@ async function listMissingChargeOrders() {
     const chargeMap = new Map();
     charges.forEach(c => chargeMap.set(c.orderNumber, c));
 
-    // 3. Get the latest Orders Cache
-    const cache = await db.collection('shopifyordercaches').findOne({ cacheKey: 'all_orders_1000' });
-    if (!cache || !cache.orders) {
-      console.log('No order cache found.');
+    // 3. Get the stored orders
+    const orders = await db.collection('shopifyorderrecords').find({}).toArray();
+    if (orders.length === 0) {
+      console.log('No stored orders found.');
       return;
     }
-    const orders = cache.orders;
 
     const missingChargeOrders: any[] = [];
 
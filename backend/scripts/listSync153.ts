@@ -14,10 +14,10 @@ async function listSyncOrders() {
     
     const cutoffDate = new Date('2026-01-10T00:00:00');
 
-    // Get all orders from cache
-    const cache = await db.collection('shopifyordercaches').findOne({ cacheKey: 'all_orders_1000' });
-    if (!cache || !cache.orders) {
-      console.log('No order cache found.');
+    // Get all orders from the order store
+    const storedOrders = await db.collection('shopifyorderrecords').find({}).toArray();
+    if (storedOrders.length === 0) {
+      console.log('No stored orders found.');
       return;
     }
 
@@ -36,7 +36,7 @@ async function listSyncOrders() {
 
     const syncList = [];
 
-    for (const order of cache.orders) {
+    for (const order of storedOrders) {
       if (order.cancelled_at) continue;
       if (new Date(order.created_at) < cutoffDate) continue;
 
@@ -17,16 +17,16 @@ async function listSyncOrders() {
     const rtoOrders = await db.collection('rtoorders').find({}).toArray();
     const rtoIds = new Set(rtoOrders.map(o => o.orderId));
 
-    const cache = await db.collection('shopifyordercaches').findOne({ cacheKey: 'all_orders_1000' });
-    if (!cache || !cache.orders) {
-      console.log('No order cache found.');
+    const storedOrders = await db.collection('shopifyorderrecords').find({}).toArray();
+    if (storedOrders.length === 0) {
+      console.log('No stored orders found.');
       return;
     }
 
     const syncTerminal = [];
     const syncActive = [];
 
-    for (const order of cache.orders) {
+    for (const order of storedOrders) {
       if (order.cancelled_at) continue;
       if (new Date(order.created_at) < cutoffDate) continue;
 
@@ -0,0 +1,28 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import mongoose from 'mongoose';
+import { migrateOrderCache } from '../src/services/orderStoreService';
+
+async function main() {
+  const mongoUri = process.env.MONGO_URI;
+  if (!mongoUri) {
+    console.error('MONGO_URI not set in .env');
+    process.exit(1);
+  }
+
+  console.log('Connecting to MongoDB...');
+  await mongoose.connect(mongoUri);
+  console.log('Connected.');
+
+  console.log('Moving cached orders into the order store...');
+  const migrated = await migrateOrderCache();
+  console.log(`Done. Added ${migrated} order(s).`);
+
+  await mongoose.disconnect();
+}
+
+main().catch((err) => {
+  console.error('Migration failed:', err);
+  process.exit(1);
+});
@@ -8,6 +8,10 @@ interface Config {
     storeDomain: string;
     accessToken: string;
     printedPhotosProductId: string;
+    webhookSecret: string;
+    syncIntervalMinutes: number;
+    apiBaseUrl: string;
+    bulkPollSeconds: number;
   };
   shiprocket: {
     email: string;
@@ -23,7 +27,32 @@ interface Config {
     region: string;
     s3Bucket: string;
   };
+  storage: {
+    driver: 's3' | 'local';
+    localPath: string;
+    publicUrl: string;
+  };
   frontendUrl: string;
+  // Number of proxy hops in front of the API, so req.ip is the customer's address
+  trustProxy: number;
+  uploadProtection: {
+    windowMinutes: number;
+    requestsPerIp: number;
+    requestsPerToken: number;
+    uploadsPerLinkPerHour: number;
+    pinAttempts: number;
+    // Wrong PINs on one link, from any address, before it locks for pinLockoutMinutes
+    pinLockoutAttempts: number;
+    pinLockoutMinutes: number;
+    requirePinByDefault: boolean;
+  };
+  retention: {
+    checkIntervalMinutes: number;
+    maxLinksPerRun: number;
+  };
+  customers: {
+    rebuildIntervalMinutes: number;
+  };
 }
 
 const config: Config = {
@@ -35,6 +64,14 @@ const config: Config = {
     storeDomain: process.env.SHOPIFY_STORE_DOMAIN || '',
     accessToken: process.env.SHOPIFY_ACCESS_TOKEN || '',
     printedPhotosProductId: process.env.PRINTED_PHOTOS_PRODUCT_ID || '9990160548160',
+    // Signing secret shown under Settings → Notifications → Webhooks in the Shopify admin
+    webhookSecret: process.env.SHOPIFY_WEBHOOK_SECRET || '',
+    // Incremental order sync; webhooks keep orders current in between
+    syncIntervalMinutes: parseInt(process.env.SHOPIFY_SYNC_INTERVAL_MINUTES || '15', 10),
+    // Overrides https://<storeDomain>, e.g. to point the API at a local fake Shopify
+    apiBaseUrl: process.env.SHOPIFY_API_BASE_URL || '',
+    // How often a historical import checks whether its bulk operation has finished
+    bulkPollSeconds: parseInt(process.env.SHOPIFY_BULK_POLL_SECONDS || '10', 10),
   },
   
   shiprocket: {
@@ -53,8 +90,40 @@ const config: Config = {
     region: process.env.AWS_REGION || 'ap-south-1',
     s3Bucket: process.env.AWS_S3_BUCKET || '',
   },
+
+  // STORAGE_DRIVER=local keeps photos on disk so uploads work without AWS
+  storage: {
+    driver: process.env.STORAGE_DRIVER === 'local' ? 'local' : 's3',
+    localPath: process.env.STORAGE_LOCAL_PATH || './storage',
+    publicUrl: process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || '3001'}`,
+  },
   
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
+
+  trustProxy: parseInt(process.env.TRUST_PROXY || '0', 10),
+
+  // Limits on the public upload API; counts are per window unless named otherwise
+  uploadProtection: {
+    windowMinutes: parseInt(process.env.UPLOAD_RATE_WINDOW_MINUTES || '15', 10),
+    requestsPerIp: parseInt(process.env.UPLOAD_RATE_LIMIT_PER_IP || '600', 10),
+    requestsPerToken: parseInt(process.env.UPLOAD_RATE_LIMIT_PER_TOKEN || '1200', 10),
+    uploadsPerLinkPerHour: parseInt(process.env.UPLOADS_PER_LINK_PER_HOUR || '150', 10),
+    pinAttempts: parseInt(process.env.UPLOAD_PIN_ATTEMPTS || '5', 10),
+    pinLockoutAttempts: parseInt(process.env.UPLOAD_PIN_LOCKOUT_ATTEMPTS || '10', 10),
+    pinLockoutMinutes: parseInt(process.env.UPLOAD_PIN_LOCKOUT_MINUTES || '60', 10),
+    requirePinByDefault: process.env.UPLOAD_REQUIRE_PIN === 'true',
+  },
+
+  // Photo retention job; the rules themselves are edited in the admin dashboard
+  retention: {
+    checkIntervalMinutes: parseInt(process.env.RETENTION_CHECK_INTERVAL_MINUTES || '360', 10),
+    maxLinksPerRun: parseInt(process.env.RETENTION_MAX_LINKS_PER_RUN || '100', 10),
+  },
+
+  // The customer collection is rebuilt from orders, checkouts and tickets on this interval
+  customers: {
+    rebuildIntervalMinutes: parseInt(process.env.CUSTOMER_REBUILD_INTERVAL_MINUTES || '60', 10),
+  },
 };
 
 export default config;
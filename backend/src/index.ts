@@ -16,15 +16,48 @@ import abandonedCheckoutsRoutes from './routes/abandonedCheckouts';
 import attendanceRoutes from './routes/attendance';
 import reelsRoutes from './routes/reels';
 import agencyRoutes from './routes/agency';
+import productionRoutes from './routes/production';
+import packingRoutes from './routes/packing';
+import ordersRoutes from './routes/orders';
+import customersRoutes from './routes/customers';
+import shopifyWebhookRoutes from './routes/shopifyWebhooks';
+import storageRoutes from './routes/storage';
+import { startRetentionSchedule } from './services/retentionService';
+import { migrateOrderCache } from './services/orderStoreService';
+import { startOrderSyncSchedule } from './services/orderSyncService';
+import { resumeInterruptedImport } from './services/orderImportService';
+import { backfillOrderLifecycles } from './services/orderLifecycleService';
+import { rebuildCustomers, startCustomerSchedule } from './services/customerService';
+import { backfillProductionJobs } from './services/productionService';
 
 
 const app = express();
 
+if (config.trustProxy > 0) {
+  app.set('trust proxy', config.trustProxy);
+}
+
 // Connect to MongoDB
 mongoose
   .connect(config.mongoUri)
   .then(() => {
     console.log('📦 Connected to MongoDB');
+    startRetentionSchedule();
+    startOrderSyncSchedule();
+    startCustomerSchedule();
+    migrateOrderCache()
+      .then((migrated) => { if (migrated > 0) console.log(`📦 Migrated ${migrated} orders to the order store`); })
+      .then(() => backfillOrderLifecycles())
+      .then(({ changed }) => { if (changed > 0) console.log(`📦 Moved ${changed} order lifecycle states`); })
+      .catch((err) => console.error('❌ Order cache migration failed:', err))
+      // Customers are built from lifecycle states, so only once those are current
+      .then(() => rebuildCustomers())
+      .then(({ customers }) => console.log(`👥 Rebuilt ${customers} customers`))
+      .catch((err) => console.error('❌ Customer rebuild failed:', err));
+    resumeInterruptedImport().catch((err) => console.error('❌ Resuming order import failed:', err));
+    backfillProductionJobs()
+      .then((created) => { if (created > 0) console.log(`🏭 Added ${created} submitted orders to the production board`); })
+      .catch((err) => console.error('❌ Production board backfill failed:', err));
   })
   .catch((err) => {
     console.error('❌ MongoDB connection error:', err);
@@ -41,8 +74,10 @@ app.use(cors({
     return callback(new Error('Not allowed by CORS'));
   },
   credentials: true,
-  exposedHeaders: ['Content-Disposition'], // Allow frontend to read Content-Disposition header
+  exposedHeaders: ['Content-Disposition', 'X-Print-Sheets-Failed'], // Allow frontend to read download headers
 }));
+// Shopify signs the raw body, so webhooks must be parsed before express.json()
+app.use('/api/webhooks/shopify', express.raw({ type: 'application/json' }), shopifyWebhookRoutes);
 app.use(express.json());
 
 // Routes
@@ -59,8 +94,17 @@ app.use('/api/admin/abandoned-checkouts', abandonedCheckoutsRoutes);
 app.use('/api/admin/attendance', attendanceRoutes);
 app.use('/api/admin/reels', reelsRoutes);
 app.use('/api/admin/agency', agencyRoutes);
+app.use('/api/admin/production', productionRoutes);
+app.use('/api/admin/packing', packingRoutes);
+app.use('/api/admin/orders', ordersRoutes);
+app.use('/api/admin/customers', customersRoutes);
 app.use('/api/upload', uploadRoutes);
 
+// Serve photos when running on the local storage driver, behind signed URLs (S3 serves its own)
+if (config.storage.driver === 'local') {
+  app.use('/storage', storageRoutes);
+}
+
 
 
 // Health check
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type BlockedUploadReason =
+  | 'rate_limit_ip'
+  | 'rate_limit_token'
+  | 'hourly_cap'
+  | 'bad_file'
+  | 'pin_required'
+  | 'pin_invalid'
+  | 'pin_locked';
+
+export interface IBlockedUploadAttempt extends Document {
+  reason: BlockedUploadReason;
+  ip: string;
+  // Last characters of the token only: a live token is a credential
+  tokenHint: string;
+  magicLinkId?: mongoose.Types.ObjectId;
+  orderNumber?: string;
+  method: string;
+  path: string;
+  details?: string;
+  createdAt: Date;
+}
+
+const BlockedUploadAttemptSchema = new Schema<IBlockedUploadAttempt>({
+  reason: {
+    type: String,
+    enum: ['rate_limit_ip', 'rate_limit_token', 'hourly_cap', 'bad_file', 'pin_required', 'pin_invalid', 'pin_locked'],
+    required: true,
+  },
+  ip: {
+    type: String,
+    required: true,
+  },
+  tokenHint: {
+    type: String,
+    required: true,
+  },
+  magicLinkId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MagicLink',
+  },
+  orderNumber: {
+    type: String,
+  },
+  method: {
+    type: String,
+    required: true,
+  },
+  path: {
+    type: String,
+    required: true,
+  },
+  details: {
+    type: String,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+BlockedUploadAttemptSchema.index({ magicLinkId: 1, createdAt: -1 });
+// Keep 90 days of blocked attempts
+BlockedUploadAttemptSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export default mongoose.model<IBlockedUploadAttempt>('BlockedUploadAttempt', BlockedUploadAttemptSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * One person across every order, abandoned checkout and ticket, matched on
+ * normalized phone numbers, emails and Shopify customer ids. Rebuilt by
+ * customerService from the order store; nothing here is edited by hand.
+ */
+export interface ICustomer extends Document {
+  // 'phone:9876543210', else 'email:a@b.com' (or 'shopify:<id>'), from the earliest order
+  key: string;
+  name?: string;
+  city?: string;
+  phones: string[];
+  emails: string[];
+  shopifyCustomerIds: number[];
+  orderIds: number[];
+  abandonedCheckoutIds: mongoose.Types.ObjectId[];
+  ticketIds: mongoose.Types.ObjectId[];
+  // Orders that ended failed: marked RTO or returned by the courier
+  rtoOrderIds: number[];
+  // Excludes cancelled and discarded orders
+  orderCount: number;
+  deliveredCount: number;
+  rtoCount: number;
+  cancelledCount: number;
+  // Revenue from orders that count as delivered (prepaid orders count unless they fail)
+  lifetimeValue: number;
+  firstOrderAt?: Date;
+  secondOrderAt?: Date;
+  lastOrderAt?: Date;
+  rebuiltAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CustomerSchema = new Schema<ICustomer>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  name: { type: String },
+  city: { type: String },
+  phones: { type: [String], default: [], index: true },
+  emails: { type: [String], default: [], index: true },
+  shopifyCustomerIds: { type: [Number], default: [] },
+  orderIds: { type: [Number], default: [], index: true },
+  abandonedCheckoutIds: [{ type: Schema.Types.ObjectId, ref: 'AbandonedCheckout' }],
+  ticketIds: [{ type: Schema.Types.ObjectId, ref: 'Ticket' }],
+  rtoOrderIds: { type: [Number], default: [] },
+  orderCount: { type: Number, default: 0 },
+  deliveredCount: { type: Number, default: 0 },
+  rtoCount: { type: Number, default: 0 },
+  cancelledCount: { type: Number, default: 0 },
+  lifetimeValue: { type: Number, default: 0 },
+  firstOrderAt: { type: Date },
+  secondOrderAt: { type: Date },
+  lastOrderAt: { type: Date },
+  rebuiltAt: { type: Date, required: true },
+}, {
+  timestamps: true,
+});
+
+CustomerSchema.index({ lifetimeValue: -1 });
+CustomerSchema.index({ orderCount: -1, lastOrderAt: -1 });
+CustomerSchema.index({ lastOrderAt: -1 });
+
+const Customer = mongoose.model<ICustomer>('Customer', CustomerSchema);
+
+export default Customer;
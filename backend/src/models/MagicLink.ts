@@ -1,23 +1,42 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import type { PhotoSize, PhotoType } from './UploadedImage';
+
+// Prints bought for one size/type; an omitted size or type means the customer picks
+export interface IPrintAllowance {
+  photoSize?: PhotoSize;
+  photoType?: PhotoType;
+  quantity: number;
+}
 
 export interface IMagicLink extends Document {
   token: string;
   orderNumber: string;
   orderId?: string;
+  // Order number without the leading #, set only on links created from synced orders
+  syncOrderKey?: string;
   customerName: string;
   customerEmail?: string;
   customerPhone?: string;
   maxUploads: number;
+  allowances: IPrintAllowance[];
   currentUploads: number;
   expiresAt: Date;
   isActive: boolean;
   submittedForPrinting: boolean;
   submittedAt?: Date;
+  // Set when photos are rejected after submission; only those can change until resubmitted
+  reopenedAt?: Date;
+  // Customer must enter the last digits of their phone before the upload page opens
+  pinRequired: boolean;
+  // Wrong PINs since the last correct one, from any address; reaching the limit sets pinLockedUntil
+  pinFailedAttempts: number;
+  pinLockedUntil?: Date;
   photoSize?: 'large' | 'small';
   photoType?: 'normal' | 'polaroid';
   imagesDeleted: boolean;
   imagesDeletedAt?: Date;
-  createdBy: mongoose.Types.ObjectId;
+  // Unset for links created automatically from synced orders
+  createdBy?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -38,6 +57,9 @@ const MagicLinkSchema = new Schema<IMagicLink>(
     orderId: {
       type: String,
     },
+    syncOrderKey: {
+      type: String,
+    },
     customerName: {
       type: String,
       required: true,
@@ -52,6 +74,24 @@ const MagicLinkSchema = new Schema<IMagicLink>(
       type: Number,
       default: 50, // Default max photos
     },
+    // Per size/type breakdown of maxUploads (empty on older links: any mix up to maxUploads)
+    allowances: [
+      {
+        _id: false,
+        photoSize: {
+          type: String,
+          enum: ['large', 'small'],
+        },
+        photoType: {
+          type: String,
+          enum: ['normal', 'polaroid'],
+        },
+        quantity: {
+          type: Number,
+          required: true,
+        },
+      },
+    ],
     currentUploads: {
       type: Number,
       default: 0,
@@ -71,6 +111,20 @@ const MagicLinkSchema = new Schema<IMagicLink>(
     submittedAt: {
       type: Date,
     },
+    reopenedAt: {
+      type: Date,
+    },
+    pinRequired: {
+      type: Boolean,
+      default: false,
+    },
+    pinFailedAttempts: {
+      type: Number,
+      default: 0,
+    },
+    pinLockedUntil: {
+      type: Date,
+    },
     photoSize: {
       type: String,
       enum: ['large', 'small'],
@@ -89,7 +143,6 @@ const MagicLinkSchema = new Schema<IMagicLink>(
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'SuperUser',
-      required: true,
     },
   },
   {
@@ -100,4 +153,8 @@ const MagicLinkSchema = new Schema<IMagicLink>(
 // Index for finding active, non-expired links
 MagicLinkSchema.index({ token: 1, isActive: 1, expiresAt: 1 });
 
+// Sync creates at most one link per order, even when two runs see the same order at once.
+// Partial, since admins have always been free to make several links for an order by hand.
+MagicLinkSchema.index({ syncOrderKey: 1 }, { unique: true, partialFilterExpression: { syncOrderKey: { $exists: true } } });
+
 export default mongoose.model<IMagicLink>('MagicLink', MagicLinkSchema);
@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type MagicLinkEventType =
+  | 'created'
+  | 'opened'
+  | 'uploaded'
+  | 'replaced'
+  | 'deleted'
+  | 'settings_changed'
+  | 'submitted'
+  | 'reopened'
+  | 'photo_rejected'
+  | 'expiry_extended'
+  | 'limit_changed'
+  | 'token_reissued'
+  | 'pin_changed'
+  | 'reminder_sent'
+  | 'images_deleted'
+  | 'deactivated';
+
+export type MagicLinkEventActor = 'customer' | 'admin' | 'system';
+
+export interface IMagicLinkEvent extends Document {
+  magicLinkId: mongoose.Types.ObjectId;
+  orderNumber: string;
+  type: MagicLinkEventType;
+  actor: MagicLinkEventActor;
+  adminUser?: string;
+  details?: string;
+  createdAt: Date;
+}
+
+const MagicLinkEventSchema = new Schema<IMagicLinkEvent>({
+  magicLinkId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MagicLink',
+    required: true,
+  },
+  orderNumber: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: [
+      'created',
+      'opened',
+      'uploaded',
+      'replaced',
+      'deleted',
+      'settings_changed',
+      'submitted',
+      'reopened',
+      'photo_rejected',
+      'expiry_extended',
+      'limit_changed',
+      'token_reissued',
+      'pin_changed',
+      'reminder_sent',
+      'images_deleted',
+      'deactivated',
+    ],
+    required: true,
+  },
+  actor: {
+    type: String,
+    enum: ['customer', 'admin', 'system'],
+    required: true,
+  },
+  adminUser: {
+    type: String,
+  },
+  details: {
+    type: String,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+MagicLinkEventSchema.index({ magicLinkId: 1, createdAt: -1 });
+
+export default mongoose.model<IMagicLinkEvent>('MagicLinkEvent', MagicLinkEventSchema);
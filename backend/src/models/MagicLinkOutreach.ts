@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type MagicLinkOutreachStatus = 'pending' | 'sent' | 'skipped';
+
+// A link waiting to be sent to the customer, with the WhatsApp message ready to go
+export interface IMagicLinkOutreach extends Document {
+  magicLinkId: mongoose.Types.ObjectId;
+  orderNumber: string;
+  customerName: string;
+  customerPhone?: string;
+  message: string;
+  status: MagicLinkOutreachStatus;
+  handledAt?: Date;
+  handledBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MagicLinkOutreachSchema = new Schema<IMagicLinkOutreach>(
+  {
+    magicLinkId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MagicLink',
+      required: true,
+      unique: true,
+    },
+    orderNumber: {
+      type: String,
+      required: true,
+    },
+    customerName: {
+      type: String,
+      required: true,
+    },
+    customerPhone: {
+      type: String,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sent', 'skipped'],
+      default: 'pending',
+    },
+    handledAt: {
+      type: Date,
+    },
+    handledBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+MagicLinkOutreachSchema.index({ status: 1, createdAt: -1 });
+
+export default mongoose.model<IMagicLinkOutreach>('MagicLinkOutreach', MagicLinkOutreachSchema);
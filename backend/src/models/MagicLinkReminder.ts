@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Where the customer was when the reminder went out
+export type ReminderStage = 'not_opened' | 'not_started' | 'incomplete' | 'not_submitted';
+
+// One reminder sent to a customer about an unfinished upload link
+export interface IMagicLinkReminder extends Document {
+  magicLinkId: mongoose.Types.ObjectId;
+  orderNumber: string;
+  attempt: number;
+  stage: ReminderStage;
+  message: string;
+  sentBy: string;
+  sentAt: Date;
+}
+
+const MagicLinkReminderSchema = new Schema<IMagicLinkReminder>({
+  magicLinkId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MagicLink',
+    required: true,
+  },
+  orderNumber: {
+    type: String,
+    required: true,
+  },
+  attempt: {
+    type: Number,
+    required: true,
+  },
+  stage: {
+    type: String,
+    enum: ['not_opened', 'not_started', 'incomplete', 'not_submitted'],
+    required: true,
+  },
+  message: {
+    type: String,
+    required: true,
+  },
+  sentBy: {
+    type: String,
+    required: true,
+  },
+  sentAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+MagicLinkReminderSchema.index({ magicLinkId: 1, attempt: 1 }, { unique: true });
+
+export default mongoose.model<IMagicLinkReminder>('MagicLinkReminder', MagicLinkReminderSchema);
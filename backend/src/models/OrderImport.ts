@@ -0,0 +1,97 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// exporting: Shopify is building the bulk result; importing: streaming it into the order store
+export type OrderImportStatus = 'exporting' | 'importing' | 'completed' | 'failed';
+
+/**
+ * One historical order import through a Shopify GraphQL bulk operation. linesProcessed
+ * is a checkpoint into the JSONL result so an interrupted import picks up where it stopped.
+ */
+export interface IOrderImport extends Document {
+  status: OrderImportStatus;
+  bulkOperationId: string;
+  createdAtMin?: Date;
+  startedBy?: string;
+  // Objects Shopify has exported so far (orders and their line items)
+  objectCount: number;
+  resultUrl?: string;
+  linesProcessed: number;
+  ordersProcessed: number;
+  inserted: number;
+  updated: number;
+  // Already stored with the same or a newer updated_at, so left as they were
+  skipped: number;
+  failed: number;
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrderImportSchema = new Schema<IOrderImport>({
+  status: {
+    type: String,
+    enum: ['exporting', 'importing', 'completed', 'failed'],
+    default: 'exporting',
+  },
+  bulkOperationId: {
+    type: String,
+    required: true,
+  },
+  createdAtMin: {
+    type: Date,
+  },
+  startedBy: {
+    type: String,
+  },
+  objectCount: {
+    type: Number,
+    default: 0,
+  },
+  resultUrl: {
+    type: String,
+  },
+  linesProcessed: {
+    type: Number,
+    default: 0,
+  },
+  ordersProcessed: {
+    type: Number,
+    default: 0,
+  },
+  inserted: {
+    type: Number,
+    default: 0,
+  },
+  updated: {
+    type: Number,
+    default: 0,
+  },
+  skipped: {
+    type: Number,
+    default: 0,
+  },
+  failed: {
+    type: Number,
+    default: 0,
+  },
+  error: {
+    type: String,
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  finishedAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+});
+
+OrderImportSchema.index({ startedAt: -1 });
+
+const OrderImport = mongoose.model<IOrderImport>('OrderImport', OrderImportSchema);
+
+export default OrderImport;
@@ -0,0 +1,100 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// In lifecycle order; failed, cancelled and discarded can follow any state
+export const ORDER_LIFECYCLE_STATES = [
+  'placed',
+  'fulfilled',
+  'in_transit',
+  'out_for_delivery',
+  'delivery_attempted',
+  'delivered',
+  'failed',
+  'cancelled',
+  'discarded',
+] as const;
+
+export type OrderLifecycleState = typeof ORDER_LIFECYCLE_STATES[number];
+
+// Where the evidence for a transition came from
+export type OrderStateSource = 'shopify' | 'shiprocket' | 'delivery_date' | 'rto' | 'discarded';
+
+export interface IOrderStateTransition {
+  state: OrderLifecycleState;
+  from?: OrderLifecycleState;
+  at: Date;
+  source: OrderStateSource;
+  details?: string;
+}
+
+/**
+ * Canonical lifecycle state of one Shopify order, derived by orderLifecycleService
+ * from Shopify fulfillments, RTOOrder, DiscardedOrder, OrderDeliveryDate and
+ * ShippingCharge. history only grows when the state changes.
+ */
+export interface IOrderLifecycle extends Document {
+  shopifyOrderId: number;
+  orderName: string;
+  dateKey: string;
+  state: OrderLifecycleState;
+  stateSince: Date;
+  prepaid: boolean;
+  variant: 'small' | 'large';
+  history: IOrderStateTransition[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrderStateTransitionSchema = new Schema<IOrderStateTransition>({
+  state: { type: String, enum: ORDER_LIFECYCLE_STATES, required: true },
+  from: { type: String, enum: ORDER_LIFECYCLE_STATES },
+  at: { type: Date, required: true },
+  source: { type: String, enum: ['shopify', 'shiprocket', 'delivery_date', 'rto', 'discarded'], required: true },
+  details: { type: String },
+}, { _id: false });
+
+const OrderLifecycleSchema = new Schema<IOrderLifecycle>({
+  shopifyOrderId: {
+    type: Number,
+    required: true,
+    unique: true,
+  },
+  orderName: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  dateKey: {
+    type: String,
+    required: true,
+  },
+  state: {
+    type: String,
+    enum: ORDER_LIFECYCLE_STATES,
+    required: true,
+  },
+  stateSince: {
+    type: Date,
+    required: true,
+  },
+  prepaid: {
+    type: Boolean,
+    required: true,
+  },
+  variant: {
+    type: String,
+    enum: ['small', 'large'],
+    required: true,
+  },
+  history: {
+    type: [OrderStateTransitionSchema],
+    default: [],
+  },
+}, {
+  timestamps: true,
+});
+
+OrderLifecycleSchema.index({ dateKey: 1, state: 1 });
+
+const OrderLifecycle = mongoose.model<IOrderLifecycle>('OrderLifecycle', OrderLifecycleSchema);
+
+export default OrderLifecycle;
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type OrderSyncSource = 'scheduled' | 'manual' | 'replay';
+// 'partial' when the run finished but some orders could not be written
+export type OrderSyncRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+// Log of one sync run over an updated_at window
+export interface IOrderSyncRun extends Document {
+  source: OrderSyncSource;
+  runBy?: string;
+  windowStart: Date;
+  windowEnd: Date;
+  status: OrderSyncRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  fetched: number;
+  inserted: number;
+  updated: number;
+  failed: number;
+  error?: string;
+}
+
+const OrderSyncRunSchema = new Schema<IOrderSyncRun>({
+  source: {
+    type: String,
+    enum: ['scheduled', 'manual', 'replay'],
+    required: true,
+  },
+  runBy: {
+    type: String,
+  },
+  windowStart: {
+    type: Date,
+    required: true,
+  },
+  windowEnd: {
+    type: Date,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['running', 'succeeded', 'partial', 'failed'],
+    default: 'running',
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  finishedAt: {
+    type: Date,
+  },
+  fetched: {
+    type: Number,
+    default: 0,
+  },
+  inserted: {
+    type: Number,
+    default: 0,
+  },
+  updated: {
+    type: Number,
+    default: 0,
+  },
+  failed: {
+    type: Number,
+    default: 0,
+  },
+  error: {
+    type: String,
+  },
+});
+
+OrderSyncRunSchema.index({ startedAt: -1 });
+
+const OrderSyncRun = mongoose.model<IOrderSyncRun>('OrderSyncRun', OrderSyncRunSchema);
+
+export default OrderSyncRun;
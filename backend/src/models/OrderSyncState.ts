@@ -0,0 +1,27 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Singleton cursor for the incremental Shopify order sync. Each run asks Shopify for
+ * orders updated since `cursor` and moves it to the newest updated_at it saw.
+ */
+export interface IOrderSyncState extends Document {
+  key: string;
+  cursor?: Date;
+  lastRunAt?: Date;
+  lastSuccessAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const orderSyncStateSchema = new Schema<IOrderSyncState>({
+  key: { type: String, required: true, unique: true, default: 'default' },
+  cursor: { type: Date },
+  lastRunAt: { type: Date },
+  lastSuccessAt: { type: Date },
+  lastError: { type: String },
+}, {
+  timestamps: true
+});
+
+export const OrderSyncState = mongoose.model<IOrderSyncState>('OrderSyncState', orderSyncStateSchema);
@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type PackingEventType = 'scanned' | 'packed';
+
+// One scan or pack at the packing station, by the employee working it
+export interface IPackingEvent extends Document {
+  magicLinkId: mongoose.Types.ObjectId;
+  orderNumber: string;
+  type: PackingEventType;
+  employeeId: mongoose.Types.ObjectId;
+  employeeName: string;
+  adminUser: string;
+  // Checklist items ticked (packed events only)
+  checklist: string[];
+  // Seconds from this employee's last scan of the order to packing it
+  secondsToPack?: number;
+  createdAt: Date;
+}
+
+const PackingEventSchema = new Schema<IPackingEvent>({
+  magicLinkId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MagicLink',
+    required: true,
+  },
+  orderNumber: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: ['scanned', 'packed'],
+    required: true,
+  },
+  employeeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee',
+    required: true,
+  },
+  employeeName: {
+    type: String,
+    required: true,
+  },
+  adminUser: {
+    type: String,
+    required: true,
+  },
+  checklist: {
+    type: [String],
+    default: [],
+  },
+  secondsToPack: {
+    type: Number,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+PackingEventSchema.index({ magicLinkId: 1, createdAt: -1 });
+PackingEventSchema.index({ type: 1, createdAt: -1 });
+// An order is packed once, however many stations try to mark it
+PackingEventSchema.index({ magicLinkId: 1 }, { unique: true, partialFilterExpression: { type: 'packed' } });
+
+export default mongoose.model<IPackingEvent>('PackingEvent', PackingEventSchema);
@@ -0,0 +1,95 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Where a submitted photo order is on the shop floor, in order
+export type ProductionStage =
+  | 'submitted'
+  | 'downloaded'
+  | 'printed'
+  | 'quality_checked'
+  | 'packed'
+  | 'handed_to_courier';
+
+export const PRODUCTION_STAGES: ProductionStage[] = [
+  'submitted',
+  'downloaded',
+  'printed',
+  'quality_checked',
+  'packed',
+  'handed_to_courier',
+];
+
+// One stage an order reached: when, who is working it, and who moved it there
+export interface IProductionStep {
+  stage: ProductionStage;
+  enteredAt: Date;
+  assigneeId?: mongoose.Types.ObjectId;
+  assigneeName?: string;
+  movedBy: string;
+}
+
+// Production workflow for one submitted magic link
+export interface IProductionJob extends Document {
+  magicLinkId: mongoose.Types.ObjectId;
+  orderNumber: string;
+  stage: ProductionStage;
+  stageEnteredAt: Date;
+  steps: IProductionStep[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProductionStepSchema = new Schema<IProductionStep>({
+  stage: {
+    type: String,
+    enum: PRODUCTION_STAGES,
+    required: true,
+  },
+  enteredAt: {
+    type: Date,
+    required: true,
+  },
+  assigneeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee',
+  },
+  assigneeName: {
+    type: String,
+  },
+  movedBy: {
+    type: String,
+    required: true,
+  },
+}, { _id: false });
+
+const ProductionJobSchema = new Schema<IProductionJob>({
+  magicLinkId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MagicLink',
+    required: true,
+    unique: true,
+  },
+  orderNumber: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  stage: {
+    type: String,
+    enum: PRODUCTION_STAGES,
+    default: 'submitted',
+  },
+  stageEnteredAt: {
+    type: Date,
+    default: Date.now,
+  },
+  steps: {
+    type: [ProductionStepSchema],
+    default: [],
+  },
+}, {
+  timestamps: true,
+});
+
+ProductionJobSchema.index({ stage: 1, stageEnteredAt: 1 });
+
+export default mongoose.model<IProductionJob>('ProductionJob', ProductionJobSchema);
@@ -0,0 +1,24 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Singleton settings for the production board.
+ * An order that sits in one stage longer than `staleAfterHours` is flagged;
+ * orders handed to the courier are never flagged.
+ */
+export interface IProductionSettings extends Document {
+  key: string;
+  staleAfterHours: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_STALE_AFTER_HOURS = 24;
+
+const productionSettingsSchema = new Schema<IProductionSettings>({
+  key: { type: String, required: true, unique: true, default: 'default' },
+  staleAfterHours: { type: Number, default: DEFAULT_STALE_AFTER_HOURS, min: 1 },
+}, {
+  timestamps: true
+});
+
+export const ProductionSettings = mongoose.model<IProductionSettings>('ProductionSettings', productionSettingsSchema);
@@ -0,0 +1,25 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Singleton settings for upload reminders.
+ * `delaysHours[0]` is how long after a link is created the first reminder is due;
+ * each later entry is the wait after the previous reminder. A link gets at most
+ * one reminder per entry.
+ */
+export interface IReminderSettings extends Document {
+  key: string;
+  delaysHours: number[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_REMINDER_DELAYS_HOURS = [24, 48, 96];
+
+const reminderSettingsSchema = new Schema<IReminderSettings>({
+  key: { type: String, required: true, unique: true, default: 'default' },
+  delaysHours: { type: [Number], default: DEFAULT_REMINDER_DELAYS_HOURS },
+}, {
+  timestamps: true
+});
+
+export const ReminderSettings = mongoose.model<IReminderSettings>('ReminderSettings', reminderSettingsSchema);
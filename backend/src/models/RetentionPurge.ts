@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RETENTION_TRIGGERS } from './RetentionSettings';
+import type { RetentionTrigger } from './RetentionSettings';
+
+export type RetentionPurgeSource = 'scheduled' | 'manual';
+
+// One link handled by a purge
+export interface IRetentionPurgeItem {
+  magicLinkId: mongoose.Types.ObjectId;
+  orderNumber: string;
+  trigger: RetentionTrigger;
+  anchorDate: Date;
+  imageCount: number;
+  bytesFreed: number;
+  error?: string;
+}
+
+// Record of one retention run and everything it removed
+export interface IRetentionPurge extends Document {
+  source: RetentionPurgeSource;
+  runBy?: string;
+  startedAt: Date;
+  finishedAt: Date;
+  items: IRetentionPurgeItem[];
+  linksPurged: number;
+  linksFailed: number;
+  imagesDeleted: number;
+  bytesFreed: number;
+}
+
+const RetentionPurgeItemSchema = new Schema<IRetentionPurgeItem>({
+  magicLinkId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MagicLink',
+    required: true,
+  },
+  orderNumber: {
+    type: String,
+    required: true,
+  },
+  trigger: {
+    type: String,
+    enum: RETENTION_TRIGGERS,
+    required: true,
+  },
+  anchorDate: {
+    type: Date,
+    required: true,
+  },
+  imageCount: {
+    type: Number,
+    default: 0,
+  },
+  bytesFreed: {
+    type: Number,
+    default: 0,
+  },
+  error: {
+    type: String,
+  },
+}, { _id: false });
+
+const RetentionPurgeSchema = new Schema<IRetentionPurge>({
+  source: {
+    type: String,
+    enum: ['scheduled', 'manual'],
+    required: true,
+  },
+  runBy: {
+    type: String,
+  },
+  startedAt: {
+    type: Date,
+    required: true,
+  },
+  finishedAt: {
+    type: Date,
+    required: true,
+  },
+  items: {
+    type: [RetentionPurgeItemSchema],
+    default: [],
+  },
+  linksPurged: {
+    type: Number,
+    default: 0,
+  },
+  linksFailed: {
+    type: Number,
+    default: 0,
+  },
+  imagesDeleted: {
+    type: Number,
+    default: 0,
+  },
+  bytesFreed: {
+    type: Number,
+    default: 0,
+  },
+});
+
+RetentionPurgeSchema.index({ startedAt: -1 });
+
+export default mongoose.model<IRetentionPurge>('RetentionPurge', RetentionPurgeSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * What starts a retention clock:
+ * - delivered: the shipment's delivery date
+ * - rto: submission date, for orders that came back (RTO)
+ * - submitted: submission date, for any order (catches orders with no delivery data)
+ */
+export type RetentionTrigger = 'delivered' | 'rto' | 'submitted';
+
+export const RETENTION_TRIGGERS: RetentionTrigger[] = ['delivered', 'rto', 'submitted'];
+
+export interface IRetentionRule {
+  trigger: RetentionTrigger;
+  days: number;
+}
+
+/**
+ * Singleton settings for deleting customer photos automatically.
+ * Submitted links are purged once the earliest matching rule is due; the scheduled
+ * job only runs while `enabled` is on.
+ */
+export interface IRetentionSettings extends Document {
+  key: string;
+  enabled: boolean;
+  rules: IRetentionRule[];
+  lastRunAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_RETENTION_RULES: IRetentionRule[] = [
+  { trigger: 'delivered', days: 30 },
+  { trigger: 'rto', days: 60 },
+];
+
+const retentionRuleSchema = new Schema<IRetentionRule>({
+  trigger: { type: String, enum: RETENTION_TRIGGERS, required: true },
+  days: { type: Number, required: true, min: 1 },
+}, { _id: false });
+
+const retentionSettingsSchema = new Schema<IRetentionSettings>({
+  key: { type: String, required: true, unique: true, default: 'default' },
+  enabled: { type: Boolean, default: false },
+  rules: { type: [retentionRuleSchema], default: DEFAULT_RETENTION_RULES },
+  lastRunAt: { type: Date },
+}, {
+  timestamps: true
+});
+
+export const RetentionSettings = mongoose.model<IRetentionSettings>('RetentionSettings', retentionSettingsSchema);
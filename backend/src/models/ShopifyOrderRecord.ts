@@ -0,0 +1,109 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * One Shopify order, trimmed to the fields we use (see orderStoreService.trimOrder).
+ * Field names follow the Shopify REST payload so stored orders can be passed
+ * anywhere a ShopifyOrder is expected. dateKey and orderedAt are derived from
+ * created_at when the order is saved.
+ */
+export interface IShopifyOrderRecord extends Document {
+  id: number;
+  name: string;
+  email?: string;
+  phone?: string | null;
+  created_at: string;
+  createdAt?: string; // Copy of created_at, kept for the frontend
+  updated_at?: string;
+  // updated_at as a date, so copies with different timezone offsets compare correctly
+  shopifyUpdatedAt?: Date;
+  orderedAt: Date;
+  dateKey: string; // YYYY-MM-DD in the store timezone
+  fulfillment_status?: string | null;
+  financial_status?: string | null;
+  cancelled_at?: string | null;
+  total_price?: string;
+  current_total_price?: string;
+  total_price_set?: any;
+  gateway?: string;
+  payment_gateway_names?: string[];
+  tags?: string;
+  customer?: any;
+  line_items: any[];
+  shipping_address?: any;
+  fulfillments: any[];
+  syncedAt: Date;
+}
+
+const ShopifyOrderRecordSchema = new Schema<IShopifyOrderRecord>({
+  id: {
+    type: Number,
+    required: true,
+    unique: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  email: String,
+  phone: String,
+  created_at: {
+    type: String,
+    required: true,
+  },
+  createdAt: String,
+  updated_at: String,
+  shopifyUpdatedAt: Date,
+  orderedAt: {
+    type: Date,
+    required: true,
+  },
+  dateKey: {
+    type: String,
+    required: true,
+  },
+  fulfillment_status: {
+    type: String,
+    default: null,
+  },
+  financial_status: {
+    type: String,
+    default: null,
+  },
+  cancelled_at: {
+    type: String,
+    default: null,
+  },
+  total_price: String,
+  current_total_price: String,
+  total_price_set: Schema.Types.Mixed,
+  gateway: String,
+  payment_gateway_names: [String],
+  tags: String,
+  customer: Schema.Types.Mixed,
+  line_items: {
+    type: Schema.Types.Mixed,
+    default: [],
+  },
+  shipping_address: Schema.Types.Mixed,
+  fulfillments: {
+    type: Schema.Types.Mixed,
+    default: [],
+  },
+  syncedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Analytics read non-cancelled orders by day; listings read newest first
+ShopifyOrderRecordSchema.index({ cancelled_at: 1, dateKey: 1 });
+ShopifyOrderRecordSchema.index({ dateKey: 1 });
+ShopifyOrderRecordSchema.index({ orderedAt: -1 });
+ShopifyOrderRecordSchema.index({ financial_status: 1, orderedAt: -1 });
+ShopifyOrderRecordSchema.index({ fulfillment_status: 1, orderedAt: -1 });
+ShopifyOrderRecordSchema.index({ 'line_items.product_id': 1, orderedAt: -1 });
+
+const ShopifyOrderRecord = mongoose.model<IShopifyOrderRecord>('ShopifyOrderRecord', ShopifyOrderRecordSchema);
+
+export default ShopifyOrderRecord;
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const SHOPIFY_WEBHOOK_TOPICS = ['orders/create', 'orders/updated', 'orders/cancelled', 'fulfillments/update'] as const;
+export type ShopifyWebhookTopic = typeof SHOPIFY_WEBHOOK_TOPICS[number];
+
+export type ShopifyWebhookStatus = 'processing' | 'processed' | 'failed';
+
+// Shopify retries for up to 48 hours; keep ids a while longer so retries are still recognised
+const DELIVERY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * One webhook delivery from Shopify, keyed on X-Shopify-Webhook-Id so that
+ * retries of a delivery we already handled are ignored.
+ */
+export interface IShopifyWebhookDelivery extends Document {
+  webhookId: string;
+  topic: ShopifyWebhookTopic;
+  shopDomain?: string;
+  orderId?: number;
+  orderName?: string;
+  status: ShopifyWebhookStatus;
+  attempts: number;
+  error?: string;
+  receivedAt: Date;
+  processedAt?: Date;
+}
+
+const ShopifyWebhookDeliverySchema = new Schema<IShopifyWebhookDelivery>({
+  webhookId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  topic: {
+    type: String,
+    enum: SHOPIFY_WEBHOOK_TOPICS,
+    required: true,
+  },
+  shopDomain: {
+    type: String,
+  },
+  orderId: {
+    type: Number,
+  },
+  orderName: {
+    type: String,
+  },
+  status: {
+    type: String,
+    enum: ['processing', 'processed', 'failed'],
+    default: 'processing',
+  },
+  attempts: {
+    type: Number,
+    default: 1,
+  },
+  error: {
+    type: String,
+  },
+  receivedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  processedAt: {
+    type: Date,
+  },
+});
+
+ShopifyWebhookDeliverySchema.index({ receivedAt: 1 }, { expireAfterSeconds: DELIVERY_TTL_SECONDS });
+ShopifyWebhookDeliverySchema.index({ orderId: 1, receivedAt: -1 });
+
+const ShopifyWebhookDelivery = mongoose.model<IShopifyWebhookDelivery>('ShopifyWebhookDelivery', ShopifyWebhookDeliverySchema);
+
+export default ShopifyWebhookDelivery;
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITrackingEvent {
+  activity: string;
+  location?: string;
+  date: string;
+}
+
+// Summary of Shiprocket tracking for one AWB, so public pages don't call Shiprocket per view
+export interface ITrackingCache extends Document {
+  awbCode: string;
+  currentStatus?: string;
+  latestEvent?: ITrackingEvent;
+  deliveredDate?: string;
+  estimatedDelivery?: string;
+  fetchedAt: Date;
+}
+
+const TrackingCacheSchema = new Schema<ITrackingCache>({
+  awbCode: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+  },
+  currentStatus: {
+    type: String,
+  },
+  latestEvent: {
+    _id: false,
+    activity: String,
+    location: String,
+    date: String,
+  },
+  deliveredDate: {
+    type: String,
+  },
+  estimatedDelivery: {
+    type: String,
+  },
+  fetchedAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+const TrackingCache = mongoose.model<ITrackingCache>('TrackingCache', TrackingCacheSchema);
+
+export default TrackingCache;
@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { PhotoSize, PhotoType } from './UploadedImage';
+
+// 'completing' is held by the one request assembling the parts, so a concurrent retry can't record the photo twice
+export type UploadSessionStatus = 'pending' | 'completing' | 'completed' | 'aborted';
+
+export interface IUploadSession extends Document {
+  magicLinkId: mongoose.Types.ObjectId;
+  orderNumber: string;
+  uploadId: string; // Storage multipart upload ID
+  s3Key: string;
+  fileName: string;
+  originalName: string;
+  fileSize: number;
+  mimeType: string;
+  photoSize: PhotoSize;
+  photoType: PhotoType;
+  partSize: number;
+  totalParts: number;
+  status: UploadSessionStatus;
+  completingAt?: Date;
+  // Set once storage has joined the parts; the multipart upload ID is used up from then on
+  assembledAt?: Date;
+  uploadedImageId?: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UploadSessionSchema = new Schema<IUploadSession>(
+  {
+    magicLinkId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MagicLink',
+      required: true,
+      index: true,
+    },
+    orderNumber: {
+      type: String,
+      required: true,
+    },
+    uploadId: {
+      type: String,
+      required: true,
+    },
+    s3Key: {
+      type: String,
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    originalName: {
+      type: String,
+      required: true,
+    },
+    fileSize: {
+      type: Number,
+      required: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    photoSize: {
+      type: String,
+      enum: ['large', 'small'],
+      required: true,
+    },
+    photoType: {
+      type: String,
+      enum: ['normal', 'polaroid'],
+      required: true,
+    },
+    partSize: {
+      type: Number,
+      required: true,
+    },
+    totalParts: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'completing', 'completed', 'aborted'],
+      default: 'pending',
+    },
+    completingAt: {
+      type: Date,
+    },
+    assembledAt: {
+      type: Date,
+    },
+    uploadedImageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'UploadedImage',
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Stale sessions are dropped automatically; the S3 bucket lifecycle rule cleans up the orphaned parts
+UploadSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IUploadSession>('UploadSession', UploadSessionSchema);
@@ -2,6 +2,42 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 export type PhotoSize = 'large' | 'small';
 export type PhotoType = 'normal' | 'polaroid';
+export type QualityVerdict = 'ok' | 'warn' | 'reject';
+
+export type CropRotation = 0 | 90 | 180 | 270;
+
+export const MAX_CAPTION_LENGTH = 40;
+export const MAX_REJECTION_REASON_LENGTH = 300;
+
+// Crop box as fractions (0-1) of the print JPEG after `rotation` is applied
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: CropRotation;
+  updatedAt: Date;
+}
+
+export interface ImageQuality {
+  verdict: QualityVerdict;
+  reason?: string;
+  width: number;
+  height: number;
+  effectiveDpi: number;
+  hasExif: boolean;
+  cameraModel?: string;
+  checkedAt: Date;
+}
+
+// Set when an admin sends a photo back to the customer during review
+export interface ImageRejection {
+  reason: string;
+  rejectedAt: Date;
+  rejectedBy?: mongoose.Types.ObjectId;
+  // When the customer uploaded a replacement
+  replacedAt?: Date;
+}
 
 export interface IUploadedImage extends Document {
   magicLinkId: mongoose.Types.ObjectId;
@@ -14,6 +50,23 @@ export interface IUploadedImage extends Document {
   mimeType: string;
   photoSize: PhotoSize;
   photoType: PhotoType;
+  copies: number;
+  quality?: ImageQuality;
+  // Derivatives: print-ready JPEG (rotated, metadata stripped) and preview thumbnail
+  printKey?: string;
+  printUrl?: string;
+  printWidth?: number;
+  printHeight?: number;
+  thumbnailKey?: string;
+  thumbnailUrl?: string;
+  processedAt?: Date;
+  processingError?: string;
+  crop?: ImageCrop;
+  // Handwritten-style text printed in the bottom margin of polaroids
+  caption?: string;
+  // dHash of the photo, used to spot the same shot uploaded twice
+  perceptualHash?: string;
+  rejection?: ImageRejection;
   uploadedAt: Date;
 }
 
@@ -64,6 +117,76 @@ const UploadedImageSchema = new Schema<IUploadedImage>(
       enum: ['normal', 'polaroid'],
       required: true,
     },
+    copies: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    quality: {
+      verdict: {
+        type: String,
+        enum: ['ok', 'warn', 'reject'],
+      },
+      reason: String,
+      width: Number,
+      height: Number,
+      effectiveDpi: Number,
+      hasExif: Boolean,
+      cameraModel: String,
+      checkedAt: Date,
+    },
+    printKey: {
+      type: String,
+    },
+    printUrl: {
+      type: String,
+    },
+    printWidth: {
+      type: Number,
+    },
+    printHeight: {
+      type: Number,
+    },
+    thumbnailKey: {
+      type: String,
+    },
+    thumbnailUrl: {
+      type: String,
+    },
+    processedAt: {
+      type: Date,
+    },
+    processingError: {
+      type: String,
+    },
+    crop: {
+      x: Number,
+      y: Number,
+      width: Number,
+      height: Number,
+      rotation: {
+        type: Number,
+        enum: [0, 90, 180, 270],
+      },
+      updatedAt: Date,
+    },
+    caption: {
+      type: String,
+      trim: true,
+      maxlength: MAX_CAPTION_LENGTH,
+    },
+    perceptualHash: {
+      type: String,
+    },
+    rejection: {
+      reason: String,
+      rejectedAt: Date,
+      rejectedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'SuperUser',
+      },
+      replacedAt: Date,
+    },
     uploadedAt: {
       type: Date,
       default: Date.now,
@@ -1,7 +1,15 @@
 export { default as SuperUser, ISuperUser } from './SuperUser';
 export { default as CodAddedCity, ICodAddedCity } from './CodAddedCity';
-export { default as MagicLink, IMagicLink } from './MagicLink';
+export { default as MagicLink, IMagicLink, IPrintAllowance } from './MagicLink';
 export { default as UploadedImage, IUploadedImage } from './UploadedImage';
+export { default as UploadSession, IUploadSession } from './UploadSession';
+export { default as MagicLinkEvent, IMagicLinkEvent } from './MagicLinkEvent';
+export { default as BlockedUploadAttempt, IBlockedUploadAttempt } from './BlockedUploadAttempt';
+export { default as MagicLinkOutreach, IMagicLinkOutreach } from './MagicLinkOutreach';
+export { default as MagicLinkReminder, IMagicLinkReminder } from './MagicLinkReminder';
+export { default as RetentionPurge, IRetentionPurge } from './RetentionPurge';
+export { default as ProductionJob, IProductionJob } from './ProductionJob';
+export { default as PackingEvent, IPackingEvent } from './PackingEvent';
 export { ExpenseSource, IExpenseSource } from './ExpenseSource';
 export { MetaAdsExpense, IMetaAdsExpense } from './MetaAdsExpense';
 export { default as DiscardedOrder, IDiscardedOrder } from './DiscardedOrder';
@@ -9,12 +17,19 @@ export { default as RTOOrder, IRTOOrder } from './RTOOrder';
 export { COGSConfiguration } from './COGSConfiguration';
 export { DailyAdSpend } from './DailyAdSpend';
 export { default as ShopifyOrderCache, IShopifyOrderCache } from './ShopifyOrderCache';
+export { default as ShopifyOrderRecord, IShopifyOrderRecord } from './ShopifyOrderRecord';
+export { default as OrderSyncRun, IOrderSyncRun } from './OrderSyncRun';
+export { default as OrderImport, IOrderImport } from './OrderImport';
+export { default as OrderLifecycle, IOrderLifecycle } from './OrderLifecycle';
+export { default as Customer, ICustomer } from './Customer';
+export { default as ShopifyWebhookDelivery, IShopifyWebhookDelivery } from './ShopifyWebhookDelivery';
 export { BankCategory, IBankCategory } from './BankCategory';
 export { BankTransaction, IBankTransaction } from './BankTransaction';
 export { BankNarrationRule, IBankNarrationRule } from './BankNarrationRule';
 export { default as Ticket } from './Ticket';
 export { default as ProfitPrediction } from './ProfitPrediction';
 export { default as ShippingCharge } from './ShippingCharge';
+export { default as TrackingCache, ITrackingCache } from './TrackingCache';
 export { default as OrderDeliveryDate } from './OrderDeliveryDate';
 export { MetaAdPerformance, IMetaAdPerformance, MetaAdAnalysis, IMetaAdAnalysis } from './MetaAdPerformance';
 export { default as AcknowledgedOrder, IAcknowledgedOrder } from './AcknowledgedOrder';
@@ -35,3 +50,7 @@ export { FixedMonthlyExpense, IFixedMonthlyExpense } from './FixedMonthlyExpense
 export { Reel, IReel } from './Reel';
 export { ReelStrategy, IReelStrategy } from './ReelStrategy';
 export { AgencySettings, IAgencySettings } from './AgencySettings';
+export { ReminderSettings, IReminderSettings } from './ReminderSettings';
+export { RetentionSettings, IRetentionSettings } from './RetentionSettings';
+export { ProductionSettings, IProductionSettings } from './ProductionSettings';
+export { OrderSyncState, IOrderSyncState } from './OrderSyncState';
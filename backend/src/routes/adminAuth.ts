@@ -21,7 +21,12 @@ export function requireAdmin(req: AuthenticatedRequest, res: Response, next: Nex
     const token = authHeader.split(' ')[1];
     
     try {
-      const decoded = jwt.verify(token, config.jwt.secret) as AdminJwtPayload;
+      const decoded = jwt.verify(token, config.jwt.secret) as Partial<AdminJwtPayload> & { scope?: string };
+      // Only admin sessions carry a userId; anything else signed with the secret is not a login
+      if (!decoded.userId || !decoded.email || decoded.scope === 'upload') {
+        res.status(401).json({ success: false, error: 'Invalid or expired token' });
+        return;
+      }
       req.user = {
         userId: decoded.userId,
         email: decoded.email,
@@ -0,0 +1,87 @@
+import { Router, Response } from 'express';
+import { requireAdmin } from './adminAuth';
+import {
+  getCustomers,
+  getCustomerProfile,
+  getRepeatPurchaseReport,
+  rebuildCustomers,
+  CustomerRebuildInProgressError,
+} from '../services/customerService';
+import type { CustomerSort } from '../services/customerService';
+import type { AuthenticatedRequest } from '../types';
+
+const router = Router();
+
+const MAX_LIST_LIMIT = 200;
+const CUSTOMER_SORTS: CustomerSort[] = ['ltv', 'orders', 'recent'];
+
+/**
+ * GET /api/admin/customers
+ * Customers matching a phone, email or name (query: search, sort=ltv|orders|recent, limit)
+ */
+router.get('/', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const search = typeof req.query.search === 'string' ? req.query.search : '';
+    const sort = CUSTOMER_SORTS.includes(req.query.sort as CustomerSort) ? req.query.sort as CustomerSort : 'ltv';
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), MAX_LIST_LIMIT);
+
+    const customers = await getCustomers(search, sort, limit);
+    res.json({ success: true, customers });
+  } catch (error) {
+    console.error('Error fetching customers:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch customers' });
+  }
+});
+
+/**
+ * GET /api/admin/customers/repeat-purchase
+ * Repeat rate overall, by number of orders and by first-order month (query: months, default 12)
+ */
+router.get('/repeat-purchase', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const months = Math.min(Math.max(parseInt(req.query.months as string, 10) || 12, 1), 36);
+    const report = await getRepeatPurchaseReport(months);
+    res.json({ success: true, report });
+  } catch (error) {
+    console.error('Error fetching repeat purchase report:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch repeat purchase report' });
+  }
+});
+
+/**
+ * POST /api/admin/customers/rebuild
+ * Rebuild the customer collection now instead of waiting for the schedule
+ */
+router.post('/rebuild', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await rebuildCustomers();
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof CustomerRebuildInProgressError) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error rebuilding customers:', error);
+    res.status(500).json({ success: false, error: 'Failed to rebuild customers' });
+  }
+});
+
+/**
+ * GET /api/admin/customers/:id
+ * A customer's profile: orders, abandoned checkouts, tickets and RTO marks
+ */
+router.get('/:id', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const profile = await getCustomerProfile(req.params.id as string);
+    if (!profile) {
+      res.status(404).json({ success: false, error: 'Customer not found' });
+      return;
+    }
+    res.json({ success: true, ...profile });
+  } catch (error) {
+    console.error('Error fetching customer:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch customer' });
+  }
+});
+
+export default router;
@@ -3,6 +3,7 @@ import multer from 'multer';
 import csv from 'csv-parser';
 import { Readable } from 'stream';
 import OrderDeliveryDate from '../models/OrderDeliveryDate';
+import { refreshOrderLifecyclesByName } from '../services/orderLifecycleService';
 import { requireAdmin } from './adminAuth';
 import type { AuthenticatedRequest } from '../types';
 
@@ -87,6 +88,8 @@ router.post('/upload', requireAdmin, upload.single('csv'), async (req: Authentic
 
           if (bulkOps.length > 0) {
             await OrderDeliveryDate.bulkWrite(bulkOps as any);
+            // Delivery dates settle orders the courier status hasn't caught up with
+            refreshOrderLifecyclesByName(results.map(r => r.orderNumber)).catch(console.error);
           }
 
           res.json({
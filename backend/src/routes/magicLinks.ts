@@ -1,4 +1,5 @@
 import { Router, Response } from 'express';
+import mongoose from 'mongoose';
 import { requireAdmin } from './adminAuth';
 import magicLinkService from '../services/magicLinkService';
 import shopifyService from '../services/shopifyService';
@@ -6,11 +7,58 @@ import shiprocketService from '../services/shiprocketService';
 import aiService from '../services/aiService';
 import type { AuthenticatedRequest } from '../types';
 import config from '../config';
-import { UploadedImage } from '../models';
+import { UploadedImage, MagicLink, RetentionPurge } from '../models';
+import type { IMagicLink, IPrintAllowance } from '../models';
 import OrderDeliveryDate from '../models/OrderDeliveryDate';
 import ShippingCharge from '../models/ShippingCharge';
-import { S3Client, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
-import { fromInstanceMetadata } from '@aws-sdk/credential-provider-imds';
+import { renderPrintFile } from '../services/printRenderService';
+import { buildPrintSheetPdf, getOrderCode } from '../services/printSheetService';
+import { findDuplicatePairs } from '../services/duplicateDetectionService';
+import { rejectPhoto } from '../services/photoReviewService';
+import { getImageUrls } from '../services/storage';
+import { getLinkPin, getBlockedAttempts } from '../services/uploadGuardService';
+import { getOutreachQueue, markOutreach, getOutreachTemplate, saveOutreachTemplate } from '../services/magicLinkOutreachService';
+import {
+  getFollowUpQueue,
+  getFunnelMetrics,
+  getReminderDelays,
+  saveReminderDelays,
+  getReminderTemplate,
+  saveReminderTemplate,
+  recordReminderSent,
+} from '../services/reminderService';
+import {
+  getRetentionConfig,
+  saveRetentionConfig,
+  getRetentionReport,
+  runRetentionPurge,
+  getRetentionPurges,
+  deleteLinkImages,
+  PurgeInProgressError,
+} from '../services/retentionService';
+import { markDownloaded } from '../services/productionService';
+import {
+  runOrderSync,
+  replayOrderWindow,
+  validateReplayWindow,
+  getOrderSyncHealth,
+  SyncInProgressError,
+} from '../services/orderSyncService';
+import {
+  startOrderImport,
+  resumeOrderImport,
+  getOrderImports,
+  ImportInProgressError,
+} from '../services/orderImportService';
+import type { IBlockedUploadAttempt, IMagicLinkOutreach } from '../models';
+import {
+  parseAllowances,
+  checkAllowancesCoverUsage,
+  checkAllowancesFilled,
+  getLinkAllowances,
+  describeAllowance,
+} from '../services/printAllowanceService';
+import { MAX_REJECTION_REASON_LENGTH } from '../models/UploadedImage';
 import { Ticket } from '../models';
 import archiver from 'archiver';
 import { recomputeShippingForDate, getOrderDateKey as getShippingOrderDateKey, backfillShippingStats } from '../services/shippingStatsService';
@@ -19,6 +67,59 @@ import { backfillDailyPnl } from '../services/dailyPnlService';
 
 const router = Router();
 
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+function toLinkInfo(link: IMagicLink) {
+  return {
+    id: link._id,
+    token: link.token,
+    orderNumber: link.orderNumber,
+    customerName: link.customerName,
+    customerEmail: link.customerEmail,
+    customerPhone: link.customerPhone,
+    maxUploads: link.maxUploads,
+    allowances: link.allowances,
+    currentUploads: link.currentUploads,
+    expiresAt: link.expiresAt,
+    isActive: link.isActive,
+    imagesDeleted: link.imagesDeleted,
+    imagesDeletedAt: link.imagesDeletedAt,
+    submittedForPrinting: link.submittedForPrinting || false,
+    submittedAt: link.submittedAt,
+    reopenedAt: link.reopenedAt,
+    pinRequired: link.pinRequired || false,
+    // Shown to admins so they can tell a customer who is stuck
+    pin: getLinkPin(link),
+    createdAt: link.createdAt,
+    uploadUrl: `${config.frontendUrl}/upload/${link.token}`,
+  };
+}
+
+const toBlockedAttemptInfo = (attempt: IBlockedUploadAttempt) => ({
+  id: attempt._id,
+  reason: attempt.reason,
+  ip: attempt.ip,
+  tokenHint: attempt.tokenHint,
+  orderNumber: attempt.orderNumber,
+  method: attempt.method,
+  path: attempt.path,
+  details: attempt.details,
+  createdAt: attempt.createdAt,
+});
+
+const toOutreachInfo = (entry: IMagicLinkOutreach) => ({
+  id: entry._id,
+  magicLinkId: entry.magicLinkId,
+  orderNumber: entry.orderNumber,
+  customerName: entry.customerName,
+  customerPhone: entry.customerPhone,
+  message: entry.message,
+  status: entry.status,
+  handledAt: entry.handledAt,
+  handledBy: entry.handledBy,
+  createdAt: entry.createdAt,
+});
+
 /**
  * GET /api/admin/magic-links/tickets
  */
@@ -156,22 +257,7 @@ router.get('/', requireAdmin, async (req: AuthenticatedRequest, res: Response) =
 
     res.json({
       success: true,
-      links: links.map(link => ({
-        id: link._id,
-        token: link.token,
-        orderNumber: link.orderNumber,
-        customerName: link.customerName,
-        customerEmail: link.customerEmail,
-        customerPhone: link.customerPhone,
-        maxUploads: link.maxUploads,
-        currentUploads: link.currentUploads,
-        expiresAt: link.expiresAt,
-        isActive: link.isActive,
-        imagesDeleted: link.imagesDeleted,
-        imagesDeletedAt: link.imagesDeletedAt,
-        createdAt: link.createdAt,
-        uploadUrl: `${config.frontendUrl}/upload/${link.token}`,
-      })),
+      links: links.map(toLinkInfo),
       pagination: {
         page,
         limit,
@@ -185,6 +271,330 @@ router.get('/', requireAdmin, async (req: AuthenticatedRequest, res: Response) =
   }
 });
 
+/**
+ * GET /api/admin/magic-links/blocked-attempts
+ * Recent requests the public upload API refused (rate limits, bad files, wrong PINs)
+ */
+router.get('/blocked-attempts', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const attempts = await getBlockedAttempts();
+    res.json({ success: true, attempts: attempts.map(toBlockedAttemptInfo) });
+  } catch (error) {
+    console.error('Error fetching blocked upload attempts:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch blocked attempts' });
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/outreach
+ * Links created automatically from synced orders that still need sending (?status=sent|skipped for history)
+ */
+router.get('/outreach', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const status = req.query.status;
+    if (status !== undefined && !['pending', 'sent', 'skipped'].includes(status as string)) {
+      res.status(400).json({ success: false, error: 'Invalid status' });
+      return;
+    }
+
+    const entries = await getOutreachQueue((status as 'pending' | 'sent' | 'skipped') || 'pending');
+    res.json({ success: true, outreach: entries.map(toOutreachInfo) });
+  } catch (error) {
+    console.error('Error fetching outreach queue:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch outreach queue' });
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/outreach/template
+ * WhatsApp message used for new links ([name], [order], [link] and [prints] are filled in)
+ */
+router.get('/outreach/template', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ success: true, message: await getOutreachTemplate() });
+  } catch (error) {
+    console.error('Error fetching outreach template:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch template' });
+  }
+});
+
+/**
+ * POST /api/admin/magic-links/outreach/template
+ * Save the WhatsApp message used for new links
+ */
+router.post('/outreach/template', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { message } = req.body;
+    if (typeof message !== 'string' || !message.trim()) {
+      res.status(400).json({ success: false, error: 'Message is required' });
+      return;
+    }
+    if (!/\[link\]/i.test(message)) {
+      res.status(400).json({ success: false, error: 'The message must include [link]' });
+      return;
+    }
+
+    await saveOutreachTemplate(message);
+    res.json({ success: true, message });
+  } catch (error) {
+    console.error('Error saving outreach template:', error);
+    res.status(500).json({ success: false, error: 'Failed to save template' });
+  }
+});
+
+/**
+ * PATCH /api/admin/magic-links/outreach/:id
+ * Mark a queued link as sent or skipped (body: { status })
+ */
+router.patch('/outreach/:id', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { status } = req.body;
+
+    if (status !== 'sent' && status !== 'skipped') {
+      res.status(400).json({ success: false, error: 'Status must be sent or skipped' });
+      return;
+    }
+
+    if (!mongoose.isValidObjectId(id)) {
+      res.status(404).json({ success: false, error: 'Outreach entry not found' });
+      return;
+    }
+
+    const entry = await markOutreach(id, status, req.user!.email);
+    if (!entry) {
+      res.status(404).json({ success: false, error: 'Outreach entry not found' });
+      return;
+    }
+
+    res.json({ success: true, outreach: toOutreachInfo(entry) });
+  } catch (error) {
+    console.error('Error updating outreach entry:', error);
+    res.status(500).json({ success: false, error: 'Failed to update outreach entry' });
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/follow-ups
+ * Unfinished links whose next reminder is due, with the message ready to send
+ */
+router.get('/follow-ups', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const [queue, delaysHours] = await Promise.all([getFollowUpQueue(), getReminderDelays()]);
+
+    res.json({
+      success: true,
+      delaysHours,
+      followUps: queue.map(entry => ({
+        token: entry.magicLink.token,
+        orderNumber: entry.magicLink.orderNumber,
+        customerName: entry.magicLink.customerName,
+        customerPhone: entry.magicLink.customerPhone,
+        currentUploads: entry.magicLink.currentUploads,
+        maxUploads: entry.magicLink.maxUploads,
+        linkCreatedAt: entry.magicLink.createdAt,
+        stage: entry.stage,
+        attempt: entry.attempt,
+        dueAt: entry.dueAt,
+        lastReminderAt: entry.lastReminderAt,
+        message: entry.message,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching follow-up queue:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch follow-up queue' });
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/follow-ups/funnel
+ * Upload completion funnel for links created in the last ?days= days (default 30)
+ */
+router.get('/follow-ups/funnel', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const daysParam = req.query.days;
+    const days = parseInt(typeof daysParam === 'string' ? daysParam : '30', 10) || 30;
+    if (days < 1 || days > 365) {
+      res.status(400).json({ success: false, error: 'days must be between 1 and 365' });
+      return;
+    }
+
+    res.json({ success: true, funnel: await getFunnelMetrics(days) });
+  } catch (error) {
+    console.error('Error fetching upload funnel:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch upload funnel' });
+  }
+});
+
+/**
+ * PUT /api/admin/magic-links/follow-ups/settings
+ * Set the reminder delays in hours (body: { delaysHours })
+ */
+router.put('/follow-ups/settings', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validationError = await saveReminderDelays(req.body.delaysHours);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+
+    res.json({ success: true, delaysHours: await getReminderDelays() });
+  } catch (error) {
+    console.error('Error saving reminder settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to save reminder settings' });
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/follow-ups/template
+ * WhatsApp reminder message ([name], [order], [link], [prints], [uploaded] and [remaining] are filled in)
+ */
+router.get('/follow-ups/template', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ success: true, message: await getReminderTemplate() });
+  } catch (error) {
+    console.error('Error fetching reminder template:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch template' });
+  }
+});
+
+/**
+ * POST /api/admin/magic-links/follow-ups/template
+ * Save the WhatsApp reminder message
+ */
+router.post('/follow-ups/template', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { message } = req.body;
+    if (typeof message !== 'string' || !message.trim()) {
+      res.status(400).json({ success: false, error: 'Message is required' });
+      return;
+    }
+    if (!/\[link\]/i.test(message)) {
+      res.status(400).json({ success: false, error: 'The message must include [link]' });
+      return;
+    }
+
+    await saveReminderTemplate(message);
+    res.json({ success: true, message });
+  } catch (error) {
+    console.error('Error saving reminder template:', error);
+    res.status(500).json({ success: false, error: 'Failed to save template' });
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/retention
+ * Photo retention settings and recent purges
+ */
+router.get('/retention', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const [settings, purges] = await Promise.all([getRetentionConfig(), getRetentionPurges()]);
+    res.json({ success: true, settings, purges });
+  } catch (error) {
+    console.error('Error fetching retention settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch retention settings' });
+  }
+});
+
+/**
+ * PUT /api/admin/magic-links/retention/settings
+ * Save the retention rules and turn the scheduled job on or off (body: { enabled, rules })
+ */
+router.put('/retention/settings', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validationError = await saveRetentionConfig(req.body.enabled, req.body.rules);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+
+    console.log(`Retention settings updated by ${req.user!.email}`);
+    res.json({ success: true, settings: await getRetentionConfig() });
+  } catch (error) {
+    console.error('Error saving retention settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to save retention settings' });
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/retention/preview
+ * Dry run: links whose photos the saved rules would delete now, and the storage freed
+ */
+router.get('/retention/preview', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const report = await getRetentionReport();
+
+    res.json({
+      success: true,
+      generatedAt: report.generatedAt,
+      totalLinks: report.candidates.length,
+      totalImages: report.totalImages,
+      totalBytes: report.totalBytes,
+      candidates: report.candidates.map(candidate => ({
+        token: candidate.magicLink.token,
+        orderNumber: candidate.magicLink.orderNumber,
+        customerName: candidate.magicLink.customerName,
+        trigger: candidate.trigger,
+        anchorDate: candidate.anchorDate,
+        dueAt: candidate.dueAt,
+        imageCount: candidate.imageCount,
+        bytes: candidate.bytes,
+      })),
+    });
+  } catch (error) {
+    console.error('Error building retention preview:', error);
+    res.status(500).json({ success: false, error: 'Failed to build retention preview' });
+  }
+});
+
+/**
+ * POST /api/admin/magic-links/retention/purge
+ * Run the retention rules now and record what was removed
+ */
+router.post('/retention/purge', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const purge = await runRetentionPurge('manual', req.user!.email);
+    if (!purge) {
+      res.json({ success: true, purge: null, message: 'Nothing is due for deletion' });
+      return;
+    }
+
+    res.json({ success: true, purge });
+  } catch (error) {
+    if (error instanceof PurgeInProgressError) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error running retention purge:', error);
+    res.status(500).json({ success: false, error: 'Failed to run purge' });
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/retention/purges/:id
+ * One purge with every link it handled
+ */
+router.get('/retention/purges/:id', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ success: false, error: 'Invalid purge id' });
+      return;
+    }
+
+    const purge = await RetentionPurge.findById(id);
+    if (!purge) {
+      res.status(404).json({ success: false, error: 'Purge not found' });
+      return;
+    }
+
+    res.json({ success: true, purge });
+  } catch (error) {
+    console.error('Error fetching retention purge:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch purge' });
+  }
+});
+
 /**
  * POST /api/admin/magic-links
  * Create a new magic link
@@ -201,57 +611,402 @@ router.post('/', requireAdmin, async (req: AuthenticatedRequest, res: Response)
     // Get order from Shopify to determine max uploads from variant
     let orderId: string | undefined;
     let maxUploads = 25; // Default fallback
+    let allowances: IPrintAllowance[] = [];
+
+    try {
+      const order = await shopifyService.findOrderByNumber(orderNumber);
+      if (order) {
+        orderId = String(order.id);
+        // Get max uploads from the variant (12, 15, 20, or 25)
+        maxUploads = shopifyService.getMaxUploadsForOrder(order);
+        // Per size/style breakdown when the order mixes print variants
+        allowances = shopifyService.getPrintAllowancesForOrder(order);
+      }
+    } catch (e) {
+      console.warn('Could not verify order in Shopify:', e);
+    }
+
+    const magicLink = await magicLinkService.createMagicLink({
+      orderNumber,
+      orderId,
+      customerName,
+      customerEmail,
+      customerPhone,
+      maxUploads,
+      allowances,
+      expiresInDays: expiresInDays || 30,
+      createdBy: req.user!.userId,
+    });
+
+    await magicLinkService.recordEvent(magicLink, 'created', {
+      actor: 'admin',
+      adminUser: req.user!.email,
+      details: `${maxUploads} prints, expires ${formatDate(magicLink.expiresAt)}`,
+    });
+
+    res.status(201).json({
+      success: true,
+      magicLink: {
+        id: magicLink._id,
+        token: magicLink.token,
+        orderNumber: magicLink.orderNumber,
+        customerName: magicLink.customerName,
+        maxUploads: magicLink.maxUploads,
+        currentUploads: magicLink.currentUploads,
+        isActive: magicLink.isActive,
+        imagesDeleted: magicLink.imagesDeleted,
+        expiresAt: magicLink.expiresAt,
+        uploadUrl: `${config.frontendUrl}/upload/${magicLink.token}`,
+      },
+    });
+  } catch (error) {
+    console.error('Error creating magic link:', error);
+    res.status(500).json({ success: false, error: 'Failed to create magic link' });
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/:token
+ * Get a specific magic link
+ */
+router.get('/:token', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const magicLink = await magicLinkService.findByToken(token);
+
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      magicLink: {
+        id: magicLink._id,
+        token: magicLink.token,
+        orderNumber: magicLink.orderNumber,
+        customerName: magicLink.customerName,
+        customerEmail: magicLink.customerEmail,
+        customerPhone: magicLink.customerPhone,
+        maxUploads: magicLink.maxUploads,
+        currentUploads: magicLink.currentUploads,
+        expiresAt: magicLink.expiresAt,
+        isActive: magicLink.isActive,
+        createdAt: magicLink.createdAt,
+        uploadUrl: `${config.frontendUrl}/upload/${magicLink.token}`,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching magic link:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch magic link' });
+  }
+});
+
+/**
+ * DELETE /api/admin/magic-links/:token
+ * Deactivate a magic link
+ */
+router.delete('/:token', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const magicLink = await magicLinkService.findByToken(token);
+    await magicLinkService.deactivate(token);
+    if (magicLink) {
+      await magicLinkService.recordEvent(magicLink, 'deactivated', { actor: 'admin', adminUser: req.user!.email });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deactivating magic link:', error);
+    res.status(500).json({ success: false, error: 'Failed to deactivate magic link' });
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/:token/events
+ * History of a magic link: created, opened, uploads, submissions, admin changes
+ */
+router.get('/:token/events', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const magicLink = await magicLinkService.findByToken(token);
+
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    const events = await magicLinkService.getEvents(magicLink);
+
+    res.json({
+      success: true,
+      magicLink: toLinkInfo(magicLink),
+      events: events.map(event => ({
+        id: event._id,
+        type: event.type,
+        actor: event.actor,
+        adminUser: event.adminUser,
+        details: event.details,
+        createdAt: event.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching magic link events:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch link history' });
+  }
+});
+
+/**
+ * PATCH /api/admin/magic-links/:token/expiry
+ * Extend (or shorten) how long the link works (body: { expiresAt } or { extendDays })
+ */
+router.patch('/:token/expiry', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const { expiresAt, extendDays } = req.body;
+    const magicLink = await magicLinkService.findByToken(token);
+
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    let newExpiry: Date;
+    if (extendDays !== undefined) {
+      if (!Number.isInteger(extendDays) || extendDays < 1) {
+        res.status(400).json({ success: false, error: 'extendDays must be a whole number of at least 1' });
+        return;
+      }
+      // Extend from now if the link has already lapsed, so the customer actually gets the days
+      const base = Math.max(magicLink.expiresAt.getTime(), Date.now());
+      newExpiry = new Date(base + extendDays * 24 * 60 * 60 * 1000);
+    } else {
+      newExpiry = new Date(expiresAt);
+      if (!expiresAt || isNaN(newExpiry.getTime())) {
+        res.status(400).json({ success: false, error: 'Provide expiresAt or extendDays' });
+        return;
+      }
+    }
+
+    if (newExpiry.getTime() <= Date.now()) {
+      res.status(400).json({ success: false, error: 'The new expiry must be in the future' });
+      return;
+    }
+
+    const previousExpiry = magicLink.expiresAt;
+    await magicLinkService.extendExpiry(magicLink, newExpiry);
+    await magicLinkService.recordEvent(magicLink, 'expiry_extended', {
+      actor: 'admin',
+      adminUser: req.user!.email,
+      details: `${formatDate(previousExpiry)} → ${formatDate(newExpiry)}`,
+    });
+
+    res.json({ success: true, magicLink: toLinkInfo(magicLink) });
+  } catch (error) {
+    console.error('Error extending magic link:', error);
+    res.status(500).json({ success: false, error: 'Failed to extend magic link' });
+  }
+});
+
+/**
+ * POST /api/admin/magic-links/:token/reopen
+ * Unlock a submitted, deactivated or expired link. Submitted photos stay locked unless
+ * body.unlockPhotos is true; an expired link gets a fresh expiry date.
+ */
+router.post('/:token/reopen', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const magicLink = await magicLinkService.findByToken(token);
+
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    if (magicLink.imagesDeleted) {
+      res.status(400).json({ success: false, error: 'Images for this order have been deleted' });
+      return;
+    }
+
+    const unlockPhotos = req.body?.unlockPhotos === true;
+    const isExpired = magicLink.expiresAt < new Date();
+    const isLocked = magicLink.submittedForPrinting || (unlockPhotos && !!magicLink.reopenedAt);
+    if (magicLink.isActive && !isExpired && !isLocked) {
+      res.status(400).json({ success: false, error: 'This link is already open' });
+      return;
+    }
+
+    const wasSubmitted = magicLink.submittedForPrinting;
+    const previousExpiry = magicLink.expiresAt;
+    await magicLinkService.reopen(magicLink, { unlockPhotos });
+
+    const details = [wasSubmitted ? 'Unlocked after submission' : 'Reactivated'];
+    if (unlockPhotos) details.push('all photos editable');
+    if (magicLink.expiresAt.getTime() !== previousExpiry.getTime()) {
+      details.push(`expiry ${formatDate(previousExpiry)} → ${formatDate(magicLink.expiresAt)}`);
+    }
+    await magicLinkService.recordEvent(magicLink, 'reopened', {
+      actor: 'admin',
+      adminUser: req.user!.email,
+      details: details.join(', '),
+    });
+
+    res.json({ success: true, magicLink: toLinkInfo(magicLink) });
+  } catch (error) {
+    console.error('Error reopening magic link:', error);
+    res.status(500).json({ success: false, error: 'Failed to reopen magic link' });
+  }
+});
+
+/**
+ * PATCH /api/admin/magic-links/:token/limits
+ * Change how many prints a link allows, e.g. after an upsell
+ * (body: { maxUploads } for links without a per-size split, or { allowances })
+ */
+router.patch('/:token/limits', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const magicLink = await magicLinkService.findByToken(token);
+
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    let allowances: IPrintAllowance[];
+    if (req.body.allowances !== undefined) {
+      const parsed = parseAllowances(req.body.allowances);
+      if (parsed.error || !parsed.allowances) {
+        res.status(400).json({ success: false, error: parsed.error });
+        return;
+      }
+      allowances = parsed.allowances;
+    } else {
+      const maxUploads = req.body.maxUploads;
+      if (!Number.isInteger(maxUploads) || maxUploads < 1) {
+        res.status(400).json({ success: false, error: 'maxUploads must be a whole number of at least 1' });
+        return;
+      }
+      if (getLinkAllowances(magicLink).some(a => a.photoSize || a.photoType)) {
+        res.status(400).json({ success: false, error: 'This order is split by print size/style; send allowances instead' });
+        return;
+      }
+      allowances = [{ quantity: maxUploads }];
+    }
+
+    const coverageError = await checkAllowancesCoverUsage(magicLink, allowances);
+    if (coverageError) {
+      res.status(400).json({ success: false, error: coverageError });
+      return;
+    }
+
+    const previous = getLinkAllowances(magicLink).map(a => `${a.quantity} ${describeAllowance(a)}`).join(', ');
+    await magicLinkService.updateAllowances(magicLink, allowances);
+    await magicLinkService.recordEvent(magicLink, 'limit_changed', {
+      actor: 'admin',
+      adminUser: req.user!.email,
+      details: `${previous} → ${allowances.map(a => `${a.quantity} ${describeAllowance(a)}`).join(', ')}`,
+    });
+
+    // A submitted order with new prints to add goes back to the customer
+    if (magicLink.submittedForPrinting && !magicLink.imagesDeleted) {
+      const images = await UploadedImage.find({ magicLinkId: magicLink._id }).select('photoSize photoType copies');
+      const stillFilled = !checkAllowancesFilled(
+        allowances,
+        images.map(img => ({ photoSize: img.photoSize, photoType: img.photoType, copies: img.copies || 1 }))
+      );
+      if (!stillFilled) {
+        await magicLinkService.reopen(magicLink);
+        await magicLinkService.recordEvent(magicLink, 'reopened', {
+          actor: 'system',
+          details: 'More prints added to a submitted order',
+        });
+      }
+    }
+
+    res.json({ success: true, magicLink: toLinkInfo(magicLink) });
+  } catch (error) {
+    console.error('Error changing magic link limits:', error);
+    res.status(500).json({ success: false, error: 'Failed to change print limits' });
+  }
+});
+
+/**
+ * POST /api/admin/magic-links/:token/reissue
+ * Replace the link's token (e.g. it was forwarded to the wrong person); the old URL stops working
+ */
+router.post('/:token/reissue', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const magicLink = await magicLinkService.findByToken(token);
+
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    const previousToken = await magicLinkService.reissueToken(magicLink);
+    await magicLinkService.recordEvent(magicLink, 'token_reissued', {
+      actor: 'admin',
+      adminUser: req.user!.email,
+      // Only a fragment: the full old token is a credential, even if dead
+      details: `Replaced token …${previousToken.slice(-6)}`,
+    });
+
+    res.json({ success: true, magicLink: toLinkInfo(magicLink) });
+  } catch (error) {
+    console.error('Error reissuing magic link:', error);
+    res.status(500).json({ success: false, error: 'Failed to reissue magic link' });
+  }
+});
+
+/**
+ * PATCH /api/admin/magic-links/:token/pin
+ * Turn the upload page PIN (last 4 digits of the order phone) on or off (body: { required })
+ */
+router.patch('/:token/pin', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const { required } = req.body;
+    const magicLink = await magicLinkService.findByToken(token);
+
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
 
-    try {
-      const order = await shopifyService.findOrderByNumber(orderNumber);
-      if (order) {
-        orderId = String(order.id);
-        // Get max uploads from the variant (12, 15, 20, or 25)
-        maxUploads = shopifyService.getMaxUploadsForOrder(order);
-      }
-    } catch (e) {
-      console.warn('Could not verify order in Shopify:', e);
+    if (typeof required !== 'boolean') {
+      res.status(400).json({ success: false, error: 'required must be true or false' });
+      return;
     }
 
-    const magicLink = await magicLinkService.createMagicLink({
-      orderNumber,
-      orderId,
-      customerName,
-      customerEmail,
-      customerPhone,
-      maxUploads,
-      expiresInDays: expiresInDays || 30,
-      createdBy: req.user!.userId,
-    });
+    if (required && !getLinkPin(magicLink)) {
+      res.status(400).json({ success: false, error: 'This order has no phone number to build a PIN from' });
+      return;
+    }
 
-    res.status(201).json({
-      success: true,
-      magicLink: {
-        id: magicLink._id,
-        token: magicLink.token,
-        orderNumber: magicLink.orderNumber,
-        customerName: magicLink.customerName,
-        maxUploads: magicLink.maxUploads,
-        currentUploads: magicLink.currentUploads,
-        isActive: magicLink.isActive,
-        imagesDeleted: magicLink.imagesDeleted,
-        expiresAt: magicLink.expiresAt,
-        uploadUrl: `${config.frontendUrl}/upload/${magicLink.token}`,
-      },
+    magicLink.pinRequired = required;
+    await magicLink.save();
+    await magicLinkService.recordEvent(magicLink, 'pin_changed', {
+      actor: 'admin',
+      adminUser: req.user!.email,
+      details: required ? 'PIN required' : 'PIN removed',
     });
+
+    res.json({ success: true, magicLink: toLinkInfo(magicLink) });
   } catch (error) {
-    console.error('Error creating magic link:', error);
-    res.status(500).json({ success: false, error: 'Failed to create magic link' });
+    console.error('Error updating magic link PIN:', error);
+    res.status(500).json({ success: false, error: 'Failed to update PIN' });
   }
 });
 
 /**
- * GET /api/admin/magic-links/:token
- * Get a specific magic link
+ * POST /api/admin/magic-links/:token/reminders
+ * Record that a reminder was sent to the customer (body: { message })
  */
-router.get('/:token', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/:token/reminders', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const token = req.params.token as string;
+    const { message } = req.body;
     const magicLink = await magicLinkService.findByToken(token);
 
     if (!magicLink) {
@@ -259,41 +1014,48 @@ router.get('/:token', requireAdmin, async (req: AuthenticatedRequest, res: Respo
       return;
     }
 
+    if (typeof message !== 'string' || !message.trim()) {
+      res.status(400).json({ success: false, error: 'Message is required' });
+      return;
+    }
+
+    const reminder = await recordReminderSent(magicLink, message, req.user!.email);
+
     res.json({
       success: true,
-      magicLink: {
-        id: magicLink._id,
-        token: magicLink.token,
-        orderNumber: magicLink.orderNumber,
-        customerName: magicLink.customerName,
-        customerEmail: magicLink.customerEmail,
-        customerPhone: magicLink.customerPhone,
-        maxUploads: magicLink.maxUploads,
-        currentUploads: magicLink.currentUploads,
-        expiresAt: magicLink.expiresAt,
-        isActive: magicLink.isActive,
-        createdAt: magicLink.createdAt,
-        uploadUrl: `${config.frontendUrl}/upload/${magicLink.token}`,
+      reminder: {
+        id: reminder._id,
+        attempt: reminder.attempt,
+        stage: reminder.stage,
+        sentAt: reminder.sentAt,
+        sentBy: reminder.sentBy,
       },
     });
   } catch (error) {
-    console.error('Error fetching magic link:', error);
-    res.status(500).json({ success: false, error: 'Failed to fetch magic link' });
+    console.error('Error recording reminder:', error);
+    res.status(500).json({ success: false, error: 'Failed to record reminder' });
   }
 });
 
 /**
- * DELETE /api/admin/magic-links/:token
- * Deactivate a magic link
+ * GET /api/admin/magic-links/:token/blocked-attempts
+ * Requests against this link that the upload API refused
  */
-router.delete('/:token', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+router.get('/:token/blocked-attempts', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const token = req.params.token as string;
-    await magicLinkService.deactivate(token);
-    res.json({ success: true });
+    const magicLink = await magicLinkService.findByToken(token);
+
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    const attempts = await getBlockedAttempts(magicLink, 50);
+    res.json({ success: true, attempts: attempts.map(toBlockedAttemptInfo) });
   } catch (error) {
-    console.error('Error deactivating magic link:', error);
-    res.status(500).json({ success: false, error: 'Failed to deactivate magic link' });
+    console.error('Error fetching blocked upload attempts:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch blocked attempts' });
   }
 });
 
@@ -301,27 +1063,149 @@ router.delete('/:token', requireAdmin, async (req: AuthenticatedRequest, res: Re
  * POST /api/admin/shopify/orders/clear-cache
  * Trigger an incremental sync of orders from Shopify to fetch changes
  */
-router.post('/shopify/orders/clear-cache', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+router.post('/shopify/orders/clear-cache', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Instead of completely dropping the cache, incrementally sync newly updated orders
-    // The explicit fetch limit requested by the UI is 10000 so we must sync the same cache key
-    const syncedCount = await shopifyService.syncOrders(10000);
+    // Instead of completely dropping the cache, incrementally sync orders updated since the last run
+    const run = await runOrderSync('manual', req.user!.email);
+    const syncedCount = run.inserted + run.updated;
 
     res.json({
       success: true,
       message: `Orders synced successfully (${syncedCount} updated).`,
-      syncedCount
+      syncedCount,
+      run
     });
 
     // Async full recompute of order stats and P&L after sync
     backfillOrderStats().catch(console.error);
     backfillDailyPnl().catch(console.error);
   } catch (error) {
+    if (error instanceof SyncInProgressError) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
     console.error('Error syncing orders:', error);
     res.status(500).json({ success: false, error: 'Failed to sync orders' });
   }
 });
 
+/**
+ * GET /api/admin/shopify/orders/sync
+ * Order sync health: cursor, last successful run, recent run logs and a stale flag
+ */
+router.get('/shopify/orders/sync', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const health = await getOrderSyncHealth();
+    res.json({ success: true, ...health });
+  } catch (error) {
+    console.error('Error fetching order sync health:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch order sync health' });
+  }
+});
+
+/**
+ * POST /api/admin/shopify/orders/sync/replay
+ * Re-fetch every order updated between `from` and `to` (ISO dates) without moving the sync cursor
+ */
+router.post('/shopify/orders/sync/replay', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { from, to } = req.body ?? {};
+    if (typeof from !== 'string' || typeof to !== 'string') {
+      res.status(400).json({ success: false, error: 'from and to are required' });
+      return;
+    }
+
+    const fromDate = new Date(from);
+    const toDate = new Date(to);
+    const validationError = validateReplayWindow(fromDate, toDate);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+
+    const run = await replayOrderWindow(fromDate, toDate, req.user!.email);
+    res.json({ success: true, run });
+  } catch (error) {
+    if (error instanceof SyncInProgressError) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error replaying order sync window:', error);
+    res.status(500).json({ success: false, error: 'Failed to replay order sync window' });
+  }
+});
+
+/**
+ * GET /api/admin/shopify/orders/imports
+ * Recent historical imports with their progress
+ */
+router.get('/shopify/orders/imports', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const imports = await getOrderImports();
+    res.json({ success: true, imports });
+  } catch (error) {
+    console.error('Error fetching order imports:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch order imports' });
+  }
+});
+
+/**
+ * POST /api/admin/shopify/orders/imports
+ * Import every order through a Shopify bulk operation, or only those created since
+ * `createdAtMin` (ISO date). Runs in the background; poll the list for progress.
+ */
+router.post('/shopify/orders/imports', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { createdAtMin } = req.body ?? {};
+    let since: Date | undefined;
+    if (createdAtMin !== undefined && createdAtMin !== null && createdAtMin !== '') {
+      since = new Date(createdAtMin);
+      if (typeof createdAtMin !== 'string' || isNaN(since.getTime())) {
+        res.status(400).json({ success: false, error: 'createdAtMin must be a valid date' });
+        return;
+      }
+    }
+
+    const orderImport = await startOrderImport(req.user!.email, since);
+    res.status(201).json({ success: true, import: orderImport });
+  } catch (error) {
+    if (error instanceof ImportInProgressError) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error starting order import:', error);
+    res.status(500).json({ success: false, error: 'Failed to start order import' });
+  }
+});
+
+/**
+ * POST /api/admin/shopify/orders/imports/:id/resume
+ * Continue a failed import from its last checkpoint
+ */
+router.post('/shopify/orders/imports/:id/resume', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ success: false, error: 'Invalid import id' });
+      return;
+    }
+
+    const result = await resumeOrderImport(id);
+    if (typeof result === 'string') {
+      res.status(400).json({ success: false, error: result });
+      return;
+    }
+    res.json({ success: true, import: result });
+  } catch (error) {
+    if (error instanceof ImportInProgressError) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error resuming order import:', error);
+    res.status(500).json({ success: false, error: 'Failed to resume order import' });
+  }
+});
+
 /**
  * GET /api/admin/shopify/orders
  * Get recent orders from Shopify (with caching)
@@ -874,15 +1758,9 @@ router.get('/:token/download-images', requireAdmin, async (req: AuthenticatedReq
       return;
     }
 
-    // Configure S3 client - use environment credentials for local dev, instance metadata for production
-    const s3Client = new S3Client({
-      region: config.aws.region,
-      credentials: config.aws.accessKeyId && config.aws.secretAccessKey ? {
-        accessKeyId: config.aws.accessKeyId,
-        secretAccessKey: config.aws.secretAccessKey,
-      } : fromInstanceMetadata(),
-      forcePathStyle: false,
-    });
+    if (magicLink.submittedForPrinting) {
+      await markDownloaded([magicLink._id as mongoose.Types.ObjectId], req.user!.email);
+    }
 
     // Set response headers for zip download
     const zipFileName = `${magicLink.orderNumber.replace(/[^a-zA-Z0-9]/g, '_')}.zip`;
@@ -908,32 +1786,24 @@ router.get('/:token/download-images', requireAdmin, async (req: AuthenticatedReq
     // Add each image to the archive
     for (const image of images) {
       try {
-        console.log(`Fetching image: ${image.originalName} from S3 key: ${image.s3Key}`);
+        // Print-ready file at the physical size: crop applied, polaroid frame and caption drawn in
+        const baseName = `${image.originalName.replace(/\.[^/.]+$/, '')}.jpg`;
+        // Orders can mix print sizes/styles, so group them by folder; extra copies go in the name
+        const copiesPrefix = (image.copies || 1) > 1 ? `${image.copies}x_` : '';
+        const entryName = `${image.photoSize}_${image.photoType}/${copiesPrefix}${baseName}`;
 
-        // Fetch image from S3
-        const s3Response = await s3Client.send(new GetObjectCommand({
-          Bucket: config.aws.s3Bucket,
-          Key: image.s3Key,
-        }));
+        console.log(`Rendering image: ${entryName} from storage key: ${image.printKey || image.s3Key}`);
 
-        if (s3Response.Body) {
-          // Convert stream to buffer
-          const stream = s3Response.Body as NodeJS.ReadableStream;
-          const chunks: Buffer[] = [];
+        const buffer = await renderPrintFile(image);
 
-          for await (const chunk of stream) {
-            chunks.push(Buffer.from(chunk));
-          }
-
-          const buffer = Buffer.concat(chunks);
+        if (buffer) {
+          console.log(`Adding ${entryName} to archive (${buffer.length} bytes)`);
 
-          console.log(`Adding ${image.originalName} to archive (${buffer.length} bytes)`);
-
-          // Add buffer to archive with original name
-          archive.append(buffer, { name: image.originalName });
+          // Add buffer to archive under the original name
+          archive.append(buffer, { name: entryName });
           successCount++;
         } else {
-          console.error(`No body in S3 response for ${image.fileName}`);
+          console.error(`Image not found in storage: ${image.fileName}`);
           failCount++;
         }
       } catch (imageError) {
@@ -958,14 +1828,151 @@ router.get('/:token/download-images', requireAdmin, async (req: AuthenticatedReq
 });
 
 /**
- * DELETE /api/admin/magic-links/:token/delete-images
- * Delete all images for a magic link from S3 and database
+ * Build the imposed print sheets for submitted links and send them as a PDF download
  */
-router.delete('/:token/delete-images', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+async function sendPrintSheets(res: Response, magicLinks: IMagicLink[], fileName: string, adminEmail: string): Promise<void> {
+  const notReady = magicLinks.filter(link => !link.submittedForPrinting || link.imagesDeleted);
+  if (notReady.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: `Not submitted for printing (or images already deleted): ${notReady.map(l => l.orderNumber).join(', ')}`,
+    });
+    return;
+  }
+
+  const result = await buildPrintSheetPdf(magicLinks);
+
+  if (result.printCount === 0) {
+    res.status(404).json({ success: false, error: 'No printable images found for these orders' });
+    return;
+  }
+
+  console.log(`Print sheets: ${result.sheetCount} sheets, ${result.printCount} prints, ${result.failed.length} failed`);
+  await markDownloaded(magicLinks.map(link => link._id as mongoose.Types.ObjectId), adminEmail);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  // Let the admin know if any photo is missing from the sheets
+  res.setHeader('X-Print-Sheets-Failed', String(result.failed.length));
+  res.send(Buffer.from(result.pdf));
+}
+
+/**
+ * GET /api/admin/magic-links/:token/print-sheets
+ * Download a submitted order imposed onto printer sheets as a PDF with crop marks
+ */
+router.get('/:token/print-sheets', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const token = req.params.token as string;
+    const magicLink = await magicLinkService.findByToken(token);
+
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    await sendPrintSheets(res, [magicLink], `${getOrderCode(magicLink.orderNumber)}_sheets.pdf`, req.user!.email);
+  } catch (error) {
+    console.error('Error building print sheets:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: 'Failed to build print sheets' });
+    }
+  }
+});
+
+/**
+ * POST /api/admin/magic-links/print-sheets
+ * Impose several submitted orders onto shared printer sheets (body: { tokens: string[] })
+ */
+router.post('/print-sheets', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { tokens } = req.body;
+
+    if (!Array.isArray(tokens) || tokens.length === 0 || !tokens.every(t => typeof t === 'string')) {
+      res.status(400).json({ success: false, error: 'tokens must be a non-empty array of magic link tokens' });
+      return;
+    }
+
+    const magicLinks = await MagicLink.find({ token: { $in: tokens } }).sort({ submittedAt: 1 });
+
+    if (magicLinks.length !== new Set(tokens).size) {
+      res.status(404).json({ success: false, error: 'One or more magic links not found' });
+      return;
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    await sendPrintSheets(res, magicLinks, `print_sheets_${date}.pdf`, req.user!.email);
+  } catch (error) {
+    console.error('Error building print sheets:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: 'Failed to build print sheets' });
+    }
+  }
+});
+
+/**
+ * GET /api/admin/magic-links/:token/images
+ * List an order's photos for review, with any rejections and likely duplicates
+ */
+router.get('/:token/images', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const magicLink = await magicLinkService.findByToken(token);
+
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    const images = await UploadedImage.find({ magicLinkId: magicLink._id }).sort({ uploadedAt: 1 });
+
+    res.json({
+      success: true,
+      submittedForPrinting: magicLink.submittedForPrinting || false,
+      reopenedAt: magicLink.reopenedAt,
+      images: images.map(img => ({
+        id: img._id,
+        originalName: img.originalName,
+        ...getImageUrls(img),
+        photoSize: img.photoSize,
+        photoType: img.photoType,
+        copies: img.copies || 1,
+        caption: img.caption,
+        quality: img.quality,
+        rejection: img.rejection?.reason
+          ? { reason: img.rejection.reason, rejectedAt: img.rejection.rejectedAt, replacedAt: img.rejection.replacedAt }
+          : undefined,
+        uploadedAt: img.uploadedAt,
+      })),
+      duplicates: findDuplicatePairs(images),
+    });
+  } catch (error) {
+    console.error('Error fetching images for review:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch images' });
+  }
+});
+
+/**
+ * POST /api/admin/magic-links/:token/images/:imageId/reject
+ * Send one photo back to the customer with a reason (body: { reason }).
+ * A submitted order is reopened so only the rejected photos can be replaced.
+ */
+router.post('/:token/images/:imageId/reject', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const imageId = req.params.imageId as string;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (!reason) {
+      res.status(400).json({ success: false, error: 'A reason is required so the customer knows what to fix' });
+      return;
+    }
+
+    if (reason.length > MAX_REJECTION_REASON_LENGTH) {
+      res.status(400).json({ success: false, error: `Reason must be ${MAX_REJECTION_REASON_LENGTH} characters or fewer` });
+      return;
+    }
 
-    // Validate the magic link
     const magicLink = await magicLinkService.findByToken(token);
 
     if (!magicLink) {
@@ -973,57 +1980,81 @@ router.delete('/:token/delete-images', requireAdmin, async (req: AuthenticatedRe
       return;
     }
 
-    // Check if images are already deleted
     if (magicLink.imagesDeleted) {
-      res.status(400).json({ success: false, error: 'Images have already been deleted' });
+      res.status(400).json({ success: false, error: 'Images for this order have been deleted' });
       return;
     }
 
-    // Get all images for this magic link
-    const images = await UploadedImage.find({ magicLinkId: magicLink._id });
-
-    console.log(`Deleting ${images.length} images for order ${magicLink.orderNumber}`);
-
-    // Configure S3 client
-    const s3Client = new S3Client({
-      region: config.aws.region,
-      credentials: config.aws.accessKeyId && config.aws.secretAccessKey ? {
-        accessKeyId: config.aws.accessKeyId,
-        secretAccessKey: config.aws.secretAccessKey,
-      } : fromInstanceMetadata(),
-      forcePathStyle: false,
+    const image = await UploadedImage.findOne({ _id: imageId, magicLinkId: magicLink._id });
+
+    if (!image) {
+      res.status(404).json({ success: false, error: 'Image not found' });
+      return;
+    }
+
+    const wasSubmitted = magicLink.submittedForPrinting;
+    await rejectPhoto(magicLink, image, reason, req.user!.userId);
+    await magicLinkService.recordEvent(magicLink, 'photo_rejected', {
+      actor: 'admin',
+      adminUser: req.user!.email,
+      details: `${image.originalName}: ${reason}`,
+    });
+    if (wasSubmitted) {
+      await magicLinkService.recordEvent(magicLink, 'reopened', {
+        actor: 'admin',
+        adminUser: req.user!.email,
+        details: 'Reopened for photo replacements',
+      });
+    }
+
+    res.json({
+      success: true,
+      submittedForPrinting: magicLink.submittedForPrinting,
+      reopenedAt: magicLink.reopenedAt,
+      rejection: {
+        reason: image.rejection!.reason,
+        rejectedAt: image.rejection!.rejectedAt,
+      },
     });
+  } catch (error) {
+    console.error('Error rejecting image:', error);
+    res.status(500).json({ success: false, error: 'Failed to reject image' });
+  }
+});
 
-    let deletedCount = 0;
-    let failedCount = 0;
-    const failedKeys: string[] = [];
+/**
+ * DELETE /api/admin/magic-links/:token/delete-images
+ * Delete all images for a magic link from storage and database
+ */
+router.delete('/:token/delete-images', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const token = req.params.token as string;
 
-    // Delete each image from S3
-    for (const image of images) {
-      try {
-        const deleteCommand = new DeleteObjectCommand({
-          Bucket: config.aws.s3Bucket,
-          Key: image.s3Key,
-        });
+    // Validate the magic link
+    const magicLink = await magicLinkService.findByToken(token);
 
-        await s3Client.send(deleteCommand);
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
 
-        console.log(`✓ Deleted from S3: ${image.s3Key}`);
-        deletedCount++;
-      } catch (s3Error) {
-        console.error(`✗ Failed to delete ${image.s3Key} from S3:`, s3Error);
-        failedCount++;
-        failedKeys.push(image.s3Key);
-      }
+    // Check if images are already deleted
+    if (magicLink.imagesDeleted) {
+      res.status(400).json({ success: false, error: 'Images have already been deleted' });
+      return;
     }
 
-    console.log(`S3 Deletion Summary: ${deletedCount} successful, ${failedCount} failed`);
+    console.log(`Deleting images for order ${magicLink.orderNumber}`);
+
+    const { deletedCount, failedCount, failedKeys } = await deleteLinkImages(magicLink);
 
-    // Only proceed if ALL images were successfully deleted from S3
+    console.log(`Storage Deletion Summary: ${deletedCount} successful, ${failedCount} failed`);
+
+    // Nothing is removed from the database unless ALL images left storage
     if (failedCount > 0) {
       res.status(500).json({
         success: false,
-        error: `Failed to delete ${failedCount} image(s) from S3. Cannot proceed.`,
+        error: `Failed to delete ${failedCount} image(s) from storage. Cannot proceed.`,
         deletedCount,
         failedCount,
         failedKeys,
@@ -1031,15 +2062,13 @@ router.delete('/:token/delete-images', requireAdmin, async (req: AuthenticatedRe
       return;
     }
 
-    // All S3 deletions successful - now delete from database
-    await UploadedImage.deleteMany({ magicLinkId: magicLink._id });
-
-    // Update magic link to mark images as deleted
-    magicLink.imagesDeleted = true;
-    magicLink.imagesDeletedAt = new Date();
-    await magicLink.save();
+    await magicLinkService.recordEvent(magicLink, 'images_deleted', {
+      actor: 'admin',
+      adminUser: req.user!.email,
+      details: `${deletedCount} images`,
+    });
 
-    console.log(`✓ Deletion complete: All ${deletedCount} images removed from S3 and database`);
+    console.log(`✓ Deletion complete: All ${deletedCount} images removed from storage and database`);
 
     res.json({
       success: true,
@@ -0,0 +1,27 @@
+import { Router, Response } from 'express';
+import { requireAdmin } from './adminAuth';
+import { getOrderTimeline } from '../services/orderTimelineService';
+import type { AuthenticatedRequest } from '../types';
+
+const router = Router();
+
+/**
+ * GET /api/admin/orders/:orderNumber/timeline
+ * Every recorded event for an order (PB1234S, #PB1234S or 1234), oldest first, with
+ * its source and the user who acted
+ */
+router.get('/:orderNumber/timeline', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const timeline = await getOrderTimeline(req.params.orderNumber as string);
+    if (!timeline) {
+      res.status(404).json({ success: false, error: `No order found for ${req.params.orderNumber}` });
+      return;
+    }
+    res.json({ success: true, ...timeline });
+  } catch (error) {
+    console.error('Error fetching order timeline:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch order timeline' });
+  }
+});
+
+export default router;
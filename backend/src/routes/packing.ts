@@ -0,0 +1,127 @@
+import { Router, Response } from 'express';
+import { requireAdmin } from './adminAuth';
+import {
+  PACKING_CHECKLIST,
+  findLinkForCode,
+  findPacker,
+  getPackingDetails,
+  recordScan,
+  markPacked,
+  getPackingThroughput,
+} from '../services/packingService';
+import { getAssignableEmployees } from '../services/productionService';
+import type { AuthenticatedRequest } from '../types';
+
+const router = Router();
+
+const MAX_STATS_DAYS = 90;
+
+/**
+ * GET /api/admin/packing/station
+ * Checklist, the people who can pack, and packed orders per person (query: days, default 1)
+ */
+router.get('/station', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 1, 1), MAX_STATS_DAYS);
+    // Days start at midnight in India, wherever the server runs
+    const todayKey = new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' });
+    const since = new Date(new Date(`${todayKey}T00:00:00+05:30`).getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+
+    const [employees, throughput] = await Promise.all([
+      getAssignableEmployees(),
+      getPackingThroughput(since),
+    ]);
+
+    res.json({ success: true, checklist: PACKING_CHECKLIST, employees, days, throughput });
+  } catch (error) {
+    console.error('Error fetching packing station:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch packing station' });
+  }
+});
+
+/**
+ * GET /api/admin/packing/orders/:code
+ * Look up a scanned order code (PB1234S); records the scan when employeeId is given
+ */
+router.get('/orders/:code', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const magicLink = await findLinkForCode(req.params.code as string);
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: `No photo order found for ${req.params.code}` });
+      return;
+    }
+
+    if (req.query.employeeId) {
+      const employee = await findPacker(req.query.employeeId);
+      if (!employee) {
+        res.status(400).json({ success: false, error: 'Employee not found' });
+        return;
+      }
+      await recordScan(magicLink, employee, req.user!.email);
+    }
+
+    const details = await getPackingDetails(magicLink);
+
+    res.json({
+      success: true,
+      order: {
+        token: magicLink.token,
+        orderNumber: magicLink.orderNumber,
+        customerName: magicLink.customerName,
+        city: details.city,
+        submittedForPrinting: magicLink.submittedForPrinting,
+        imagesDeleted: magicLink.imagesDeleted,
+        photos: details.photos,
+        printCount: details.printCount,
+        printBreakdown: details.printBreakdown,
+        label: details.label,
+        productionStage: details.productionStage,
+        lastPacked: details.lastPacked,
+      },
+    });
+  } catch (error) {
+    console.error('Error looking up packing order:', error);
+    res.status(500).json({ success: false, error: 'Failed to look up order' });
+  }
+});
+
+/**
+ * POST /api/admin/packing/orders/:code/packed
+ * Mark an order packed (body: { employeeId, checklist: string[] of ticked keys })
+ */
+router.post('/orders/:code/packed', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const magicLink = await findLinkForCode(req.params.code as string);
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: `No photo order found for ${req.params.code}` });
+      return;
+    }
+
+    const employee = await findPacker(req.body.employeeId);
+    if (!employee) {
+      res.status(400).json({ success: false, error: 'Choose who is packing this order' });
+      return;
+    }
+
+    const result = await markPacked(magicLink, employee, req.body.checklist, req.user!.email);
+    if (typeof result === 'string') {
+      res.status(400).json({ success: false, error: result });
+      return;
+    }
+
+    res.json({
+      success: true,
+      event: {
+        orderNumber: result.orderNumber,
+        employeeName: result.employeeName,
+        secondsToPack: result.secondsToPack,
+        createdAt: result.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error marking order packed:', error);
+    res.status(500).json({ success: false, error: 'Failed to mark order packed' });
+  }
+});
+
+export default router;
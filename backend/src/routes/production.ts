@@ -0,0 +1,130 @@
+import { Router, Response } from 'express';
+import { requireAdmin } from './adminAuth';
+import magicLinkService from '../services/magicLinkService';
+import {
+  getProductionBoard,
+  moveToStage,
+  assignCurrentStage,
+  saveStaleAfterHours,
+  getStaleAfterHours,
+  getAssignableEmployees,
+} from '../services/productionService';
+import type { IProductionJob } from '../models';
+import type { AuthenticatedRequest } from '../types';
+
+const router = Router();
+
+const toJobInfo = (job: IProductionJob) => ({
+  stage: job.stage,
+  stageEnteredAt: job.stageEnteredAt,
+  steps: job.steps.map(step => ({
+    stage: step.stage,
+    enteredAt: step.enteredAt,
+    assigneeId: step.assigneeId,
+    assigneeName: step.assigneeName,
+    movedBy: step.movedBy,
+  })),
+});
+
+/**
+ * GET /api/admin/production/board
+ * Submitted orders by production stage, with stale flags and the people who can be assigned
+ */
+router.get('/board', requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const [{ staleAfterHours, cards }, employees] = await Promise.all([
+      getProductionBoard(),
+      getAssignableEmployees(),
+    ]);
+
+    res.json({
+      success: true,
+      staleAfterHours,
+      employees,
+      orders: cards.map(card => ({
+        token: card.magicLink.token,
+        orderNumber: card.magicLink.orderNumber,
+        customerName: card.magicLink.customerName,
+        maxUploads: card.magicLink.maxUploads,
+        submittedAt: card.magicLink.submittedAt,
+        hoursInStage: card.hoursInStage,
+        isStale: card.isStale,
+        ...toJobInfo(card.job),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching production board:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch production board' });
+  }
+});
+
+/**
+ * PUT /api/admin/production/settings
+ * Set how many hours in one stage flags an order (body: { staleAfterHours })
+ */
+router.put('/settings', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validationError = await saveStaleAfterHours(req.body.staleAfterHours);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+
+    res.json({ success: true, staleAfterHours: await getStaleAfterHours() });
+  } catch (error) {
+    console.error('Error saving production settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to save production settings' });
+  }
+});
+
+/**
+ * PATCH /api/admin/production/:token/stage
+ * Move an order to a stage, optionally assigning someone to it (body: { stage, assigneeId? })
+ */
+router.patch('/:token/stage', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const magicLink = await magicLinkService.findByToken(req.params.token as string);
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    const result = await moveToStage(magicLink, req.body.stage, req.body.assigneeId, req.user!.email);
+    if (typeof result === 'string') {
+      res.status(400).json({ success: false, error: result });
+      return;
+    }
+
+    res.json({ success: true, job: toJobInfo(result) });
+  } catch (error) {
+    console.error('Error moving production stage:', error);
+    res.status(500).json({ success: false, error: 'Failed to move order' });
+  }
+});
+
+/**
+ * PATCH /api/admin/production/:token/assignee
+ * Set or clear who is working the order's current stage (body: { assigneeId })
+ */
+router.patch('/:token/assignee', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const magicLink = await magicLinkService.findByToken(req.params.token as string);
+    if (!magicLink) {
+      res.status(404).json({ success: false, error: 'Magic link not found' });
+      return;
+    }
+
+    const result = await assignCurrentStage(magicLink, req.body.assigneeId);
+    if (typeof result === 'string') {
+      res.status(400).json({ success: false, error: result });
+      return;
+    }
+
+    res.json({ success: true, job: toJobInfo(result) });
+  } catch (error) {
+    console.error('Error assigning production stage:', error);
+    res.status(500).json({ success: false, error: 'Failed to assign order' });
+  }
+});
+
+export default router;
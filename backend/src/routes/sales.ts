@@ -1,14 +1,16 @@
 import express, { Response } from 'express';
-import { DiscardedOrder, RTOOrder, ProfitPrediction, ShippingCharge, OrderDeliveryDate, ShopifyOrderCache, MetaAdPerformance, MetaAdAnalysis, AcknowledgedOrder, TicketRaisedOrder, DailyROAS, DailyShipping, DailyOrderStats, DailyPnl, Reel, ReelStrategy } from '../models';
+import { DiscardedOrder, RTOOrder, ProfitPrediction, ShippingCharge, OrderDeliveryDate, ShopifyOrderRecord, MetaAdPerformance, MetaAdAnalysis, AcknowledgedOrder, TicketRaisedOrder, DailyROAS, DailyShipping, DailyOrderStats, DailyPnl, Reel, ReelStrategy } from '../models';
 import { requireAdmin } from './adminAuth';
-import { AuthenticatedRequest } from '../types';
+import { AuthenticatedRequest, ShopifyOrder } from '../types';
 import aiService from '../services/aiService';
 import { backfillAllDates } from '../services/roasService';
 import { backfillShippingStats } from '../services/shippingStatsService';
 import { backfillOrderStats } from '../services/orderStatsService';
 import { backfillDailyPnl, recomputePnlForDate, getVariantPerformance } from '../services/dailyPnlService';
 import { computeBreakevenMetrics } from '../services/breakevenService';
+import { loadOrderStates, getOrderState, isExcludedState, refreshOrderLifecycles } from '../services/orderLifecycleService';
 import shopifyService from '../services/shopifyService';
+import { getProductionStates } from '../services/productionService';
 
 const router = express.Router();
 
@@ -189,6 +191,16 @@ router.delete('/ticket-raised-orders', requireAdmin, async (req: AuthenticatedRe
   }
 });
 
+/**
+ * After an RTO or discard mark changes: move the orders' lifecycle states, then
+ * recompute P&L and order stats from them (async; the response has already gone)
+ */
+function refreshStatesAndRecompute(orderIds: number[]): void {
+  refreshOrderLifecycles(orderIds)
+    .then(() => Promise.all([backfillDailyPnl(), backfillOrderStats()]))
+    .catch(console.error);
+}
+
 /**
  * GET /api/admin/sales/discarded-orders
  */
@@ -244,6 +256,8 @@ router.post('/discard-orders', requireAdmin, async (req: AuthenticatedRequest, r
       success: true,
       message: `${orderIds.length} order(s) discarded`,
     });
+
+    refreshStatesAndRecompute(orderIds);
   } catch (error: any) {
     // Handle duplicate key errors gracefully
     if (error.code === 11000) {
@@ -251,6 +265,7 @@ router.post('/discard-orders', requireAdmin, async (req: AuthenticatedRequest, r
         success: true,
         message: 'Orders discarded (some were already discarded)',
       });
+      refreshStatesAndRecompute(req.body.orderIds);
       return;
     }
     
@@ -278,6 +293,8 @@ router.delete('/discard-orders', requireAdmin, async (req: AuthenticatedRequest,
       success: true,
       message: `${orderIds.length} order(s) restored`,
     });
+
+    refreshStatesAndRecompute(orderIds);
   } catch (error) {
     console.error('Error restoring orders:', error);
     res.status(500).json({ success: false, error: 'Failed to restore orders' });
@@ -343,8 +360,7 @@ router.post('/mark-rto', requireAdmin, async (req: AuthenticatedRequest, res: Re
     });
 
     // RTO changes flip order delivery status — recompute P&L and order stats async
-    backfillDailyPnl().catch(console.error);
-    backfillOrderStats().catch(console.error);
+    refreshStatesAndRecompute(orderIds);
   } catch (error: any) {
     // Handle duplicate key errors gracefully
     if (error.code === 11000) {
@@ -352,8 +368,7 @@ router.post('/mark-rto', requireAdmin, async (req: AuthenticatedRequest, res: Re
         success: true,
         message: 'Orders marked as RTO (some were already marked)',
       });
-      backfillDailyPnl().catch(console.error);
-      backfillOrderStats().catch(console.error);
+      refreshStatesAndRecompute(req.body.orderIds);
       return;
     }
     
@@ -382,8 +397,7 @@ router.delete('/mark-rto', requireAdmin, async (req: AuthenticatedRequest, res:
       message: `${orderIds.length} order(s) unmarked from RTO`,
     });
 
-    backfillDailyPnl().catch(console.error);
-    backfillOrderStats().catch(console.error);
+    refreshStatesAndRecompute(orderIds);
   } catch (error) {
     res.status(500).json({ success: false, error: 'Failed to unmark RTO orders' });
   }
@@ -519,43 +533,47 @@ router.post('/predict', requireAdmin, async (req: AuthenticatedRequest, res: Res
         });
       });
 
-      // 2. Search in ShopifyOrderCache for unfulfilled or new orders
-      // We look for any "all_orders" cache entry which contains the most orders
-      const newestCache = await ShopifyOrderCache.findOne({
-        cacheKey: { $regex: /^all_orders_/ }
-      }).sort({ cachedAt: -1 });
-
-      if (newestCache && Array.isArray(newestCache.orders)) {
-        for (const o of newestCache.orders) {
-          if (ordersMap.size >= 50) break;
-          
-          const name = (o.name || '').toString();
-          const cleanName = name.replace(/^#/, '');
-          
-          const firstName = o.customer?.first_name || '';
-          const lastName = o.customer?.last_name || '';
-          const custName = `${firstName} ${lastName}`.trim() || 'N/A';
-          const email = (o.email || '').toLowerCase();
-          
-          if (
-            cleanName.toLowerCase().includes(cleanNumQuery) || 
-            custName.toLowerCase().includes(lowerQuery) ||
-            email.includes(lowerQuery)
-          ) {
-            const finalName = name.startsWith('#') ? name : `#${name}`;
-            if (!ordersMap.has(finalName)) {
-              ordersMap.set(finalName, {
-                name: finalName,
-                customerName: custName,
-                customerPhone: o.customer?.phone || o.shipping_address?.phone || '',
-                shopifyOrderId: o.id
-              });
-            }
-          }
+      // 2. Search stored Shopify orders for unfulfilled or new orders
+      const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const storedMatches = await ShopifyOrderRecord.find(
+        {
+          $or: [
+            { name: { $regex: escapeRegex(cleanNumQuery), $options: 'i' } },
+            { email: { $regex: escapeRegex(lowerQuery), $options: 'i' } },
+            {
+              $expr: {
+                $regexMatch: {
+                  input: { $concat: [{ $ifNull: ['$customer.first_name', ''] }, ' ', { $ifNull: ['$customer.last_name', ''] }] },
+                  regex: escapeRegex(lowerQuery),
+                  options: 'i',
+                },
+              },
+            },
+          ],
+        },
+        { id: 1, name: 1, customer: 1, shipping_address: 1 }
+      ).sort({ orderedAt: -1 }).limit(50).lean();
+
+      for (const o of storedMatches) {
+        if (ordersMap.size >= 50) break;
+
+        const name = (o.name || '').toString();
+        const firstName = o.customer?.first_name || '';
+        const lastName = o.customer?.last_name || '';
+        const custName = `${firstName} ${lastName}`.trim() || 'N/A';
+
+        const finalName = name.startsWith('#') ? name : `#${name}`;
+        if (!ordersMap.has(finalName)) {
+          ordersMap.set(finalName, {
+            name: finalName,
+            customerName: custName,
+            customerPhone: o.customer?.phone || o.shipping_address?.phone || '',
+            shopifyOrderId: o.id
+          });
         }
       }
 
-      // 3. For orders found in cache that are missing phone, check if we have them in ShippingCharge 
+      // 3. For orders found in the order store that are missing phone, check if we have them in ShippingCharge 
       const currentOrders = Array.from(ordersMap.values());
       const namesMissingPhone = currentOrders
         .filter(o => !o.customerPhone)
@@ -1227,7 +1245,7 @@ router.get('/daily-roas', requireAdmin, async (req: AuthenticatedRequest, res: R
 
     // Pure read — DailyROAS is kept up to date on the WRITE paths instead:
     //  • ad-spend create/delete → recomputeForDate(dateKey)      (expenses.ts)
-    //  • order-cache refresh    → scheduleRoasRecompute()        (shopifyService.updateCache)
+    //  • order store refresh    → scheduleRoasRecompute()        (shopifyService.storeOrders)
     // Revenue and ad spend can only change through those two writers, so
     // recomputing here on every FE load was pure wasted work.
     const filter: Record<string, any> = {};
@@ -1655,81 +1673,61 @@ router.get('/daily-averages', requireAdmin, async (req: AuthenticatedRequest, re
 /**
  * GET /api/admin/sales/backlog-orders
  * Lightweight endpoint for the Backlog Mosaic page.
- * Reads directly from ShopifyOrderCache, applies server-side filters (Jan 2026+,
+ * Reads directly from the order store, applies server-side filters (Jan 2026+,
  * non-cancelled), and returns only the 7 fields the mosaic needs.
+ * Each order also carries its production stage from the production board.
  * No shipping charge lookups, no delivery-date lookups — ~20x smaller payload.
  */
 router.get('/backlog-orders', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Shopify created_at strings are ISO-8601 and sort lexicographically, so a
-    // string prefix comparison ">=2026-01-01" correctly excludes pre-2026 orders.
-    const BACKLOG_START_STR = '2026-01-01';
-
-    // Aggregation pipeline: all heavy work (filter + field projection) runs inside
-    // MongoDB so only the 7 needed fields for post-2026 non-cancelled orders are
-    // transferred to Node.js — typically 10-20x less data than loading raw orders.
-    const cacheEntries = await ShopifyOrderCache.aggregate([
-      { $match: { cacheKey: { $regex: /^all_orders_/ } } },
+    const BACKLOG_START_KEY = '2026-01-01';
+
+    // Aggregation pipeline: filter + field projection run inside MongoDB on the
+    // indexed order store, so only the 7 needed fields for post-2026
+    // non-cancelled orders are transferred to Node.js.
+    const orders = await ShopifyOrderRecord.aggregate([
+      { $match: { cancelled_at: null, dateKey: { $gte: BACKLOG_START_KEY } } },
+      { $sort: { orderedAt: -1 } },
       {
+        // Project only the 7 fields the mosaic needs
         $project: {
           _id: 0,
-          orders: {
-            $map: {
-              // Filter to Jan 2026+ non-cancelled orders inside MongoDB
-              input: {
-                $filter: {
-                  input: '$orders',
-                  as: 'o',
-                  cond: {
-                    $and: [
-                      { $not: [{ $ifNull: ['$$o.cancelled_at', false] }] },
-                      { $gte: ['$$o.created_at', BACKLOG_START_STR] },
+          id: 1,
+          name: 1,
+          created_at: 1,
+          fulfillment_status: 1,
+          // Extract just the last fulfillment's shipment_status
+          last_shipment_status: {
+            $getField: {
+              field: 'shipment_status',
+              input: { $arrayElemAt: [{ $ifNull: ['$fulfillments', []] }, -1] },
+            },
+          },
+          // Customer name: prefer shipping_address.name, fallback to customer fields
+          customer_name: {
+            $ifNull: [
+              '$shipping_address.name',
+              {
+                $trim: {
+                  input: {
+                    $concat: [
+                      { $ifNull: ['$customer.first_name', ''] },
+                      ' ',
+                      { $ifNull: ['$customer.last_name', ''] },
                     ],
                   },
                 },
               },
-              as: 'o',
-              // Project only the 7 fields the mosaic needs
+            ],
+          },
+          line_items: {
+            $map: {
+              input: { $ifNull: ['$line_items', []] },
+              as: 'li',
               in: {
-                id: '$$o.id',
-                name: '$$o.name',
-                created_at: '$$o.created_at',
-                fulfillment_status: '$$o.fulfillment_status',
-                // Extract just the last fulfillment's shipment_status
-                last_shipment_status: {
-                  $getField: {
-                    field: 'shipment_status',
-                    input: { $arrayElemAt: [{ $ifNull: ['$$o.fulfillments', []] }, -1] },
-                  },
-                },
-                // Customer name: prefer shipping_address.name, fallback to customer fields
-                customer_name: {
-                  $ifNull: [
-                    '$$o.shipping_address.name',
-                    {
-                      $trim: {
-                        input: {
-                          $concat: [
-                            { $ifNull: ['$$o.customer.first_name', ''] },
-                            ' ',
-                            { $ifNull: ['$$o.customer.last_name', ''] },
-                          ],
-                        },
-                      },
-                    },
-                  ],
-                },
-                line_items: {
-                  $map: {
-                    input: { $ifNull: ['$$o.line_items', []] },
-                    as: 'li',
-                    in: {
-                      title: '$$li.title',
-                      quantity: '$$li.quantity',
-                      variant_title: '$$li.variant_title',
-                    },
-                  },
-                },
+                title: '$$li.title',
+                quantity: '$$li.quantity',
+                variant_title: '$$li.variant_title',
               },
             },
           },
@@ -1737,28 +1735,23 @@ router.get('/backlog-orders', requireAdmin, async (req: AuthenticatedRequest, re
       },
     ]);
 
-    // Deduplicate across cache chunks (there may be multiple all_orders_* entries)
-    const seen = new Set<number | string>();
-    const result: any[] = [];
-
-    for (const entry of cacheEntries) {
-      for (const o of (entry.orders ?? []) as any[]) {
-        if (!o.id || seen.has(o.id)) continue;
-        seen.add(o.id);
-
-        const deliveryStatus: string | null =
-          o.last_shipment_status || o.fulfillment_status || null;
-
-        result.push({
-          id: o.id,
-          name: o.name,
-          createdAt: o.created_at,
-          fulfillmentStatus: o.fulfillment_status || null,
-          deliveryStatus,
-          customerName: o.customer_name || null,
-          lineItems: (o.line_items as any[]) ?? [],
-        });
-      }
+    const result: any[] = orders.map(o => ({
+      id: o.id,
+      name: o.name,
+      createdAt: o.created_at,
+      fulfillmentStatus: o.fulfillment_status || null,
+      deliveryStatus: o.last_shipment_status || o.fulfillment_status || null,
+      customerName: o.customer_name || null,
+      lineItems: (o.line_items as any[]) ?? [],
+    }));
+
+    // Unshipped orders take their state from the production board rather than
+    // being guessed from fulfillment status
+    const productionStates = await getProductionStates(result.map(o => o.name));
+    for (const order of result) {
+      const state = productionStates.get(String(order.name).replace(/^#/, ''));
+      order.productionStage = state?.stage || null;
+      order.productionStale = state?.isStale || false;
     }
 
     res.json({ success: true, orders: result });
@@ -1771,7 +1764,7 @@ router.get('/backlog-orders', requireAdmin, async (req: AuthenticatedRequest, re
 /**
  * GET /api/admin/sales/failed-orders-analysis
  * Returns pre-aggregated stats for the Failed Orders analysis page.
- * All heavy computation (joining RTOOrder, DiscardedOrder, ShippingCharge,
+ * All heavy computation (joining lifecycle states and ShippingCharge,
  * bucketing into courier/city/delay categories) happens here on the server.
  * The frontend receives only 4 small stat objects instead of ~10k raw orders.
  */
@@ -1780,42 +1773,24 @@ router.get('/failed-orders-analysis', requireAdmin, async (_req: AuthenticatedRe
     const DATA_START = '2026-01-28';
 
     // Load all support data in parallel
-    const [rtoRows, discardedRows, shippingRows, cacheEntries] = await Promise.all([
-      RTOOrder.find({}, { shopifyOrderId: 1 }).lean(),
-      DiscardedOrder.find({}, { orderId: 1 }).lean(),
+    const [states, shippingRows, orders] = await Promise.all([
+      loadOrderStates(),
       ShippingCharge.find({}, { orderNumber: 1, courierName: 1, pickupDate: 1, firstAttemptDate: 1, customerCity: 1 }).lean(),
-      ShopifyOrderCache.aggregate([
-        { $match: { cacheKey: { $regex: /^all_orders_/ } } },
+      // Only the fields the lifecycle fallback and this report read
+      ShopifyOrderRecord.aggregate<ShopifyOrder>([
+        { $match: { cancelled_at: null, dateKey: { $gte: DATA_START } } },
         { $project: {
-          orders: {
-            $map: {
-              input: { $filter: {
-                input: '$orders', as: 'o',
-                cond: { $and: [
-                  { $not: [{ $ifNull: ['$$o.cancelled_at', false] }] },
-                  { $gte: ['$$o.created_at', DATA_START] },
-                ]},
-              }},
-              as: 'o',
-              in: {
-                id: '$$o.id',
-                name: '$$o.name',
-                created_at: '$$o.created_at',
-                fulfillment_status: '$$o.fulfillment_status',
-                shipment_status: { $ifNull: [
-                  { $getField: { field: 'shipment_status', input: { $arrayElemAt: [{ $ifNull: ['$$o.fulfillments', []] }, -1] } } },
-                  null,
-                ]},
-              },
-            },
-          },
+          _id: 0,
+          id: 1,
+          name: 1,
+          created_at: 1,
+          fulfillment_status: 1,
+          // Only the latest fulfillment carries the current shipment status
+          fulfillments: { $slice: [{ $ifNull: ['$fulfillments', []] }, -1] },
         }},
       ]),
     ]);
 
-    const rtoSet = new Set((rtoRows as any[]).map(r => r.shopifyOrderId as number));
-    const discardedSet = new Set((discardedRows as any[]).map(d => d.orderId as number));
-
     // Build shipping map: normalise order number → { courierName, pickupDate, firstAttemptDate, city }
     const shipMap = new Map<string, { courierName: string | null; pickupDate: string | null; firstAttemptDate: string | null; city: string | null }>();
     for (const s of shippingRows as any[]) {
@@ -1825,17 +1800,6 @@ router.get('/failed-orders-analysis', requireAdmin, async (_req: AuthenticatedRe
       shipMap.set(`#${base}`, val);
     }
 
-    // Deduplicate orders across cache entries
-    const seen = new Set<number>();
-    const orders: Array<{ id: number; name: string; created_at: string; fulfillment_status: string | null; shipment_status: string | null }> = [];
-    for (const entry of cacheEntries as any[]) {
-      for (const o of (entry.orders ?? []) as any[]) {
-        if (!o.id || seen.has(o.id)) continue;
-        seen.add(o.id);
-        orders.push(o);
-      }
-    }
-
     // Courier name normalisation
     const groupCourier = (name: string | null | undefined): string => {
       if (!name) return 'Unknown';
@@ -1882,11 +1846,11 @@ router.get('/failed-orders-analysis', requireAdmin, async (_req: AuthenticatedRe
     let failedCount = 0;
 
     for (const order of orders) {
-      if (discardedSet.has(order.id)) continue;
+      const state = getOrderState(order, states);
+      if (isExcludedState(state)) continue;
 
       const shipInfo = shipMap.get(order.name) ?? shipMap.get(order.name.replace(/^#/, '')) ?? null;
-      const deliveryStatus = (order.shipment_status || order.fulfillment_status || '').toLowerCase();
-      const isFailed = rtoSet.has(order.id) || deliveryStatus === 'failure' || deliveryStatus.includes('failed') || deliveryStatus.includes('rto');
+      const isFailed = state === 'failed';
 
       const courier = groupCourier(shipInfo?.courierName);
       const city = (shipInfo?.city || 'Unknown').trim().toLowerCase();
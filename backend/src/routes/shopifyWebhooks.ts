@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import {
+  isShopifyWebhookTopic,
+  verifyShopifyHmac,
+  claimDelivery,
+  processDelivery,
+} from '../services/shopifyWebhookService';
+
+const router = Router();
+
+/**
+ * POST /api/webhooks/shopify
+ * Receives orders/create, orders/updated, orders/cancelled and fulfillments/update.
+ * Mounted with a raw body parser so the HMAC is checked against the exact bytes Shopify signed.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const rawBody = req.body;
+    if (!Buffer.isBuffer(rawBody) || !verifyShopifyHmac(rawBody, req.get('X-Shopify-Hmac-Sha256'))) {
+      res.status(401).json({ success: false, error: 'Invalid webhook signature' });
+      return;
+    }
+
+    const topic = req.get('X-Shopify-Topic');
+    const webhookId = req.get('X-Shopify-Webhook-Id');
+    if (!isShopifyWebhookTopic(topic)) {
+      // Acknowledge so Shopify doesn't keep retrying a topic we never subscribed to handle
+      res.json({ success: true, ignored: true });
+      return;
+    }
+    if (!webhookId) {
+      res.status(400).json({ success: false, error: 'Missing webhook id' });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      res.status(400).json({ success: false, error: 'Invalid JSON body' });
+      return;
+    }
+
+    const claimed = await claimDelivery(webhookId, topic, req.get('X-Shopify-Shop-Domain'));
+    if (!claimed) {
+      res.json({ success: true, duplicate: true });
+      return;
+    }
+
+    await processDelivery(webhookId, topic, payload);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error handling Shopify webhook:', error);
+    // A non-2xx makes Shopify retry the delivery
+    res.status(500).json({ success: false, error: 'Failed to process webhook' });
+  }
+});
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router, Request, Response } from 'express';
+import path from 'path';
+import storage from '../services/storage';
+import { verifyReadSignature } from '../services/storage/localDiskStorage';
+
+const router = Router();
+
+/**
+ * GET /storage/*key
+ * Serve a photo kept by the local storage driver. Only URLs signed by
+ * getReadUrl() are honoured, so customer files are never publicly listable.
+ */
+router.get('/*key', async (req: Request, res: Response) => {
+  try {
+    const key = ([] as string[]).concat(req.params.key as string | string[]).join('/');
+    const expires = parseInt(req.query.expires as string, 10);
+    const signature = typeof req.query.signature === 'string' ? req.query.signature : '';
+
+    if (!verifyReadSignature(key, expires, signature)) {
+      res.status(403).json({ success: false, error: 'Link is invalid or has expired' });
+      return;
+    }
+
+    const body = await storage.stream(key);
+    if (!body) {
+      res.status(404).json({ success: false, error: 'File not found' });
+      return;
+    }
+
+    res.type(path.extname(key) || 'application/octet-stream');
+    res.set('Cache-Control', 'private, max-age=3600');
+    body.on('error', (streamError) => {
+      console.error('Error streaming stored file:', streamError);
+      res.destroy(streamError);
+    });
+    body.pipe(res);
+  } catch (error) {
+    console.error('Error serving stored file:', error);
+    res.status(500).json({ success: false, error: 'Failed to load file' });
+  }
+});
+
+export default router;
@@ -1,23 +1,48 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import multer from 'multer';
-import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { v4 as uuidv4 } from 'uuid';
 import magicLinkService from '../services/magicLinkService';
-import { UploadedImage } from '../models';
-import type { PhotoSize, PhotoType } from '../models/UploadedImage';
-import config from '../config';
-import { fromInstanceMetadata } from "@aws-sdk/credential-provider-imds";
+import uploadSessionService, { IncompleteUploadError, InvalidImageError, UploadCompletionInProgressError, MAX_UPLOAD_FILE_SIZE } from '../services/uploadSessionService';
+import { UploadedImage, IMagicLink } from '../models';
+import type { BlockedUploadReason } from '../models/BlockedUploadAttempt';
+import { MAX_CAPTION_LENGTH } from '../models/UploadedImage';
+import type { PhotoSize, PhotoType, ImageCrop, CropRotation } from '../models/UploadedImage';
+import storage, { getImageUrls } from '../services/storage';
+import { processUploadedImage, reassessPrintQuality, getImageStorageKeys, normalizeImageMimeType, detectImageFormat } from '../services/imageProcessingService';
+import { validateCrop } from '../services/printRenderService';
+import { findDuplicatePairs, findDuplicatesOf } from '../services/duplicateDetectionService';
+import { checkCanAddPrints, getAllowanceUsage, getLinkAllowances, checkAllowancesFilled, describeAllowance } from '../services/printAllowanceService';
+import { checkCanAddPhotos, checkCanChangePhoto, getPhotosAwaitingReplacement, markReplaced } from '../services/photoReviewService';
+import {
+  checkRequestRate,
+  checkPinAttemptRate,
+  clearPinAttempts,
+  clearPinFailures,
+  getPinLockoutSeconds,
+  recordPinFailure,
+  checkHourlyUploadCap,
+  isPinRequired,
+  verifyPin,
+  issueAccessKey,
+  hasValidAccessKey,
+  logBlockedAttempt,
+} from '../services/uploadGuardService';
+import { getOrderStatus } from '../services/orderStatusService';
+import { startProductionJob } from '../services/productionService';
 
 const router = Router();
 
-// Configure multer for memory storage (we'll stream to S3)
+// Replacement photos arrive as one multipart file held in memory; new photos
+// go through the chunked upload sessions below, which stream parts straight to storage
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 20 * 1024 * 1024, // 20MB max
+    fileSize: MAX_UPLOAD_FILE_SIZE, // 20MB max
   },
   fileFilter: (_req, file, cb) => {
-    // Only allow images
+    // Only allow images (HEIC sometimes arrives without an image/ MIME type)
+    file.mimetype = normalizeImageMimeType(file.mimetype, file.originalname);
     if (file.mimetype.startsWith('image/')) {
       cb(null, true);
     } else {
@@ -26,16 +51,120 @@ const upload = multer({
   },
 });
 
-// Configure S3 client (use default AWS credential provider chain; works with EC2 IAM role)
-const getS3Client = () => {
-  return new S3Client({
-    region: config.aws.region,
-    credentials: fromInstanceMetadata(),
-    forcePathStyle: false,
+const INVALID_FILE_ERROR = 'This file is not a supported photo. Please upload a JPEG, PNG, HEIC or WebP image';
+
+const logBlocked = (req: Request, reason: BlockedUploadReason, magicLink?: IMagicLink | null, details?: string) =>
+  logBlockedAttempt({
+    reason,
+    ip: req.ip || 'unknown',
+    token: req.params.token as string,
+    method: req.method,
+    path: req.originalUrl.split('?')[0].replace(req.params.token as string, ':token'),
+    magicLink,
+    details,
   });
-};
 
-const s3Client = getS3Client();
+/**
+ * Every /:token route: per-IP and per-link rate limits, then the PIN gate for links
+ * that require one. The upload page sends the key from POST /:token/pin in the
+ * X-Upload-Access header (or ?access= where a header can't be set, e.g. <img> tags).
+ */
+router.use('/:token', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = req.params.token as string;
+    const ip = req.ip || 'unknown';
+
+    const limited = checkRequestRate(ip, token);
+    if (limited) {
+      if (limited.shouldLog) await logBlocked(req, limited.reason);
+      res.set('Retry-After', String(limited.retryAfterSeconds));
+      res.status(429).json({ success: false, error: 'Too many requests. Please wait a few minutes and try again' });
+      return;
+    }
+
+    // Entering the PIN is the one thing allowed without it
+    if (req.method === 'POST' && req.path === '/pin') {
+      next();
+      return;
+    }
+
+    const magicLink = await magicLinkService.findByToken(token);
+    if (!magicLink || !isPinRequired(magicLink)) {
+      next();
+      return;
+    }
+
+    const accessKey = req.get('X-Upload-Access') || (typeof req.query.access === 'string' ? req.query.access : undefined);
+    if (!hasValidAccessKey(magicLink, accessKey)) {
+      // Opening the page without the PIN is the normal first visit; anything else is refused
+      if (!(req.method === 'GET' && req.path === '/')) {
+        await logBlocked(req, 'pin_required', magicLink);
+      }
+      res.status(401).json({ success: false, pinRequired: true, error: 'Enter the PIN to open this upload page' });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Error checking upload access:', error);
+    res.status(500).json({ success: false, error: 'Failed to validate link' });
+  }
+});
+
+/**
+ * POST /api/upload/:token/pin
+ * Check the PIN (last digits of the order phone) and return an access key for the upload page
+ */
+router.post('/:token/pin', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const ip = req.ip || 'unknown';
+    const result = await magicLinkService.validateToken(token);
+
+    if (!result.valid || !result.magicLink) {
+      res.status(400).json({ success: false, error: result.error });
+      return;
+    }
+
+    const magicLink = result.magicLink;
+
+    if (!isPinRequired(magicLink)) {
+      res.json({ success: true });
+      return;
+    }
+
+    const lockedForSeconds = getPinLockoutSeconds(magicLink);
+    if (lockedForSeconds > 0) {
+      res.set('Retry-After', String(lockedForSeconds));
+      res.status(429).json({ success: false, error: 'Too many wrong PINs on this link. Please try again later or contact us' });
+      return;
+    }
+
+    const attempt = checkPinAttemptRate(ip, token);
+    if (!attempt.allowed) {
+      if (attempt.shouldLog) await logBlocked(req, 'pin_locked', magicLink);
+      res.set('Retry-After', String(attempt.retryAfterSeconds));
+      res.status(429).json({ success: false, error: 'Too many wrong PINs. Please wait a few minutes and try again' });
+      return;
+    }
+
+    if (!verifyPin(magicLink, String(req.body.pin ?? ''))) {
+      await logBlocked(req, 'pin_invalid', magicLink);
+      if (await recordPinFailure(magicLink)) {
+        await logBlocked(req, 'pin_locked', magicLink, 'Link locked after too many wrong PINs');
+      }
+      res.status(401).json({ success: false, error: 'That PIN is not right. It is the last 4 digits of the phone number on your order' });
+      return;
+    }
+
+    clearPinAttempts(ip, token);
+    await clearPinFailures(magicLink);
+    res.json({ success: true, accessKey: issueAccessKey(magicLink) });
+  } catch (error) {
+    console.error('Error checking upload PIN:', error);
+    res.status(500).json({ success: false, error: 'Failed to check PIN' });
+  }
+});
 
 /**
  * GET /api/upload/:token
@@ -52,6 +181,17 @@ router.get('/:token', async (req: Request, res: Response) => {
     }
 
     const magicLink = result.magicLink;
+    const { allowances, printsUsed } = await getAllowanceUsage(magicLink);
+    const rejectedPhotos = await getPhotosAwaitingReplacement(magicLink._id as mongoose.Types.ObjectId);
+    await magicLinkService.recordOpened(magicLink);
+
+    // Once photos are in, the page becomes an order status page
+    const orderStatus = magicLink.submittedForPrinting || magicLink.imagesDeleted
+      ? await getOrderStatus(magicLink).catch(error => {
+          console.error('Error building order status:', error);
+          return undefined;
+        })
+      : undefined;
 
     res.json({
       success: true,
@@ -59,14 +199,26 @@ router.get('/:token', async (req: Request, res: Response) => {
       customerName: magicLink.customerName,
       maxUploads: magicLink.maxUploads,
       currentUploads: magicLink.currentUploads,
-      remainingUploads: magicLink.maxUploads - magicLink.currentUploads,
+      remainingUploads: Math.max(magicLink.maxUploads - printsUsed, 0),
+      allowances,
+      printsUsed,
       expiresAt: magicLink.expiresAt,
       submittedForPrinting: magicLink.submittedForPrinting || false,
       submittedAt: magicLink.submittedAt,
+      reopenedAt: magicLink.reopenedAt,
+      // Photos sent back during review, with the reason, until they are replaced
+      rejectedPhotos: rejectedPhotos.map(img => ({
+        id: img._id,
+        originalName: img.originalName,
+        thumbnailUrl: getImageUrls(img).thumbnailUrl,
+        reason: img.rejection!.reason,
+        rejectedAt: img.rejection!.rejectedAt,
+      })),
       imagesDeleted: magicLink.imagesDeleted || false,
       imagesDeletedAt: magicLink.imagesDeletedAt,
       photoSize: magicLink.photoSize,
       photoType: magicLink.photoType,
+      orderStatus,
     });
   } catch (error) {
     console.error('Error validating upload link:', error);
@@ -75,10 +227,10 @@ router.get('/:token', async (req: Request, res: Response) => {
 });
 
 /**
- * POST /api/upload/:token/upload
- * Upload a single image (public - no auth required, just valid magic link)
+ * POST /api/upload/:token/uploads
+ * Start (or resume) a chunked upload session for one photo
  */
-router.post('/:token/upload', upload.single('photo'), async (req: Request, res: Response) => {
+router.post('/:token/uploads', async (req: Request, res: Response) => {
   try {
     const token = req.params.token as string;
     const result = await magicLinkService.validateToken(token);
@@ -89,22 +241,29 @@ router.post('/:token/upload', upload.single('photo'), async (req: Request, res:
     }
 
     const magicLink = result.magicLink;
+    const { fileName, fileSize, size: photoSize, type: photoType } = req.body;
+    const mimeType = normalizeImageMimeType(req.body.mimeType, fileName || '');
 
-    // Check if we have remaining uploads
-    if (magicLink.currentUploads >= magicLink.maxUploads) {
-      res.status(400).json({ success: false, error: 'Upload limit reached' });
+    const lockedError = checkCanAddPhotos(magicLink);
+    if (lockedError) {
+      res.status(400).json({ success: false, error: lockedError });
       return;
     }
 
-    // Check if file was uploaded
-    if (!req.file) {
-      res.status(400).json({ success: false, error: 'No file uploaded' });
+    if (!fileName || typeof fileName !== 'string') {
+      res.status(400).json({ success: false, error: 'File name is required' });
       return;
     }
 
-    // Get size and type from request body
-    const photoSize = req.body.size as PhotoSize;
-    const photoType = req.body.type as PhotoType;
+    if (typeof fileSize !== 'number' || fileSize <= 0 || fileSize > MAX_UPLOAD_FILE_SIZE) {
+      res.status(400).json({ success: false, error: 'File must be between 1 byte and 20MB' });
+      return;
+    }
+
+    if (!mimeType.startsWith('image/')) {
+      res.status(400).json({ success: false, error: 'Only image files are allowed' });
+      return;
+    }
 
     if (!photoSize || !['large', 'small'].includes(photoSize)) {
       res.status(400).json({ success: false, error: 'Invalid photo size' });
@@ -116,77 +275,259 @@ router.post('/:token/upload', upload.single('photo'), async (req: Request, res:
       return;
     }
 
-    // Generate unique filename
-    const fileExtension = req.file.originalname.split('.').pop() || 'jpg';
-    const fileName = `${uuidv4()}.${fileExtension}`;
-    const orderFolder = magicLink.orderNumber.replace(/[^a-zA-Z0-9]/g, '_');
-    const s3Key = `uploads/${orderFolder}/${photoSize}/${photoType}/${fileName}`;
+    // Re-selecting the same file after a dropped connection picks up where it left off
+    let session = await uploadSessionService.findResumableSession(magicLink._id, fileName, fileSize, photoSize, photoType);
 
-    // Upload to S3
-    try {
-      await s3Client.send(new PutObjectCommand({
-        Bucket: config.aws.s3Bucket,
-        Key: s3Key,
-        Body: req.file.buffer,
-        ContentType: req.file.mimetype,
-        Metadata: {
-          orderNumber: magicLink.orderNumber,
-          originalName: req.file.originalname,
-          photoSize,
-          photoType,
-        },
-      }));
-    } catch (s3Error: unknown) {
-      console.error('S3 Upload Error:', s3Error);
-      const errorMessage = s3Error instanceof Error ? s3Error.message : 'Unknown S3 error';
-      
-      // Check for region mismatch
-      if (errorMessage.includes('PermanentRedirect') || errorMessage.includes('specified endpoint')) {
-        res.status(500).json({ 
-          success: false, 
-          error: 'S3 bucket region mismatch. Check AWS_REGION configuration.' 
-        });
+    if (!session) {
+      const capError = await checkHourlyUploadCap(magicLink);
+      if (capError) {
+        await logBlocked(req, 'hourly_cap', magicLink);
+        res.status(429).json({ success: false, error: capError });
         return;
       }
-      
-      res.status(500).json({ success: false, error: 'Failed to upload to storage' });
+
+      // In-flight sessions count against the allowances so parallel uploads can't overshoot
+      const allowanceError = await checkCanAddPrints(magicLink, { photoSize, photoType, copies: 1 });
+      if (allowanceError) {
+        res.status(400).json({ success: false, error: allowanceError });
+        return;
+      }
+
+      session = await uploadSessionService.createSession({
+        magicLink,
+        originalName: fileName,
+        fileSize,
+        mimeType,
+        photoSize,
+        photoType,
+      });
+    }
+
+    const uploadedParts = await uploadSessionService.listParts(session);
+
+    res.json({
+      success: true,
+      session: {
+        id: session._id,
+        partSize: session.partSize,
+        totalParts: session.totalParts,
+        uploadedParts: uploadedParts.map(p => p.partNumber),
+        expiresAt: session.expiresAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error creating upload session:', error);
+    res.status(500).json({ success: false, error: 'Failed to start upload' });
+  }
+});
+
+/**
+ * GET /api/upload/:token/uploads/:sessionId
+ * Get the parts already received for an upload session (used to resume)
+ */
+router.get('/:token/uploads/:sessionId', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const sessionId = req.params.sessionId as string;
+    const result = await magicLinkService.validateToken(token);
+
+    if (!result.valid || !result.magicLink) {
+      res.status(400).json({ success: false, error: result.error });
       return;
     }
 
-    const s3Url = `https://${config.aws.s3Bucket}.s3.${config.aws.region}.amazonaws.com/${s3Key}`;
+    const session = await uploadSessionService.findSession(result.magicLink._id, sessionId);
 
-    // Save to database
-    const uploadedImage = new UploadedImage({
-      magicLinkId: magicLink._id,
-      orderNumber: magicLink.orderNumber,
-      fileName,
-      originalName: req.file.originalname,
-      s3Key,
-      s3Url,
-      fileSize: req.file.size,
-      mimeType: req.file.mimetype,
-      photoSize,
-      photoType,
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Upload session not found' });
+      return;
+    }
+
+    const uploadedParts = session.status === 'pending' ? await uploadSessionService.listParts(session) : [];
+
+    res.json({
+      success: true,
+      session: {
+        id: session._id,
+        status: session.status,
+        partSize: session.partSize,
+        totalParts: session.totalParts,
+        uploadedParts: uploadedParts.map(p => p.partNumber),
+        expiresAt: session.expiresAt,
+      },
     });
+  } catch (error) {
+    console.error('Error fetching upload session:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch upload session' });
+  }
+});
+
+/**
+ * PUT /api/upload/:token/uploads/:sessionId/parts/:partNumber
+ * Receive one part as a raw binary body and stream it to storage
+ */
+router.put('/:token/uploads/:sessionId/parts/:partNumber', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const sessionId = req.params.sessionId as string;
+    const partNumber = parseInt(req.params.partNumber as string, 10);
+    const result = await magicLinkService.validateToken(token);
+
+    if (!result.valid || !result.magicLink) {
+      res.status(400).json({ success: false, error: result.error });
+      return;
+    }
+
+    const session = await uploadSessionService.findSession(result.magicLink._id, sessionId);
+
+    if (!session || session.status !== 'pending') {
+      res.status(404).json({ success: false, error: 'Upload session not found' });
+      return;
+    }
+
+    if (session.assembledAt) {
+      res.status(409).json({ success: false, error: 'All parts have already been received' });
+      return;
+    }
+
+    if (isNaN(partNumber) || partNumber < 1 || partNumber > session.totalParts) {
+      res.status(400).json({ success: false, error: 'Invalid part number' });
+      return;
+    }
+
+    const contentLength = parseInt(req.headers['content-length'] || '', 10);
+    if (contentLength !== uploadSessionService.getExpectedPartSize(session, partNumber)) {
+      res.status(400).json({ success: false, error: 'Part size does not match the upload session' });
+      return;
+    }
 
-    await uploadedImage.save();
+    await uploadSessionService.uploadPart(session, partNumber, req, contentLength);
 
-    // Increment upload count
-    await magicLinkService.incrementUploadCount(token);
+    res.json({ success: true, partNumber });
+  } catch (error) {
+    console.error('Error uploading part:', error);
+    res.status(500).json({ success: false, error: 'Failed to upload part' });
+  }
+});
+
+/**
+ * POST /api/upload/:token/uploads/:sessionId/complete
+ * Assemble the parts and record the uploaded image
+ */
+router.post('/:token/uploads/:sessionId/complete', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const sessionId = req.params.sessionId as string;
+    const result = await magicLinkService.validateToken(token);
+
+    if (!result.valid || !result.magicLink) {
+      res.status(400).json({ success: false, error: result.error });
+      return;
+    }
+
+    const session = await uploadSessionService.findSession(result.magicLink._id, sessionId);
+
+    if (!session || session.status === 'aborted') {
+      res.status(404).json({ success: false, error: 'Upload session not found' });
+      return;
+    }
+
+    // A retried completion call (e.g. response lost on a flaky connection) returns the same image
+    if (session.status === 'completed' && session.uploadedImageId) {
+      const existingImage = await UploadedImage.findById(session.uploadedImageId);
+      if (existingImage) {
+        res.json({
+          success: true,
+          image: {
+            id: existingImage._id,
+            fileName: existingImage.fileName,
+            ...getImageUrls(existingImage),
+            photoSize: existingImage.photoSize,
+            photoType: existingImage.photoType,
+            quality: existingImage.quality,
+            duplicateOf: await findDuplicatesOf(existingImage),
+          },
+        });
+        return;
+      }
+    }
+
+    // The session itself already holds its print, so only recheck with it excluded
+    const allowanceError = await checkCanAddPrints(
+      result.magicLink,
+      { photoSize: session.photoSize, photoType: session.photoType, copies: 1 },
+      { excludeSessionId: String(session._id) }
+    );
+    if (allowanceError) {
+      res.status(400).json({ success: false, error: allowanceError });
+      return;
+    }
+
+    // A concurrent call for the same session waits and gets the photo the first one recorded
+    const { image: uploadedImage, created } = await uploadSessionService.completeSession(session, token);
+    if (created) {
+      await magicLinkService.recordEvent(result.magicLink, 'uploaded', { actor: 'customer', details: uploadedImage.originalName });
+    }
 
     res.json({
       success: true,
       image: {
         id: uploadedImage._id,
-        fileName,
-        s3Url,
-        photoSize,
-        photoType,
+        fileName: uploadedImage.fileName,
+        ...getImageUrls(uploadedImage),
+        photoSize: uploadedImage.photoSize,
+        photoType: uploadedImage.photoType,
+        quality: uploadedImage.quality,
+        duplicateOf: await findDuplicatesOf(uploadedImage),
       },
     });
   } catch (error) {
-    console.error('Error handling upload:', error);
-    res.status(500).json({ success: false, error: 'Upload failed' });
+    if (error instanceof IncompleteUploadError) {
+      res.status(409).json({ success: false, error: 'Upload is incomplete', missingParts: error.missingParts });
+      return;
+    }
+    if (error instanceof UploadCompletionInProgressError) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
+    if (error instanceof InvalidImageError) {
+      await logBlocked(req, 'bad_file', null, `Chunked upload session ${req.params.sessionId}`);
+      res.status(415).json({ success: false, error: INVALID_FILE_ERROR });
+      return;
+    }
+    console.error('Error completing upload:', error);
+    res.status(500).json({ success: false, error: 'Failed to complete upload' });
+  }
+});
+
+/**
+ * DELETE /api/upload/:token/uploads/:sessionId
+ * Cancel an in-progress upload session
+ */
+router.delete('/:token/uploads/:sessionId', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const sessionId = req.params.sessionId as string;
+    const result = await magicLinkService.validateToken(token);
+
+    if (!result.valid || !result.magicLink) {
+      res.status(400).json({ success: false, error: result.error });
+      return;
+    }
+
+    const session = await uploadSessionService.findSession(result.magicLink._id, sessionId);
+
+    if (!session || session.status !== 'pending') {
+      res.status(404).json({ success: false, error: 'Upload session not found' });
+      return;
+    }
+
+    await uploadSessionService.abortSession(session);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error aborting upload session:', error);
+    res.status(500).json({ success: false, error: 'Failed to cancel upload' });
   }
 });
 
@@ -213,11 +554,20 @@ router.get('/:token/images', async (req: Request, res: Response) => {
         id: img._id,
         fileName: img.fileName,
         originalName: img.originalName,
-        s3Url: img.s3Url,
+        ...getImageUrls(img),
         photoSize: img.photoSize,
         photoType: img.photoType,
+        quality: img.quality,
+        crop: img.crop,
+        copies: img.copies || 1,
+        caption: img.caption,
+        rejection: img.rejection?.reason
+          ? { reason: img.rejection.reason, rejectedAt: img.rejection.rejectedAt, replacedAt: img.rejection.replacedAt }
+          : undefined,
         uploadedAt: img.uploadedAt,
       })),
+      // Near-identical photos on this link, so the customer can drop one before submitting
+      duplicates: findDuplicatePairs(images),
     });
   } catch (error) {
     console.error('Error fetching images:', error);
@@ -227,7 +577,8 @@ router.get('/:token/images', async (req: Request, res: Response) => {
 
 /**
  * GET /api/upload/:token/images/:imageId/proxy
- * Proxy image from S3 to avoid CORS issues (for image editor)
+ * Proxy image from storage to avoid CORS issues. Serves the thumbnail by default;
+ * ?size=full serves the print-ready JPEG (for the image editor)
  */
 router.get('/:token/images/:imageId/proxy', async (req: Request, res: Response) => {
   try {
@@ -252,23 +603,23 @@ router.get('/:token/images/:imageId/proxy', async (req: Request, res: Response)
       return;
     }
 
-    // Fetch from S3
-    const s3Response = await s3Client.send(new GetObjectCommand({
-      Bucket: config.aws.s3Bucket,
-      Key: image.s3Key,
-    }));
+    // Images uploaded before processing existed only have the original
+    const derivativeKey = req.query.size === 'full' ? image.printKey : image.thumbnailKey;
+    const key = derivativeKey || image.s3Key;
 
-    if (!s3Response.Body) {
+    // Fetch from storage
+    const stream = await storage.stream(key);
+
+    if (!stream) {
       res.status(404).json({ success: false, error: 'Image not found in storage' });
       return;
     }
 
     // Set headers
-    res.setHeader('Content-Type', image.mimeType || 'image/jpeg');
+    res.setHeader('Content-Type', derivativeKey ? 'image/jpeg' : (image.mimeType || 'image/jpeg'));
     res.setHeader('Cache-Control', 'public, max-age=3600');
 
     // Stream the response
-    const stream = s3Response.Body as NodeJS.ReadableStream;
     stream.pipe(res);
   } catch (error) {
     console.error('Error proxying image:', error);
@@ -303,14 +654,19 @@ router.delete('/:token/images/:imageId', async (req: Request, res: Response) =>
       return;
     }
 
-    // Delete from S3
+    const lockedError = checkCanChangePhoto(result.magicLink, image);
+    if (lockedError) {
+      res.status(400).json({ success: false, error: lockedError });
+      return;
+    }
+
+    // Delete original and derivatives from storage
     try {
-      await s3Client.send(new DeleteObjectCommand({
-        Bucket: config.aws.s3Bucket,
-        Key: image.s3Key,
-      }));
+      for (const key of getImageStorageKeys(image)) {
+        await storage.delete(key);
+      }
     } catch (s3Error) {
-      console.warn('Failed to delete image from S3:', s3Error);
+      console.warn('Failed to delete image from storage:', s3Error);
       // Continue anyway - we'll still remove from database
     }
 
@@ -319,6 +675,7 @@ router.delete('/:token/images/:imageId', async (req: Request, res: Response) =>
 
     // Decrement upload count
     await magicLinkService.decrementUploadCount(token);
+    await magicLinkService.recordEvent(result.magicLink, 'deleted', { actor: 'customer', details: image.originalName });
 
     res.json({ success: true });
   } catch (error) {
@@ -329,7 +686,7 @@ router.delete('/:token/images/:imageId', async (req: Request, res: Response) =>
 
 /**
  * PUT /api/upload/:token/images/:imageId
- * Update an existing image (replace with edited version)
+ * Update an existing image (replace with edited version or a better-quality file)
  */
 router.put('/:token/images/:imageId', upload.single('photo'), async (req: Request, res: Response) => {
   try {
@@ -360,61 +717,90 @@ router.put('/:token/images/:imageId', upload.single('photo'), async (req: Reques
       return;
     }
 
-    // Delete old image from S3
-    try {
-      await s3Client.send(new DeleteObjectCommand({
-        Bucket: config.aws.s3Bucket,
-        Key: existingImage.s3Key,
-      }));
-    } catch (deleteError) {
-      console.warn('Failed to delete old image from S3:', deleteError);
-      // Continue anyway - old image will be orphaned but new one will still be uploaded
+    const lockedError = checkCanChangePhoto(result.magicLink, existingImage);
+    if (lockedError) {
+      res.status(400).json({ success: false, error: lockedError });
+      return;
     }
 
-    // Generate new filename
-    const fileName = `${uuidv4()}.jpg`;
+    if (!detectImageFormat(req.file.buffer)) {
+      await logBlocked(req, 'bad_file', result.magicLink, `${req.file.originalname} (${req.file.mimetype})`);
+      res.status(415).json({ success: false, error: INVALID_FILE_ERROR });
+      return;
+    }
+
+    const capError = await checkHourlyUploadCap(result.magicLink);
+    if (capError) {
+      await logBlocked(req, 'hourly_cap', result.magicLink);
+      res.status(429).json({ success: false, error: capError });
+      return;
+    }
+
+    // The old files stay put until the replacement is stored and recorded, so a failure keeps the photo
+    const oldKeys = getImageStorageKeys(existingImage);
+
+    // Edited images arrive as a JPEG blob; replacement files keep their own format
+    const mimeType = req.file.mimetype || 'image/jpeg';
+    const fileExtension = mimeType === 'image/jpeg' ? 'jpg' : (req.file.originalname.split('.').pop() || 'jpg');
+    const fileName = `${uuidv4()}.${fileExtension}`;
     const orderFolder = result.magicLink.orderNumber.replace(/[^a-zA-Z0-9]/g, '_');
     const s3Key = `uploads/${orderFolder}/${existingImage.photoSize}/${existingImage.photoType}/${fileName}`;
 
-    // Upload new image to S3
+    // Upload new image to storage
     try {
-      await s3Client.send(new PutObjectCommand({
-        Bucket: config.aws.s3Bucket,
-        Key: s3Key,
-        Body: req.file.buffer,
-        ContentType: 'image/jpeg',
-        Metadata: {
+      await storage.put(s3Key, req.file.buffer, {
+        contentType: mimeType,
+        metadata: {
           orderNumber: result.magicLink.orderNumber,
           originalName: existingImage.originalName,
           photoSize: existingImage.photoSize,
           photoType: existingImage.photoType,
           editedAt: new Date().toISOString(),
         },
-      }));
+      });
     } catch (s3Error) {
-      console.error('S3 Upload Error:', s3Error);
+      console.error('Storage Upload Error:', s3Error);
       res.status(500).json({ success: false, error: 'Failed to upload to storage' });
       return;
     }
 
-    const s3Url = `https://${config.aws.s3Bucket}.s3.${config.aws.region}.amazonaws.com/${s3Key}`;
+    const s3Url = storage.getPublicUrl(s3Key);
 
     // Update database record
     existingImage.fileName = fileName;
     existingImage.s3Key = s3Key;
     existingImage.s3Url = s3Url;
     existingImage.fileSize = req.file.size;
-    existingImage.mimeType = 'image/jpeg';
+    existingImage.mimeType = mimeType;
+    existingImage.crop = undefined; // The old crop was positioned on a different photo
+    markReplaced(existingImage);
+    await processUploadedImage(existingImage, req.file.buffer);
     await existingImage.save();
+    await magicLinkService.recordEvent(result.magicLink, 'replaced', {
+      actor: 'customer',
+      details: `${existingImage.originalName} with ${req.file.originalname}`,
+    });
+
+    // Delete old image and its derivatives from storage
+    try {
+      for (const key of oldKeys) {
+        await storage.delete(key);
+      }
+    } catch (deleteError) {
+      console.warn('Failed to delete old image from storage:', deleteError);
+      // Continue anyway - the old files are orphaned but the replacement is already saved
+    }
 
     res.json({
       success: true,
       image: {
         id: existingImage._id,
         fileName,
-        s3Url,
+        ...getImageUrls(existingImage),
         photoSize: existingImage.photoSize,
         photoType: existingImage.photoType,
+        quality: existingImage.quality,
+        duplicateOf: await findDuplicatesOf(existingImage),
       },
     });
   } catch (error) {
@@ -423,6 +809,207 @@ router.put('/:token/images/:imageId', upload.single('photo'), async (req: Reques
   }
 });
 
+/**
+ * PATCH /api/upload/:token/images/:imageId
+ * Change a photo's print size, style, number of copies or polaroid caption
+ */
+router.patch('/:token/images/:imageId', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const imageId = req.params.imageId as string;
+
+    const result = await magicLinkService.validateToken(token);
+
+    if (!result.valid || !result.magicLink) {
+      res.status(400).json({ success: false, error: result.error });
+      return;
+    }
+
+    const image = await UploadedImage.findOne({
+      _id: imageId,
+      magicLinkId: result.magicLink._id,
+    });
+
+    if (!image) {
+      res.status(404).json({ success: false, error: 'Image not found' });
+      return;
+    }
+
+    const lockedError = checkCanChangePhoto(result.magicLink, image);
+    if (lockedError) {
+      res.status(400).json({ success: false, error: lockedError });
+      return;
+    }
+
+    const photoSize = (req.body.photoSize ?? image.photoSize) as PhotoSize;
+    const photoType = (req.body.photoType ?? image.photoType) as PhotoType;
+    const copies = Number(req.body.copies ?? image.copies ?? 1);
+
+    if (!['large', 'small'].includes(photoSize)) {
+      res.status(400).json({ success: false, error: 'Invalid photo size' });
+      return;
+    }
+
+    if (!['normal', 'polaroid'].includes(photoType)) {
+      res.status(400).json({ success: false, error: 'Invalid photo type' });
+      return;
+    }
+
+    if (!Number.isInteger(copies) || copies < 1) {
+      res.status(400).json({ success: false, error: 'Copies must be a whole number of at least 1' });
+      return;
+    }
+
+    if (req.body.caption !== undefined && req.body.caption !== null && typeof req.body.caption !== 'string') {
+      res.status(400).json({ success: false, error: 'Caption must be text' });
+      return;
+    }
+
+    const caption = req.body.caption === undefined ? image.caption : (req.body.caption || '').trim();
+    if (caption && caption.length > MAX_CAPTION_LENGTH) {
+      res.status(400).json({ success: false, error: `Caption must be ${MAX_CAPTION_LENGTH} characters or fewer` });
+      return;
+    }
+
+    const allowanceError = await checkCanAddPrints(
+      result.magicLink,
+      { photoSize, photoType, copies },
+      { excludeImageId: imageId }
+    );
+    if (allowanceError) {
+      res.status(400).json({ success: false, error: allowanceError });
+      return;
+    }
+
+    const printChanged = photoSize !== image.photoSize || photoType !== image.photoType;
+    image.photoSize = photoSize;
+    image.photoType = photoType;
+    image.copies = copies;
+    image.caption = caption || undefined;
+
+    if (printChanged) {
+      // The crop was locked to the old aspect ratio, and print DPI depends on the size
+      image.crop = undefined;
+      await reassessPrintQuality(image);
+    }
+
+    await image.save();
+    await magicLinkService.recordEvent(result.magicLink, 'settings_changed', {
+      actor: 'customer',
+      details: `${image.originalName}: ${describeAllowance(image)}${image.copies > 1 ? ` ×${image.copies}` : ''}`,
+    });
+
+    res.json({
+      success: true,
+      image: {
+        id: image._id,
+        photoSize: image.photoSize,
+        photoType: image.photoType,
+        copies: image.copies,
+        caption: image.caption,
+        quality: image.quality,
+        crop: image.crop,
+      },
+    });
+  } catch (error) {
+    console.error('Error updating image options:', error);
+    res.status(500).json({ success: false, error: 'Failed to update photo' });
+  }
+});
+
+/**
+ * PUT /api/upload/:token/images/:imageId/crop
+ * Save the crop box and rotation for a photo (locked to its print aspect ratio)
+ */
+router.put('/:token/images/:imageId/crop', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const imageId = req.params.imageId as string;
+
+    const result = await magicLinkService.validateToken(token);
+
+    if (!result.valid || !result.magicLink) {
+      res.status(400).json({ success: false, error: result.error });
+      return;
+    }
+
+    const image = await UploadedImage.findOne({
+      _id: imageId,
+      magicLinkId: result.magicLink._id,
+    });
+
+    if (!image) {
+      res.status(404).json({ success: false, error: 'Image not found' });
+      return;
+    }
+
+    const lockedError = checkCanChangePhoto(result.magicLink, image);
+    if (lockedError) {
+      res.status(400).json({ success: false, error: lockedError });
+      return;
+    }
+
+    const { x, y, width, height } = req.body;
+    const rotation = Number(req.body.rotation || 0) as CropRotation;
+    const crop: Omit<ImageCrop, 'updatedAt'> = { x, y, width, height, rotation };
+
+    const cropError = validateCrop(image, crop);
+    if (cropError) {
+      res.status(400).json({ success: false, error: cropError });
+      return;
+    }
+
+    image.crop = { ...crop, updatedAt: new Date() };
+    await image.save();
+
+    res.json({ success: true, crop: image.crop });
+  } catch (error) {
+    console.error('Error saving crop:', error);
+    res.status(500).json({ success: false, error: 'Failed to save crop' });
+  }
+});
+
+/**
+ * DELETE /api/upload/:token/images/:imageId/crop
+ * Clear a saved crop (the photo is centre-cropped at print time)
+ */
+router.delete('/:token/images/:imageId/crop', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token as string;
+    const imageId = req.params.imageId as string;
+
+    const result = await magicLinkService.validateToken(token);
+
+    if (!result.valid || !result.magicLink) {
+      res.status(400).json({ success: false, error: result.error });
+      return;
+    }
+
+    const image = await UploadedImage.findOne({
+      _id: imageId,
+      magicLinkId: result.magicLink._id,
+    });
+
+    if (!image) {
+      res.status(404).json({ success: false, error: 'Image not found' });
+      return;
+    }
+
+    const lockedError = checkCanChangePhoto(result.magicLink, image);
+    if (lockedError) {
+      res.status(400).json({ success: false, error: lockedError });
+      return;
+    }
+
+    await UploadedImage.updateOne({ _id: image._id }, { $unset: { crop: 1 } });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error clearing crop:', error);
+    res.status(500).json({ success: false, error: 'Failed to clear crop' });
+  }
+});
+
 /**
  * PUT /api/upload/:token/settings
  * Update print settings (size and type)
@@ -458,6 +1045,10 @@ router.put('/:token/settings', async (req: Request, res: Response) => {
 
     // Update settings
     await magicLinkService.updatePrintSettings(token, photoSize, photoType);
+    await magicLinkService.recordEvent(result.magicLink, 'settings_changed', {
+      actor: 'customer',
+      details: `Default print set to ${describeAllowance({ photoSize, photoType })}`,
+    });
 
     res.json({
       success: true,
@@ -492,17 +1083,47 @@ router.post('/:token/submit', async (req: Request, res: Response) => {
       return;
     }
 
-    // Check if all photos are uploaded
-    if (magicLink.currentUploads < magicLink.maxUploads) {
-      res.status(400).json({ 
-        success: false, 
-        error: `Please upload all ${magicLink.maxUploads} photos before submitting` 
+    // Photos sent back during review must be replaced before resubmitting
+    const awaitingReplacement = await getPhotosAwaitingReplacement(magicLink._id as mongoose.Types.ObjectId);
+    if (awaitingReplacement.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: `${awaitingReplacement.length} photo(s) need replacing before you can submit`,
+      });
+      return;
+    }
+
+    // Every print the order paid for must be used, in the sizes/styles bought
+    const images = await UploadedImage.find({ magicLinkId: magicLink._id }).select('photoSize photoType copies');
+    const allowanceError = checkAllowancesFilled(
+      getLinkAllowances(magicLink),
+      images.map(img => ({ photoSize: img.photoSize, photoType: img.photoType, copies: img.copies || 1 }))
+    );
+    if (allowanceError) {
+      res.status(400).json({ success: false, error: allowanceError });
+      return;
+    }
+
+    // Photos that are too low resolution to print must be replaced first
+    const rejectedCount = await UploadedImage.countDocuments({
+      magicLinkId: magicLink._id,
+      'quality.verdict': 'reject',
+    });
+    if (rejectedCount > 0) {
+      res.status(400).json({
+        success: false,
+        error: `${rejectedCount} photo(s) are too low resolution to print. Please replace them before submitting`,
       });
       return;
     }
 
     // Mark as submitted
     await magicLinkService.submitForPrinting(token);
+    await magicLinkService.recordEvent(magicLink, 'submitted', {
+      actor: 'customer',
+      details: magicLink.reopenedAt ? 'Resubmitted after review' : undefined,
+    });
+    await startProductionJob(magicLink);
 
     res.json({
       success: true,
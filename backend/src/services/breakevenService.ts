@@ -1,5 +1,5 @@
-import ShopifyOrderCache from '../models/ShopifyOrderCache';
-import RTOOrder from '../models/RTOOrder';
+import { loadOrdersByDate } from './orderStoreService';
+import { loadOrderStates, getOrderState, isPrepaidOrder, detectVariant, countsAsDelivered } from './orderLifecycleService';
 import ShippingCharge from '../models/ShippingCharge';
 import { COGSConfiguration } from '../models/COGSConfiguration';
 import { DailyOrderStats } from '../models';
@@ -11,36 +11,6 @@ function toDateKey(date: Date): string {
   return date.toLocaleDateString('en-CA', { timeZone: STORE_TIMEZONE });
 }
 
-function getDeliveryStatus(order: any): string {
-  let status = '';
-  if (order.fulfillments?.length > 0) {
-    status = (order.fulfillments[order.fulfillments.length - 1].shipment_status ?? '').toLowerCase();
-  }
-  if (!status && order.fulfillment_status) status = order.fulfillment_status.toLowerCase();
-  return status;
-}
-
-function isPaymentPrepaid(order: any): boolean {
-  const gateway: string = (order.payment_gateway ?? order.gateway ?? '').toLowerCase();
-  const tags: string = (order.tags ?? '').toLowerCase();
-  const gateways: string[] = (order.payment_gateway_names ?? []).map((g: string) => g.toLowerCase());
-  if (
-    gateway.includes('cash on delivery') ||
-    gateway.includes('cod') ||
-    gateways.some((g) => g.includes('cod')) ||
-    tags.includes('cod')
-  ) return false;
-  return true;
-}
-
-function detectVariant(order: any): 'small' | 'large' {
-  const items: any[] = order.line_items ?? [];
-  const hasLarge = items.some(
-    (i) => i.title?.toLowerCase().includes('large') || i.variant_title?.toLowerCase().includes('large')
-  );
-  return hasLarge ? 'large' : 'small';
-}
-
 export interface BreakevenMetrics {
   aov: number;
   avgCOGS: number;
@@ -75,8 +45,8 @@ export async function computeBreakevenMetrics(): Promise<BreakevenMetrics> {
   }
 
   // Load data needed to compute per-order metrics
-  const [rtoSet, shippingMap, cogsConfig, cacheEntries] = await Promise.all([
-    RTOOrder.find({}, { shopifyOrderId: 1 }).lean().then((docs) => new Set((docs as any[]).map((d) => d.shopifyOrderId as number))),
+  const [states, shippingMap, cogsConfig, ordersByDate] = await Promise.all([
+    loadOrderStates(),
     ShippingCharge.find({}, { orderNumber: 1, shippingCharge: 1 }).lean().then((docs) => {
       const map = new Map<string, number>();
       for (const d of docs as any[]) {
@@ -90,26 +60,10 @@ export async function computeBreakevenMetrics(): Promise<BreakevenMetrics> {
       .sort({ effectiveFrom: -1 })
       .lean()
       .then((c) => (c as any)?.fields ?? []),
-    ShopifyOrderCache.find({ cacheKey: { $regex: /^all_orders_/ } }, { orders: 1 }).lean(),
+    // Only orders belonging to completed date keys
+    loadOrdersByDate({ dateKeys: [...completedDateKeys] }),
   ]);
 
-  // Collect orders belonging to completed date keys, deduplicated
-  const seen = new Set<number | string>();
-  const ordersByDate = new Map<string, any[]>();
-
-  for (const entry of cacheEntries) {
-    for (const order of (entry as any).orders as any[]) {
-      if (order.cancelled_at) continue;
-      const id = order.id;
-      if (id && seen.has(id)) continue;
-      if (id) seen.add(id);
-      const dateKey = toDateKey(new Date(order.created_at));
-      if (!completedDateKeys.has(dateKey)) continue;
-      if (!ordersByDate.has(dateKey)) ordersByDate.set(dateKey, []);
-      ordersByDate.get(dateKey)!.push(order);
-    }
-  }
-
   let totalRevenue = 0;
   let totalCOGS = 0;
   let totalShipping = 0;
@@ -118,16 +72,11 @@ export async function computeBreakevenMetrics(): Promise<BreakevenMetrics> {
 
   for (const [, orders] of ordersByDate) {
     for (const order of orders) {
-      const isPrepaid = isPaymentPrepaid(order);
-      const isRTO = rtoSet.has(order.id as number);
-      const status = getDeliveryStatus(order);
-      const isFailed =
-        isRTO ||
-        status === 'failure' ||
-        status.includes('failed') ||
-        status.includes('rto');
+      const isPrepaid = isPrepaidOrder(order);
+      const state = getOrderState(order, states);
+      const isFailed = state === 'failed';
       // Liberal: prepaid assumed delivered unless RTO or explicitly failed
-      const isDelivered = !isFailed && (status === 'delivered' || isPrepaid);
+      const isDelivered = countsAsDelivered(state, isPrepaid);
 
       const variant = detectVariant(order);
       const pm = isPrepaid ? 'Prepaid' : 'COD';
@@ -0,0 +1,456 @@
+import mongoose from 'mongoose';
+import type { AnyBulkWriteOperation } from 'mongoose';
+import config from '../config';
+import {
+  Customer,
+  ShopifyOrderRecord,
+  ShippingCharge,
+  AbandonedCheckout,
+  Ticket,
+  RTOOrder,
+} from '../models';
+import type { ICustomer } from '../models';
+import type { OrderLifecycleState } from '../models/OrderLifecycle';
+import type { ShopifyOrder } from '../types';
+import { loadOrderStates, getOrderState, isPrepaidOrder, isExcludedState, countsAsDelivered } from './orderLifecycleService';
+
+const STORE_TIMEZONE = 'Asia/Kolkata';
+
+// Customers written per bulkWrite
+const WRITE_BATCH_SIZE = 500;
+
+// Fields of a stored order the customer build reads
+const CUSTOMER_ORDER_FIELDS = {
+  _id: 0, id: 1, name: 1, created_at: 1, cancelled_at: 1, email: 1, phone: 1, customer: 1,
+  'shipping_address.name': 1, 'shipping_address.phone': 1, 'shipping_address.city': 1,
+  total_price: 1, current_total_price: 1, fulfillment_status: 1, fulfillments: 1,
+  gateway: 1, payment_gateway_names: 1, tags: 1,
+};
+
+// Fields left out of customer lists; the profile loads what they point to
+const LIST_PROJECTION = { orderIds: 0, abandonedCheckoutIds: 0, ticketIds: 0, rtoOrderIds: 0, shopifyCustomerIds: 0 };
+
+const bareName = (name: string) => name.replace(/^#/, '').trim();
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// ─── identity ────────────────────────────────────────────────────────────────
+
+/**
+ * The last ten digits of an Indian mobile number, so +91 98765 43210, 098765-43210
+ * and 9876543210 match. Null when there aren't ten digits.
+ */
+export function normalizePhone(raw: unknown): string | null {
+  if (typeof raw !== 'string' && typeof raw !== 'number') return null;
+  const digits = String(raw).replace(/\D/g, '');
+  if (digits.length < 10) return null;
+  const phone = digits.slice(-10);
+  return /^0+$/.test(phone) ? null : phone;
+}
+
+export function normalizeEmail(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const email = raw.trim().toLowerCase();
+  return email.includes('@') ? email : null;
+}
+
+/**
+ * Union-find over identity strings ('phone:…', 'email:…', 'shopify:…'): anything
+ * seen on the same order or checkout ends up with the same root
+ */
+class IdentityGraph {
+  private parent = new Map<string, string>();
+
+  find(identity: string): string {
+    let root = identity;
+    while (this.parent.has(root) && this.parent.get(root) !== root) root = this.parent.get(root)!;
+    if (!this.parent.has(identity)) this.parent.set(identity, identity);
+    // Path compression
+    let node = identity;
+    while (node !== root) {
+      const next = this.parent.get(node)!;
+      this.parent.set(node, root);
+      node = next;
+    }
+    return root;
+  }
+
+  link(identities: string[]): void {
+    if (identities.length === 0) return;
+    const root = this.find(identities[0]);
+    for (const identity of identities.slice(1)) {
+      const other = this.find(identity);
+      if (other !== root) this.parent.set(other, root);
+    }
+  }
+}
+
+// ─── rebuild ─────────────────────────────────────────────────────────────────
+
+interface OrderFacts {
+  id: number;
+  name: string;
+  at: Date;
+  identities: string[];
+  customerName?: string;
+  city?: string;
+  shopifyCustomerId?: number;
+  value: number;
+  state: OrderLifecycleState;
+  prepaid: boolean;
+}
+
+interface CustomerBuild {
+  orders: OrderFacts[];
+  identities: Set<string>;
+  checkouts: Array<{ _id: mongoose.Types.ObjectId; name?: string; createdAt: Date }>;
+  ticketIds: mongoose.Types.ObjectId[];
+}
+
+// Thrown when a rebuild is requested while another one is still running
+export class CustomerRebuildInProgressError extends Error {
+  constructor() {
+    super('A customer rebuild is already running');
+    this.name = 'CustomerRebuildInProgressError';
+  }
+}
+
+let rebuildInFlight = false;
+
+function getOrderFacts(order: any, states: Map<number, OrderLifecycleState>, charge: any): OrderFacts {
+  const customer = order.customer ?? {};
+  const phones = [order.phone, order.shipping_address?.phone, customer.phone, charge?.customerPhone].map(normalizePhone);
+  const emails = [order.email, customer.email].map(normalizeEmail);
+  const identities = [
+    ...phones.filter(Boolean).map(phone => `phone:${phone}`),
+    ...emails.filter(Boolean).map(email => `email:${email}`),
+    ...(customer.id ? [`shopify:${customer.id}`] : []),
+  ];
+  const fullName = [customer.first_name, customer.last_name].filter(Boolean).join(' ');
+
+  return {
+    id: order.id,
+    name: order.name,
+    at: new Date(order.created_at),
+    identities: [...new Set(identities)],
+    customerName: order.shipping_address?.name || fullName || charge?.customerName || undefined,
+    city: order.shipping_address?.city || charge?.customerCity || undefined,
+    shopifyCustomerId: customer.id || undefined,
+    value: parseFloat(order.current_total_price ?? order.total_price ?? '0') || 0,
+    state: getOrderState(order, states),
+    prepaid: isPrepaidOrder(order),
+  };
+}
+
+// Prefer a phone, then an email, so the key survives a customer adding the other later
+const identityRank = (identity: string) => (identity.startsWith('phone:') ? 0 : identity.startsWith('email:') ? 1 : 2);
+
+function toCustomerUpdate(build: CustomerBuild, rebuiltAt: Date): AnyBulkWriteOperation<ICustomer> {
+  const orders = [...build.orders].sort((a, b) => a.at.getTime() - b.at.getTime());
+  const counted = orders.filter(order => !isExcludedState(order.state));
+  const latest = orders[orders.length - 1];
+  const latestCheckout = build.checkouts.reduce<CustomerBuild['checkouts'][number] | undefined>(
+    (found, checkout) => (!found || checkout.createdAt > found.createdAt ? checkout : found),
+    undefined
+  );
+
+  const keySource = orders[0]?.identities ?? [...build.identities];
+  const key = [...keySource].sort((a, b) => identityRank(a) - identityRank(b))[0];
+  const identities = [...build.identities];
+  const failed = counted.filter(order => order.state === 'failed');
+
+  return {
+    updateOne: {
+      filter: { key },
+      update: {
+        $set: {
+          name: latest?.customerName ?? latestCheckout?.name,
+          city: [...orders].reverse().find(order => order.city)?.city,
+          phones: identities.filter(id => id.startsWith('phone:')).map(id => id.slice('phone:'.length)),
+          emails: identities.filter(id => id.startsWith('email:')).map(id => id.slice('email:'.length)),
+          shopifyCustomerIds: [...new Set(orders.map(order => order.shopifyCustomerId).filter((id): id is number => !!id))],
+          orderIds: orders.map(order => order.id),
+          abandonedCheckoutIds: build.checkouts.map(checkout => checkout._id),
+          ticketIds: build.ticketIds,
+          rtoOrderIds: failed.map(order => order.id),
+          orderCount: counted.length,
+          deliveredCount: counted.filter(order => order.state === 'delivered').length,
+          rtoCount: failed.length,
+          cancelledCount: orders.length - counted.length,
+          lifetimeValue: Math.round(counted
+            .filter(order => countsAsDelivered(order.state, order.prepaid))
+            .reduce((sum, order) => sum + order.value, 0) * 100) / 100,
+          firstOrderAt: counted[0]?.at,
+          secondOrderAt: counted[1]?.at,
+          lastOrderAt: counted[counted.length - 1]?.at,
+          rebuiltAt,
+        },
+      },
+      upsert: true,
+    },
+  };
+}
+
+/**
+ * Rebuild the customer collection from the order store, abandoned checkouts,
+ * ShippingCharge phones and tickets. Customers no longer backed by anything
+ * (e.g. merged into another after a shared phone appeared) are removed.
+ */
+export async function rebuildCustomers(): Promise<{ customers: number; orders: number }> {
+  if (rebuildInFlight) throw new CustomerRebuildInProgressError();
+  rebuildInFlight = true;
+  try {
+    const rebuiltAt = new Date();
+    const [states, charges] = await Promise.all([
+      loadOrderStates(),
+      ShippingCharge.find({}, { _id: 0, orderNumber: 1, customerPhone: 1, customerName: 1, customerCity: 1 }).lean(),
+    ]);
+    const chargeByName = new Map(charges.map(charge => [bareName(charge.orderNumber), charge]));
+
+    const graph = new IdentityGraph();
+    const orders: OrderFacts[] = [];
+    for await (const order of ShopifyOrderRecord.find({}, CUSTOMER_ORDER_FIELDS).lean().cursor()) {
+      const facts = getOrderFacts(order, states, chargeByName.get(bareName(order.name)));
+      // Guest orders with no phone or email can't be tied to anyone
+      if (facts.identities.length === 0) continue;
+      graph.link(facts.identities);
+      orders.push(facts);
+    }
+
+    const checkouts = await AbandonedCheckout.find({}, { phone: 1, name: 1, createdAt: 1 }).lean();
+    const checkoutIdentities = checkouts.map(checkout => {
+      const phone = normalizePhone(checkout.phone);
+      if (phone) graph.find(`phone:${phone}`);
+      return phone ? `phone:${phone}` : null;
+    });
+
+    const builds = new Map<string, CustomerBuild>();
+    const buildFor = (identity: string) => {
+      const root = graph.find(identity);
+      let build = builds.get(root);
+      if (!build) {
+        build = { orders: [], identities: new Set(), checkouts: [], ticketIds: [] };
+        builds.set(root, build);
+      }
+      return build;
+    };
+
+    const orderRoots = new Map<string, CustomerBuild>();
+    for (const order of orders) {
+      const build = buildFor(order.identities[0]);
+      build.orders.push(order);
+      order.identities.forEach(identity => build.identities.add(identity));
+      orderRoots.set(bareName(order.name), build);
+    }
+    checkouts.forEach((checkout, index) => {
+      const identity = checkoutIdentities[index];
+      if (!identity) return;
+      const build = buildFor(identity);
+      build.identities.add(identity);
+      build.checkouts.push({ _id: checkout._id, name: checkout.name, createdAt: checkout.createdAt });
+    });
+
+    const tickets = await Ticket.find({}, { orderNumber: 1 }).lean();
+    for (const ticket of tickets) {
+      orderRoots.get(bareName(String(ticket.orderNumber)))?.ticketIds.push(ticket._id);
+    }
+
+    const updates = [...builds.values()].map(build => toCustomerUpdate(build, rebuiltAt));
+    for (let i = 0; i < updates.length; i += WRITE_BATCH_SIZE) {
+      await Customer.bulkWrite(updates.slice(i, i + WRITE_BATCH_SIZE), { ordered: false });
+    }
+    await Customer.deleteMany({ rebuiltAt: { $lt: rebuiltAt } });
+
+    return { customers: updates.length, orders: orders.length };
+  } finally {
+    rebuildInFlight = false;
+  }
+}
+
+// ─── reading ─────────────────────────────────────────────────────────────────
+
+export type CustomerSort = 'ltv' | 'orders' | 'recent';
+
+const SORTS: Record<CustomerSort, Record<string, 1 | -1>> = {
+  ltv: { lifetimeValue: -1, _id: 1 },
+  orders: { orderCount: -1, lastOrderAt: -1 },
+  recent: { lastOrderAt: -1, _id: 1 },
+};
+
+/**
+ * Customers matching a phone, email or name fragment, without their linked ids
+ */
+export async function getCustomers(search: string, sort: CustomerSort, limit: number): Promise<ICustomer[]> {
+  const term = search.trim();
+  let filter: Record<string, unknown> = {};
+  if (term) {
+    const digits = term.replace(/\D/g, '');
+    if (term.includes('@')) {
+      filter = { emails: { $regex: escapeRegex(term.toLowerCase()) } };
+    } else if (digits.length >= 4 && digits.length === term.replace(/[\s+-]/g, '').length) {
+      filter = { phones: { $regex: escapeRegex(digits.slice(-10)) } };
+    } else {
+      filter = { name: { $regex: escapeRegex(term), $options: 'i' } };
+    }
+  }
+  return Customer.find(filter, LIST_PROJECTION).sort(SORTS[sort]).limit(limit).lean<ICustomer[]>();
+}
+
+export interface CustomerOrder {
+  id: number;
+  name: string;
+  createdAt: string;
+  total: number;
+  state: OrderLifecycleState;
+  prepaid: boolean;
+}
+
+export interface CustomerProfile {
+  customer: ICustomer;
+  orders: CustomerOrder[];
+  abandonedCheckouts: any[];
+  tickets: any[];
+  rtoOrders: any[];
+}
+
+/**
+ * A customer with their orders (newest first), abandoned checkouts, tickets and
+ * RTO marks. Null when the id doesn't match a customer.
+ */
+export async function getCustomerProfile(id: string): Promise<CustomerProfile | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const customer = await Customer.findById(id).lean<ICustomer>();
+  if (!customer) return null;
+
+  const [orders, states, abandonedCheckouts, tickets, rtoOrders] = await Promise.all([
+    ShopifyOrderRecord.find({ id: { $in: customer.orderIds } }, CUSTOMER_ORDER_FIELDS).sort({ orderedAt: -1 }).lean(),
+    loadOrderStates(customer.orderIds),
+    AbandonedCheckout.find({ _id: { $in: customer.abandonedCheckoutIds } }).sort({ createdAt: -1 }).lean(),
+    Ticket.find({ _id: { $in: customer.ticketIds } }, { activities: 0, generatedMessage: 0 }).sort({ createdAt: -1 }).lean(),
+    RTOOrder.find({ shopifyOrderId: { $in: customer.orderIds } }, { shopifyOrderId: 1, orderName: 1, markedRTOAt: 1, notes: 1 }).lean(),
+  ]);
+
+  return {
+    customer,
+    orders: orders.map(order => ({
+      id: order.id,
+      name: order.name,
+      createdAt: order.created_at,
+      total: parseFloat(order.current_total_price ?? order.total_price ?? '0') || 0,
+      state: getOrderState(order as unknown as ShopifyOrder, states),
+      prepaid: isPrepaidOrder(order as unknown as ShopifyOrder),
+    })),
+    abandonedCheckouts,
+    tickets,
+    rtoOrders,
+  };
+}
+
+export interface RepeatPurchaseReport {
+  customers: number;
+  repeatCustomers: number;
+  repeatRate: number;
+  averageOrders: number;
+  averageLifetimeValue: number;
+  // Share of all lifetime value that comes from repeat customers
+  repeatRevenueShare: number;
+  averageDaysToSecondOrder: number | null;
+  distribution: Array<{ orders: string; customers: number; lifetimeValue: number }>;
+  cohorts: Array<{ month: string; customers: number; repeatCustomers: number; repeatRate: number; lifetimeValue: number }>;
+  rebuiltAt: Date | null;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * How many customers come back: repeat rate overall, by number of orders and by
+ * the month of their first order (last `months` months)
+ */
+export async function getRepeatPurchaseReport(months = 12): Promise<RepeatPurchaseReport> {
+  const cohortStart = new Date();
+  cohortStart.setMonth(cohortStart.getMonth() - (months - 1), 1);
+  cohortStart.setHours(0, 0, 0, 0);
+
+  const [result] = await Customer.aggregate([
+    { $match: { orderCount: { $gte: 1 } } },
+    {
+      $facet: {
+        totals: [{
+          $group: {
+            _id: null,
+            customers: { $sum: 1 },
+            repeatCustomers: { $sum: { $cond: [{ $gte: ['$orderCount', 2] }, 1, 0] } },
+            orders: { $sum: '$orderCount' },
+            lifetimeValue: { $sum: '$lifetimeValue' },
+            repeatLifetimeValue: { $sum: { $cond: [{ $gte: ['$orderCount', 2] }, '$lifetimeValue', 0] } },
+            msToSecondOrder: { $avg: { $cond: ['$secondOrderAt', { $subtract: ['$secondOrderAt', '$firstOrderAt'] }, null] } },
+            rebuiltAt: { $max: '$rebuiltAt' },
+          },
+        }],
+        distribution: [
+          { $group: { _id: { $min: ['$orderCount', 5] }, customers: { $sum: 1 }, lifetimeValue: { $sum: '$lifetimeValue' } } },
+          { $sort: { _id: 1 } },
+        ],
+        cohorts: [
+          { $match: { firstOrderAt: { $gte: cohortStart } } },
+          {
+            $group: {
+              _id: { $dateToString: { format: '%Y-%m', date: '$firstOrderAt', timezone: STORE_TIMEZONE } },
+              customers: { $sum: 1 },
+              repeatCustomers: { $sum: { $cond: [{ $gte: ['$orderCount', 2] }, 1, 0] } },
+              lifetimeValue: { $sum: '$lifetimeValue' },
+            },
+          },
+          { $sort: { _id: 1 } },
+        ],
+      },
+    },
+  ]);
+
+  const totals = result?.totals?.[0];
+  const customers = totals?.customers ?? 0;
+  const repeatCustomers = totals?.repeatCustomers ?? 0;
+  const lifetimeValue = totals?.lifetimeValue ?? 0;
+
+  return {
+    customers,
+    repeatCustomers,
+    repeatRate: customers > 0 ? round1((repeatCustomers / customers) * 100) : 0,
+    averageOrders: customers > 0 ? Math.round((totals.orders / customers) * 100) / 100 : 0,
+    averageLifetimeValue: customers > 0 ? Math.round(lifetimeValue / customers) : 0,
+    repeatRevenueShare: lifetimeValue > 0 ? round1((totals.repeatLifetimeValue / lifetimeValue) * 100) : 0,
+    averageDaysToSecondOrder: totals?.msToSecondOrder != null ? round1(totals.msToSecondOrder / 86_400_000) : null,
+    distribution: (result?.distribution ?? []).map((row: any) => ({
+      orders: row._id >= 5 ? '5+' : String(row._id),
+      customers: row.customers,
+      lifetimeValue: Math.round(row.lifetimeValue),
+    })),
+    cohorts: (result?.cohorts ?? []).map((row: any) => ({
+      month: row._id,
+      customers: row.customers,
+      repeatCustomers: row.repeatCustomers,
+      repeatRate: row.customers > 0 ? round1((row.repeatCustomers / row.customers) * 100) : 0,
+      lifetimeValue: Math.round(row.lifetimeValue),
+    })),
+    rebuiltAt: totals?.rebuiltAt ?? null,
+  };
+}
+
+// ─── scheduled job ───────────────────────────────────────────────────────────
+
+const runScheduledRebuild = async (): Promise<void> => {
+  if (rebuildInFlight) return;
+  try {
+    await rebuildCustomers();
+  } catch (error) {
+    console.error('[Customers] Scheduled rebuild failed:', error);
+  }
+};
+
+/**
+ * Rebuild customers every config.customers.rebuildIntervalMinutes
+ */
+export function startCustomerSchedule(): void {
+  const intervalMs = Math.max(config.customers.rebuildIntervalMinutes, 15) * 60 * 1000;
+  setInterval(runScheduledRebuild, intervalMs).unref();
+}
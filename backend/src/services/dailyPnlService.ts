@@ -1,5 +1,15 @@
-import ShopifyOrderCache from '../models/ShopifyOrderCache';
-import RTOOrder from '../models/RTOOrder';
+import { loadOrdersByDate as loadStoredOrdersByDate } from './orderStoreService';
+import {
+  loadOrderStates,
+  getOrderState,
+  isPrepaidOrder,
+  detectVariant,
+  isFinalState,
+  isExcludedState,
+  countsAsDelivered,
+  isSettled,
+} from './orderLifecycleService';
+import type { OrderLifecycleState } from '../models/OrderLifecycle';
 import ShippingCharge from '../models/ShippingCharge';
 import { DailyAdSpend } from '../models/DailyAdSpend';
 import { COGSConfiguration } from '../models/COGSConfiguration';
@@ -14,35 +24,17 @@ function toDateKey(date: Date): string {
 
 // ─── data loaders ────────────────────────────────────────────────────────────
 
-async function loadOrdersByDate(): Promise<Map<string, any[]>> {
-  const entries = await ShopifyOrderCache.find(
-    { cacheKey: { $regex: /^all_orders_/ } },
-    { orders: 1 }
-  ).lean();
+// Just the fields computeHistoricalRtoRate looks at, for loading full history cheaply
+const RTO_RATE_FIELDS = ['id', 'gateway', 'payment_gateway_names', 'tags', 'fulfillment_status', 'fulfillments'];
 
-  const seen = new Set<number | string>();
-  const byDate = new Map<string, any[]>();
+type OrderStates = Map<number, OrderLifecycleState>;
 
-  for (const entry of entries) {
-    for (const order of (entry as any).orders as any[]) {
-      if (order.cancelled_at) continue;
-      const id = order.id;
-      if (id && seen.has(id)) continue;
-      if (id) seen.add(id);
-
-      const dateKey = toDateKey(new Date(order.created_at));
-      if (dateKey < DATA_START_DATE) continue;
-
-      if (!byDate.has(dateKey)) byDate.set(dateKey, []);
-      byDate.get(dateKey)!.push(order);
-    }
-  }
-  return byDate;
-}
-
-async function loadRtoSet(): Promise<Set<number>> {
-  const docs = await RTOOrder.find({}, { shopifyOrderId: 1 }).lean();
-  return new Set((docs as any[]).map((d) => d.shopifyOrderId as number));
+/** Non-cancelled orders by dateKey from the order store, from DATA_START_DATE (or a later day) */
+async function loadOrdersByDate(
+  query: { fromDateKey?: string; dateKeys?: string[]; fields?: string[] } = {}
+): Promise<Map<string, any[]>> {
+  const fromDateKey = query.fromDateKey && query.fromDateKey > DATA_START_DATE ? query.fromDateKey : DATA_START_DATE;
+  return loadStoredOrdersByDate({ ...query, fromDateKey });
 }
 
 async function loadShippingMap(): Promise<Map<string, number>> {
@@ -101,58 +93,6 @@ function getCogsVersionForDate(dateKey: string, versions: CogsVersion[]): CogsVe
 
 // ─── per-order helpers ────────────────────────────────────────────────────────
 
-function getDeliveryStatus(order: any): string {
-  let status = '';
-  if (order.fulfillments?.length > 0) {
-    status = (order.fulfillments[order.fulfillments.length - 1].shipment_status ?? '').toLowerCase();
-  }
-  if (!status && order.fulfillment_status) status = order.fulfillment_status.toLowerCase();
-  return status;
-}
-
-function isPaymentPrepaid(order: any): boolean {
-  const gateway: string = (order.payment_gateway ?? order.gateway ?? '').toLowerCase();
-  const tags: string = (order.tags ?? '').toLowerCase();
-  const gateways: string[] = (order.payment_gateway_names ?? []).map((g: string) => g.toLowerCase());
-  if (
-    gateway.includes('cash on delivery') ||
-    gateway.includes('cod') ||
-    gateways.some((g) => g.includes('cod')) ||
-    tags.includes('cod')
-  ) return false;
-  return true;
-}
-
-function isRto(order: any, rtoSet: Set<number>): boolean {
-  return rtoSet.has(order.id as number);
-}
-
-// Mirrors frontend isOrderDelivered (prepaid assumed delivered if not failed)
-function orderIsDelivered(order: any, rtoSet: Set<number>): boolean {
-  if (isRto(order, rtoSet)) return false;
-  const status = getDeliveryStatus(order);
-  if (status.includes('failed') || status.includes('rto') || status.includes('return') || status === 'failure') return false;
-  if (status === 'delivered') return true;
-  if (isPaymentPrepaid(order)) return true;
-  return false;
-}
-
-// Mirrors frontend isOrderFinalStatus (explicit delivered/failed only — no prepaid assumption)
-function orderIsFinalStatus(order: any, rtoSet: Set<number>): boolean {
-  if (isRto(order, rtoSet)) return true;
-  const status = getDeliveryStatus(order);
-  const isFailed = status === 'failure' || status.includes('failed') || status.includes('rto');
-  return status === 'delivered' || isFailed;
-}
-
-function detectVariant(order: any): 'small' | 'large' {
-  const items: any[] = order.line_items ?? [];
-  const hasLarge = items.some(
-    (i) => i.title?.toLowerCase().includes('large') || i.variant_title?.toLowerCase().includes('large')
-  );
-  return hasLarge ? 'large' : 'small';
-}
-
 function sumCategoryFields(
   fields: any[],
   category: 'pre' | 'post',
@@ -187,17 +127,18 @@ interface OrderPnlBreakdown {
  */
 function computeHistoricalRtoRate(
   ordersByDate: Map<string, any[]>,
-  rtoSet: Set<number>
+  states: OrderStates
 ): number {
   let finalCodCount = 0;
   let rtoCount = 0;
 
   for (const [, dayOrders] of ordersByDate) {
     for (const order of dayOrders) {
-      if (isPaymentPrepaid(order)) continue;
-      if (!orderIsFinalStatus(order, rtoSet)) continue;
+      if (isPrepaidOrder(order)) continue;
+      const state = getOrderState(order, states);
+      if (!isFinalState(state)) continue;
       finalCodCount++;
-      if (!orderIsDelivered(order, rtoSet)) rtoCount++;
+      if (state === 'failed') rtoCount++;
     }
   }
 
@@ -208,7 +149,7 @@ function computeHistoricalRtoRate(
 function calcOrderPnl(
   order: any,
   adCostPerOrder: number,
-  rtoSet: Set<number>,
+  states: OrderStates,
   shippingMap: Map<string, number>,
   cogsFields: any[],
   overrides?: { pre?: TotalOverrides; post?: TotalOverrides },
@@ -217,14 +158,11 @@ function calcOrderPnl(
   if (cogsFields.length === 0 && !overrides) return { revenue: 0, cogs: 0, pnl: 0 };
 
   const variant = detectVariant(order);
-  const delivered = orderIsDelivered(order, rtoSet);
-  const status = getDeliveryStatus(order);
-  const failed =
-    isRto(order, rtoSet) ||
-    status === 'failure' ||
-    status.includes('failed') ||
-    status.includes('rto');
-  const pm = isPaymentPrepaid(order) ? 'Prepaid' : 'COD';
+  const state = getOrderState(order, states);
+  const prepaid = isPrepaidOrder(order);
+  const delivered = countsAsDelivered(state, prepaid);
+  const failed = state === 'failed';
+  const pm = prepaid ? 'Prepaid' : 'COD';
 
   let revenue = 0;
   let fieldsToUse: any[] = [];
@@ -237,7 +175,7 @@ function calcOrderPnl(
     fieldsToUse = cogsFields.filter((f) => f.type === 'ndr' || f.type === 'both');
   } else {
     // Pending order
-    if (!isPaymentPrepaid(order) && rtoRate !== undefined) {
+    if (!prepaid && rtoRate !== undefined) {
       // Expected-value model for pending COD orders:
       //   With probability (1 − rtoRate) → will be delivered: full revenue + delivery COGS
       //   With probability rtoRate        → will be RTO:       zero revenue + NDR COGS
@@ -315,9 +253,9 @@ export async function getVariantPerformance(days: number): Promise<VariantBucket
   startDate.setHours(0, 0, 0, 0);
   const startKey = startDate.toLocaleDateString('en-CA', { timeZone: STORE_TIMEZONE });
 
-  const [ordersByDate, rtoSet, shippingMap, adSpendByDate, cogsVersions] = await Promise.all([
-    loadOrdersByDate(),
-    loadRtoSet(),
+  const [ordersByDate, states, shippingMap, adSpendByDate, cogsVersions] = await Promise.all([
+    loadOrdersByDate({ fromDateKey: startKey }),
+    loadOrderStates(),
     loadShippingMap(),
     loadAdSpendByDate(),
     loadCogsVersions(),
@@ -330,8 +268,9 @@ export async function getVariantPerformance(days: number): Promise<VariantBucket
     largeCod:     { variant: 'large', payment: 'cod',     orders: 0, delivered: 0, rto: 0, pending: 0, revenue: 0, cogs: 0, adSpend: 0, profit: 0 },
   };
 
-  for (const [dateKey, orders] of ordersByDate) {
+  for (const [dateKey, dayOrders] of ordersByDate) {
     if (dateKey < startKey) continue;
+    const orders = dayOrders.filter((order) => !isExcludedState(getOrderState(order, states)));
 
     const version = getCogsVersionForDate(dateKey, cogsVersions);
     const cogsFields = version?.fields ?? [];
@@ -341,20 +280,20 @@ export async function getVariantPerformance(days: number): Promise<VariantBucket
 
     for (const order of orders) {
       const variant = detectVariant(order);
-      const payment = isPaymentPrepaid(order) ? 'prepaid' : 'cod';
+      const payment = isPrepaidOrder(order) ? 'prepaid' : 'cod';
       const key = `${variant}${payment.charAt(0).toUpperCase()}${payment.slice(1)}`;
       const bucket = buckets[key];
 
-      const isFinal = orderIsFinalStatus(order, rtoSet);
-      if (!isFinal) {
+      const state = getOrderState(order, states);
+      if (!isFinalState(state)) {
         bucket.pending++;
         continue;
       }
 
-      const delivered = orderIsDelivered(order, rtoSet);
+      const delivered = state === 'delivered';
       const failed = !delivered;
 
-      const { revenue, cogs, pnl } = calcOrderPnl(order, adCostPerOrder, rtoSet, shippingMap, cogsFields, overrides);
+      const { revenue, cogs, pnl } = calcOrderPnl(order, adCostPerOrder, states, shippingMap, cogsFields, overrides);
 
       bucket.orders++;
       if (delivered) bucket.delivered++;
@@ -375,20 +314,19 @@ export async function getVariantPerformance(days: number): Promise<VariantBucket
 export async function recomputePnlForDate(
   dateKey: string,
   ordersByDate?: Map<string, any[]>,
-  rtoSet?: Set<number>,
+  orderStates?: OrderStates,
   shippingMap?: Map<string, number>,
   adSpendByDate?: Map<string, number>,
   cogsVersions?: CogsVersion[],
   rtoRate?: number  // pre-computed historical COD RTO rate; derived from data when omitted
 ): Promise<void> {
-  // Keep the full map so we can compute the historical RTO rate when not pre-supplied
-  let allOrdersByDate = ordersByDate;
-  if (!allOrdersByDate) {
-    allOrdersByDate = await loadOrdersByDate();
-  }
-  const orders = allOrdersByDate.get(dateKey) ?? [];
+  const dayOrders = ordersByDate
+    ? (ordersByDate.get(dateKey) ?? [])
+    : ((await loadOrdersByDate({ dateKeys: [dateKey] })).get(dateKey) ?? []);
 
-  const rto = rtoSet ?? (await loadRtoSet());
+  const states = orderStates ?? (await loadOrderStates());
+  // Discarded orders count for nothing, same as on the sales page
+  const orders = dayOrders.filter((order) => !isExcludedState(getOrderState(order, states)));
   const shipMap = shippingMap ?? (await loadShippingMap());
   const adSpendMap = adSpendByDate ?? (await loadAdSpendByDate());
   const versions = cogsVersions ?? (await loadCogsVersions());
@@ -401,10 +339,13 @@ export async function recomputePnlForDate(
   const adCostPerOrder = orderCount > 0 ? adSpend / orderCount : 0;
 
   // Bar-chart completion: all orders explicitly delivered/failed (or no orders)
-  const isCompleted = orderCount === 0 || orders.every((o) => orderIsFinalStatus(o, rto));
+  const isCompleted = orderCount === 0 || orders.every((o) => isFinalState(getOrderState(o, states)));
 
   // Effective RTO rate: use pre-supplied value, or compute from full order history
-  const effectiveRtoRate = rtoRate ?? computeHistoricalRtoRate(allOrdersByDate, rto);
+  const effectiveRtoRate = rtoRate ?? computeHistoricalRtoRate(
+    ordersByDate ?? (await loadOrdersByDate({ fields: RTO_RATE_FIELDS })),
+    states
+  );
 
   let barChartProfit = 0;
   let heatmapProfit = 0;
@@ -415,7 +356,7 @@ export async function recomputePnlForDate(
   for (const order of orders) {
     // Pass rtoRate only for incomplete days — completed days have no pending orders anyway
     const { revenue, cogs: orderCogs, pnl } = calcOrderPnl(
-      order, adCostPerOrder, rto, shipMap, cogs, overrides,
+      order, adCostPerOrder, states, shipMap, cogs, overrides,
       isCompleted ? undefined : effectiveRtoRate
     );
 
@@ -423,7 +364,7 @@ export async function recomputePnlForDate(
     totalCogs += orderCogs;
     barChartProfit += pnl;
 
-    const isFinal = orderIsFinalStatus(order, rto) || isPaymentPrepaid(order);
+    const isFinal = isSettled(getOrderState(order, states), isPrepaidOrder(order));
     if (isFinal) {
       heatmapProfit += pnl;
       hasHeatmapOrders = true;
@@ -455,23 +396,23 @@ export async function recomputePnlForDate(
 }
 
 export async function backfillDailyPnl(): Promise<{ upserted: number }> {
-  const [ordersByDate, rtoSet, shippingMap, adSpendByDate, cogsVersions] = await Promise.all([
+  const [ordersByDate, states, shippingMap, adSpendByDate, cogsVersions] = await Promise.all([
     loadOrdersByDate(),
-    loadRtoSet(),
+    loadOrderStates(),
     loadShippingMap(),
     loadAdSpendByDate(),
     loadCogsVersions(),
   ]);
 
   // Compute RTO rate once from full history; reused for every date
-  const rtoRate = computeHistoricalRtoRate(ordersByDate, rtoSet);
+  const rtoRate = computeHistoricalRtoRate(ordersByDate, states);
 
   // Include both order dates and ad-spend dates
   const allDates = new Set([...ordersByDate.keys(), ...adSpendByDate.keys()]);
 
   let upserted = 0;
   for (const dateKey of allDates) {
-    await recomputePnlForDate(dateKey, ordersByDate, rtoSet, shippingMap, adSpendByDate, cogsVersions, rtoRate);
+    await recomputePnlForDate(dateKey, ordersByDate, states, shippingMap, adSpendByDate, cogsVersions, rtoRate);
     upserted++;
   }
 
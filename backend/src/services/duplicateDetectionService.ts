@@ -0,0 +1,96 @@
+import sharp from 'sharp';
+import mongoose from 'mongoose';
+import { UploadedImage } from '../models';
+import type { IUploadedImage } from '../models/UploadedImage';
+
+// dHash compares each pixel of a 9×8 greyscale thumbnail with its right neighbour: 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Differing bits (out of 64) still treated as the same shot; re-encodes and resizes land well under this
+export const DUPLICATE_DISTANCE_THRESHOLD = 6;
+
+export interface DuplicatePair {
+  imageIds: [string, string];
+  distance: number;
+}
+
+type HashedImage = Pick<IUploadedImage, '_id' | 'perceptualHash'>;
+
+/**
+ * Perceptual (difference) hash of an image as 16 hex characters. Survives
+ * resizing, recompression and small colour changes, so the same shot uploaded
+ * in two resolutions hashes (nearly) the same.
+ */
+export async function computePerceptualHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Every pair of near-duplicate photos in a set (images without a hash are skipped)
+ */
+export function findDuplicatePairs(images: HashedImage[]): DuplicatePair[] {
+  const hashed = images.filter(img => img.perceptualHash);
+  const pairs: DuplicatePair[] = [];
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      const distance = hammingDistance(hashed[i].perceptualHash!, hashed[j].perceptualHash!);
+      if (distance <= DUPLICATE_DISTANCE_THRESHOLD) {
+        pairs.push({ imageIds: [String(hashed[i]._id), String(hashed[j]._id)], distance });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Other photos on the same magic link that look like this one
+ */
+export async function findDuplicatesOf(image: IUploadedImage): Promise<Array<{ id: string; originalName: string; distance: number }>> {
+  if (!image.perceptualHash) return [];
+
+  const others = await UploadedImage.find({
+    magicLinkId: image.magicLinkId as mongoose.Types.ObjectId,
+    _id: { $ne: image._id },
+    perceptualHash: { $exists: true },
+  }).select('originalName perceptualHash');
+
+  return others
+    .map(other => ({
+      id: String(other._id),
+      originalName: other.originalName,
+      distance: hammingDistance(image.perceptualHash!, other.perceptualHash!),
+    }))
+    .filter(match => match.distance <= DUPLICATE_DISTANCE_THRESHOLD)
+    .sort((a, b) => a.distance - b.distance);
+}
@@ -0,0 +1,168 @@
+import sharp, { Sharp } from 'sharp';
+import heicConvert from 'heic-convert';
+import storage from './storage';
+import { assessPrintQuality } from './printQualityService';
+import { computePerceptualHash } from './duplicateDetectionService';
+import type { IUploadedImage } from '../models/UploadedImage';
+
+const THUMBNAIL_MAX_SIZE = 400;
+const PRINT_JPEG_QUALITY = 95;
+const THUMBNAIL_JPEG_QUALITY = 75;
+
+// ISO-BMFF brands used by HEIC/HEIF files (iPhone photos)
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+export interface ProcessedImage {
+  printBuffer: Buffer;
+  thumbnailBuffer: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Some browsers send HEIC files with an empty or generic MIME type; fall back to the extension
+ */
+export function normalizeImageMimeType(mimeType: string | undefined, fileName: string): string {
+  if (mimeType && mimeType.startsWith('image/')) return mimeType;
+  if (/\.(heic|heif)$/i.test(fileName)) return 'image/heic';
+  return mimeType || '';
+}
+
+const isHeif = (buffer: Buffer): boolean => {
+  if (buffer.length < 12 || buffer.toString('ascii', 4, 8) !== 'ftyp') return false;
+  return HEIF_BRANDS.includes(buffer.toString('ascii', 8, 12));
+};
+
+/**
+ * Identify an image from its leading bytes rather than the name or MIME type the
+ * client sent. Returns the format, or null when the content is not a supported image.
+ */
+export function detectImageFormat(buffer: Buffer): 'jpeg' | 'png' | 'gif' | 'webp' | 'heif' | 'tiff' | null {
+  if (buffer.length < 12) return null;
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  if (buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) return 'png';
+  if (buffer.toString('ascii', 0, 4) === 'GIF8') return 'gif';
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+  if (isHeif(buffer)) return 'heif';
+  const tiffHeader = buffer.toString('hex', 0, 4);
+  if (tiffHeader === '49492a00' || tiffHeader === '4d4d002a') return 'tiff';
+  return null;
+}
+
+/**
+ * Decode any supported upload into a sharp pipeline. The bundled libvips cannot
+ * decode HEVC-compressed HEIC, so those go through the wasm decoder first.
+ */
+async function decode(buffer: Buffer): Promise<Sharp> {
+  if (isHeif(buffer)) {
+    try {
+      await sharp(buffer).metadata();
+      return sharp(buffer);
+    } catch {
+      const jpeg = await heicConvert({ buffer, format: 'JPEG', quality: 1 });
+      return sharp(Buffer.from(jpeg));
+    }
+  }
+  return sharp(buffer);
+}
+
+/**
+ * Build the print-ready JPEG (EXIF rotation applied, location and other metadata
+ * stripped, colour profile kept) and a small thumbnail for previews.
+ */
+export async function processImage(buffer: Buffer): Promise<ProcessedImage> {
+  const decoded = await decode(buffer);
+
+  // rotate() with no arguments bakes in the EXIF orientation; sharp drops all
+  // other metadata (including GPS) unless asked to keep it
+  const { data: printBuffer, info } = await decoded
+    .rotate()
+    .keepIccProfile()
+    .jpeg({ quality: PRINT_JPEG_QUALITY, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+
+  const thumbnailBuffer = await sharp(printBuffer)
+    .resize(THUMBNAIL_MAX_SIZE, THUMBNAIL_MAX_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: THUMBNAIL_JPEG_QUALITY })
+    .toBuffer();
+
+  return { printBuffer, thumbnailBuffer, width: info.width, height: info.height };
+}
+
+const derivativeKey = (originalKey: string, suffix: 'print' | 'thumb'): string => {
+  const base = originalKey.replace(/\.[^/.]+$/, '');
+  return `${base}.${suffix}.jpg`;
+};
+
+/**
+ * Create the derivatives for an uploaded image, store them next to the original
+ * and run the print-quality check. Mutates the image; the caller saves it.
+ * Failures are recorded rather than thrown so the original upload is never lost.
+ */
+export async function processUploadedImage(image: IUploadedImage, original: Buffer): Promise<void> {
+  // A replaced image must not keep pointing at the previous file's derivatives
+  image.printKey = undefined;
+  image.printUrl = undefined;
+  image.printWidth = undefined;
+  image.printHeight = undefined;
+  image.thumbnailKey = undefined;
+  image.thumbnailUrl = undefined;
+  image.processedAt = undefined;
+  image.perceptualHash = undefined;
+
+  image.quality = await assessPrintQuality(original, image.photoSize, image.photoType);
+
+  let processed: ProcessedImage;
+  try {
+    processed = await processImage(original);
+  } catch (error) {
+    console.error(`Failed to process image ${image.s3Key}:`, error);
+    image.processingError = error instanceof Error ? error.message : 'Unknown processing error';
+    return;
+  }
+
+  const printKey = derivativeKey(image.s3Key, 'print');
+  const thumbnailKey = derivativeKey(image.s3Key, 'thumb');
+  const metadata = { orderNumber: image.orderNumber, originalName: image.originalName };
+
+  await storage.put(printKey, processed.printBuffer, { contentType: 'image/jpeg', metadata });
+  await storage.put(thumbnailKey, processed.thumbnailBuffer, { contentType: 'image/jpeg', metadata });
+
+  // HEIC originals can't be decoded by the quality check, so fall back to the converted JPEG
+  if (!image.quality) {
+    image.quality = await assessPrintQuality(processed.printBuffer, image.photoSize, image.photoType);
+  }
+
+  image.printKey = printKey;
+  image.printUrl = storage.getPublicUrl(printKey);
+  image.thumbnailKey = thumbnailKey;
+  image.thumbnailUrl = storage.getPublicUrl(thumbnailKey);
+  image.printWidth = processed.width;
+  image.printHeight = processed.height;
+  // The thumbnail is already oriented and is much quicker to decode than the full print
+  image.perceptualHash = await computePerceptualHash(processed.thumbnailBuffer);
+  image.processedAt = new Date();
+  image.processingError = undefined;
+}
+
+/**
+ * Re-run the print quality check after an image's print size or style changes
+ */
+export async function reassessPrintQuality(image: IUploadedImage): Promise<void> {
+  const original = await storage.get(image.s3Key);
+  image.quality = original ? await assessPrintQuality(original, image.photoSize, image.photoType) : undefined;
+
+  if (!image.quality && image.printKey) {
+    const print = await storage.get(image.printKey);
+    if (print) {
+      image.quality = await assessPrintQuality(print, image.photoSize, image.photoType);
+    }
+  }
+}
+
+/**
+ * All storage keys belonging to an image (original plus derivatives)
+ */
+export function getImageStorageKeys(image: IUploadedImage): string[] {
+  return [image.s3Key, image.printKey, image.thumbnailKey].filter((key): key is string => !!key);
+}
@@ -0,0 +1,135 @@
+import config from '../config';
+import { MagicLink, MagicLinkOutreach, WhatsAppTemplate, IMagicLink, IMagicLinkOutreach, IPrintAllowance } from '../models';
+import type { MagicLinkOutreachStatus } from '../models/MagicLinkOutreach';
+import type { ShopifyOrder } from '../types';
+import magicLinkService from './magicLinkService';
+
+export const OUTREACH_TEMPLATE_NAME = 'magic_link_outreach';
+
+// Used until an admin saves their own template; placeholders are filled per link
+export const DEFAULT_OUTREACH_MESSAGE =
+  'Hi [name]! Thank you for your PhotoBookX order [order]. Please upload your [prints] photos here: [link]';
+
+// A new order from sync, with the allowances already worked out by shopifyService
+export interface AutoLinkOrder {
+  order: ShopifyOrder;
+  maxUploads: number;
+  allowances: IPrintAllowance[];
+}
+
+/**
+ * The outreach message template, or the default when none has been saved
+ */
+export async function getOutreachTemplate(): Promise<string> {
+  const template = await WhatsAppTemplate.findOne({ name: OUTREACH_TEMPLATE_NAME });
+  return template?.message || DEFAULT_OUTREACH_MESSAGE;
+}
+
+/**
+ * Save the outreach message template
+ */
+export async function saveOutreachTemplate(message: string): Promise<void> {
+  await WhatsAppTemplate.updateOne(
+    { name: OUTREACH_TEMPLATE_NAME },
+    { $set: { message, updatedAt: new Date() } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Fill [name], [order], [link] and [prints] in a template for one link
+ */
+export function renderOutreachMessage(template: string, magicLink: IMagicLink): string {
+  return template
+    .replace(/\[name\]/gi, () => magicLink.customerName)
+    .replace(/\[order\]/gi, () => magicLink.orderNumber)
+    .replace(/\[link\]/gi, () => `${config.frontendUrl}/upload/${magicLink.token}`)
+    .replace(/\[prints\]/gi, () => String(magicLink.maxUploads));
+}
+
+const getCustomerName = (order: ShopifyOrder): string => {
+  const fromCustomer = [order.customer?.first_name, order.customer?.last_name].filter(Boolean).join(' ');
+  return fromCustomer || order.shipping_address?.name || order.name;
+};
+
+const getCustomerPhone = (order: ShopifyOrder): string | undefined =>
+  order.phone || order.shipping_address?.phone || order.customer?.phone || undefined;
+
+/**
+ * Create upload links for new printed-photos orders found by sync and queue each
+ * for outreach. Cancelled orders and orders that already have a link are skipped.
+ * Returns the number of links created.
+ */
+export async function createLinksForOrders(orders: AutoLinkOrder[]): Promise<number> {
+  if (orders.length === 0) return 0;
+
+  const template = await getOutreachTemplate();
+  let created = 0;
+
+  for (const { order, maxUploads, allowances } of orders) {
+    if (order.cancelled_at) continue;
+
+    // Admins have created links with and without the leading #
+    const bareNumber = order.name.replace(/^#/, '');
+
+    try {
+      const existing = await MagicLink.exists({ orderNumber: { $in: [order.name, bareNumber, `#${bareNumber}`] } });
+      if (existing) continue;
+
+      // The unique syncOrderKey index makes this the claim: a concurrent run creating the same link gets a duplicate key
+      const magicLink = await magicLinkService.createMagicLink({
+        orderNumber: order.name,
+        orderId: String(order.id),
+        syncOrderKey: bareNumber,
+        customerName: getCustomerName(order),
+        customerEmail: order.email || order.customer?.email,
+        customerPhone: getCustomerPhone(order),
+        maxUploads,
+        allowances,
+      });
+
+      await magicLinkService.recordEvent(magicLink, 'created', {
+        actor: 'system',
+        details: `Created from order sync, ${maxUploads} prints`,
+      });
+
+      await MagicLinkOutreach.create({
+        magicLinkId: magicLink._id,
+        orderNumber: magicLink.orderNumber,
+        customerName: magicLink.customerName,
+        customerPhone: magicLink.customerPhone,
+        message: renderOutreachMessage(template, magicLink),
+      });
+
+      created++;
+    } catch (error) {
+      // Another run created this order's link first
+      if ((error as { code?: number }).code === 11000) continue;
+      console.error(`[Sync] Failed to create magic link for ${order.name}:`, error);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Outreach entries, newest first (pending only unless a status is given)
+ */
+export async function getOutreachQueue(status: MagicLinkOutreachStatus = 'pending', limit = 200): Promise<IMagicLinkOutreach[]> {
+  return MagicLinkOutreach.find({ status }).sort({ createdAt: -1 }).limit(limit);
+}
+
+/**
+ * Mark an outreach entry as sent or skipped. Returns null when it doesn't exist.
+ */
+export async function markOutreach(
+  id: string,
+  status: Exclude<MagicLinkOutreachStatus, 'pending'>,
+  adminEmail: string
+): Promise<IMagicLinkOutreach | null> {
+  return MagicLinkOutreach.findByIdAndUpdate(
+    id,
+    { status, handledAt: new Date(), handledBy: adminEmail },
+    { new: true }
+  );
+}
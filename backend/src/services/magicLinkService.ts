@@ -1,17 +1,35 @@
 import { v4 as uuidv4 } from 'uuid';
-import { MagicLink, IMagicLink } from '../models';
+import { MagicLink, IMagicLink, IPrintAllowance, MagicLinkEvent, IMagicLinkEvent } from '../models';
+import type { MagicLinkEventType, MagicLinkEventActor } from '../models/MagicLinkEvent';
+import config from '../config';
+import { getLinkPin } from './uploadGuardService';
 
 interface CreateMagicLinkInput {
   orderNumber: string;
   orderId?: string;
+  syncOrderKey?: string;
   customerName: string;
   customerEmail?: string;
   customerPhone?: string;
   maxUploads?: number;
+  allowances?: IPrintAllowance[];
   expiresInDays?: number;
-  createdBy: string;
+  // Omitted when the link is created automatically from a synced order
+  createdBy?: string;
 }
 
+interface RecordEventOptions {
+  actor: MagicLinkEventActor;
+  adminUser?: string;
+  details?: string;
+}
+
+// A customer reloading the page shouldn't flood the history with "opened" events
+const OPENED_EVENT_INTERVAL_MS = 30 * 60 * 1000;
+
+// A reopened link stays usable for at least this long, even if it had already expired
+const REOPEN_MIN_DAYS = 7;
+
 class MagicLinkService {
   /**
    * Generate a unique magic link token
@@ -33,13 +51,16 @@ class MagicLinkService {
       token,
       orderNumber: input.orderNumber,
       orderId: input.orderId,
+      syncOrderKey: input.syncOrderKey,
       customerName: input.customerName,
       customerEmail: input.customerEmail,
       customerPhone: input.customerPhone,
       maxUploads: input.maxUploads || 50,
+      allowances: input.allowances || [],
       currentUploads: 0,
       expiresAt,
       isActive: true,
+      pinRequired: config.uploadProtection.requirePinByDefault && getLinkPin(input) !== null,
       createdBy: input.createdBy,
     });
 
@@ -117,6 +138,7 @@ class MagicLinkService {
       { 
         submittedForPrinting: true, 
         submittedAt: new Date(),
+        $unset: { reopenedAt: 1 },
       }
     );
   }
@@ -128,6 +150,99 @@ class MagicLinkService {
     await MagicLink.updateOne({ token }, { isActive: false });
   }
 
+  /**
+   * Move the expiry date of a link
+   */
+  async extendExpiry(magicLink: IMagicLink, expiresAt: Date): Promise<void> {
+    magicLink.expiresAt = expiresAt;
+    await magicLink.save();
+  }
+
+  /**
+   * Unlock a submitted (or deactivated) link. Submitted photos stay locked, so only rejected
+   * photos and new uploads can change, unless unlockPhotos is set. The expiry is pushed out
+   * so the customer actually has time to use the link.
+   */
+  async reopen(magicLink: IMagicLink, options: { unlockPhotos?: boolean } = {}): Promise<void> {
+    if (options.unlockPhotos) {
+      magicLink.reopenedAt = undefined;
+    } else if (magicLink.submittedForPrinting && !magicLink.reopenedAt) {
+      magicLink.reopenedAt = new Date();
+    }
+    magicLink.submittedForPrinting = false;
+    magicLink.isActive = true;
+
+    const minExpiry = new Date();
+    minExpiry.setDate(minExpiry.getDate() + REOPEN_MIN_DAYS);
+    if (magicLink.expiresAt < minExpiry) {
+      magicLink.expiresAt = minExpiry;
+    }
+
+    await magicLink.save();
+  }
+
+  /**
+   * Replace the prints a link allows (e.g. after an upsell); maxUploads follows the allowances
+   */
+  async updateAllowances(magicLink: IMagicLink, allowances: IPrintAllowance[]): Promise<void> {
+    magicLink.allowances = allowances;
+    magicLink.maxUploads = allowances.reduce((sum, a) => sum + a.quantity, 0);
+    await magicLink.save();
+  }
+
+  /**
+   * Swap in a new token; the old link stops working immediately
+   */
+  async reissueToken(magicLink: IMagicLink): Promise<string> {
+    const previousToken = magicLink.token;
+    magicLink.token = this.generateToken();
+    await magicLink.save();
+    return previousToken;
+  }
+
+  /**
+   * Add an entry to a link's history. Never throws: a failed log must not fail the request.
+   */
+  async recordEvent(magicLink: IMagicLink, type: MagicLinkEventType, options: RecordEventOptions): Promise<void> {
+    try {
+      await MagicLinkEvent.create({
+        magicLinkId: magicLink._id,
+        orderNumber: magicLink.orderNumber,
+        type,
+        actor: options.actor,
+        adminUser: options.adminUser,
+        details: options.details,
+      });
+    } catch (error) {
+      console.error(`Failed to record magic link ${type} event:`, error);
+    }
+  }
+
+  /**
+   * Record the customer opening their link, at most once per half hour
+   */
+  async recordOpened(magicLink: IMagicLink): Promise<void> {
+    try {
+      const recent = await MagicLinkEvent.exists({
+        magicLinkId: magicLink._id,
+        type: 'opened',
+        createdAt: { $gt: new Date(Date.now() - OPENED_EVENT_INTERVAL_MS) },
+      });
+      if (!recent) {
+        await this.recordEvent(magicLink, 'opened', { actor: 'customer' });
+      }
+    } catch (error) {
+      console.error('Failed to record magic link opened event:', error);
+    }
+  }
+
+  /**
+   * History of a link, newest first
+   */
+  async getEvents(magicLink: IMagicLink): Promise<IMagicLinkEvent[]> {
+    return MagicLinkEvent.find({ magicLinkId: magicLink._id }).sort({ createdAt: -1 }).limit(500);
+  }
+
   /**
    * Get all magic links (for admin)
    */
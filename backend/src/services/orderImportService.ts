@@ -0,0 +1,420 @@
+import readline from 'readline';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import config from '../config';
+import { OrderImport } from '../models';
+import type { IOrderImport } from '../models';
+import type { ShopifyOrder, ShopifyLineItem } from '../types';
+import shopifyService from './shopifyService';
+import { saveOrders } from './orderStoreService';
+import type { SaveOrdersResult } from './orderStoreService';
+import { scheduleDateRecomputes } from './shopifyWebhookService';
+
+const STORE_TIMEZONE = 'Asia/Kolkata';
+
+// Orders written per batch; the checkpoint moves after each batch
+const IMPORT_BATCH_SIZE = 250;
+
+function toDateKey(date: Date): string {
+  return date.toLocaleDateString('en-CA', { timeZone: STORE_TIMEZONE });
+}
+
+/**
+ * Orders with the fields trimOrder keeps. Line items are a connection, so the bulk
+ * result lists them as separate lines after their order, linked by __parentId.
+ */
+function buildOrdersQuery(createdAtMin?: Date): string {
+  const filter = createdAtMin ? `(query: "created_at:>=${createdAtMin.toISOString().slice(0, 10)}")` : '';
+  return `{
+    orders${filter} {
+      edges {
+        node {
+          id
+          legacyResourceId
+          name
+          email
+          phone
+          createdAt
+          updatedAt
+          cancelledAt
+          displayFinancialStatus
+          displayFulfillmentStatus
+          paymentGatewayNames
+          tags
+          totalPriceSet { shopMoney { amount currencyCode } }
+          currentTotalPriceSet { shopMoney { amount } }
+          customer { legacyResourceId email phone firstName lastName tags }
+          shippingAddress { firstName lastName name address1 city province zip phone }
+          fulfillments { legacyResourceId status displayStatus trackingInfo { company number url } }
+          lineItems {
+            edges {
+              node {
+                id
+                title
+                quantity
+                variantTitle
+                sku
+                originalUnitPriceSet { shopMoney { amount } }
+                product { legacyResourceId }
+                variant { legacyResourceId }
+              }
+            }
+          }
+        }
+      }
+    }
+  }`;
+}
+
+interface MoneyBag {
+  shopMoney: { amount: string; currencyCode?: string };
+}
+
+// One order line of the bulk result, shaped by buildOrdersQuery
+interface BulkOrderNode {
+  id: string;
+  legacyResourceId: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  cancelledAt?: string | null;
+  displayFinancialStatus?: string | null;
+  displayFulfillmentStatus?: string | null;
+  paymentGatewayNames?: string[];
+  tags?: string[];
+  totalPriceSet?: MoneyBag | null;
+  currentTotalPriceSet?: MoneyBag | null;
+  customer?: {
+    legacyResourceId: string;
+    email?: string | null;
+    phone?: string | null;
+    firstName?: string | null;
+    lastName?: string | null;
+    tags?: string[];
+  } | null;
+  shippingAddress?: {
+    firstName?: string | null;
+    lastName?: string | null;
+    name?: string | null;
+    address1?: string | null;
+    city?: string | null;
+    province?: string | null;
+    zip?: string | null;
+    phone?: string | null;
+  } | null;
+  fulfillments?: Array<{
+    legacyResourceId: string;
+    status?: string | null;
+    displayStatus?: string | null;
+    trackingInfo?: Array<{ company?: string | null; number?: string | null; url?: string | null }>;
+  }>;
+}
+
+// A line item line of the bulk result; __parentId is the gid of its order
+interface BulkLineItemNode {
+  __parentId: string;
+  id: string;
+  title: string;
+  quantity: number;
+  variantTitle?: string | null;
+  sku?: string | null;
+  originalUnitPriceSet?: MoneyBag | null;
+  product?: { legacyResourceId: string } | null;
+  variant?: { legacyResourceId: string } | null;
+}
+
+type BulkNode = BulkOrderNode | BulkLineItemNode;
+
+type ImportedOrder = ShopifyOrder & { _gid: string };
+
+// gid://shopify/LineItem/123 → 123
+const idFromGid = (gid: string | undefined): number | undefined => {
+  const id = Number(gid?.split('/').pop());
+  return Number.isFinite(id) ? id : undefined;
+};
+
+const toNumber = (value: unknown): number | undefined => (value == null ? undefined : Number(value));
+
+// REST uses null for unfulfilled and snake_case everywhere else
+const FULFILLMENT_STATUSES: Record<string, string | null> = {
+  FULFILLED: 'fulfilled',
+  PARTIALLY_FULFILLED: 'partial',
+  RESTOCKED: 'restocked',
+  UNFULFILLED: null,
+};
+
+/**
+ * A bulk-result order line in the REST shape the order store and analytics expect
+ */
+function toRestOrder(node: BulkOrderNode): ImportedOrder {
+  const tags: string[] = Array.isArray(node.tags) ? node.tags : [];
+  const customer = node.customer;
+  const address = node.shippingAddress;
+
+  return {
+    _gid: node.id,
+    id: Number(node.legacyResourceId),
+    name: node.name,
+    email: node.email ?? undefined,
+    phone: node.phone ?? undefined,
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    cancelled_at: node.cancelledAt ?? null,
+    financial_status: node.displayFinancialStatus?.toLowerCase(),
+    fulfillment_status: node.displayFulfillmentStatus && node.displayFulfillmentStatus in FULFILLMENT_STATUSES
+      ? FULFILLMENT_STATUSES[node.displayFulfillmentStatus]
+      : node.displayFulfillmentStatus?.toLowerCase() ?? null,
+    payment_gateway_names: node.paymentGatewayNames ?? [],
+    gateway: node.paymentGatewayNames?.[0],
+    tags: tags.join(', '),
+    total_price: node.totalPriceSet?.shopMoney?.amount,
+    current_total_price: node.currentTotalPriceSet?.shopMoney?.amount,
+    total_price_set: node.totalPriceSet ? {
+      shop_money: {
+        amount: node.totalPriceSet.shopMoney.amount,
+        currency_code: node.totalPriceSet.shopMoney.currencyCode,
+      },
+    } : undefined,
+    customer: customer ? {
+      id: Number(customer.legacyResourceId),
+      email: customer.email ?? undefined,
+      phone: customer.phone ?? undefined,
+      first_name: customer.firstName ?? undefined,
+      last_name: customer.lastName ?? undefined,
+      tags: Array.isArray(customer.tags) ? customer.tags.join(', ') : undefined,
+    } : undefined,
+    shipping_address: address ? {
+      first_name: address.firstName,
+      last_name: address.lastName,
+      name: address.name,
+      address1: address.address1,
+      city: address.city,
+      province: address.province,
+      zip: address.zip,
+      phone: address.phone,
+    } : undefined,
+    fulfillments: (node.fulfillments ?? []).map(fulfillment => ({
+      id: Number(fulfillment.legacyResourceId),
+      status: fulfillment.status?.toLowerCase(),
+      shipment_status: fulfillment.displayStatus?.toLowerCase() ?? null,
+      tracking_company: fulfillment.trackingInfo?.[0]?.company,
+      tracking_number: fulfillment.trackingInfo?.[0]?.number,
+      tracking_url: fulfillment.trackingInfo?.[0]?.url,
+    })),
+    line_items: [],
+  } as ImportedOrder;
+}
+
+function toRestLineItem(node: BulkLineItemNode): ShopifyLineItem {
+  return {
+    id: idFromGid(node.id),
+    title: node.title,
+    quantity: node.quantity,
+    variant_title: node.variantTitle ?? undefined,
+    sku: node.sku ?? undefined,
+    price: node.originalUnitPriceSet?.shopMoney?.amount,
+    product_id: toNumber(node.product?.legacyResourceId),
+    variant_id: toNumber(node.variant?.legacyResourceId),
+  } as ShopifyLineItem;
+}
+
+// Thrown when an import is requested while another one hasn't finished
+export class ImportInProgressError extends Error {
+  constructor() {
+    super('An order import is already running');
+    this.name = 'ImportInProgressError';
+  }
+}
+
+// Whether this process is currently driving an import
+let importInFlight = false;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wait for Shopify to finish the export, recording how many objects it has written
+ */
+async function waitForExport(job: IOrderImport): Promise<void> {
+  const pollMs = Math.max(config.shopify.bulkPollSeconds, 1) * 1000;
+
+  for (;;) {
+    const operation = await shopifyService.getBulkOperation(job.bulkOperationId);
+    if (!operation) throw new Error(`Bulk operation ${job.bulkOperationId} not found`);
+
+    job.objectCount = Number(operation.objectCount ?? 0);
+    if (operation.status === 'COMPLETED') {
+      job.resultUrl = operation.url ?? undefined;
+      job.status = 'importing';
+      await job.save();
+      return;
+    }
+    if (['CANCELING', 'CANCELED', 'FAILED', 'EXPIRED'].includes(operation.status)) {
+      throw new Error(`Bulk operation ${operation.status.toLowerCase()}${operation.errorCode ? ` (${operation.errorCode})` : ''}`);
+    }
+
+    await job.save();
+    await sleep(pollMs);
+  }
+}
+
+// Bulk copies carry fewer fields than REST ones, so they only replace a stored order that is older
+const writeImportedOrders = (orders: ShopifyOrder[]) => saveOrders(orders, { onlyNewer: true });
+
+/**
+ * Stream the JSONL result into the order store, skipping lines a previous attempt
+ * already saved. Returns the days the imported orders were placed on.
+ */
+async function importResult(
+  job: IOrderImport,
+  writeOrders: (orders: ShopifyOrder[]) => Promise<SaveOrdersResult>
+): Promise<Set<string>> {
+  const dateKeys = new Set<string>();
+  if (!job.resultUrl) return dateKeys; // The query matched no orders
+
+  const response = await fetch(job.resultUrl);
+  if (!response.ok || !response.body) {
+    throw new Error(`Could not download bulk result: ${response.status}`);
+  }
+
+  const lines = readline.createInterface({
+    input: Readable.fromWeb(response.body as NodeReadableStream),
+    crlfDelay: Infinity,
+  });
+
+  let batch: ImportedOrder[] = [];
+  let current: ImportedOrder | null = null;
+  // Line the current order started on; everything before it is complete
+  let currentStart = 0;
+  let lineNumber = 0;
+
+  const flush = async (checkpoint: number) => {
+    if (batch.length > 0) {
+      const result = await writeOrders(batch.map(({ _gid, ...order }) => order));
+      batch.forEach(order => dateKeys.add(toDateKey(new Date(order.created_at))));
+      job.ordersProcessed += batch.length;
+      job.inserted += result.inserted;
+      job.updated += result.updated;
+      job.skipped += result.skipped;
+      job.failed += result.failed;
+      batch = [];
+    }
+    job.linesProcessed = checkpoint;
+    await job.save();
+  };
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (lineNumber <= job.linesProcessed || !line.trim()) continue;
+
+    const object = JSON.parse(line) as BulkNode;
+    if ('__parentId' in object) {
+      // Line items always follow the order they belong to
+      if (current && object.__parentId === current._gid) current.line_items.push(toRestLineItem(object));
+      continue;
+    }
+
+    if (current) batch.push(current);
+    current = toRestOrder(object);
+    currentStart = lineNumber - 1;
+    if (batch.length >= IMPORT_BATCH_SIZE) await flush(currentStart);
+  }
+
+  if (current) batch.push(current);
+  await flush(lineNumber);
+  return dateKeys;
+}
+
+/**
+ * Wait for the export if it's still running, then import the result from the job's
+ * checkpoint. Returns the days the imported orders were placed on.
+ */
+export async function runImportSteps(
+  job: IOrderImport,
+  writeOrders: (orders: ShopifyOrder[]) => Promise<SaveOrdersResult> = writeImportedOrders
+): Promise<Set<string>> {
+  if (job.status === 'exporting') await waitForExport(job);
+  return importResult(job, writeOrders);
+}
+
+/**
+ * Take an import from wherever it stopped through to completed or failed
+ */
+async function driveImport(job: IOrderImport): Promise<void> {
+  if (importInFlight) return;
+  importInFlight = true;
+  try {
+    const dateKeys = await runImportSteps(job);
+
+    job.status = 'completed';
+    job.finishedAt = new Date();
+    await job.save();
+    console.log(`[OrderImport] ${job.ordersProcessed} orders: ${job.inserted} new, ${job.updated} updated, ${job.skipped} already current, ${job.failed} failed`);
+
+    if (dateKeys.size > 0) scheduleDateRecomputes([...dateKeys], 'historical order import');
+  } catch (error) {
+    console.error('[OrderImport] Import failed:', error);
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+    job.finishedAt = new Date();
+    await job.save();
+  } finally {
+    importInFlight = false;
+  }
+}
+
+async function getActiveImport(): Promise<IOrderImport | null> {
+  return OrderImport.findOne({ status: { $in: ['exporting', 'importing'] } }).sort({ startedAt: -1 });
+}
+
+/**
+ * Start a bulk export of every order (or those created since createdAtMin) and import
+ * it in the background. Returns the new import so its progress can be polled.
+ */
+export async function startOrderImport(startedBy: string, createdAtMin?: Date): Promise<IOrderImport> {
+  if (importInFlight || await getActiveImport()) throw new ImportInProgressError();
+
+  const operation = await shopifyService.startBulkQuery(buildOrdersQuery(createdAtMin));
+  const job = await OrderImport.create({ bulkOperationId: operation.id, createdAtMin, startedBy });
+
+  driveImport(job).catch(console.error);
+  return job;
+}
+
+/**
+ * Continue a failed import from its checkpoint. The bulk result stays downloadable
+ * for about a week, after which a new import is needed.
+ */
+export async function resumeOrderImport(id: string): Promise<IOrderImport | string> {
+  if (importInFlight) throw new ImportInProgressError();
+
+  const job = await OrderImport.findById(id);
+  if (!job) return 'Import not found';
+  if (job.status !== 'failed') return 'Only a failed import can be resumed';
+
+  job.status = job.resultUrl ? 'importing' : 'exporting';
+  job.error = undefined;
+  job.finishedAt = undefined;
+  await job.save();
+
+  driveImport(job).catch(console.error);
+  return job;
+}
+
+/**
+ * Pick up an import the server was running when it stopped
+ */
+export async function resumeInterruptedImport(): Promise<void> {
+  const job = await getActiveImport();
+  if (!job) return;
+  console.log(`[OrderImport] Resuming import ${job._id} (${job.status})`);
+  await driveImport(job);
+}
+
+/**
+ * Recent imports, newest first
+ */
+export async function getOrderImports(limit = 10): Promise<IOrderImport[]> {
+  return OrderImport.find().sort({ startedAt: -1 }).limit(limit);
+}
@@ -0,0 +1,382 @@
+import type { AnyBulkWriteOperation } from 'mongoose';
+import {
+  OrderLifecycle,
+  ShopifyOrderRecord,
+  RTOOrder,
+  DiscardedOrder,
+  OrderDeliveryDate,
+  ShippingCharge,
+} from '../models';
+import type { IOrderLifecycle } from '../models';
+import { ORDER_LIFECYCLE_STATES } from '../models/OrderLifecycle';
+import type { OrderLifecycleState, OrderStateSource, IOrderStateTransition } from '../models/OrderLifecycle';
+import type { ShopifyOrder, ShopifyLineItem } from '../types';
+
+const STORE_TIMEZONE = 'Asia/Kolkata';
+
+// Orders whose signals are loaded and written together
+const BATCH_SIZE = 500;
+
+// Fields of a stored order that the state depends on
+const LIFECYCLE_FIELDS = {
+  _id: 0, id: 1, name: 1, created_at: 1, cancelled_at: 1, fulfillment_status: 1, fulfillments: 1,
+  gateway: 1, payment_gateway_names: 1, tags: 1, line_items: 1,
+};
+
+function toDateKey(date: Date): string {
+  return date.toLocaleDateString('en-CA', { timeZone: STORE_TIMEZONE });
+}
+
+const bareName = (name: string) => name.replace(/^#/, '').trim();
+
+// ─── per-order classification ────────────────────────────────────────────────
+
+/**
+ * Latest Shopify shipment status, falling back to the fulfillment status (lowercased)
+ */
+export function getShipmentStatus(order: ShopifyOrder): string {
+  let status = '';
+  if (order.fulfillments && order.fulfillments.length > 0) {
+    status = (order.fulfillments[order.fulfillments.length - 1].shipment_status ?? '').toLowerCase();
+  }
+  if (!status && order.fulfillment_status) status = order.fulfillment_status.toLowerCase();
+  return status;
+}
+
+/**
+ * Anything not paid by cash on delivery counts as prepaid
+ */
+export function isPrepaidOrder(order: ShopifyOrder): boolean {
+  const gateway = (order.payment_gateway ?? order.gateway ?? '').toLowerCase();
+  const tags = (order.tags ?? '').toLowerCase();
+  const gateways = (order.payment_gateway_names ?? []).map((g) => g.toLowerCase());
+  return !(
+    gateway.includes('cash on delivery') ||
+    gateway.includes('cod') ||
+    gateways.some((g) => g.includes('cod')) ||
+    tags.includes('cod')
+  );
+}
+
+type LineItemTitles = Pick<ShopifyLineItem, 'title' | 'variant_title'>;
+
+const isLargeItem = (item: LineItemTitles) =>
+  item.title?.toLowerCase().includes('large') || item.variant_title?.toLowerCase().includes('large');
+
+/**
+ * Which print sizes an order's line items contain
+ */
+export function getVariantMix(lineItems: LineItemTitles[] | undefined): 'small' | 'large' | 'mixed' {
+  const items = lineItems ?? [];
+  const hasLarge = items.some(isLargeItem);
+  const hasSmall = items.some((item) => !isLargeItem(item));
+  if (hasLarge && hasSmall) return 'mixed';
+  return hasLarge ? 'large' : 'small';
+}
+
+/**
+ * An order with any large item is priced and costed as large
+ */
+export function detectVariant(order: ShopifyOrder): 'small' | 'large' {
+  return getVariantMix(order.line_items) === 'small' ? 'small' : 'large';
+}
+
+/**
+ * Map a Shopify shipment status or Shiprocket status to a shipping state, if it names one
+ */
+function classifyShipmentStatus(status: string): OrderLifecycleState | null {
+  if (status === 'failure' || status.includes('failed') || status.includes('rto') || status.includes('return')) return 'failed';
+  // Shiprocket's NDR status; checked before "delivered", which it contains
+  if (status.includes('undelivered') || status.includes('attempt')) return 'delivery_attempted';
+  if (status === 'delivered') return 'delivered';
+  if (status.includes('out for delivery') || status.includes('out_for_delivery')) return 'out_for_delivery';
+  if (status.includes('transit') || status.includes('shipped') || status.includes('picked') || status.includes('pickup')) return 'in_transit';
+  return null;
+}
+
+// ─── state derivation ────────────────────────────────────────────────────────
+
+export interface OrderSignals {
+  rtoMarkedAt?: Date;
+  discardedAt?: Date;
+  deliveredAt?: Date; // From OrderDeliveryDate
+  shipping?: {
+    status?: string;
+    pickupDate?: string;
+    deliveredDate?: string;
+    firstAttemptDate?: string;
+  };
+}
+
+export interface DerivedOrderState {
+  state: OrderLifecycleState;
+  at: Date;
+  source: OrderStateSource;
+  details?: string;
+}
+
+const parseDate = (value: string | Date | undefined | null, fallback: Date): Date => {
+  if (!value) return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? fallback : date;
+};
+
+const stateRank = (state: OrderLifecycleState) => ORDER_LIFECYCLE_STATES.indexOf(state);
+
+/**
+ * The one place an order's lifecycle state is decided. Admin marks win over carrier
+ * data, a failure wins over a delivery, and otherwise the furthest progress any
+ * source reports is used. `observedAt` dates transitions no source puts a time on.
+ */
+export function deriveOrderState(order: ShopifyOrder, signals: OrderSignals = {}, observedAt: Date = new Date()): DerivedOrderState {
+  if (signals.discardedAt) return { state: 'discarded', at: signals.discardedAt, source: 'discarded' };
+  if (order.cancelled_at) return { state: 'cancelled', at: parseDate(order.cancelled_at, observedAt), source: 'shopify' };
+  if (signals.rtoMarkedAt) return { state: 'failed', at: signals.rtoMarkedAt, source: 'rto', details: 'Marked RTO' };
+
+  const shopifyStatus = getShipmentStatus(order);
+  const shopifyState = classifyShipmentStatus(shopifyStatus);
+  const shiprocketStatus = (signals.shipping?.status ?? '').toLowerCase();
+  const shiprocketState = classifyShipmentStatus(shiprocketStatus);
+
+  if (shopifyState === 'failed') return { state: 'failed', at: observedAt, source: 'shopify', details: shopifyStatus };
+  if (shiprocketState === 'failed') return { state: 'failed', at: observedAt, source: 'shiprocket', details: signals.shipping?.status };
+
+  const deliveredAt = signals.deliveredAt ?? parseDate(signals.shipping?.deliveredDate, observedAt);
+  if (shopifyState === 'delivered') return { state: 'delivered', at: deliveredAt, source: 'shopify' };
+  if (signals.deliveredAt) return { state: 'delivered', at: signals.deliveredAt, source: 'delivery_date' };
+  if (shiprocketState === 'delivered') return { state: 'delivered', at: deliveredAt, source: 'shiprocket' };
+
+  const candidates: DerivedOrderState[] = [];
+  if (shopifyState) candidates.push({ state: shopifyState, at: observedAt, source: 'shopify', details: shopifyStatus });
+  if (shiprocketState) {
+    const at = shiprocketState === 'in_transit'
+      ? parseDate(signals.shipping?.pickupDate, observedAt)
+      : parseDate(signals.shipping?.firstAttemptDate, observedAt);
+    candidates.push({ state: shiprocketState, at, source: 'shiprocket', details: signals.shipping?.status });
+  }
+  if (signals.shipping?.pickupDate) {
+    candidates.push({ state: 'in_transit', at: parseDate(signals.shipping.pickupDate, observedAt), source: 'shiprocket', details: 'Picked up' });
+  }
+  if (candidates.length > 0) {
+    return candidates.reduce((furthest, candidate) => (stateRank(candidate.state) > stateRank(furthest.state) ? candidate : furthest));
+  }
+
+  if (order.fulfillment_status === 'fulfilled' || (order.fulfillments?.length ?? 0) > 0) {
+    return { state: 'fulfilled', at: observedAt, source: 'shopify' };
+  }
+  return { state: 'placed', at: parseDate(order.created_at, observedAt), source: 'shopify' };
+}
+
+// ─── what a state means for reporting ────────────────────────────────────────
+
+// Outcome is known: delivered or came back
+export const isFinalState = (state: OrderLifecycleState): boolean => state === 'delivered' || state === 'failed';
+
+// Left out of every count: cancelled in Shopify or discarded by an admin
+export const isExcludedState = (state: OrderLifecycleState): boolean => state === 'cancelled' || state === 'discarded';
+
+/**
+ * Revenue is earned: delivered, or prepaid and not failed (the money is already in)
+ */
+export function countsAsDelivered(state: OrderLifecycleState, prepaid: boolean): boolean {
+  return state === 'delivered' || (prepaid && state !== 'failed' && !isExcludedState(state));
+}
+
+/**
+ * Nothing left to wait for: a final state, or prepaid
+ */
+export function isSettled(state: OrderLifecycleState, prepaid: boolean): boolean {
+  return isFinalState(state) || prepaid;
+}
+
+// ─── persistence ─────────────────────────────────────────────────────────────
+
+async function loadSignals(orders: ShopifyOrder[]): Promise<Map<number, OrderSignals>> {
+  const ids = orders.map((order) => order.id);
+  const names = orders.map((order) => bareName(order.name ?? ''));
+
+  const [rtoRows, discardedRows, deliveryRows, shippingRows] = await Promise.all([
+    RTOOrder.find({ shopifyOrderId: { $in: ids } }, { shopifyOrderId: 1, markedRTOAt: 1 }).lean(),
+    DiscardedOrder.find({ shopifyOrderId: { $in: ids } }, { shopifyOrderId: 1, discardedAt: 1 }).lean(),
+    OrderDeliveryDate.find({ orderNumber: { $in: names } }, { orderNumber: 1, deliveredAt: 1 }).lean(),
+    ShippingCharge.find(
+      { orderNumber: { $in: [...names, ...names.map((name) => `#${name}`)] } },
+      { orderNumber: 1, status: 1, pickupDate: 1, deliveredDate: 1, firstAttemptDate: 1 }
+    ).lean(),
+  ]);
+
+  const rtoById = new Map(rtoRows.map((row) => [row.shopifyOrderId, row.markedRTOAt]));
+  const discardedById = new Map(discardedRows.map((row) => [row.shopifyOrderId, row.discardedAt]));
+  const deliveredByName = new Map(deliveryRows.map((row) => [bareName(row.orderNumber), row.deliveredAt]));
+  const shippingByName = new Map(shippingRows.map((row) => [bareName(row.orderNumber), row]));
+
+  const signals = new Map<number, OrderSignals>();
+  for (const order of orders) {
+    const name = bareName(order.name ?? '');
+    const shipping = shippingByName.get(name);
+    signals.set(order.id, {
+      rtoMarkedAt: rtoById.get(order.id),
+      discardedAt: discardedById.get(order.id),
+      deliveredAt: deliveredByName.get(name),
+      shipping: shipping ? {
+        status: shipping.status,
+        pickupDate: shipping.pickupDate,
+        deliveredDate: shipping.deliveredDate,
+        firstAttemptDate: shipping.firstAttemptDate,
+      } : undefined,
+    });
+  }
+  return signals;
+}
+
+/**
+ * Derive and store the lifecycle state of these orders, appending a history entry
+ * for each one whose state changed. New orders start their history at 'placed'.
+ */
+export async function recordOrderStates(orders: ShopifyOrder[]): Promise<number> {
+  let changed = 0;
+
+  for (let i = 0; i < orders.length; i += BATCH_SIZE) {
+    const batch = orders.slice(i, i + BATCH_SIZE).filter((order) => order?.id && order.created_at);
+    if (batch.length === 0) continue;
+
+    const [signals, existing] = await Promise.all([
+      loadSignals(batch),
+      OrderLifecycle.find({ shopifyOrderId: { $in: batch.map((order) => order.id) } }, { shopifyOrderId: 1, state: 1 }).lean(),
+    ]);
+    const currentStates = new Map(existing.map((doc) => [doc.shopifyOrderId, doc.state]));
+    const observedAt = new Date();
+
+    const ops: AnyBulkWriteOperation<IOrderLifecycle>[] = batch.map((order) => {
+      const derived = deriveOrderState(order, signals.get(order.id), observedAt);
+      const previous = currentStates.get(order.id);
+      const fields = {
+        orderName: order.name,
+        dateKey: toDateKey(new Date(order.created_at)),
+        prepaid: isPrepaidOrder(order),
+        variant: detectVariant(order),
+      };
+
+      if (previous === derived.state) {
+        return { updateOne: { filter: { shopifyOrderId: order.id }, update: { $set: fields } } };
+      }
+
+      const transitions: IOrderStateTransition[] = [];
+      if (!previous && derived.state !== 'placed') {
+        transitions.push({ state: 'placed', at: new Date(order.created_at), source: 'shopify' });
+      }
+      transitions.push({
+        state: derived.state,
+        from: previous ?? (transitions.length > 0 ? 'placed' : undefined),
+        at: derived.at,
+        source: derived.source,
+        ...(derived.details && { details: derived.details }),
+      });
+
+      changed++;
+      return {
+        updateOne: {
+          filter: { shopifyOrderId: order.id },
+          update: {
+            $set: { ...fields, state: derived.state, stateSince: derived.at },
+            $push: { history: { $each: transitions } },
+          },
+          upsert: true,
+        },
+      };
+    });
+
+    await OrderLifecycle.bulkWrite(ops, { ordered: false });
+  }
+
+  return changed;
+}
+
+/**
+ * Re-derive stored orders by Shopify id, e.g. after an RTO or discard mark changes
+ */
+export async function refreshOrderLifecycles(orderIds: number[]): Promise<number> {
+  if (orderIds.length === 0) return 0;
+  const orders = await ShopifyOrderRecord.find({ id: { $in: orderIds } }, LIFECYCLE_FIELDS).lean();
+  return recordOrderStates(orders as unknown as ShopifyOrder[]);
+}
+
+/**
+ * Re-derive stored orders by name (with or without #), e.g. after carrier data arrives
+ */
+export async function refreshOrderLifecyclesByName(orderNames: string[]): Promise<number> {
+  if (orderNames.length === 0) return 0;
+  const names = orderNames.map(bareName);
+  const orders = await ShopifyOrderRecord.find(
+    { name: { $in: [...names, ...names.map((name) => `#${name}`)] } },
+    LIFECYCLE_FIELDS
+  ).lean();
+  return recordOrderStates(orders as unknown as ShopifyOrder[]);
+}
+
+/**
+ * Re-derive every stored order. Cheap when nothing changed: only orders whose
+ * state moved get a history entry.
+ */
+export async function backfillOrderLifecycles(): Promise<{ orders: number; changed: number }> {
+  let orders = 0;
+  let changed = 0;
+  let batch: ShopifyOrder[] = [];
+
+  for await (const order of ShopifyOrderRecord.find({}, LIFECYCLE_FIELDS).lean().cursor()) {
+    batch.push(order as unknown as ShopifyOrder);
+    if (batch.length >= BATCH_SIZE) {
+      changed += await recordOrderStates(batch);
+      orders += batch.length;
+      batch = [];
+    }
+  }
+  changed += await recordOrderStates(batch);
+  orders += batch.length;
+
+  return { orders, changed };
+}
+
+// ─── reading states ──────────────────────────────────────────────────────────
+
+/**
+ * Stored lifecycle states by Shopify order id; all orders when no ids are given.
+ * Stored orders whose state was never recorded (e.g. that write failed) are derived
+ * with their RTO, discard and carrier signals and recorded first.
+ */
+export async function loadOrderStates(orderIds?: number[]): Promise<Map<number, OrderLifecycleState>> {
+  const filter = orderIds ? { shopifyOrderId: { $in: orderIds } } : {};
+  const [docs, wantedIds] = await Promise.all([
+    OrderLifecycle.find(filter, { _id: 0, shopifyOrderId: 1, state: 1 }).lean(),
+    orderIds ?? ShopifyOrderRecord.distinct('id'),
+  ]);
+  const states = new Map(docs.map((doc) => [doc.shopifyOrderId, doc.state]));
+
+  const missing = wantedIds.filter((id) => !states.has(id));
+  if (missing.length > 0) {
+    try {
+      await refreshOrderLifecycles(missing);
+    } catch (error) {
+      // Usually a concurrent load recording the same orders; whatever did get stored is read below
+      console.error(`Failed to record lifecycle states for ${missing.length} order(s):`, error);
+    }
+    const recorded = await OrderLifecycle.find({ shopifyOrderId: { $in: missing } }, { _id: 0, shopifyOrderId: 1, state: 1 }).lean();
+    recorded.forEach((doc) => states.set(doc.shopifyOrderId, doc.state));
+  }
+  return states;
+}
+
+/**
+ * An order's state from loadOrderStates(). Only an order missing from the order
+ * store has none; it is classified from its Shopify data alone.
+ */
+export function getOrderState(order: ShopifyOrder, states: Map<number, OrderLifecycleState>): OrderLifecycleState {
+  return states.get(order.id) ?? deriveOrderState(order).state;
+}
+
+/**
+ * An order's lifecycle with its full transition history
+ */
+export async function getOrderLifecycle(orderId: number): Promise<IOrderLifecycle | null> {
+  return OrderLifecycle.findOne({ shopifyOrderId: orderId });
+}
@@ -0,0 +1,164 @@
+import { ShippingCharge, TrackingCache, IMagicLink, ITrackingCache } from '../models';
+import type { IShippingCharge } from '../models/ShippingCharge';
+import type { ITrackingEvent } from '../models/TrackingCache';
+import shiprocketService from './shiprocketService';
+
+// How long cached tracking is served before Shiprocket is asked again
+const TRACKING_CACHE_MINUTES = 120;
+
+// Shiprocket statuses before the courier has the parcel
+const PRE_PICKUP_STATUS = /awb assigned|label generated|manifest generated|pickup (scheduled|generated|queued|rescheduled|exception|error)|out for pickup|^new$/i;
+const DELIVERED_STATUS = /^delivered$/i;
+
+export type OrderTimelineStepKey = 'photos_received' | 'printing' | 'dispatched' | 'in_transit' | 'delivered';
+
+export interface OrderTimelineStep {
+  key: OrderTimelineStepKey;
+  label: string;
+  state: 'done' | 'current' | 'upcoming';
+  date?: string;
+  detail?: string;
+}
+
+export interface OrderStatus {
+  steps: OrderTimelineStep[];
+  shipment?: {
+    awbCode: string;
+    courierName?: string;
+    trackingUrl: string;
+    currentStatus?: string;
+    latestEvent?: ITrackingEvent;
+    estimatedDelivery?: string;
+  };
+}
+
+// One fetch per AWB at a time, however many customers refresh the page
+const inFlight = new Map<string, Promise<ITrackingCache | null>>();
+
+const summarizeTracking = (raw: any): Pick<ITrackingCache, 'currentStatus' | 'latestEvent' | 'deliveredDate' | 'estimatedDelivery'> | null => {
+  const data = raw?.tracking_data;
+  if (!data) return null;
+
+  const track = data.shipment_track?.[0];
+  const activities: any[] = data.shipment_track_activities || [];
+  // Shiprocket lists the newest activity first
+  const latest = activities[0];
+
+  return {
+    currentStatus: track?.current_status || undefined,
+    latestEvent: latest
+      ? { activity: String(latest.activity || latest['sr-status-label'] || ''), location: latest.location || undefined, date: String(latest.date || '') }
+      : undefined,
+    deliveredDate: track?.delivered_date || undefined,
+    estimatedDelivery: data.etd || track?.edd || undefined,
+  };
+};
+
+const refreshTracking = async (awbCode: string, cached: ITrackingCache | null): Promise<ITrackingCache | null> => {
+  const raw = await shiprocketService.getAWBTrackingActivities(awbCode);
+  const summary = summarizeTracking(raw);
+  // Keep serving the old summary if Shiprocket is down or has nothing yet
+  if (!summary) return cached;
+
+  return TrackingCache.findOneAndUpdate(
+    { awbCode },
+    { $set: { ...summary, fetchedAt: new Date() } },
+    { upsert: true, new: true }
+  );
+};
+
+/**
+ * Tracking summary for an AWB, refreshed from Shiprocket at most every
+ * TRACKING_CACHE_MINUTES (never again once delivered)
+ */
+export async function getCachedTracking(awbCode: string): Promise<ITrackingCache | null> {
+  const cached = await TrackingCache.findOne({ awbCode });
+  if (cached) {
+    const isDelivered = !!cached.deliveredDate || DELIVERED_STATUS.test(cached.currentStatus || '');
+    const isFresh = Date.now() - cached.fetchedAt.getTime() < TRACKING_CACHE_MINUTES * 60 * 1000;
+    if (isDelivered || isFresh) return cached;
+  }
+
+  let pending = inFlight.get(awbCode);
+  if (!pending) {
+    pending = refreshTracking(awbCode, cached).finally(() => inFlight.delete(awbCode));
+    inFlight.set(awbCode, pending);
+  }
+  return pending;
+}
+
+const findShippingCharge = (orderNumber: string): Promise<IShippingCharge | null> => {
+  const bare = orderNumber.replace(/^#/, '');
+  return ShippingCharge.findOne({ orderNumber: { $in: [bare, `#${bare}`] } });
+};
+
+/**
+ * Customer-facing order timeline for a submitted link: photos received, printing,
+ * dispatched, in transit and delivered. Shipment details come from the stored
+ * ShippingCharge record and cached Shiprocket tracking.
+ */
+export async function getOrderStatus(magicLink: IMagicLink): Promise<OrderStatus> {
+  const charge = await findShippingCharge(magicLink.orderNumber);
+  const awbCode = charge?.awbCode || undefined;
+  const tracking = awbCode ? await getCachedTracking(awbCode) : null;
+
+  const currentStatus = tracking?.currentStatus || charge?.status;
+  const deliveredDate = tracking?.deliveredDate || charge?.deliveredDate;
+  const isDelivered = !!deliveredDate || DELIVERED_STATUS.test(currentStatus || '');
+  const isDispatched = isDelivered || !!charge?.pickupDate || (!!tracking?.latestEvent && !PRE_PICKUP_STATUS.test(currentStatus || ''));
+  const isPacked = !!awbCode;
+
+  const steps: OrderTimelineStep[] = [
+    {
+      key: 'photos_received',
+      label: 'Photos received',
+      state: 'done',
+      date: magicLink.submittedAt?.toISOString(),
+    },
+    {
+      key: 'printing',
+      label: 'Printing',
+      state: isPacked ? 'done' : 'current',
+      detail: isPacked ? undefined : 'Your photos are being printed and packed',
+    },
+    {
+      key: 'dispatched',
+      label: 'Dispatched',
+      state: isDispatched ? 'done' : isPacked ? 'current' : 'upcoming',
+      date: charge?.pickupDate,
+      detail: isPacked
+        ? `${charge?.courierName ? `${charge.courierName} · ` : ''}AWB ${awbCode}${isDispatched ? '' : ' · waiting for courier pickup'}`
+        : undefined,
+    },
+    {
+      key: 'in_transit',
+      label: 'On the way',
+      state: isDelivered ? 'done' : isDispatched ? 'current' : 'upcoming',
+      date: isDispatched && !isDelivered ? tracking?.latestEvent?.date : undefined,
+      detail: isDispatched && !isDelivered && tracking?.latestEvent
+        ? [tracking.latestEvent.activity, tracking.latestEvent.location].filter(Boolean).join(' · ')
+        : undefined,
+    },
+    {
+      key: 'delivered',
+      label: 'Delivered',
+      state: isDelivered ? 'done' : 'upcoming',
+      date: deliveredDate,
+      detail: !isDelivered && tracking?.estimatedDelivery ? `Expected by ${tracking.estimatedDelivery}` : undefined,
+    },
+  ];
+
+  return {
+    steps,
+    shipment: awbCode
+      ? {
+          awbCode,
+          courierName: charge?.courierName,
+          trackingUrl: `https://shiprocket.co/tracking/${awbCode}`,
+          currentStatus,
+          latestEvent: tracking?.latestEvent,
+          estimatedDelivery: tracking?.estimatedDelivery,
+        }
+      : undefined,
+  };
+}
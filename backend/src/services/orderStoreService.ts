@@ -0,0 +1,308 @@
+import type { AnyBulkWriteOperation } from 'mongoose';
+import { ShopifyOrderRecord, ShopifyOrderCache } from '../models';
+import type { IShopifyOrderRecord } from '../models';
+import type { ShopifyOrder } from '../types';
+import { recordOrderStates } from './orderLifecycleService';
+
+const STORE_TIMEZONE = 'Asia/Kolkata';
+
+// Keep bulk writes well under Mongo's message size limit
+const WRITE_BATCH_SIZE = 500;
+
+// Internal fields stripped from orders handed back to callers
+const PUBLIC_PROJECTION = { _id: 0, __v: 0, orderedAt: 0, syncedAt: 0, shopifyUpdatedAt: 0 };
+
+function toDateKey(date: Date): string {
+  return date.toLocaleDateString('en-CA', { timeZone: STORE_TIMEZONE });
+}
+
+export interface SaveOrdersResult {
+  inserted: number;
+  updated: number;
+  // Already stored with the same or a newer updated_at (onlyNewer)
+  skipped: number;
+  failed: number;
+  // Shopify ids of the failed orders (an order without an id is only counted)
+  failedIds: number[];
+}
+
+// 'stale' when the stored copy is newer than the one offered, so nothing was written
+export type UpsertOrderResult = 'inserted' | 'updated' | 'stale';
+
+export interface OrdersByDateQuery {
+  fromDateKey?: string;
+  dateKeys?: string[];
+  fulfilledOnly?: boolean;
+  // Only these fields are loaded (dateKey is always included)
+  fields?: string[];
+}
+
+/**
+ * Trims a Shopify order object to keep only the fields used by our application.
+ */
+export function trimOrder(order: any): any {
+  if (!order) return order;
+
+  return {
+    id: order.id,
+    name: order.name,
+    email: order.email,
+    phone: order.phone,
+    created_at: order.created_at,
+    createdAt: order.created_at, // Map for frontend
+    updated_at: order.updated_at,
+    fulfillment_status: order.fulfillment_status,
+    financial_status: order.financial_status,
+    cancelled_at: order.cancelled_at,
+    total_price: order.total_price,
+    current_total_price: order.current_total_price,
+    total_price_set: order.total_price_set,
+    gateway: order.gateway,
+    payment_gateway_names: order.payment_gateway_names,
+    tags: order.tags,
+    customer: order.customer ? {
+      id: order.customer.id,
+      email: order.customer.email,
+      phone: order.customer.phone,
+      first_name: order.customer.first_name,
+      last_name: order.customer.last_name,
+      tags: order.customer.tags
+    } : undefined,
+    line_items: Array.isArray(order.line_items) ? order.line_items.map((li: any) => ({
+      id: li.id,
+      title: li.title,
+      quantity: li.quantity,
+      variant_title: li.variant_title,
+      price: li.price,
+      product_id: li.product_id,
+      sku: li.sku
+    })) : [],
+    shipping_address: order.shipping_address ? {
+      first_name: order.shipping_address.first_name,
+      last_name: order.shipping_address.last_name,
+      name: order.shipping_address.name,
+      address1: order.shipping_address.address1,
+      city: order.shipping_address.city,
+      province: order.shipping_address.province,
+      zip: order.shipping_address.zip,
+      phone: order.shipping_address.phone
+    } : undefined,
+    fulfillments: Array.isArray(order.fulfillments) ? order.fulfillments.map((f: any) => ({
+      id: f.id,
+      status: f.status,
+      shipment_status: f.shipment_status,
+      tracking_company: f.tracking_company,
+      tracking_number: f.tracking_number,
+      tracking_url: f.tracking_url
+    })) : []
+  };
+}
+
+// Lifecycle states follow every write; a failure there shouldn't fail the save
+async function recordStates(orders: ShopifyOrder[]): Promise<void> {
+  try {
+    await recordOrderStates(orders);
+  } catch (error) {
+    console.error('Failed to record order lifecycle states:', error);
+  }
+}
+
+const toRecord = (order: any) => {
+  const orderedAt = new Date(order.created_at);
+  const shopifyUpdatedAt = order.updated_at ? new Date(order.updated_at) : null;
+  return {
+    ...trimOrder(order),
+    orderedAt,
+    dateKey: toDateKey(orderedAt),
+    ...(shopifyUpdatedAt && !isNaN(shopifyUpdatedAt.getTime()) ? { shopifyUpdatedAt } : {}),
+    syncedAt: new Date(),
+  };
+};
+
+/**
+ * Insert or replace orders by Shopify id. With onlyMissing, orders already stored
+ * are left untouched; with onlyNewer, a stored order is only replaced by a copy with
+ * a later updated_at. Orders that can't be written are counted as failed rather
+ * than stopping the rest.
+ */
+export async function saveOrders(
+  orders: ShopifyOrder[],
+  options: { onlyMissing?: boolean; onlyNewer?: boolean } = {}
+): Promise<SaveOrdersResult> {
+  const totals: SaveOrdersResult = { inserted: 0, updated: 0, skipped: 0, failed: 0, failedIds: [] };
+  const valid = orders.filter(order => order?.id && order.created_at);
+  totals.failed += orders.length - valid.length;
+  totals.failedIds.push(...orders.filter(order => order?.id && !order.created_at).map(order => order.id));
+  const skippedIds = new Set<number>();
+
+  for (let i = 0; i < valid.length; i += WRITE_BATCH_SIZE) {
+    const batch = valid.slice(i, i + WRITE_BATCH_SIZE);
+    const ops: AnyBulkWriteOperation<IShopifyOrderRecord>[] = batch.map(order => {
+      const record = toRecord(order);
+      if (options.onlyMissing || (options.onlyNewer && !record.shopifyUpdatedAt)) {
+        return { updateOne: { filter: { id: order.id }, update: { $setOnInsert: record }, upsert: true } };
+      }
+      // A stored copy that isn't older makes the filter miss, and the upsert then collides on id
+      const filter = options.onlyNewer
+        ? { id: order.id, shopifyUpdatedAt: { $lt: record.shopifyUpdatedAt } }
+        : { id: order.id };
+      return { updateOne: { filter, update: { $set: record }, upsert: true } };
+    });
+
+    try {
+      const result = await ShopifyOrderRecord.bulkWrite(ops, { ordered: false });
+      totals.inserted += result.upsertedCount;
+      totals.updated += result.matchedCount;
+    } catch (error) {
+      // Unordered: the rest of the batch was still written
+      const bulkError = error as {
+        result?: { upsertedCount?: number; matchedCount?: number };
+        writeErrors?: Array<{ index: number; code?: number }>;
+      };
+      if (!bulkError.writeErrors) throw error;
+      totals.inserted += bulkError.result?.upsertedCount ?? 0;
+      totals.updated += bulkError.result?.matchedCount ?? 0;
+
+      const failures = bulkError.writeErrors.filter(writeError => {
+        if (!options.onlyNewer || writeError.code !== 11000) return true;
+        skippedIds.add(batch[writeError.index].id);
+        return false;
+      });
+      totals.skipped += bulkError.writeErrors.length - failures.length;
+      totals.failed += failures.length;
+      totals.failedIds.push(...failures.map(writeError => batch[writeError.index].id));
+      if (failures.length > 0) {
+        console.error(`Failed to save ${failures.length} order(s):`, failures[0]);
+      }
+    }
+  }
+
+  // An older copy that wasn't written mustn't move the lifecycle back either
+  await recordStates(valid.filter(order => !skippedIds.has(order.id)));
+  return totals;
+}
+
+/**
+ * Which of these Shopify order ids are already stored
+ */
+export async function getStoredOrderIds(ids: number[]): Promise<Set<number>> {
+  const stored = await ShopifyOrderRecord.find({ id: { $in: ids } }, { _id: 0, id: 1 }).lean();
+  return new Set(stored.map(order => order.id));
+}
+
+/**
+ * Insert or replace a single order, unless the stored copy has a newer updated_at
+ * (webhooks arrive out of order, and a retried delivery can carry an old payload)
+ */
+export async function upsertOrder(order: ShopifyOrder): Promise<UpsertOrderResult> {
+  const record = toRecord(order);
+  const filter = record.shopifyUpdatedAt
+    ? {
+      id: order.id,
+      $or: [{ shopifyUpdatedAt: { $exists: false } }, { shopifyUpdatedAt: { $lte: record.shopifyUpdatedAt } }],
+    }
+    : { id: order.id };
+
+  let upserted: boolean;
+  try {
+    const result = await ShopifyOrderRecord.updateOne(filter, { $set: record }, { upsert: true });
+    upserted = result.upsertedCount > 0;
+  } catch (error) {
+    // The filter missed because a newer copy is stored, so the upsert collided with it on id
+    if ((error as { code?: number }).code === 11000) return 'stale';
+    throw error;
+  }
+
+  await recordStates([order]);
+  return upserted ? 'inserted' : 'updated';
+}
+
+export async function hasStoredOrders(): Promise<boolean> {
+  return !!(await ShopifyOrderRecord.exists({}));
+}
+
+/**
+ * Newest stored orders first, optionally only those created since a date or
+ * containing a product
+ */
+export async function getStoredOrders(limit: number, options: { createdAtMin?: string; productId?: number } = {}): Promise<ShopifyOrder[]> {
+  const filter: Record<string, unknown> = {};
+  if (options.createdAtMin) {
+    const since = new Date(options.createdAtMin);
+    if (!isNaN(since.getTime())) filter.orderedAt = { $gte: since };
+  }
+  if (options.productId) filter['line_items.product_id'] = options.productId;
+
+  return ShopifyOrderRecord.find(filter, PUBLIC_PROJECTION).sort({ orderedAt: -1 }).limit(limit).lean() as unknown as Promise<ShopifyOrder[]>;
+}
+
+/**
+ * A stored order by its name, with or without the leading #
+ */
+export async function findStoredOrderByName(name: string): Promise<ShopifyOrder | null> {
+  const bare = name.replace(/^#/, '').trim();
+  return ShopifyOrderRecord.findOne({ name: { $in: [bare, `#${bare}`] } }, PUBLIC_PROJECTION).lean() as unknown as Promise<ShopifyOrder | null>;
+}
+
+/**
+ * Non-cancelled orders grouped by dateKey. Narrow the query with a start date,
+ * specific days, fulfilled-only, or a field list so only what's needed is loaded.
+ */
+export async function loadOrdersByDate(query: OrdersByDateQuery = {}): Promise<Map<string, any[]>> {
+  const dateKey: Record<string, unknown> = {};
+  if (query.fromDateKey) dateKey.$gte = query.fromDateKey;
+  if (query.dateKeys) dateKey.$in = query.dateKeys;
+
+  const filter: Record<string, unknown> = { cancelled_at: null };
+  if (Object.keys(dateKey).length > 0) filter.dateKey = dateKey;
+  if (query.fulfilledOnly) filter.fulfillment_status = 'fulfilled';
+
+  const projection = query.fields
+    ? Object.fromEntries([...query.fields, 'dateKey'].map(field => [field, 1]))
+    : PUBLIC_PROJECTION;
+
+  const orders = await ShopifyOrderRecord.find(filter, { ...projection, _id: 0 }).sort({ orderedAt: 1 }).lean();
+
+  const byDate = new Map<string, any[]>();
+  for (const order of orders) {
+    if (!byDate.has(order.dateKey)) byDate.set(order.dateKey, []);
+    byDate.get(order.dateKey)!.push(order);
+  }
+  return byDate;
+}
+
+/**
+ * Move orders out of the old ShopifyOrderCache blobs into one document per order.
+ * Orders already stored are kept (they're at least as fresh). A blob is deleted once
+ * all its orders are stored; otherwise it is cut down to the orders that failed, so
+ * the next startup retries just those. Returns how many orders were added.
+ */
+export async function migrateOrderCache(): Promise<number> {
+  const entries = await ShopifyOrderCache.find(
+    { cacheKey: { $regex: /^(all_orders_|printed_photos_)/ } },
+    { cacheKey: 1 }
+  ).lean();
+  if (entries.length === 0) return 0;
+
+  let migrated = 0;
+  // One blob at a time; each can hold thousands of orders
+  for (const { _id, cacheKey } of entries) {
+    const entry = await ShopifyOrderCache.findById(_id, { orders: 1 }).lean();
+    const orders = (entry?.orders ?? []) as ShopifyOrder[];
+    const { inserted: added, failed, failedIds } = await saveOrders(orders, { onlyMissing: true });
+    console.log(`Order cache ${cacheKey}: ${orders.length} orders, ${added} new`);
+    migrated += added;
+
+    if (failed === 0) {
+      await ShopifyOrderCache.deleteOne({ _id });
+      continue;
+    }
+
+    const failedSet = new Set(failedIds);
+    const kept = orders.filter(order => !order?.id || failedSet.has(order.id));
+    await ShopifyOrderCache.updateOne({ _id }, { $set: { orders: kept } });
+    const names = kept.map(order => order?.name || order?.id || '(no id)').join(', ');
+    console.error(`Order cache ${cacheKey}: kept ${kept.length} order(s) that could not be stored: ${names}`);
+  }
+  return migrated;
+}
@@ -0,0 +1,215 @@
+import config from '../config';
+import { OrderSyncRun, OrderSyncState } from '../models';
+import type { IOrderSyncRun, IOrderSyncState } from '../models';
+import type { OrderSyncSource } from '../models/OrderSyncRun';
+import type { ShopifyOrder } from '../types';
+import shopifyService from './shopifyService';
+import { scheduleDateRecomputes } from './shopifyWebhookService';
+
+const STORE_TIMEZONE = 'Asia/Kolkata';
+
+// Re-read a little before the cursor so orders updated while the last run was paging aren't missed
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+// Where the first incremental run starts when there is no cursor yet
+const INITIAL_LOOKBACK_DAYS = 60;
+const MAX_REPLAY_DAYS = 31;
+
+function toDateKey(date: Date): string {
+  return date.toLocaleDateString('en-CA', { timeZone: STORE_TIMEZONE });
+}
+
+export interface OrderSyncHealth {
+  state: IOrderSyncState | null;
+  recentRuns: IOrderSyncRun[];
+  inProgress: boolean;
+  // No successful run in three sync intervals
+  stale: boolean;
+}
+
+// Thrown when a sync is requested while another one is still running
+export class SyncInProgressError extends Error {
+  constructor() {
+    super('An order sync is already running');
+    this.name = 'SyncInProgressError';
+  }
+}
+
+let syncInFlight = false;
+
+async function withSyncLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (syncInFlight) throw new SyncInProgressError();
+  syncInFlight = true;
+  try {
+    return await fn();
+  } finally {
+    syncInFlight = false;
+  }
+}
+
+/**
+ * Fetch and store every order updated within the window, logging the run. The days
+ * the orders were placed on are queued for the daily recomputes.
+ */
+async function syncWindow(
+  source: OrderSyncSource,
+  windowStart: Date,
+  windowEnd: Date,
+  runBy?: string
+): Promise<{ run: IOrderSyncRun; orders: ShopifyOrder[]; failedIds: number[] }> {
+  const run = await OrderSyncRun.create({ source, runBy, windowStart, windowEnd });
+  try {
+    const orders = await shopifyService.fetchOrdersUpdatedBetween(windowStart, windowEnd);
+    const result = await shopifyService.saveSyncedOrders(orders);
+
+    run.fetched = orders.length;
+    run.inserted = result.inserted;
+    run.updated = result.updated;
+    run.failed = result.failed;
+    run.status = result.failed > 0 ? 'partial' : 'succeeded';
+    run.finishedAt = new Date();
+    await run.save();
+
+    const dateKeys = new Set(orders.filter(order => order.created_at).map(order => toDateKey(new Date(order.created_at))));
+    if (dateKeys.size > 0) scheduleDateRecomputes([...dateKeys], `${source} order sync`);
+
+    return { run, orders, failedIds: result.failedIds };
+  } catch (error) {
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : String(error);
+    run.finishedAt = new Date();
+    await run.save();
+    throw error;
+  }
+}
+
+/**
+ * Where the next incremental run should pick up: the newest updated_at seen, or
+ * `fallback` when nothing came back. When some orders failed to save, the cursor
+ * stops at the oldest of them so the next run fetches them again; a failure that
+ * can't be placed keeps the cursor at `previous`.
+ */
+export function getNextCursor(orders: ShopifyOrder[], failedIds: number[], failedCount: number, previous: Date, fallback: Date): Date {
+  const updatedAt = (order: ShopifyOrder): Date | null => {
+    const date = order.updated_at ? new Date(order.updated_at) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  };
+
+  if (failedCount > 0) {
+    const failed = new Set(failedIds);
+    const failedOrders = orders.filter(order => failed.has(order.id));
+    const failedDates = failedOrders.map(updatedAt);
+    if (failedOrders.length < failedCount || failedDates.some(date => !date)) return previous;
+    return new Date(Math.min(...failedDates.map(date => date!.getTime())));
+  }
+
+  // Newest update we actually saw; with nothing new, everything up to the start of this run is covered
+  return orders.reduce<Date | null>((latest, order) => {
+    const date = updatedAt(order);
+    if (!date) return latest;
+    return !latest || date > latest ? date : latest;
+  }, null) ?? fallback;
+}
+
+/**
+ * Pull orders updated since the stored cursor and move the cursor to the newest
+ * updated_at seen, or hold it at the oldest order that failed to save. Without a
+ * cursor the first run covers the last INITIAL_LOOKBACK_DAYS.
+ */
+export async function runOrderSync(source: Exclude<OrderSyncSource, 'replay'>, runBy?: string): Promise<IOrderSyncRun> {
+  return withSyncLock(async () => {
+    const startedAt = new Date();
+    const state = await OrderSyncState.findOne({ key: 'default' });
+
+    const windowStart = state?.cursor
+      ? new Date(state.cursor.getTime() - CURSOR_OVERLAP_MS)
+      : new Date(startedAt.getTime() - INITIAL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    try {
+      const { run, orders, failedIds } = await syncWindow(source, windowStart, startedAt, runBy);
+      const previousCursor = state?.cursor ?? windowStart;
+      const cursor = getNextCursor(orders, failedIds, run.failed, previousCursor, startedAt);
+
+      if (run.failed > 0) {
+        await OrderSyncState.updateOne(
+          { key: 'default' },
+          { $set: { cursor, lastRunAt: startedAt, lastError: `${run.failed} order(s) could not be saved` } },
+          { upsert: true }
+        );
+        return run;
+      }
+
+      await OrderSyncState.updateOne(
+        { key: 'default' },
+        { $set: { cursor, lastRunAt: startedAt, lastSuccessAt: new Date() }, $unset: { lastError: 1 } },
+        { upsert: true }
+      );
+      return run;
+    } catch (error) {
+      await OrderSyncState.updateOne(
+        { key: 'default' },
+        { $set: { lastRunAt: startedAt, lastError: error instanceof Error ? error.message : String(error) } },
+        { upsert: true }
+      );
+      throw error;
+    }
+  });
+}
+
+/**
+ * Validate a replay window. Returns an error message, or null if valid.
+ */
+export function validateReplayWindow(from: Date, to: Date): string | null {
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) return 'from and to must be valid dates';
+  if (from >= to) return 'from must be before to';
+  if (to > new Date()) return 'to cannot be in the future';
+  if (to.getTime() - from.getTime() > MAX_REPLAY_DAYS * 24 * 60 * 60 * 1000) {
+    return `Replay windows are limited to ${MAX_REPLAY_DAYS} days`;
+  }
+  return null;
+}
+
+/**
+ * Re-fetch every order updated within a past window, e.g. after an outage. The
+ * cursor is left where it is.
+ */
+export async function replayOrderWindow(from: Date, to: Date, runBy?: string): Promise<IOrderSyncRun> {
+  return withSyncLock(async () => (await syncWindow('replay', from, to, runBy)).run);
+}
+
+/**
+ * Cursor, last runs and whether the sync has fallen behind
+ */
+export async function getOrderSyncHealth(runLimit = 20): Promise<OrderSyncHealth> {
+  const [state, recentRuns] = await Promise.all([
+    OrderSyncState.findOne({ key: 'default' }),
+    OrderSyncRun.find().sort({ startedAt: -1 }).limit(runLimit),
+  ]);
+
+  const staleAfterMs = 3 * Math.max(config.shopify.syncIntervalMinutes, 5) * 60 * 1000;
+  const stale = !state?.lastSuccessAt || Date.now() - state.lastSuccessAt.getTime() > staleAfterMs;
+
+  return { state, recentRuns, inProgress: syncInFlight, stale };
+}
+
+// ─── scheduled job ───────────────────────────────────────────────────────────
+
+const runScheduledSync = async (): Promise<void> => {
+  if (syncInFlight) return;
+  try {
+    const run = await runOrderSync('scheduled');
+    if (run.fetched > 0) {
+      console.log(`[OrderSync] ${run.fetched} order(s): ${run.inserted} new, ${run.updated} updated, ${run.failed} failed`);
+    }
+  } catch (error) {
+    console.error('[OrderSync] Scheduled sync failed:', error);
+  }
+};
+
+/**
+ * Start the incremental order sync, running every config.shopify.syncIntervalMinutes
+ */
+export function startOrderSyncSchedule(): void {
+  if (!config.shopify.storeDomain || !config.shopify.accessToken) return;
+  const intervalMs = Math.max(config.shopify.syncIntervalMinutes, 5) * 60 * 1000;
+  setInterval(runScheduledSync, intervalMs).unref();
+}
@@ -0,0 +1,277 @@
+import mongoose from 'mongoose';
+import {
+  ShopifyOrderRecord,
+  OrderLifecycle,
+  ShippingCharge,
+  Ticket,
+  TicketRaisedOrder,
+  AcknowledgedOrder,
+  RTOOrder,
+  DiscardedOrder,
+  MagicLink,
+  MagicLinkEvent,
+  UploadedImage,
+  SuperUser,
+} from '../models';
+import type { MagicLinkEventType } from '../models/MagicLinkEvent';
+import type { OrderLifecycleState } from '../models/OrderLifecycle';
+import { getOrderNumberCandidates } from './packingService';
+import shiprocketService from './shiprocketService';
+
+export type OrderTimelineSource =
+  | 'shopify'
+  | 'lifecycle'
+  | 'shiprocket'
+  | 'ticket'
+  | 'ticket_raised'
+  | 'acknowledged'
+  | 'rto'
+  | 'discarded'
+  | 'magic_link'
+  | 'upload';
+
+export interface OrderTimelineEvent {
+  at: string;
+  source: OrderTimelineSource;
+  title: string;
+  details?: string;
+  // Admin email, 'customer' or 'system'; unset when the source doesn't record one
+  actor?: string;
+}
+
+export interface OrderTimeline {
+  orderNumber: string;
+  shopifyOrderId?: number;
+  events: OrderTimelineEvent[];
+}
+
+const STATE_TITLES: Record<OrderLifecycleState, string> = {
+  placed: 'Placed',
+  fulfilled: 'Fulfilled',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivery_attempted: 'Delivery attempted',
+  delivered: 'Delivered',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  discarded: 'Discarded',
+};
+
+const LINK_EVENT_TITLES: Record<MagicLinkEventType, string> = {
+  created: 'Upload link created',
+  opened: 'Customer opened upload link',
+  uploaded: 'Photo uploaded',
+  replaced: 'Photo replaced',
+  deleted: 'Photo deleted',
+  settings_changed: 'Print settings changed',
+  submitted: 'Photos submitted for printing',
+  reopened: 'Upload link reopened',
+  photo_rejected: 'Photo rejected',
+  expiry_extended: 'Link expiry extended',
+  limit_changed: 'Upload limit changed',
+  token_reissued: 'Link reissued',
+  pin_changed: 'Link PIN changed',
+  reminder_sent: 'Reminder sent',
+  images_deleted: 'Photos deleted after retention period',
+  deactivated: 'Upload link deactivated',
+};
+
+// Shiprocket dates are IST wall-clock times without an offset ("2026-01-05 14:30:00")
+function parseShiprocketTime(value: unknown): Date | null {
+  if (!value || typeof value !== 'string' || value.startsWith('0000-00-00')) return null;
+  const iso = /[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value.replace(' ', 'T')}+05:30`;
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const toIso = (value: Date | string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Courier scans for an AWB, newest first as Shiprocket returns them. Falls back to
+ * the pickup, first attempt and delivery dates stored on ShippingCharge when
+ * Shiprocket can't be reached.
+ */
+async function getShipmentEvents(charge: any): Promise<OrderTimelineEvent[]> {
+  const events: OrderTimelineEvent[] = [];
+  const push = (at: Date | string | null | undefined, title: string, details?: string) => {
+    const iso = at instanceof Date ? at.toISOString() : at ? parseShiprocketTime(at)?.toISOString() : null;
+    if (iso) events.push({ at: iso, source: 'shiprocket', title, details, actor: 'system' });
+  };
+
+  if (charge.awbCode) {
+    const raw = await shiprocketService.getAWBTrackingActivities(charge.awbCode);
+    const activities: any[] = raw?.tracking_data?.shipment_track_activities || [];
+    for (const activity of activities) {
+      push(
+        activity.date,
+        String(activity.activity || activity['sr-status-label'] || 'Courier update'),
+        activity.location || undefined
+      );
+    }
+    if (events.length > 0) return events;
+  }
+
+  const courier = [charge.courierName, charge.awbCode && `AWB ${charge.awbCode}`].filter(Boolean).join(' · ') || undefined;
+  push(charge.pickupDate, 'Picked up by courier', courier);
+  push(charge.firstAttemptDate, 'First delivery attempt', courier);
+  push(charge.deliveredDate, 'Delivered', courier);
+  return events;
+}
+
+/**
+ * Admin emails for the SuperUser ids stored on marks and rejections
+ */
+async function loadAdminEmails(ids: Array<mongoose.Types.ObjectId | undefined>): Promise<Map<string, string>> {
+  const unique = [...new Set(ids.filter(Boolean).map(String))];
+  if (unique.length === 0) return new Map();
+  const users = await SuperUser.find({ _id: { $in: unique } }, { email: 1 }).lean();
+  return new Map(users.map(user => [String(user._id), user.email]));
+}
+
+/**
+ * Everything that happened to an order, oldest first: Shopify, lifecycle state
+ * changes, Shiprocket tracking, courier tickets, admin marks (RTO, discard,
+ * acknowledged, ticket raised), the upload link's audit log and its photos.
+ * Returns null when no source knows the order.
+ */
+export async function getOrderTimeline(orderNumber: string): Promise<OrderTimeline | null> {
+  const candidates = getOrderNumberCandidates(orderNumber);
+  const byName = { $in: candidates };
+
+  const [order, charge, tickets, links] = await Promise.all([
+    ShopifyOrderRecord.findOne({ name: byName }, { id: 1, name: 1, created_at: 1, cancelled_at: 1, financial_status: 1 }).lean(),
+    ShippingCharge.findOne({ orderNumber: byName }).lean(),
+    Ticket.find({ orderNumber: byName }).lean(),
+    MagicLink.find({ orderNumber: byName }, { orderNumber: 1, createdAt: 1, createdBy: 1 }).lean(),
+  ]);
+
+  const orderId = order?.id;
+  const orderName = order?.name ?? links[0]?.orderNumber ?? charge?.orderNumber;
+  // Admin marks are keyed by Shopify id; fall back to the name for orders not in the store
+  const byOrder = orderId ? { shopifyOrderId: orderId } : { orderName: byName };
+  const linkIds = links.map(link => link._id);
+
+  const [lifecycle, rto, discarded, acknowledged, ticketRaised, linkEvents, images, shipmentEvents] = await Promise.all([
+    orderId ? OrderLifecycle.findOne({ shopifyOrderId: orderId }, { history: 1 }).lean() : null,
+    RTOOrder.findOne(byOrder).lean(),
+    DiscardedOrder.findOne(byOrder).lean(),
+    AcknowledgedOrder.findOne(byOrder).lean(),
+    TicketRaisedOrder.findOne(byOrder).lean(),
+    linkIds.length > 0 ? MagicLinkEvent.find({ magicLinkId: { $in: linkIds } }).lean() : [],
+    linkIds.length > 0 ? UploadedImage.find({ magicLinkId: { $in: linkIds } }, { magicLinkId: 1, originalName: 1, uploadedAt: 1, rejection: 1 }).lean() : [],
+    charge
+      ? getShipmentEvents(charge).catch((error) => {
+          console.error(`Failed to load shipment events for ${orderNumber}:`, error);
+          return [] as OrderTimelineEvent[];
+        })
+      : [],
+  ]);
+
+  if (!orderName) return null;
+
+  const admins = await loadAdminEmails([
+    rto?.markedRTOBy,
+    discarded?.discardedBy,
+    acknowledged?.acknowledgedBy,
+    ticketRaised?.markedBy,
+    ...links.map(link => link.createdBy),
+    ...images.map(image => image.rejection?.rejectedBy),
+  ]);
+  const adminEmail = (id: mongoose.Types.ObjectId | undefined) => (id ? admins.get(String(id)) : undefined);
+
+  const events: OrderTimelineEvent[] = [...shipmentEvents];
+  const push = (at: Date | string | null | undefined, event: Omit<OrderTimelineEvent, 'at'>) => {
+    const iso = toIso(at);
+    if (iso) events.push({ at: iso, ...event });
+  };
+
+  if (order) {
+    push(order.created_at, { source: 'shopify', title: 'Order placed', details: order.financial_status || undefined, actor: 'customer' });
+    push(order.cancelled_at, { source: 'shopify', title: 'Order cancelled' });
+  }
+
+  // The initial 'placed' entry repeats the Shopify event, and RTO and discard
+  // transitions repeat the marks below, which carry who made them
+  for (const transition of lifecycle?.history ?? []) {
+    if (transition.state === 'placed' || transition.source === 'rto' || transition.source === 'discarded') continue;
+    push(transition.at, {
+      source: 'lifecycle',
+      title: STATE_TITLES[transition.state],
+      details: transition.details ?? `from ${transition.source.replace('_', ' ')}`,
+      actor: 'system',
+    });
+  }
+
+  for (const ticket of tickets as any[]) {
+    const courier = [ticket.courierName, ticket.awb && `AWB ${ticket.awb}`].filter(Boolean).join(' · ');
+    push(ticket.createdAt, { source: 'ticket', title: 'Courier ticket opened', details: courier || undefined, actor: 'system' });
+    if (ticket.status !== 'open') {
+      push(ticket.updatedAt, { source: 'ticket', title: `Courier ticket ${ticket.status.replace('_', ' ')}`, actor: 'system' });
+    }
+  }
+
+  if (ticketRaised) {
+    push(ticketRaised.markedAt, { source: 'ticket_raised', title: 'Marked ticket raised', actor: adminEmail(ticketRaised.markedBy) });
+  }
+  if (acknowledged) {
+    push(acknowledged.acknowledgedAt, { source: 'acknowledged', title: 'Acknowledged', actor: adminEmail(acknowledged.acknowledgedBy) });
+  }
+  if (rto) {
+    push(rto.markedRTOAt, { source: 'rto', title: 'Marked RTO', details: rto.notes, actor: adminEmail(rto.markedRTOBy) });
+  }
+  if (discarded) {
+    push(discarded.discardedAt, { source: 'discarded', title: 'Discarded', actor: adminEmail(discarded.discardedBy) });
+  }
+
+  // When each link's audit log starts; anything earlier is rebuilt from the link and its photos
+  const auditStart = new Map<string, Date>();
+  for (const event of linkEvents) {
+    const linkId = String(event.magicLinkId);
+    const start = auditStart.get(linkId);
+    if (!start || event.createdAt < start) auditStart.set(linkId, event.createdAt);
+  }
+  const beforeAudit = (linkId: mongoose.Types.ObjectId, at: Date | undefined) => {
+    const start = auditStart.get(String(linkId));
+    return !!at && (!start || at < start);
+  };
+
+  for (const link of links) {
+    // Links created before the audit log existed only have their creation time
+    if (!auditStart.has(String(link._id))) {
+      push(link.createdAt, { source: 'magic_link', title: LINK_EVENT_TITLES.created, actor: adminEmail(link.createdBy) ?? 'system' });
+    }
+  }
+  for (const event of linkEvents) {
+    push(event.createdAt, {
+      source: 'magic_link',
+      title: LINK_EVENT_TITLES[event.type] ?? event.type,
+      details: event.details,
+      actor: event.actor === 'admin' ? event.adminUser ?? 'admin' : event.actor,
+    });
+  }
+
+  // Uploads, rejections and replacements since the audit log began are already in it
+  for (const image of images) {
+    if (beforeAudit(image.magicLinkId, image.uploadedAt)) {
+      push(image.uploadedAt, { source: 'upload', title: 'Photo uploaded', details: image.originalName, actor: 'customer' });
+    }
+    if (image.rejection && beforeAudit(image.magicLinkId, image.rejection.rejectedAt)) {
+      push(image.rejection.rejectedAt, {
+        source: 'upload',
+        title: 'Photo rejected',
+        details: `${image.originalName}: ${image.rejection.reason}`,
+        actor: adminEmail(image.rejection.rejectedBy),
+      });
+    }
+    if (image.rejection && beforeAudit(image.magicLinkId, image.rejection.replacedAt)) {
+      push(image.rejection.replacedAt, { source: 'upload', title: 'Photo replaced', details: image.originalName, actor: 'customer' });
+    }
+  }
+
+  events.sort((a, b) => a.at.localeCompare(b.at));
+  return { orderNumber: orderName, shopifyOrderId: orderId, events };
+}
@@ -0,0 +1,227 @@
+import mongoose from 'mongoose';
+import { MagicLink, UploadedImage, ShippingCharge, PackingEvent, ProductionJob, Employee, IMagicLink, IPackingEvent, IEmployee } from '../models';
+import { describeAllowance } from './printAllowanceService';
+import { PRODUCTION_STAGES } from '../models/ProductionJob';
+import { moveToStage } from './productionService';
+import { getImageUrls } from './storage';
+import shopifyService from './shopifyService';
+
+// Everything staff confirm before an order can be marked packed
+export const PACKING_CHECKLIST: { key: string; label: string }[] = [
+  { key: 'print_count', label: 'Print count matches the order' },
+  { key: 'sizes', label: 'Sizes and styles match' },
+  { key: 'quality', label: 'No damaged or smudged prints' },
+  { key: 'label', label: 'Shipping label attached' },
+  { key: 'sealed', label: 'Package sealed' },
+];
+
+// A scan older than this doesn't count towards time-to-pack
+const MAX_PACK_SECONDS = 60 * 60;
+
+export interface PackingDetails {
+  magicLink: IMagicLink;
+  city?: string;
+  photos: { id: string; thumbnailUrl?: string; s3Url: string; photoSize: string; photoType: string; copies: number }[];
+  printCount: number;
+  printBreakdown: { label: string; count: number }[];
+  label: { status: 'ready' | 'missing'; awbCode?: string; courierName?: string; shipmentStatus?: string };
+  productionStage?: string;
+  lastPacked?: { employeeName: string; packedAt: Date };
+}
+
+export interface PackerThroughput {
+  employeeId: string;
+  employeeName: string;
+  packed: number;
+  averageSecondsToPack: number | null;
+}
+
+/**
+ * Order numbers a scanned or typed code could be stored as. Accepts "PB1234S",
+ * "#PB1234S", "pb1234s" or just "1234".
+ */
+export function getOrderNumberCandidates(code: string): string[] {
+  const clean = code.trim().toUpperCase().replace(/^#/, '');
+  const match = clean.match(/^PB(\d+)S$/) || clean.match(/^(\d+)$/);
+  if (!match) return [clean, `#${clean}`];
+
+  const digits = match[1];
+  return [`PB${digits}S`, `#PB${digits}S`, digits, `#${digits}`];
+}
+
+/**
+ * The upload link for a scanned code, or null when the code matches no order with photos
+ */
+export async function findLinkForCode(code: string): Promise<IMagicLink | null> {
+  return MagicLink.findOne({ orderNumber: { $in: getOrderNumberCandidates(code) } }).sort({ createdAt: -1 });
+}
+
+/**
+ * Active employee by id, or null
+ */
+export async function findPacker(employeeId: unknown): Promise<IEmployee | null> {
+  if (typeof employeeId !== 'string' || !mongoose.Types.ObjectId.isValid(employeeId)) return null;
+  return Employee.findOne({ _id: employeeId, isActive: true });
+}
+
+/**
+ * What the packer needs to see for an order: photos, prints by size and style,
+ * customer city and whether a shipping label exists
+ */
+export async function getPackingDetails(magicLink: IMagicLink): Promise<PackingDetails> {
+  const bare = magicLink.orderNumber.replace(/^#/, '');
+  const [images, charge, job, lastPacked] = await Promise.all([
+    UploadedImage.find({ magicLinkId: magicLink._id }).sort({ uploadedAt: 1 }),
+    ShippingCharge.findOne({ orderNumber: { $in: [bare, `#${bare}`] } }).lean(),
+    ProductionJob.findOne({ magicLinkId: magicLink._id }).select('stage').lean(),
+    PackingEvent.findOne({ magicLinkId: magicLink._id, type: 'packed' }).sort({ createdAt: -1 }).lean(),
+  ]);
+
+  let city = charge?.customerCity;
+  if (!city) {
+    // Shiprocket hasn't been fetched for this order yet; Shopify has the address
+    try {
+      const order = await shopifyService.findOrderByNumber(magicLink.orderNumber);
+      city = order?.shipping_address?.city || undefined;
+    } catch {
+      // City is a nice-to-have at the desk; carry on without it
+    }
+  }
+
+  const breakdown = new Map<string, number>();
+  for (const image of images) {
+    const label = describeAllowance({ photoSize: image.photoSize, photoType: image.photoType });
+    breakdown.set(label, (breakdown.get(label) || 0) + (image.copies || 1));
+  }
+
+  return {
+    magicLink,
+    city,
+    photos: images.map(image => {
+      const { thumbnailUrl, s3Url } = getImageUrls(image);
+      return {
+        id: String(image._id),
+        thumbnailUrl,
+        s3Url,
+        photoSize: image.photoSize,
+        photoType: image.photoType,
+        copies: image.copies || 1,
+      };
+    }),
+    printCount: images.reduce((sum, image) => sum + (image.copies || 1), 0),
+    printBreakdown: [...breakdown].map(([label, count]) => ({ label, count })),
+    label: charge?.awbCode
+      ? { status: 'ready', awbCode: charge.awbCode, courierName: charge.courierName, shipmentStatus: charge.status }
+      : { status: 'missing' },
+    productionStage: job?.stage,
+    lastPacked: lastPacked ? { employeeName: lastPacked.employeeName, packedAt: lastPacked.createdAt } : undefined,
+  };
+}
+
+/**
+ * Record that an employee pulled an order up at the station
+ */
+export async function recordScan(magicLink: IMagicLink, employee: IEmployee, adminEmail: string): Promise<void> {
+  try {
+    await PackingEvent.create({
+      magicLinkId: magicLink._id,
+      orderNumber: magicLink.orderNumber,
+      type: 'scanned',
+      employeeId: employee._id,
+      employeeName: employee.name,
+      adminUser: adminEmail,
+    });
+  } catch (error) {
+    console.error(`Failed to record packing scan for ${magicLink.orderNumber}:`, error);
+  }
+}
+
+/**
+ * Mark an order packed once every checklist item is ticked, and move it to the
+ * packed stage on the production board. An order can only be packed once.
+ * Returns an error message, or the event.
+ */
+export async function markPacked(
+  magicLink: IMagicLink,
+  employee: IEmployee,
+  checklist: unknown,
+  adminEmail: string
+): Promise<IPackingEvent | string> {
+  if (!magicLink.submittedForPrinting) {
+    return 'This order has not been submitted for printing';
+  }
+
+  const ticked = Array.isArray(checklist) ? checklist.filter((item): item is string => typeof item === 'string') : [];
+  const missing = PACKING_CHECKLIST.filter(item => !ticked.includes(item.key));
+  if (missing.length > 0) {
+    return `Complete the checklist first: ${missing.map(item => item.label).join(', ')}`;
+  }
+
+  const alreadyPacked = await PackingEvent.findOne({ magicLinkId: magicLink._id, type: 'packed' });
+  if (alreadyPacked) return describeAlreadyPacked(alreadyPacked);
+
+  const lastScan = await PackingEvent.findOne({
+    magicLinkId: magicLink._id,
+    employeeId: employee._id,
+    type: 'scanned',
+  }).sort({ createdAt: -1 });
+  const secondsSinceScan = lastScan ? Math.round((Date.now() - lastScan.createdAt.getTime()) / 1000) : undefined;
+
+  let event: IPackingEvent;
+  try {
+    event = await PackingEvent.create({
+      magicLinkId: magicLink._id,
+      orderNumber: magicLink.orderNumber,
+      type: 'packed',
+      employeeId: employee._id,
+      employeeName: employee.name,
+      adminUser: adminEmail,
+      checklist: PACKING_CHECKLIST.map(item => item.key),
+      secondsToPack: secondsSinceScan !== undefined && secondsSinceScan <= MAX_PACK_SECONDS ? secondsSinceScan : undefined,
+    });
+  } catch (error) {
+    // Another station packed it between the check above and now
+    if ((error as { code?: number }).code !== 11000) throw error;
+    const packed = await PackingEvent.findOne({ magicLinkId: magicLink._id, type: 'packed' });
+    return packed ? describeAlreadyPacked(packed) : 'This order has already been packed';
+  }
+
+  // Only move forward: an order already handed to the courier stays there
+  const job = await ProductionJob.findOne({ magicLinkId: magicLink._id }).select('stage').lean();
+  if (!job || PRODUCTION_STAGES.indexOf(job.stage) < PRODUCTION_STAGES.indexOf('packed')) {
+    const moved = await moveToStage(magicLink, 'packed', String(employee._id), adminEmail);
+    if (typeof moved === 'string') {
+      console.error(`Packed ${magicLink.orderNumber} but could not update production: ${moved}`);
+    }
+  }
+
+  return event;
+}
+
+const describeAlreadyPacked = (event: IPackingEvent): string =>
+  `Already packed by ${event.employeeName} on ${event.createdAt.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`;
+
+/**
+ * Orders packed per employee since a date, with the average time from scan to pack
+ */
+export async function getPackingThroughput(since: Date): Promise<PackerThroughput[]> {
+  const rows = await PackingEvent.aggregate<{ _id: mongoose.Types.ObjectId; employeeName: string; packed: number; averageSeconds: number | null }>([
+    { $match: { type: 'packed', createdAt: { $gte: since } } },
+    {
+      $group: {
+        _id: '$employeeId',
+        employeeName: { $last: '$employeeName' },
+        packed: { $sum: 1 },
+        averageSeconds: { $avg: '$secondsToPack' },
+      },
+    },
+    { $sort: { packed: -1 } },
+  ]);
+
+  return rows.map(row => ({
+    employeeId: String(row._id),
+    employeeName: row.employeeName,
+    packed: row.packed,
+    averageSecondsToPack: row.averageSeconds !== null ? Math.round(row.averageSeconds) : null,
+  }));
+}
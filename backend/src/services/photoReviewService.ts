@@ -0,0 +1,77 @@
+import mongoose from 'mongoose';
+import { UploadedImage, IMagicLink } from '../models';
+import type { IUploadedImage } from '../models/UploadedImage';
+import magicLinkService from './magicLinkService';
+
+/**
+ * A rejected photo the customer still has to replace (or delete and re-upload)
+ */
+export function isAwaitingReplacement(image: Pick<IUploadedImage, 'rejection'>): boolean {
+  return !!image.rejection?.reason && !image.rejection.replacedAt;
+}
+
+/**
+ * Whether the customer may add photos to a link.
+ * Returns an error message, or null when allowed.
+ */
+export function checkCanAddPhotos(magicLink: IMagicLink): string | null {
+  if (magicLink.submittedForPrinting) return 'Already submitted for printing';
+  return null;
+}
+
+/**
+ * Whether the customer may change, replace or delete a photo. Once a submitted
+ * link is reopened for review, only rejected photos (and photos uploaded since)
+ * can change. Returns an error message, or null when allowed.
+ */
+export function checkCanChangePhoto(magicLink: IMagicLink, image: IUploadedImage): string | null {
+  if (magicLink.submittedForPrinting) return 'Cannot change photos after submission';
+
+  if (magicLink.reopenedAt && !image.rejection?.reason && image.uploadedAt <= magicLink.reopenedAt) {
+    return 'This photo was approved. Only the photos we asked you to replace can be changed';
+  }
+
+  return null;
+}
+
+/**
+ * Record that the customer uploaded a new file for a rejected photo
+ */
+export function markReplaced(image: IUploadedImage): void {
+  if (image.rejection?.reason && !image.rejection.replacedAt) {
+    image.rejection.replacedAt = new Date();
+  }
+}
+
+/**
+ * Reject one photo with a reason. If the link was already submitted it is
+ * reopened, so the customer can replace the rejected photos and resubmit.
+ */
+export async function rejectPhoto(
+  magicLink: IMagicLink,
+  image: IUploadedImage,
+  reason: string,
+  adminId: string
+): Promise<void> {
+  image.rejection = {
+    reason,
+    rejectedAt: new Date(),
+    rejectedBy: new mongoose.Types.ObjectId(adminId),
+  };
+  await image.save();
+
+  if (magicLink.submittedForPrinting) {
+    await magicLinkService.reopen(magicLink);
+  }
+}
+
+/**
+ * Rejected photos on a link that have not been replaced yet
+ */
+export async function getPhotosAwaitingReplacement(magicLinkId: mongoose.Types.ObjectId): Promise<IUploadedImage[]> {
+  return UploadedImage.find({
+    magicLinkId,
+    'rejection.reason': { $exists: true },
+    'rejection.replacedAt': { $exists: false },
+  }).sort({ 'rejection.rejectedAt': 1 });
+}
@@ -0,0 +1,267 @@
+import mongoose from 'mongoose';
+import { UploadedImage, UploadSession, IMagicLink, IPrintAllowance } from '../models';
+import type { PhotoSize, PhotoType } from '../models/UploadedImage';
+
+export interface AllowanceUsage extends IPrintAllowance {
+  used: number;
+}
+
+// One uploaded (or in-flight) photo and the prints it needs
+export interface PrintLine {
+  photoSize: PhotoSize;
+  photoType: PhotoType;
+  copies: number;
+}
+
+interface Allocation {
+  usage: AllowanceUsage[];
+  overflow: PrintLine[];
+}
+
+const SIZE_LABELS: Record<PhotoSize, string> = { small: 'Small', large: 'Large' };
+const TYPE_LABELS: Record<PhotoType, string> = { normal: 'Normal', polaroid: 'Polaroid' };
+
+const specificity = (a: IPrintAllowance): number => (a.photoSize ? 1 : 0) + (a.photoType ? 1 : 0);
+
+const matches = (a: IPrintAllowance, line: PrintLine): boolean =>
+  (!a.photoSize || a.photoSize === line.photoSize) && (!a.photoType || a.photoType === line.photoType);
+
+/**
+ * Human-readable name of an allowance, e.g. "Small Polaroid" or "Large (any style)"
+ */
+export function describeAllowance(a: Pick<IPrintAllowance, 'photoSize' | 'photoType'>): string {
+  if (a.photoSize && a.photoType) return `${SIZE_LABELS[a.photoSize]} ${TYPE_LABELS[a.photoType]}`;
+  if (a.photoSize) return `${SIZE_LABELS[a.photoSize]} (any style)`;
+  if (a.photoType) return `${TYPE_LABELS[a.photoType]} (any size)`;
+  return 'Any size and style';
+}
+
+/**
+ * Allowances for a link. Links created before per-size allowances existed get a
+ * single allowance of maxUploads prints in any mix.
+ */
+export function getLinkAllowances(magicLink: IMagicLink): IPrintAllowance[] {
+  if (magicLink.allowances && magicLink.allowances.length > 0) {
+    return magicLink.allowances.map(a => ({ photoSize: a.photoSize, photoType: a.photoType, quantity: a.quantity }));
+  }
+  return [{ quantity: magicLink.maxUploads }];
+}
+
+/**
+ * Assign prints to allowances, filling the most specific allowances first so
+ * "any size" allowances stay free for photos that only fit there. Whatever that
+ * leaves over is rerouted along augmenting paths (a max-flow from print kinds to
+ * allowances), so overflow is only reported when no assignment fits at all.
+ */
+export function allocatePrints(allowances: IPrintAllowance[], lines: PrintLine[]): Allocation {
+  const usage: AllowanceUsage[] = allowances.map(a => ({ ...a, used: 0 }));
+  const ordered = usage.map((_, index) => index).sort((a, b) => specificity(usage[b]) - specificity(usage[a]));
+
+  // Group by size/type so copies of the same kind are handled together
+  const byKind = new Map<string, PrintLine>();
+  for (const line of lines) {
+    const key = `${line.photoSize}|${line.photoType}`;
+    const group = byKind.get(key);
+    if (group) {
+      group.copies += line.copies;
+    } else {
+      byKind.set(key, { ...line });
+    }
+  }
+  const groups = [...byKind.values()];
+
+  // flow[g][a]: prints of group g assigned to allowance a
+  const flow = groups.map(() => usage.map(() => 0));
+  const remaining = groups.map(group => group.copies);
+  const spare = (a: number) => usage[a].quantity - usage[a].used;
+
+  const assign = (g: number, a: number, count: number) => {
+    flow[g][a] += count;
+    usage[a].used += count;
+    remaining[g] -= count;
+  };
+
+  for (let g = 0; g < groups.length; g++) {
+    for (const a of ordered) {
+      if (remaining[g] === 0) break;
+      if (!matches(usage[a], groups[g])) continue;
+      const take = Math.min(remaining[g], spare(a));
+      if (take > 0) assign(g, a, take);
+    }
+  }
+
+  // Move prints already placed into other allowances they fit, freeing room for group `start`
+  const augment = (start: number): boolean => {
+    const reachedFrom = new Map<number, number>(); // allowance -> group that reached it
+    const enteredVia = new Map<number, number>(); // group -> allowance it was reached through
+    const queue = [start];
+    enteredVia.set(start, -1);
+
+    while (queue.length > 0) {
+      const g = queue.shift()!;
+      for (const a of ordered) {
+        if (reachedFrom.has(a) || !matches(usage[a], groups[g])) continue;
+        reachedFrom.set(a, g);
+
+        if (spare(a) > 0) {
+          // Walk back to the start to find how many prints the whole chain can move
+          let amount = Math.min(remaining[start], spare(a));
+          for (let from = g; from !== start; ) {
+            const via = enteredVia.get(from)!;
+            amount = Math.min(amount, flow[from][via]);
+            from = reachedFrom.get(via)!;
+          }
+
+          for (let at = a, from = g; ; ) {
+            flow[from][at] += amount;
+            if (from === start) break;
+            const via = enteredVia.get(from)!;
+            flow[from][via] -= amount;
+            at = via;
+            from = reachedFrom.get(at)!;
+          }
+          usage[a].used += amount;
+          remaining[start] -= amount;
+          return true;
+        }
+
+        for (let other = 0; other < groups.length; other++) {
+          if (flow[other][a] > 0 && !enteredVia.has(other)) {
+            enteredVia.set(other, a);
+            queue.push(other);
+          }
+        }
+      }
+    }
+    return false;
+  };
+
+  for (let g = 0; g < groups.length; g++) {
+    while (remaining[g] > 0) {
+      if (!augment(g)) break;
+    }
+  }
+
+  const overflow = groups
+    .map((group, g) => ({ ...group, copies: remaining[g] }))
+    .filter(group => group.copies > 0);
+
+  return { usage, overflow };
+}
+
+/**
+ * Prints already claimed on a link: uploaded photos (with their copies) plus
+ * chunked uploads still in flight
+ */
+export async function getLinkPrintLines(
+  magicLinkId: mongoose.Types.ObjectId,
+  options: { excludeImageId?: string; excludeSessionId?: string } = {}
+): Promise<PrintLine[]> {
+  const imageFilter: Record<string, unknown> = { magicLinkId };
+  if (options.excludeImageId) imageFilter._id = { $ne: options.excludeImageId };
+
+  const sessionFilter: Record<string, unknown> = { magicLinkId, status: { $in: ['pending', 'completing'] }, expiresAt: { $gt: new Date() } };
+  if (options.excludeSessionId) sessionFilter._id = { $ne: options.excludeSessionId };
+
+  const [images, sessions] = await Promise.all([
+    UploadedImage.find(imageFilter).select('photoSize photoType copies').lean(),
+    UploadSession.find(sessionFilter).select('photoSize photoType').lean(),
+  ]);
+
+  return [
+    ...images.map(img => ({ photoSize: img.photoSize, photoType: img.photoType, copies: img.copies || 1 })),
+    ...sessions.map(s => ({ photoSize: s.photoSize, photoType: s.photoType, copies: 1 })),
+  ];
+}
+
+/**
+ * Check whether more prints of a size/type fit in the link's allowances.
+ * Returns an error message, or null when they fit.
+ */
+export async function checkCanAddPrints(
+  magicLink: IMagicLink,
+  line: PrintLine,
+  options: { excludeImageId?: string; excludeSessionId?: string } = {}
+): Promise<string | null> {
+  const lines = await getLinkPrintLines(magicLink._id as mongoose.Types.ObjectId, options);
+  const { overflow } = allocatePrints(getLinkAllowances(magicLink), [...lines, line]);
+
+  if (overflow.length === 0) return null;
+  return `No ${describeAllowance(line)} prints left in this order`;
+}
+
+/**
+ * Usage of every allowance on a link, for the upload page
+ */
+export async function getAllowanceUsage(magicLink: IMagicLink): Promise<{ allowances: AllowanceUsage[]; printsUsed: number }> {
+  const lines = await getLinkPrintLines(magicLink._id as mongoose.Types.ObjectId);
+  const { usage } = allocatePrints(getLinkAllowances(magicLink), lines);
+  const printsUsed = lines.reduce((sum, line) => sum + line.copies, 0);
+  return { allowances: usage, printsUsed };
+}
+
+/**
+ * Check every allowance is exactly filled before submitting for printing.
+ * Returns an error message, or null when ready.
+ */
+export function checkAllowancesFilled(allowances: IPrintAllowance[], lines: PrintLine[]): string | null {
+  const { usage, overflow } = allocatePrints(allowances, lines);
+
+  if (overflow.length > 0) {
+    const extra = overflow.map(o => `${o.copies} ${describeAllowance(o)}`).join(', ');
+    return `Your order doesn't include ${extra} print(s). Please remove them or change their size/style`;
+  }
+
+  const missing = usage.filter(a => a.used < a.quantity);
+  if (missing.length > 0) {
+    const detail = missing.map(a => `${a.quantity - a.used} more ${describeAllowance(a)}`).join(', ');
+    return `Please add ${detail} before submitting`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate allowances sent by an admin (e.g. when changing an order after an upsell)
+ */
+export function parseAllowances(input: unknown): { allowances?: IPrintAllowance[]; error?: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'allowances must be a non-empty array' };
+  }
+
+  const allowances: IPrintAllowance[] = [];
+  for (const item of input) {
+    const { photoSize, photoType, quantity } = (item || {}) as Record<string, unknown>;
+
+    if (photoSize !== undefined && photoSize !== null && !['large', 'small'].includes(photoSize as string)) {
+      return { error: 'Invalid photo size' };
+    }
+    if (photoType !== undefined && photoType !== null && !['normal', 'polaroid'].includes(photoType as string)) {
+      return { error: 'Invalid photo type' };
+    }
+    if (!Number.isInteger(quantity) || (quantity as number) < 1) {
+      return { error: 'Each allowance needs a whole-number quantity of at least 1' };
+    }
+
+    allowances.push({
+      photoSize: (photoSize || undefined) as PhotoSize | undefined,
+      photoType: (photoType || undefined) as PhotoType | undefined,
+      quantity: quantity as number,
+    });
+  }
+
+  return { allowances };
+}
+
+/**
+ * Check new allowances still cover the prints the customer has already added.
+ * Returns an error message, or null when they do.
+ */
+export async function checkAllowancesCoverUsage(magicLink: IMagicLink, allowances: IPrintAllowance[]): Promise<string | null> {
+  const lines = await getLinkPrintLines(magicLink._id as mongoose.Types.ObjectId);
+  const { overflow } = allocatePrints(allowances, lines);
+
+  if (overflow.length === 0) return null;
+  const extra = overflow.map(o => `${o.copies} ${describeAllowance(o)}`).join(', ');
+  return `The customer has already added ${extra} print(s) that these allowances don't cover`;
+}
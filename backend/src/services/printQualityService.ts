@@ -0,0 +1,86 @@
+import sharp, { Metadata } from 'sharp';
+import exifReader from 'exif-reader';
+import type { PhotoSize, PhotoType, ImageQuality } from '../models/UploadedImage';
+import { getPrintSpec } from './printSpecs';
+
+// Below this the print is visibly pixelated; between the two it prints soft
+const REJECT_BELOW_DPI = 100;
+const WARN_BELOW_DPI = 180;
+
+// Taller than ~1.9:1 is almost always a phone screenshot
+const SCREENSHOT_ASPECT_RATIO = 1.9;
+
+const readCameraModel = (exif: Buffer | undefined): string | undefined => {
+  if (!exif) return undefined;
+  try {
+    const tags = exifReader(exif);
+    const make = tags.Image?.Make?.trim();
+    const model = tags.Image?.Model?.trim();
+    if (!make && !model) return undefined;
+    if (make && model && model.startsWith(make)) return model;
+    return [make, model].filter(Boolean).join(' ');
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Read the pixel dimensions and EXIF data of a photo and decide whether it
+ * will print sharply at the chosen size and type. Returns undefined when the
+ * file cannot be decoded, so the upload is kept but left unchecked.
+ */
+export async function assessPrintQuality(buffer: Buffer, photoSize: PhotoSize, photoType: PhotoType): Promise<ImageQuality | undefined> {
+  let metadata: Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch (error) {
+    console.warn('Could not read image for quality check:', error);
+    return undefined;
+  }
+  const spec = getPrintSpec(photoSize, photoType);
+
+  // EXIF orientations 5-8 are stored rotated by 90°
+  const rotated = (metadata.orientation || 1) >= 5;
+  const width = (rotated ? metadata.height : metadata.width) || 0;
+  const height = (rotated ? metadata.width : metadata.height) || 0;
+
+  // Photos are printed long side to long side and cropped to fill the image area
+  const longPx = Math.max(width, height);
+  const shortPx = Math.min(width, height);
+  const longIn = Math.max(spec.imageWidth, spec.imageHeight);
+  const shortIn = Math.min(spec.imageWidth, spec.imageHeight);
+  const effectiveDpi = Math.floor(Math.min(longPx / longIn, shortPx / shortIn));
+
+  const cameraModel = readCameraModel(metadata.exif);
+  const hasExif = !!metadata.exif;
+  const aspectRatio = shortPx > 0 ? longPx / shortPx : 0;
+
+  let verdict: ImageQuality['verdict'] = 'ok';
+  const reasons: string[] = [];
+
+  if (effectiveDpi < REJECT_BELOW_DPI) {
+    verdict = 'reject';
+    reasons.push(`Resolution too low for ${spec.label}: ${width}×${height}px gives ${effectiveDpi} DPI (needs at least ${REJECT_BELOW_DPI})`);
+  } else if (effectiveDpi < WARN_BELOW_DPI) {
+    verdict = 'warn';
+    reasons.push(`May print blurry at ${spec.label}: ${width}×${height}px gives ${effectiveDpi} DPI`);
+  }
+
+  if (aspectRatio > SCREENSHOT_ASPECT_RATIO) {
+    if (verdict === 'ok') verdict = 'warn';
+    reasons.push('Looks like a screenshot - a large part will be cropped off');
+  } else if (!hasExif && verdict !== 'ok') {
+    reasons.push('No camera data - this may be a compressed copy (e.g. from WhatsApp)');
+  }
+
+  return {
+    verdict,
+    reason: reasons.join('. ') || undefined,
+    width,
+    height,
+    effectiveDpi,
+    hasExif,
+    cameraModel,
+    checkedAt: new Date(),
+  };
+}
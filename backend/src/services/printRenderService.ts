@@ -0,0 +1,162 @@
+import sharp, { OverlayOptions } from 'sharp';
+import storage from './storage';
+import { processImage } from './imageProcessingService';
+import { getPrintSpec, PRINT_DPI } from './printSpecs';
+import type { IUploadedImage, ImageCrop, CropRotation } from '../models/UploadedImage';
+
+// Crop boxes are drawn in the browser; allow a little rounding slack
+const ASPECT_TOLERANCE = 0.02;
+const CROP_ROTATIONS: CropRotation[] = [0, 90, 180, 270];
+
+/**
+ * Aspect ratio (width / height) of the image area for the image's size and type,
+ * in either orientation
+ */
+export function getAllowedAspectRatios(image: Pick<IUploadedImage, 'photoSize' | 'photoType'>): number[] {
+  const spec = getPrintSpec(image.photoSize, image.photoType);
+  const portrait = spec.imageWidth / spec.imageHeight;
+  return [portrait, 1 / portrait];
+}
+
+/**
+ * Check a crop sent by the browser. Returns an error message, or null when valid.
+ */
+export function validateCrop(image: IUploadedImage, crop: Omit<ImageCrop, 'updatedAt'>): string | null {
+  const { x, y, width, height, rotation } = crop;
+
+  if (![x, y, width, height].every(v => typeof v === 'number' && isFinite(v))) {
+    return 'Crop must have numeric x, y, width and height';
+  }
+  if (!CROP_ROTATIONS.includes(rotation)) {
+    return 'Rotation must be 0, 90, 180 or 270';
+  }
+  if (x < 0 || y < 0 || width <= 0 || height <= 0 || x + width > 1.001 || y + height > 1.001) {
+    return 'Crop must lie within the photo';
+  }
+
+  // Without decoded dimensions we can't check the ratio; the renderer still locks it
+  if (!image.printWidth || !image.printHeight) return null;
+
+  const sideways = rotation === 90 || rotation === 270;
+  const pixelWidth = (sideways ? image.printHeight : image.printWidth) * width;
+  const pixelHeight = (sideways ? image.printWidth : image.printHeight) * height;
+  const ratio = pixelWidth / pixelHeight;
+
+  const matches = getAllowedAspectRatios(image).some(allowed => Math.abs(ratio - allowed) / allowed <= ASPECT_TOLERANCE);
+  return matches ? null : 'Crop does not match the print size';
+}
+
+async function loadPrintSource(image: IUploadedImage): Promise<Buffer | null> {
+  if (image.printKey) {
+    const print = await storage.get(image.printKey);
+    if (print) return print;
+  }
+
+  const original = await storage.get(image.s3Key);
+  if (!original) return null;
+  return (await processImage(original)).printBuffer;
+}
+
+/**
+ * Render the photo as it will be printed: rotation and saved crop applied,
+ * scaled to the image area of its size and type at print resolution.
+ * Returns null when the image is missing from storage.
+ */
+export async function renderPrintImage(image: IUploadedImage): Promise<Buffer | null> {
+  const source = await loadPrintSource(image);
+  if (!source) return null;
+
+  const crop = image.crop;
+  const rotated = await sharp(source).rotate(crop?.rotation || 0).toBuffer({ resolveWithObject: true });
+  const { width: sourceWidth, height: sourceHeight } = rotated.info;
+
+  const spec = getPrintSpec(image.photoSize, image.photoType);
+  const landscape = crop ? crop.width * sourceWidth > crop.height * sourceHeight : sourceWidth > sourceHeight;
+  const targetWidth = Math.round((landscape ? spec.imageHeight : spec.imageWidth) * PRINT_DPI);
+  const targetHeight = Math.round((landscape ? spec.imageWidth : spec.imageHeight) * PRINT_DPI);
+
+  let pipeline = sharp(rotated.data);
+
+  if (crop) {
+    const left = Math.max(0, Math.round(crop.x * sourceWidth));
+    const top = Math.max(0, Math.round(crop.y * sourceHeight));
+    pipeline = pipeline.extract({
+      left,
+      top,
+      width: Math.max(1, Math.min(sourceWidth - left, Math.round(crop.width * sourceWidth))),
+      height: Math.max(1, Math.min(sourceHeight - top, Math.round(crop.height * sourceHeight))),
+    });
+  }
+
+  // Without a saved crop fall back to a centred crop, as the printer would
+  return pipeline
+    .resize(targetWidth, targetHeight, { fit: 'cover', position: 'centre' })
+    .withMetadata({ density: PRINT_DPI })
+    .jpeg({ quality: 95, mozjpeg: true })
+    .toBuffer();
+}
+
+// Handwritten look; falls back to whatever cursive font the server has installed
+const CAPTION_FONT_FAMILY = "'Caveat', 'Patrick Hand', 'Segoe Print', 'Bradley Hand', cursive";
+const CAPTION_COLOR = '#1f2937';
+
+const escapeXml = (text: string): string =>
+  text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c] as string);
+
+function renderCaptionSvg(caption: string, width: number, height: number): Buffer {
+  // Shrink long captions so they stay inside the strip (cursive glyphs average ~0.5em wide)
+  const fontSize = Math.round(Math.min(height * 0.45, (width * 1.6) / caption.length));
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<text x="50%" y="50%" text-anchor="middle" dominant-baseline="central" ` +
+      `font-family="${escapeXml(CAPTION_FONT_FAMILY)}" font-size="${fontSize}" fill="${CAPTION_COLOR}">` +
+      `${escapeXml(caption)}</text></svg>`
+  );
+}
+
+/**
+ * Render the complete print-ready file for an image at its physical size.
+ * Normal prints are the photo itself; polaroids compose the photo onto the
+ * white frame with the caption written in the bottom strip. Landscape photos
+ * are turned to fit the portrait polaroid frame. Returns null when the image
+ * is missing from storage.
+ */
+export async function renderPrintFile(image: IUploadedImage): Promise<Buffer | null> {
+  const photo = await renderPrintImage(image);
+  if (!photo || image.photoType !== 'polaroid') return photo;
+
+  const spec = getPrintSpec(image.photoSize, image.photoType);
+  const px = (inches: number) => Math.round(inches * PRINT_DPI);
+  const imageWidth = px(spec.imageWidth);
+  const imageHeight = px(spec.imageHeight);
+
+  const { width: photoWidth = imageWidth } = await sharp(photo).metadata();
+  const framed = photoWidth === imageWidth
+    ? photo
+    : await sharp(photo).rotate(90).resize(imageWidth, imageHeight, { fit: 'cover' }).toBuffer();
+
+  const layers: OverlayOptions[] = [{ input: framed, left: px(spec.imageLeft), top: px(spec.imageTop) }];
+
+  const caption = image.caption?.trim();
+  if (caption) {
+    const stripTop = px(spec.imageTop + spec.imageHeight);
+    layers.push({
+      input: renderCaptionSvg(caption, imageWidth, px(spec.cardHeight) - stripTop),
+      left: px(spec.imageLeft),
+      top: stripTop,
+    });
+  }
+
+  return sharp({
+    create: {
+      width: px(spec.cardWidth),
+      height: px(spec.cardHeight),
+      channels: 3,
+      background: '#ffffff',
+    },
+  })
+    .composite(layers)
+    .withMetadata({ density: PRINT_DPI })
+    .jpeg({ quality: 95, mozjpeg: true })
+    .toBuffer();
+}
@@ -0,0 +1,216 @@
+import sharp from 'sharp';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { UploadedImage, IMagicLink } from '../models';
+import type { IUploadedImage, PhotoSize } from '../models/UploadedImage';
+import { renderPrintFile } from './printRenderService';
+import { PRINT_SHEETS, getPrintSpec, SheetSpec } from './printSpecs';
+
+const POINTS_PER_INCH = 72;
+// Crop marks sit just outside the trim; short enough that marks from neighbouring cards don't meet
+const CROP_MARK_OFFSET = 0.03;
+const CROP_MARK_LENGTH = 0.09;
+const CROP_MARK_WIDTH = 0.5;
+const FOOTER_FONT_SIZE = 6;
+const HEADER_FONT_SIZE = 7;
+
+const SHEET_ORDER: PhotoSize[] = ['small', 'large'];
+
+interface SheetCard {
+  image: IUploadedImage;
+  orderCode: string;
+  // Position of this print within its order, e.g. 3 of 25
+  printNumber: number;
+  printTotal: number;
+}
+
+interface SheetLayout {
+  cols: number;
+  rows: number;
+  cardWidth: number;
+  cardHeight: number;
+  originX: number;
+  originTop: number;
+}
+
+export interface PrintSheetResult {
+  pdf: Uint8Array;
+  sheetCount: number;
+  printCount: number;
+  // Images that could not be rendered (missing from storage or undecodable)
+  failed: string[];
+}
+
+const pt = (inches: number): number => inches * POINTS_PER_INCH;
+
+/**
+ * Order code printed under each photo, in the PB####S form the Labels tool reads
+ */
+export function getOrderCode(orderNumber: string): string {
+  const clean = orderNumber.replace(/^#/, '').trim().toUpperCase();
+  if (/^PB\d+S$/.test(clean)) return clean;
+  return `PB${clean.replace(/\D/g, '')}S`;
+}
+
+function getSheetLayout(sheet: SheetSpec, photoSize: PhotoSize): SheetLayout {
+  // Normal and polaroid cards of a size share the same trim, so they can share a sheet
+  const { cardWidth, cardHeight } = getPrintSpec(photoSize, 'normal');
+  const usableWidth = sheet.width - sheet.margin * 2;
+  const usableHeight = sheet.height - sheet.margin * 2;
+  const cols = Math.max(1, Math.floor((usableWidth + sheet.gutter) / (cardWidth + sheet.gutter)));
+  const rows = Math.max(1, Math.floor((usableHeight + sheet.gutter) / (cardHeight + sheet.gutter)));
+  const gridWidth = cols * cardWidth + (cols - 1) * sheet.gutter;
+  const gridHeight = rows * cardHeight + (rows - 1) * sheet.gutter;
+
+  return {
+    cols,
+    rows,
+    cardWidth,
+    cardHeight,
+    originX: (sheet.width - gridWidth) / 2,
+    originTop: (sheet.height - gridHeight) / 2,
+  };
+}
+
+function drawCropMarks(page: PDFPage, x: number, y: number, width: number, height: number): void {
+  const offset = pt(CROP_MARK_OFFSET);
+  const length = pt(CROP_MARK_LENGTH);
+  const color = rgb(0, 0, 0);
+  const line = (sx: number, sy: number, ex: number, ey: number) =>
+    page.drawLine({ start: { x: sx, y: sy }, end: { x: ex, y: ey }, thickness: CROP_MARK_WIDTH, color });
+
+  for (const cornerY of [y, y + height]) {
+    line(x - offset - length, cornerY, x - offset, cornerY);
+    line(x + width + offset, cornerY, x + width + offset + length, cornerY);
+  }
+  for (const cornerX of [x, x + width]) {
+    line(cornerX, y - offset - length, cornerX, y - offset);
+    line(cornerX, y + height + offset, cornerX, y + height + offset + length);
+  }
+}
+
+/**
+ * Render a card for the sheet; sheets are imposed in portrait, so landscape
+ * normal prints are turned a quarter
+ */
+async function renderSheetCard(image: IUploadedImage): Promise<Buffer | null> {
+  const file = await renderPrintFile(image);
+  if (!file) return null;
+
+  const { width = 0, height = 0 } = await sharp(file).metadata();
+  if (width <= height) return file;
+  return sharp(file).rotate(90).jpeg({ quality: 95, mozjpeg: true }).toBuffer();
+}
+
+/**
+ * Impose the photos of one or more submitted magic links onto press sheets,
+ * one run of sheets per print size, with crop marks and an order-code footer
+ * under every card. Extra copies are repeated on the sheet.
+ */
+export async function buildPrintSheetPdf(magicLinks: IMagicLink[]): Promise<PrintSheetResult> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Print sheets – ${magicLinks.map(l => getOrderCode(l.orderNumber)).join(', ')}`);
+  doc.setCreator('PhotoBookX');
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+
+  const cardsBySize: Record<PhotoSize, SheetCard[]> = { small: [], large: [] };
+
+  for (const magicLink of magicLinks) {
+    const images = await UploadedImage.find({ magicLinkId: magicLink._id }).sort({ uploadedAt: 1 });
+    const orderCode = getOrderCode(magicLink.orderNumber);
+    const printTotal = images.reduce((sum, img) => sum + (img.copies || 1), 0);
+    let printNumber = 0;
+
+    for (const image of images) {
+      for (let copy = 0; copy < (image.copies || 1); copy++) {
+        printNumber++;
+        cardsBySize[image.photoSize].push({ image, orderCode, printNumber, printTotal });
+      }
+    }
+  }
+
+  const failed: string[] = [];
+  // Keyed by image id, since two photos on an order can share a file name
+  const failedIds = new Set<string>();
+  let sheetCount = 0;
+  let printCount = 0;
+
+  for (const photoSize of SHEET_ORDER) {
+    // Render each photo once (copies share the embedded image) and drop any that fail,
+    // so a missing photo never leaves a blank slot or sheet
+    const embedded = new Map<string, PDFImage>();
+    const cards: SheetCard[] = [];
+
+    for (const card of cardsBySize[photoSize]) {
+      const imageId = String(card.image._id);
+      if (!embedded.has(imageId) && !failedIds.has(imageId)) {
+        try {
+          const buffer = await renderSheetCard(card.image);
+          if (buffer) embedded.set(imageId, await doc.embedJpg(buffer));
+        } catch (error) {
+          console.error(`Failed to render ${card.image.fileName} for print sheet:`, error);
+        }
+        if (!embedded.has(imageId)) {
+          failedIds.add(imageId);
+          failed.push(card.image.originalName);
+        }
+      }
+      if (embedded.has(imageId)) cards.push(card);
+    }
+
+    if (cards.length === 0) continue;
+
+    const sheet = PRINT_SHEETS[photoSize];
+    const layout = getSheetLayout(sheet, photoSize);
+    const perSheet = layout.cols * layout.rows;
+    const sheetsForSize = Math.ceil(cards.length / perSheet);
+    const sizeLabel = getPrintSpec(photoSize, 'normal').label;
+
+    for (let sheetIndex = 0; sheetIndex < sheetsForSize; sheetIndex++) {
+      const page = doc.addPage([pt(sheet.width), pt(sheet.height)]);
+      sheetCount++;
+
+      drawSheetHeader(page, font, sheet, `${sizeLabel} on ${sheet.label} · Sheet ${sheetIndex + 1} of ${sheetsForSize}`);
+
+      const sheetCards = cards.slice(sheetIndex * perSheet, (sheetIndex + 1) * perSheet);
+      sheetCards.forEach((card, slot) => {
+        const col = slot % layout.cols;
+        const row = Math.floor(slot / layout.cols);
+        const x = pt(layout.originX + col * (layout.cardWidth + sheet.gutter));
+        // PDF coordinates run bottom-up
+        const y = pt(sheet.height - layout.originTop - row * (layout.cardHeight + sheet.gutter) - layout.cardHeight);
+        const width = pt(layout.cardWidth);
+        const height = pt(layout.cardHeight);
+
+        page.drawImage(embedded.get(String(card.image._id)) as PDFImage, { x, y, width, height });
+        drawCropMarks(page, x, y, width, height);
+        drawFooter(page, font, `${card.orderCode}  ${card.printNumber}/${card.printTotal}`, x + width / 2, y);
+        printCount++;
+      });
+    }
+  }
+
+  return { pdf: await doc.save(), sheetCount, printCount, failed };
+}
+
+function drawSheetHeader(page: PDFPage, font: PDFFont, sheet: SheetSpec, text: string): void {
+  const width = font.widthOfTextAtSize(text, HEADER_FONT_SIZE);
+  page.drawText(text, {
+    x: (pt(sheet.width) - width) / 2,
+    y: pt(sheet.height) - pt(sheet.margin) / 2 - HEADER_FONT_SIZE / 2,
+    size: HEADER_FONT_SIZE,
+    font,
+    color: rgb(0.4, 0.4, 0.4),
+  });
+}
+
+// Footer sits in the gutter below the trim, so it is cut away with the waste
+function drawFooter(page: PDFPage, font: PDFFont, text: string, centerX: number, cardBottom: number): void {
+  const width = font.widthOfTextAtSize(text, FOOTER_FONT_SIZE);
+  page.drawText(text, {
+    x: centerX - width / 2,
+    y: cardBottom - pt(CROP_MARK_OFFSET) - FOOTER_FONT_SIZE - 1,
+    size: FOOTER_FONT_SIZE,
+    font,
+    color: rgb(0, 0, 0),
+  });
+}
@@ -0,0 +1,85 @@
+import type { PhotoSize, PhotoType } from '../models/UploadedImage';
+
+/**
+ * Physical layout of each print product, in inches (portrait orientation).
+ * The image area is what the customer's photo is cropped to; for polaroids it
+ * sits inside a white border with a deeper bottom strip.
+ */
+export interface PrintSpec {
+  label: string;
+  cardWidth: number;
+  cardHeight: number;
+  imageWidth: number;
+  imageHeight: number;
+  imageLeft: number;
+  imageTop: number;
+}
+
+export const PRINT_SPECS: Record<PhotoSize, Record<PhotoType, PrintSpec>> = {
+  small: {
+    normal: {
+      label: 'Small (3"×4")',
+      cardWidth: 3,
+      cardHeight: 4,
+      imageWidth: 3,
+      imageHeight: 4,
+      imageLeft: 0,
+      imageTop: 0,
+    },
+    polaroid: {
+      label: 'Small Polaroid (3"×4")',
+      cardWidth: 3,
+      cardHeight: 4,
+      imageWidth: 2.6,
+      imageHeight: 2.9,
+      imageLeft: 0.2,
+      imageTop: 0.2,
+    },
+  },
+  large: {
+    normal: {
+      label: 'Large (4"×6")',
+      cardWidth: 4,
+      cardHeight: 6,
+      imageWidth: 4,
+      imageHeight: 6,
+      imageLeft: 0,
+      imageTop: 0,
+    },
+    polaroid: {
+      label: 'Large Polaroid (4"×6")',
+      cardWidth: 4,
+      cardHeight: 6,
+      imageWidth: 3.5,
+      imageHeight: 4.5,
+      imageLeft: 0.25,
+      imageTop: 0.25,
+    },
+  },
+};
+
+// Target resolution for print-ready files
+export const PRINT_DPI = 300;
+
+export const getPrintSpec = (photoSize: PhotoSize, photoType: PhotoType): PrintSpec => {
+  return PRINT_SPECS[photoSize][photoType];
+};
+
+/**
+ * Press sheet each print size is imposed onto, in inches. Cards are laid out
+ * in a centred grid; the gutter holds the crop marks and order-code footer.
+ */
+export interface SheetSpec {
+  label: string;
+  width: number;
+  height: number;
+  margin: number;
+  gutter: number;
+}
+
+export const PRINT_SHEETS: Record<PhotoSize, SheetSpec> = {
+  // 3 × 4 grid of 3"×4" cards
+  small: { label: '12"×18"', width: 12, height: 18, margin: 0.25, gutter: 0.25 },
+  // 3 × 3 grid of 4"×6" cards
+  large: { label: '13"×19"', width: 13, height: 19, margin: 0.25, gutter: 0.25 },
+};
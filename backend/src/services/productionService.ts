@@ -0,0 +1,263 @@
+import mongoose from 'mongoose';
+import { MagicLink, ProductionJob, ProductionSettings, ShippingCharge, Employee, IMagicLink, IProductionJob } from '../models';
+import { PRODUCTION_STAGES } from '../models/ProductionJob';
+import type { ProductionStage, IProductionStep } from '../models/ProductionJob';
+import { DEFAULT_STALE_AFTER_HOURS } from '../models/ProductionSettings';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Orders stay in the last column this long after pickup, then drop off the board
+const HANDED_OVER_VISIBLE_DAYS = 3;
+
+const MAX_STALE_AFTER_HOURS = 24 * 30;
+
+export interface ProductionCard {
+  job: IProductionJob;
+  magicLink: IMagicLink;
+  hoursInStage: number;
+  isStale: boolean;
+}
+
+export interface ProductionState {
+  stage: ProductionStage;
+  stageEnteredAt: Date;
+  isStale: boolean;
+}
+
+/**
+ * Hours in one stage before an order is flagged, falling back to the default
+ */
+export async function getStaleAfterHours(): Promise<number> {
+  const settings = await ProductionSettings.findOne({ key: 'default' }).lean();
+  return settings?.staleAfterHours || DEFAULT_STALE_AFTER_HOURS;
+}
+
+/**
+ * Validate and save the stale threshold. Returns an error message, or null when saved.
+ */
+export async function saveStaleAfterHours(staleAfterHours: unknown): Promise<string | null> {
+  if (typeof staleAfterHours !== 'number' || !Number.isInteger(staleAfterHours)
+    || staleAfterHours < 1 || staleAfterHours > MAX_STALE_AFTER_HOURS) {
+    return `Threshold must be a whole number of hours between 1 and ${MAX_STALE_AFTER_HOURS}`;
+  }
+
+  await ProductionSettings.findOneAndUpdate(
+    { key: 'default' },
+    { $set: { staleAfterHours } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  return null;
+}
+
+const isStale = (stage: ProductionStage, stageEnteredAt: Date, staleAfterHours: number): boolean =>
+  stage !== 'handed_to_courier' && Date.now() - stageEnteredAt.getTime() > staleAfterHours * HOUR_MS;
+
+/**
+ * Put a link (back) at the start of production. Called when the customer submits;
+ * a resubmitted link starts over.
+ */
+export async function startProductionJob(magicLink: IMagicLink): Promise<void> {
+  try {
+    const enteredAt = new Date();
+    await ProductionJob.findOneAndUpdate(
+      { magicLinkId: magicLink._id },
+      {
+        $set: { orderNumber: magicLink.orderNumber, stage: 'submitted', stageEnteredAt: enteredAt },
+        $push: { steps: { stage: 'submitted', enteredAt, movedBy: 'customer' } },
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    console.error(`Failed to start production for ${magicLink.orderNumber}:`, error);
+  }
+}
+
+/**
+ * Create jobs for submitted links from before the board existed. Orders that
+ * already have an AWB are treated as handed to the courier. Run once at startup;
+ * returns the number of jobs created.
+ */
+export async function backfillProductionJobs(): Promise<number> {
+  const existing = await ProductionJob.distinct('magicLinkId');
+  const links = await MagicLink.find({
+    _id: { $nin: existing },
+    submittedForPrinting: true,
+    imagesDeleted: { $ne: true },
+  }).select('_id orderNumber submittedAt createdAt');
+  if (links.length === 0) return 0;
+
+  const bareNumbers = links.map(link => link.orderNumber.replace(/^#/, ''));
+  const shipped = await ShippingCharge.find({
+    orderNumber: { $in: bareNumbers.flatMap(n => [n, `#${n}`]) },
+    awbCode: { $exists: true, $ne: '' },
+  }).select('orderNumber').lean();
+  const shippedSet = new Set(shipped.map(c => c.orderNumber.replace(/^#/, '')));
+
+  const jobs = links.map(link => {
+    const stage: ProductionStage = shippedSet.has(link.orderNumber.replace(/^#/, '')) ? 'handed_to_courier' : 'submitted';
+    const enteredAt = link.submittedAt || link.createdAt;
+    return {
+      magicLinkId: link._id,
+      orderNumber: link.orderNumber,
+      stage,
+      stageEnteredAt: enteredAt,
+      steps: [{ stage, enteredAt, movedBy: 'system' }],
+    };
+  });
+
+  // ordered: false so a job created concurrently by a submit doesn't stop the rest
+  try {
+    const inserted = await ProductionJob.insertMany(jobs, { ordered: false });
+    return inserted.length;
+  } catch (error) {
+    console.error('Production backfill finished with errors:', (error as Error).message);
+    return 0;
+  }
+}
+
+/**
+ * Submitted links by production stage, oldest in stage first. Orders handed to the
+ * courier stay visible for HANDED_OVER_VISIBLE_DAYS.
+ */
+export async function getProductionBoard(): Promise<{ staleAfterHours: number; cards: ProductionCard[] }> {
+  const handedOverSince = new Date(Date.now() - HANDED_OVER_VISIBLE_DAYS * 24 * HOUR_MS);
+  const [staleAfterHours, jobs] = await Promise.all([
+    getStaleAfterHours(),
+    ProductionJob.find({
+      $or: [
+        { stage: { $ne: 'handed_to_courier' } },
+        { stageEnteredAt: { $gte: handedOverSince } },
+      ],
+    }).sort({ stageEnteredAt: 1 }),
+  ]);
+
+  const links = await MagicLink.find({ _id: { $in: jobs.map(job => job.magicLinkId) } });
+  const linksById = new Map(links.map(link => [String(link._id), link]));
+  const now = Date.now();
+
+  const cards: ProductionCard[] = [];
+  for (const job of jobs) {
+    const magicLink = linksById.get(String(job.magicLinkId));
+    // Reopened links are back with the customer until they submit again
+    if (!magicLink || !magicLink.submittedForPrinting) continue;
+
+    cards.push({
+      job,
+      magicLink,
+      hoursInStage: Math.floor((now - job.stageEnteredAt.getTime()) / HOUR_MS),
+      isStale: isStale(job.stage, job.stageEnteredAt, staleAfterHours),
+    });
+  }
+
+  return { staleAfterHours, cards };
+}
+
+// Assignee fields for a step; an unknown or inactive employee is an error
+const resolveAssignee = async (assigneeId: unknown): Promise<Pick<IProductionStep, 'assigneeId' | 'assigneeName'> | string> => {
+  if (assigneeId === undefined || assigneeId === null || assigneeId === '') return {};
+  if (typeof assigneeId !== 'string' || !mongoose.Types.ObjectId.isValid(assigneeId)) return 'Invalid assignee';
+
+  const employee = await Employee.findOne({ _id: assigneeId, isActive: true }).select('name');
+  if (!employee) return 'Assignee not found';
+  return { assigneeId: employee._id as mongoose.Types.ObjectId, assigneeName: employee.name };
+};
+
+/**
+ * Move a link's order to a stage (forwards or back), optionally assigning someone.
+ * Returns an error message, or the updated job.
+ */
+export async function moveToStage(
+  magicLink: IMagicLink,
+  stage: unknown,
+  assigneeId: unknown,
+  movedBy: string
+): Promise<IProductionJob | string> {
+  if (typeof stage !== 'string' || !PRODUCTION_STAGES.includes(stage as ProductionStage)) {
+    return `Stage must be one of: ${PRODUCTION_STAGES.join(', ')}`;
+  }
+  if (!magicLink.submittedForPrinting) {
+    return 'This order has not been submitted for printing';
+  }
+
+  const assignee = await resolveAssignee(assigneeId);
+  if (typeof assignee === 'string') return assignee;
+
+  const enteredAt = new Date();
+  const job = await ProductionJob.findOneAndUpdate(
+    { magicLinkId: magicLink._id },
+    {
+      $set: { orderNumber: magicLink.orderNumber, stage, stageEnteredAt: enteredAt },
+      $push: { steps: { stage, enteredAt, movedBy, ...assignee } },
+    },
+    { upsert: true, new: true }
+  );
+  return job!;
+}
+
+/**
+ * Set (or clear) who is working the current stage. Returns an error message, or the job.
+ */
+export async function assignCurrentStage(magicLink: IMagicLink, assigneeId: unknown): Promise<IProductionJob | string> {
+  const job = await ProductionJob.findOne({ magicLinkId: magicLink._id });
+  if (!job || job.steps.length === 0) return 'This order is not on the production board';
+
+  const assignee = await resolveAssignee(assigneeId);
+  if (typeof assignee === 'string') return assignee;
+
+  const current = job.steps[job.steps.length - 1];
+  current.assigneeId = assignee.assigneeId;
+  current.assigneeName = assignee.assigneeName;
+  job.markModified('steps');
+  await job.save();
+  return job;
+}
+
+/**
+ * Advance a freshly submitted order to "downloaded" when an admin pulls its files.
+ * Orders already further along are left alone.
+ */
+export async function markDownloaded(magicLinkIds: mongoose.Types.ObjectId[], adminEmail: string): Promise<void> {
+  try {
+    const enteredAt = new Date();
+    await ProductionJob.updateMany(
+      { magicLinkId: { $in: magicLinkIds }, stage: 'submitted' },
+      {
+        $set: { stage: 'downloaded', stageEnteredAt: enteredAt },
+        $push: { steps: { stage: 'downloaded', enteredAt, movedBy: adminEmail } },
+      }
+    );
+  } catch (error) {
+    console.error('Failed to mark orders as downloaded:', error);
+  }
+}
+
+/**
+ * Production stage per order number (without the leading #), for pages that list orders
+ */
+export async function getProductionStates(orderNumbers: string[]): Promise<Map<string, ProductionState>> {
+  const bare = orderNumbers.map(n => n.replace(/^#/, ''));
+  const [staleAfterHours, jobs] = await Promise.all([
+    getStaleAfterHours(),
+    ProductionJob.find({ orderNumber: { $in: bare.flatMap(n => [n, `#${n}`]) } })
+      .select('orderNumber stage stageEnteredAt')
+      .lean(),
+  ]);
+
+  const states = new Map<string, ProductionState>();
+  for (const job of jobs) {
+    states.set(job.orderNumber.replace(/^#/, ''), {
+      stage: job.stage,
+      stageEnteredAt: job.stageEnteredAt,
+      isStale: isStale(job.stage, job.stageEnteredAt, staleAfterHours),
+    });
+  }
+  return states;
+}
+
+/**
+ * Active employees who can be assigned to a stage
+ */
+export async function getAssignableEmployees(): Promise<{ id: string; name: string }[]> {
+  const employees = await Employee.find({ isActive: true }).select('name').sort({ name: 1 }).lean();
+  return employees.map(e => ({ id: String(e._id), name: e.name }));
+}
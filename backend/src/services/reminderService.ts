@@ -0,0 +1,259 @@
+import mongoose from 'mongoose';
+import {
+  MagicLink,
+  MagicLinkEvent,
+  MagicLinkReminder,
+  ReminderSettings,
+  WhatsAppTemplate,
+  IMagicLink,
+  IMagicLinkReminder,
+} from '../models';
+import { DEFAULT_REMINDER_DELAYS_HOURS } from '../models/ReminderSettings';
+import type { ReminderStage } from '../models/MagicLinkReminder';
+import magicLinkService from './magicLinkService';
+import { renderOutreachMessage } from './magicLinkOutreachService';
+
+export const REMINDER_TEMPLATE_NAME = 'upload_reminder';
+
+// Used until an admin saves their own template
+export const DEFAULT_REMINDER_MESSAGE =
+  'Hi [name]! A quick reminder to upload your photos for order [order]. You have uploaded [uploaded] of [prints] so far: [link]';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_REMINDERS = 10;
+
+export interface FollowUpEntry {
+  magicLink: IMagicLink;
+  stage: ReminderStage;
+  attempt: number;
+  dueAt: Date;
+  lastReminderAt?: Date;
+  message: string;
+}
+
+export interface FunnelMetrics {
+  days: number;
+  created: number;
+  opened: number;
+  firstPhoto: number;
+  submitted: number;
+  reminded: number;
+  submittedAfterReminder: number;
+}
+
+/**
+ * Reminder delays in hours (see ReminderSettings), falling back to the defaults
+ */
+export async function getReminderDelays(): Promise<number[]> {
+  const settings = await ReminderSettings.findOne({ key: 'default' }).lean();
+  return settings?.delaysHours?.length ? settings.delaysHours : DEFAULT_REMINDER_DELAYS_HOURS;
+}
+
+/**
+ * Validate and save reminder delays. Returns an error message, or null when saved.
+ */
+export async function saveReminderDelays(delaysHours: unknown): Promise<string | null> {
+  if (!Array.isArray(delaysHours) || delaysHours.length === 0 || delaysHours.length > MAX_REMINDERS) {
+    return `Provide between 1 and ${MAX_REMINDERS} reminder delays`;
+  }
+  if (!delaysHours.every(h => typeof h === 'number' && Number.isInteger(h) && h >= 1)) {
+    return 'Each delay must be a whole number of hours (at least 1)';
+  }
+
+  await ReminderSettings.findOneAndUpdate(
+    { key: 'default' },
+    { $set: { delaysHours } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  return null;
+}
+
+/**
+ * The reminder message template, or the default when none has been saved
+ */
+export async function getReminderTemplate(): Promise<string> {
+  const template = await WhatsAppTemplate.findOne({ name: REMINDER_TEMPLATE_NAME });
+  return template?.message || DEFAULT_REMINDER_MESSAGE;
+}
+
+/**
+ * Save the reminder message template
+ */
+export async function saveReminderTemplate(message: string): Promise<void> {
+  await WhatsAppTemplate.updateOne(
+    { name: REMINDER_TEMPLATE_NAME },
+    { $set: { message, updatedAt: new Date() } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Fill the outreach placeholders plus [uploaded] and [remaining] for one link
+ */
+export function renderReminderMessage(template: string, magicLink: IMagicLink): string {
+  return renderOutreachMessage(template, magicLink)
+    .replace(/\[uploaded\]/gi, String(magicLink.currentUploads))
+    .replace(/\[remaining\]/gi, String(Math.max(magicLink.maxUploads - magicLink.currentUploads, 0)));
+}
+
+/**
+ * How far the customer got with their link
+ */
+export function getReminderStage(magicLink: IMagicLink, opened: boolean): ReminderStage {
+  if (magicLink.currentUploads === 0) return opened ? 'not_started' : 'not_opened';
+  if (magicLink.currentUploads < magicLink.maxUploads) return 'incomplete';
+  return 'not_submitted';
+}
+
+// Links that are still usable but unfinished
+const unfinishedLinksFilter = () => ({
+  isActive: true,
+  imagesDeleted: { $ne: true },
+  expiresAt: { $gt: new Date() },
+  $or: [
+    { $expr: { $lt: ['$currentUploads', '$maxUploads'] } },
+    { submittedForPrinting: { $ne: true } },
+  ],
+});
+
+/**
+ * Unfinished links whose next reminder is due, oldest due first. Links that have
+ * had every configured reminder drop out of the queue.
+ */
+export async function getFollowUpQueue(): Promise<FollowUpEntry[]> {
+  const [delays, template, links] = await Promise.all([
+    getReminderDelays(),
+    getReminderTemplate(),
+    MagicLink.find(unfinishedLinksFilter()),
+  ]);
+  if (links.length === 0) return [];
+
+  const linkIds = links.map(link => link._id as mongoose.Types.ObjectId);
+  const [reminderStats, openedIds] = await Promise.all([
+    MagicLinkReminder.aggregate<{ _id: mongoose.Types.ObjectId; count: number; lastSentAt: Date }>([
+      { $match: { magicLinkId: { $in: linkIds } } },
+      { $group: { _id: '$magicLinkId', count: { $sum: 1 }, lastSentAt: { $max: '$sentAt' } } },
+    ]),
+    MagicLinkEvent.distinct('magicLinkId', { magicLinkId: { $in: linkIds }, type: 'opened' }),
+  ]);
+
+  const statsById = new Map(reminderStats.map(s => [String(s._id), s]));
+  const openedSet = new Set(openedIds.map(String));
+  const now = Date.now();
+  const queue: FollowUpEntry[] = [];
+
+  for (const link of links) {
+    // Submitted links with every photo in are done; anything else still needs a nudge
+    if (link.submittedForPrinting && link.currentUploads >= link.maxUploads) continue;
+
+    const stats = statsById.get(String(link._id));
+    const sent = stats?.count || 0;
+    if (sent >= delays.length) continue;
+
+    const from = stats?.lastSentAt || link.createdAt;
+    const dueAt = new Date(from.getTime() + delays[sent] * HOUR_MS);
+    if (dueAt.getTime() > now) continue;
+
+    queue.push({
+      magicLink: link,
+      stage: getReminderStage(link, openedSet.has(String(link._id))),
+      attempt: sent + 1,
+      dueAt,
+      lastReminderAt: stats?.lastSentAt,
+      message: renderReminderMessage(template, link),
+    });
+  }
+
+  return queue.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+/**
+ * Record that a reminder was sent for a link (one record per attempt)
+ */
+export async function recordReminderSent(
+  magicLink: IMagicLink,
+  message: string,
+  adminEmail: string
+): Promise<IMagicLinkReminder> {
+  const [sent, opened] = await Promise.all([
+    MagicLinkReminder.countDocuments({ magicLinkId: magicLink._id }),
+    MagicLinkEvent.exists({ magicLinkId: magicLink._id, type: 'opened' }),
+  ]);
+
+  const reminder = await MagicLinkReminder.create({
+    magicLinkId: magicLink._id,
+    orderNumber: magicLink.orderNumber,
+    attempt: sent + 1,
+    stage: getReminderStage(magicLink, !!opened),
+    message,
+    sentBy: adminEmail,
+  });
+
+  await magicLinkService.recordEvent(magicLink, 'reminder_sent', {
+    actor: 'admin',
+    adminUser: adminEmail,
+    details: `Reminder ${reminder.attempt}`,
+  });
+
+  return reminder;
+}
+
+/**
+ * Reminders already sent for a link, oldest first
+ */
+export async function getRemindersForLink(magicLinkId: mongoose.Types.ObjectId): Promise<IMagicLinkReminder[]> {
+  return MagicLinkReminder.find({ magicLinkId }).sort({ attempt: 1 });
+}
+
+/**
+ * Upload funnel for links created in the last `days` days:
+ * created → opened → first photo → submitted, plus how reminders converted.
+ * Links from before event history count as opened once they have a photo.
+ */
+export async function getFunnelMetrics(days: number): Promise<FunnelMetrics> {
+  const since = new Date(Date.now() - days * 24 * HOUR_MS);
+  const links = await MagicLink.find({ createdAt: { $gte: since } })
+    .select('_id currentUploads submittedForPrinting submittedAt imagesDeleted')
+    .lean();
+  const linkIds = links.map(link => link._id);
+
+  const [openedIds, uploadedIds, firstReminders] = await Promise.all([
+    MagicLinkEvent.distinct('magicLinkId', { magicLinkId: { $in: linkIds }, type: 'opened' }),
+    MagicLinkEvent.distinct('magicLinkId', { magicLinkId: { $in: linkIds }, type: 'uploaded' }),
+    MagicLinkReminder.aggregate<{ _id: unknown; firstSentAt: Date }>([
+      { $match: { magicLinkId: { $in: linkIds } } },
+      { $group: { _id: '$magicLinkId', firstSentAt: { $min: '$sentAt' } } },
+    ]),
+  ]);
+
+  const opened = new Set(openedIds.map(String));
+  const uploaded = new Set(uploadedIds.map(String));
+  const reminded = new Map(firstReminders.map(r => [String(r._id), new Date(r.firstSentAt)]));
+
+  const metrics: FunnelMetrics = {
+    days,
+    created: links.length,
+    opened: 0,
+    firstPhoto: 0,
+    submitted: 0,
+    reminded: reminded.size,
+    submittedAfterReminder: 0,
+  };
+
+  for (const link of links) {
+    const id = String(link._id);
+    const isSubmitted = !!(link.submittedForPrinting || link.submittedAt || link.imagesDeleted);
+    const hasPhoto = isSubmitted || link.currentUploads > 0 || uploaded.has(id);
+
+    if (hasPhoto || opened.has(id)) metrics.opened++;
+    if (hasPhoto) metrics.firstPhoto++;
+    if (isSubmitted) {
+      metrics.submitted++;
+      // Only links submitted after their first nudge count towards the reminders
+      const firstReminder = reminded.get(id);
+      if (firstReminder && link.submittedAt && link.submittedAt > firstReminder) metrics.submittedAfterReminder++;
+    }
+  }
+
+  return metrics;
+}
@@ -0,0 +1,364 @@
+import mongoose from 'mongoose';
+import config from '../config';
+import {
+  MagicLink,
+  UploadedImage,
+  ShippingCharge,
+  OrderDeliveryDate,
+  RTOOrder,
+  TrackingCache,
+  RetentionPurge,
+  RetentionSettings,
+  IMagicLink,
+  IRetentionPurge,
+} from '../models';
+import { DEFAULT_RETENTION_RULES, RETENTION_TRIGGERS } from '../models/RetentionSettings';
+import type { IRetentionRule, RetentionTrigger } from '../models/RetentionSettings';
+import type { IRetentionPurgeItem, RetentionPurgeSource } from '../models/RetentionPurge';
+import storage from './storage';
+import { getImageStorageKeys } from './imageProcessingService';
+import magicLinkService from './magicLinkService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RETENTION_DAYS = 3650;
+
+export interface RetentionConfig {
+  enabled: boolean;
+  rules: IRetentionRule[];
+  lastRunAt?: Date;
+}
+
+// A submitted link whose photos a rule says can go
+export interface RetentionCandidate {
+  magicLink: IMagicLink;
+  trigger: RetentionTrigger;
+  anchorDate: Date;
+  dueAt: Date;
+  imageCount: number;
+  bytes: number;
+}
+
+export interface RetentionReport {
+  generatedAt: Date;
+  rules: IRetentionRule[];
+  candidates: RetentionCandidate[];
+  totalImages: number;
+  totalBytes: number;
+}
+
+export interface ImageDeletionResult {
+  deletedCount: number;
+  failedCount: number;
+  failedKeys: string[];
+  bytesFreed: number;
+}
+
+/**
+ * Retention settings, falling back to the defaults (disabled) when none are saved
+ */
+export async function getRetentionConfig(): Promise<RetentionConfig> {
+  const settings = await RetentionSettings.findOne({ key: 'default' }).lean();
+  return {
+    enabled: settings?.enabled || false,
+    rules: settings?.rules || DEFAULT_RETENTION_RULES,
+    lastRunAt: settings?.lastRunAt,
+  };
+}
+
+/**
+ * Validate and save retention settings. Returns an error message, or null when saved.
+ */
+export async function saveRetentionConfig(enabled: unknown, rules: unknown): Promise<string | null> {
+  if (typeof enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+  if (!Array.isArray(rules)) {
+    return 'rules must be a list';
+  }
+
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (!rule || !RETENTION_TRIGGERS.includes(rule.trigger)) {
+      return `Each rule needs a trigger (${RETENTION_TRIGGERS.join(', ')})`;
+    }
+    if (seen.has(rule.trigger)) {
+      return `Only one ${rule.trigger} rule is allowed`;
+    }
+    seen.add(rule.trigger);
+    if (!Number.isInteger(rule.days) || rule.days < 1 || rule.days > MAX_RETENTION_DAYS) {
+      return `Days must be a whole number between 1 and ${MAX_RETENTION_DAYS}`;
+    }
+  }
+  if (enabled && rules.length === 0) {
+    return 'Add at least one rule before enabling automatic deletion';
+  }
+
+  await RetentionSettings.findOneAndUpdate(
+    { key: 'default' },
+    { $set: { enabled, rules: rules.map(r => ({ trigger: r.trigger, days: r.days })) } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  return null;
+}
+
+// Order numbers are stored with and without the leading # depending on the source
+const orderNumberVariants = (orderNumber: string): string[] => {
+  const bare = orderNumber.replace(/^#/, '');
+  return [bare, `#${bare}`];
+};
+
+const parseDate = (value?: string | Date | null): Date | undefined => {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Delivery dates and RTO status for the given links' orders, keyed by bare order number.
+ * Delivery comes from OrderDeliveryDate, then ShippingCharge, then cached tracking.
+ */
+async function getShipmentOutcomes(links: IMagicLink[]): Promise<Map<string, { deliveredAt?: Date; isRto: boolean }>> {
+  const orderNumbers = links.flatMap(link => orderNumberVariants(link.orderNumber));
+  const orderIds = links.map(link => Number(link.orderId)).filter(id => !isNaN(id) && id > 0);
+
+  const [deliveryDates, charges, rtoOrders] = await Promise.all([
+    OrderDeliveryDate.find({ orderNumber: { $in: orderNumbers } }).lean(),
+    ShippingCharge.find({ orderNumber: { $in: orderNumbers } }).lean(),
+    RTOOrder.find({ $or: [{ shopifyOrderId: { $in: orderIds } }, { orderName: { $in: orderNumbers } }] }).lean(),
+  ]);
+
+  const awbCodes = charges.map(c => c.awbCode).filter((awb): awb is string => !!awb);
+  const tracking = awbCodes.length ? await TrackingCache.find({ awbCode: { $in: awbCodes } }).lean() : [];
+  const trackingByAwb = new Map(tracking.map(t => [t.awbCode, t]));
+
+  const bare = (orderNumber: string) => orderNumber.replace(/^#/, '');
+  const deliveredByOrder = new Map(deliveryDates.map(d => [bare(d.orderNumber), d.deliveredAt]));
+  const chargeByOrder = new Map(charges.map(c => [bare(c.orderNumber), c]));
+  const rtoIds = new Set(rtoOrders.map(r => r.shopifyOrderId));
+  const rtoNames = new Set(rtoOrders.map(r => bare(r.orderName)));
+
+  const outcomes = new Map<string, { deliveredAt?: Date; isRto: boolean }>();
+  for (const link of links) {
+    const orderNumber = bare(link.orderNumber);
+    const charge = chargeByOrder.get(orderNumber);
+    const track = charge?.awbCode ? trackingByAwb.get(charge.awbCode) : undefined;
+
+    outcomes.set(orderNumber, {
+      deliveredAt: parseDate(deliveredByOrder.get(orderNumber))
+        || parseDate(charge?.deliveredDate)
+        || parseDate(track?.deliveredDate),
+      isRto: rtoNames.has(orderNumber)
+        || rtoIds.has(Number(link.orderId))
+        || /\brto\b/i.test(charge?.status || ''),
+    });
+  }
+  return outcomes;
+}
+
+/**
+ * Dry run: every submitted link whose photos are due for deletion under the
+ * current rules, oldest due first, with the storage it would free. Sizes are the
+ * uploaded originals; print files and thumbnails go too but aren't counted.
+ */
+export async function getRetentionReport(): Promise<RetentionReport> {
+  const activeRules = (await getRetentionConfig()).rules;
+  const report: RetentionReport = { generatedAt: new Date(), rules: activeRules, candidates: [], totalImages: 0, totalBytes: 0 };
+  if (activeRules.length === 0) return report;
+
+  const links = await MagicLink.find({
+    submittedForPrinting: true,
+    submittedAt: { $exists: true },
+    imagesDeleted: { $ne: true },
+  });
+  if (links.length === 0) return report;
+
+  const outcomes = await getShipmentOutcomes(links);
+  const ruleFor = new Map(activeRules.map(rule => [rule.trigger, rule]));
+  const now = Date.now();
+  const due: Omit<RetentionCandidate, 'imageCount' | 'bytes'>[] = [];
+
+  for (const link of links) {
+    const outcome = outcomes.get(link.orderNumber.replace(/^#/, ''));
+    const submittedAt = link.submittedAt!;
+
+    // Each rule that applies to this order, with the date its clock started
+    const applicable: { trigger: RetentionTrigger; anchorDate: Date }[] = [];
+    if (outcome?.isRto) {
+      applicable.push({ trigger: 'rto', anchorDate: submittedAt });
+    } else if (outcome?.deliveredAt) {
+      applicable.push({ trigger: 'delivered', anchorDate: outcome.deliveredAt });
+    }
+    applicable.push({ trigger: 'submitted', anchorDate: submittedAt });
+
+    let earliest: Omit<RetentionCandidate, 'imageCount' | 'bytes'> | null = null;
+    for (const { trigger, anchorDate } of applicable) {
+      const rule = ruleFor.get(trigger);
+      if (!rule) continue;
+      const dueAt = new Date(anchorDate.getTime() + rule.days * DAY_MS);
+      if (dueAt.getTime() > now) continue;
+      if (!earliest || dueAt < earliest.dueAt) {
+        earliest = { magicLink: link, trigger, anchorDate, dueAt };
+      }
+    }
+    if (earliest) due.push(earliest);
+  }
+  if (due.length === 0) return report;
+
+  const sizes = await UploadedImage.aggregate<{ _id: mongoose.Types.ObjectId; count: number; bytes: number }>([
+    { $match: { magicLinkId: { $in: due.map(d => d.magicLink._id) } } },
+    { $group: { _id: '$magicLinkId', count: { $sum: 1 }, bytes: { $sum: '$fileSize' } } },
+  ]);
+  const sizeByLink = new Map(sizes.map(s => [String(s._id), s]));
+
+  report.candidates = due
+    .map(d => {
+      const size = sizeByLink.get(String(d.magicLink._id));
+      return { ...d, imageCount: size?.count || 0, bytes: size?.bytes || 0 };
+    })
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  report.totalImages = report.candidates.reduce((sum, c) => sum + c.imageCount, 0);
+  report.totalBytes = report.candidates.reduce((sum, c) => sum + c.bytes, 0);
+  return report;
+}
+
+/**
+ * Delete every image of a link from storage, then from the database, and mark the
+ * link's images as deleted. If any storage delete fails nothing is removed from the
+ * database, so the run can be retried.
+ */
+export async function deleteLinkImages(magicLink: IMagicLink): Promise<ImageDeletionResult> {
+  const images = await UploadedImage.find({ magicLinkId: magicLink._id });
+  const result: ImageDeletionResult = { deletedCount: 0, failedCount: 0, failedKeys: [], bytesFreed: 0 };
+
+  for (const image of images) {
+    try {
+      for (const key of getImageStorageKeys(image)) {
+        await storage.delete(key);
+      }
+      result.deletedCount++;
+      result.bytesFreed += image.fileSize || 0;
+    } catch (error) {
+      console.error(`✗ Failed to delete ${image.s3Key} from storage:`, error);
+      result.failedCount++;
+      result.failedKeys.push(image.s3Key);
+    }
+  }
+
+  if (result.failedCount > 0) return result;
+
+  await UploadedImage.deleteMany({ magicLinkId: magicLink._id });
+  magicLink.imagesDeleted = true;
+  magicLink.imagesDeletedAt = new Date();
+  await magicLink.save();
+
+  return result;
+}
+
+// Thrown when a purge is requested while another one is still running
+export class PurgeInProgressError extends Error {
+  constructor() {
+    super('A purge is already running');
+    this.name = 'PurgeInProgressError';
+  }
+}
+
+let purgeInFlight = false;
+
+/**
+ * Apply the retention rules: delete the photos of up to config.retention.maxLinksPerRun
+ * due links and record what was removed. Returns null when nothing was due.
+ */
+export async function runRetentionPurge(source: RetentionPurgeSource, runBy?: string): Promise<IRetentionPurge | null> {
+  if (purgeInFlight) throw new PurgeInProgressError();
+  purgeInFlight = true;
+  try {
+    return await purgeDueLinks(source, runBy);
+  } finally {
+    purgeInFlight = false;
+  }
+}
+
+async function purgeDueLinks(source: RetentionPurgeSource, runBy?: string): Promise<IRetentionPurge | null> {
+  const startedAt = new Date();
+  const report = await getRetentionReport();
+  await RetentionSettings.updateOne({ key: 'default' }, { $set: { lastRunAt: startedAt } }, { upsert: true });
+  if (report.candidates.length === 0) return null;
+
+  const items: IRetentionPurgeItem[] = [];
+  for (const candidate of report.candidates.slice(0, config.retention.maxLinksPerRun)) {
+    const { magicLink } = candidate;
+    const item: IRetentionPurgeItem = {
+      magicLinkId: magicLink._id as mongoose.Types.ObjectId,
+      orderNumber: magicLink.orderNumber,
+      trigger: candidate.trigger,
+      anchorDate: candidate.anchorDate,
+      imageCount: 0,
+      bytesFreed: 0,
+    };
+
+    try {
+      const result = await deleteLinkImages(magicLink);
+      if (result.failedCount > 0) {
+        item.error = `${result.failedCount} image(s) could not be deleted from storage`;
+      } else {
+        item.imageCount = result.deletedCount;
+        item.bytesFreed = result.bytesFreed;
+        await magicLinkService.recordEvent(magicLink, 'images_deleted', {
+          actor: source === 'manual' ? 'admin' : 'system',
+          adminUser: runBy,
+          details: `Retention rule: ${candidate.trigger} + ${report.rules.find(r => r.trigger === candidate.trigger)?.days} days`,
+        });
+      }
+    } catch (error) {
+      console.error(`[Retention] Failed to purge ${magicLink.orderNumber}:`, error);
+      item.error = error instanceof Error ? error.message : 'Purge failed';
+    }
+    items.push(item);
+  }
+
+  const purged = items.filter(item => !item.error);
+  return RetentionPurge.create({
+    source,
+    runBy,
+    startedAt,
+    finishedAt: new Date(),
+    items,
+    linksPurged: purged.length,
+    linksFailed: items.length - purged.length,
+    imagesDeleted: purged.reduce((sum, item) => sum + item.imageCount, 0),
+    bytesFreed: purged.reduce((sum, item) => sum + item.bytesFreed, 0),
+  });
+}
+
+/**
+ * Past purges, newest first (without the per-link items)
+ */
+export async function getRetentionPurges(limit = 20): Promise<IRetentionPurge[]> {
+  return RetentionPurge.find().select('-items').sort({ startedAt: -1 }).limit(limit);
+}
+
+// ─── scheduled job ───────────────────────────────────────────────────────────
+
+const runScheduledPurge = async (): Promise<void> => {
+  if (purgeInFlight) return;
+  try {
+    const { enabled } = await getRetentionConfig();
+    if (!enabled) return;
+
+    const purge = await runRetentionPurge('scheduled');
+    if (purge) {
+      console.log(`[Retention] Purged ${purge.linksPurged} link(s), ${purge.imagesDeleted} images (${purge.linksFailed} failed)`);
+    }
+  } catch (error) {
+    console.error('[Retention] Scheduled purge failed:', error);
+  }
+};
+
+/**
+ * Start the retention job, checking every config.retention.checkIntervalMinutes.
+ * It does nothing until an admin enables retention.
+ */
+export function startRetentionSchedule(): void {
+  const intervalMs = Math.max(config.retention.checkIntervalMinutes, 5) * 60 * 1000;
+  setInterval(runScheduledPurge, intervalMs).unref();
+}
@@ -1,4 +1,4 @@
-import ShopifyOrderCache from '../models/ShopifyOrderCache';
+import ShopifyOrderRecord from '../models/ShopifyOrderRecord';
 import { DailyAdSpend } from '../models/DailyAdSpend';
 import { DailyROAS } from '../models/DailyROAS';
 
@@ -9,32 +9,35 @@ function toDateKey(date: Date): string {
   return date.toLocaleDateString('en-CA', { timeZone: STORE_TIMEZONE });
 }
 
-/** Aggregate all orders from all ShopifyOrderCache entries into a revenue map keyed by dateKey */
-async function buildRevenueByDate(): Promise<Record<string, number>> {
-  const cacheEntries = await ShopifyOrderCache.find(
-    { cacheKey: { $regex: /^all_orders_/ } },
-    { orders: 1 }
-  ).lean();
+/**
+ * Revenue per dateKey from stored non-cancelled orders, summed inside MongoDB.
+ * Pass a dateKey to compute just that day.
+ */
+async function buildRevenueByDate(dateKey?: string): Promise<Record<string, number>> {
+  const rows = await ShopifyOrderRecord.aggregate<{ _id: string; revenue: number }>([
+    { $match: { cancelled_at: null, dateKey: dateKey ?? { $gte: DATA_START_DATE } } },
+    {
+      $group: {
+        _id: '$dateKey',
+        // Use current_total_price (reflects edits/discounts) falling back to total_price — same as dailyPnlService
+        revenue: {
+          $sum: {
+            $convert: {
+              input: { $ifNull: ['$current_total_price', '$total_price'] },
+              to: 'double',
+              onError: 0,
+              onNull: 0,
+            },
+          },
+        },
+      },
+    },
+  ]);
 
   const revenueByDate: Record<string, number> = {};
-
-  // Merge orders from all matching cache entries (deduplicate by order id)
-  const seenIds = new Set<number | string>();
-  for (const entry of cacheEntries) {
-    for (const order of entry.orders as any[]) {
-      if (order.cancelled_at) continue;
-      const id = order.id;
-      if (id && seenIds.has(id)) continue;
-      if (id) seenIds.add(id);
-
-      const dateKey = toDateKey(new Date(order.created_at));
-      if (dateKey < DATA_START_DATE) continue;
-      // Use current_total_price (reflects edits/discounts) falling back to total_price — same as dailyPnlService
-      const price = parseFloat(order.current_total_price ?? order.total_price ?? '0') || 0;
-      revenueByDate[dateKey] = (revenueByDate[dateKey] || 0) + price;
-    }
+  for (const row of rows) {
+    revenueByDate[row._id] = row.revenue;
   }
-
   return revenueByDate;
 }
 
@@ -76,7 +79,7 @@ export async function recomputeForDate(
 }
 
 async function getSingleDayRevenue(dateKey: string): Promise<number> {
-  const revenueByDate = await buildRevenueByDate();
+  const revenueByDate = await buildRevenueByDate(dateKey);
   return revenueByDate[dateKey] || 0;
 }
 
@@ -86,7 +89,7 @@ async function getSingleDayAdSpend(dateKey: string): Promise<number> {
 }
 
 // ─── write-path trigger ──────────────────────────────────────────────────────
-// DailyROAS has exactly two inputs: the all_orders_* Shopify cache (revenue) and
+// DailyROAS has exactly two inputs: the stored Shopify orders (revenue) and
 // DailyAdSpend (spend). Reads never recompute; instead the writers of those two
 // inputs call the hooks below, keeping the stored records permanently fresh.
 
@@ -1,4 +1,5 @@
-import ShopifyOrderCache from '../models/ShopifyOrderCache';
+import { loadOrdersByDate, findStoredOrderByName } from './orderStoreService';
+import { getVariantMix } from './orderLifecycleService';
 import ShippingCharge from '../models/ShippingCharge';
 import { DailyShipping } from '../models/DailyShipping';
 
@@ -9,19 +10,6 @@ function toDateKey(date: Date): string {
   return date.toLocaleDateString('en-CA', { timeZone: STORE_TIMEZONE });
 }
 
-function classifyVariant(lineItems: any[]): 'small' | 'large' | 'mixed' {
-  const items = lineItems ?? [];
-  const hasLarge = items.some(
-    (i: any) => i.title?.toLowerCase().includes('large') || i.variant_title?.toLowerCase().includes('large')
-  );
-  const hasSmall = items.some(
-    (i: any) => !i.title?.toLowerCase().includes('large') && !i.variant_title?.toLowerCase().includes('large')
-  );
-  if (hasLarge && hasSmall) return 'mixed';
-  if (hasLarge) return 'large';
-  return 'small';
-}
-
 function avgOf(amounts: number[]): number | null {
   const valid = amounts.filter((v) => v > 0);
   if (valid.length === 0) return null;
@@ -41,33 +29,9 @@ async function buildShippingChargeMap(): Promise<Map<string, number>> {
   return map;
 }
 
-/** Build a map of dateKey → fulfilled orders (non-cancelled) from ShopifyOrderCache */
-async function buildOrdersByDate(): Promise<Map<string, any[]>> {
-  const cacheEntries = await ShopifyOrderCache.find(
-    { cacheKey: { $regex: /^all_orders_/ } },
-    { orders: 1 }
-  ).lean();
-
-  const seenIds = new Set<number | string>();
-  const byDate = new Map<string, any[]>();
-
-  for (const entry of cacheEntries) {
-    for (const order of (entry as any).orders as any[]) {
-      if (order.cancelled_at) continue;
-      if (order.fulfillment_status !== 'fulfilled') continue;
-      const id = order.id;
-      if (id && seenIds.has(id)) continue;
-      if (id) seenIds.add(id);
-
-      const dateKey = toDateKey(new Date(order.created_at));
-      if (dateKey < DATA_START_DATE) continue;
-
-      if (!byDate.has(dateKey)) byDate.set(dateKey, []);
-      byDate.get(dateKey)!.push(order);
-    }
-  }
-
-  return byDate;
+/** Build a map of dateKey → fulfilled orders (non-cancelled) from the order store; pass a dateKey for one day */
+async function buildOrdersByDate(dateKey?: string): Promise<Map<string, any[]>> {
+  return loadOrdersByDate({ fromDateKey: DATA_START_DATE, dateKeys: dateKey ? [dateKey] : undefined, fulfilledOnly: true });
 }
 
 /**
@@ -95,7 +59,7 @@ export async function recomputeShippingForDate(
     const charge = charges.get(base) ?? charges.get(`#${base}`) ?? 0;
     if (charge <= 0) continue;
 
-    const variant = classifyVariant(order.line_items ?? []);
+    const variant = getVariantMix(order.line_items);
     allAmounts.push(charge);
     if (variant === 'small') smallAmounts.push(charge);
     if (variant === 'large') largeAmounts.push(charge);
@@ -118,29 +82,16 @@ export async function recomputeShippingForDate(
 }
 
 async function getSingleDayOrders(dateKey: string): Promise<any[]> {
-  const byDate = await buildOrdersByDate();
+  const byDate = await buildOrdersByDate(dateKey);
   return byDate.get(dateKey) ?? [];
 }
 
 /**
- * Given a Shopify order name, return its dateKey from the cache.
+ * Given a Shopify order name, return its dateKey from the order store.
  */
 export async function getOrderDateKey(orderName: string): Promise<string | null> {
-  const cacheEntries = await ShopifyOrderCache.find(
-    { cacheKey: { $regex: /^all_orders_/ } },
-    { orders: 1 }
-  ).lean();
-
-  const base = orderName.replace(/^#/, '');
-  for (const entry of cacheEntries) {
-    for (const order of (entry as any).orders as any[]) {
-      const name: string = (order.name ?? '').replace(/^#/, '');
-      if (name === base) {
-        return toDateKey(new Date(order.created_at));
-      }
-    }
-  }
-  return null;
+  const order = await findStoredOrderByName(orderName);
+  return order ? toDateKey(new Date(order.created_at)) : null;
 }
 
 /**
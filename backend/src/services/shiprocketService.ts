@@ -1,5 +1,6 @@
 import config from '../config';
 import ShippingCharge from '../models/ShippingCharge';
+import { refreshOrderLifecyclesByName } from './orderLifecycleService';
 
 interface ShiprocketAuthResponse {
   token: string;
@@ -486,6 +487,7 @@ class ShiprocketService {
         },
         { upsert: true }
       );
+      refreshOrderLifecyclesByName([orderNumber]).catch(console.error);
 
       return totalShippingCost;
     } catch (error) {
@@ -685,6 +687,10 @@ class ShiprocketService {
     }
 
     console.log(`[Shiprocket] Bulk fetch complete: ${fetched} fetched, ${skipped} skipped`);
+    // Courier statuses just moved; carry them into the order lifecycle
+    await refreshOrderLifecyclesByName(orderNumbers).catch(error => {
+      console.error('[Shiprocket] Failed to refresh order lifecycles:', error);
+    });
     return { fetched, skipped };
   }
 
@@ -1,7 +1,12 @@
 import config from '../config';
-import type { ShopifyOrder, ShopifyOrdersResponse } from '../types';
-import ShopifyOrderCache from '../models/ShopifyOrderCache';
+import type { ShopifyOrder, ShopifyOrdersResponse, ShopifyBulkOperation } from '../types';
+import { saveOrders, upsertOrder, hasStoredOrders, getStoredOrders, getStoredOrderIds } from './orderStoreService';
+import type { UpsertOrderResult } from './orderStoreService';
+import type { SaveOrdersResult } from './orderStoreService';
+import type { IPrintAllowance } from '../models/MagicLink';
+import type { PhotoSize, PhotoType } from '../models/UploadedImage';
 import { scheduleRoasRecompute } from './roasService';
+import { createLinksForOrders } from './magicLinkOutreachService';
 
 /**
  * Simplified Shopify Admin API Service
@@ -12,7 +17,7 @@ class ShopifyService {
   private accessToken: string;
   private apiVersion: string;
   private printedPhotosProductId: number;
-  // Cache is now infinite - only cleared by explicit refresh button click
+  // Orders live in the order store (orderStoreService), kept current by orderSyncService and webhooks
 
   constructor() {
     this.storeDomain = config.shopify.storeDomain;
@@ -22,7 +27,8 @@ class ShopifyService {
   }
 
   private getBaseUrl(): string {
-    return `https://${this.storeDomain}/admin/api/${this.apiVersion}`;
+    const origin = config.shopify.apiBaseUrl.replace(/\/$/, '') || `https://${this.storeDomain}`;
+    return `${origin}/admin/api/${this.apiVersion}`;
   }
 
   private async makeRequest<T>(endpoint: string, options?: { method?: string; body?: any }): Promise<T> {
@@ -78,6 +84,21 @@ class ShopifyService {
     return { data, linkHeader };
   }
 
+  /**
+   * Run an Admin GraphQL query. GraphQL errors come back with a 200, so they're thrown here.
+   */
+  private async graphql<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+    const response = await this.makeRequest<{ data?: T; errors?: Array<{ message: string }> }>('/graphql.json', {
+      method: 'POST',
+      body: { query, variables },
+    });
+
+    if (response.errors && response.errors.length > 0) {
+      throw new Error(`Shopify GraphQL Error: ${response.errors.map(e => e.message).join('; ')}`);
+    }
+    return response.data as T;
+  }
+
   /**
    * Parse page_info from Shopify's Link header
    * Format: '<https://shop.myshopify.com/...?page_info=TOKEN&limit=250>; rel="next"'
@@ -114,53 +135,52 @@ class ShopifyService {
   }
 
   /**
-   * Get the max uploads for an order based on the printed photos variant
-   * Variant titles are "12", "15", "20", "25" representing photo counts
+   * Get the print allowances for an order from every printed photos line item.
+   * Variant titles carry the photo count and, for newer variants, the size and
+   * style, e.g. "20", "20 / Small" or "10 / Large / Polaroid".
    */
-  getMaxUploadsForOrder(order: ShopifyOrder): number {
-    if (!order.line_items) return 25; // Default
+  getPrintAllowancesForOrder(order: ShopifyOrder): IPrintAllowance[] {
+    const allowances: IPrintAllowance[] = [];
 
-    const printedPhotosItem = order.line_items.find(
-      item => item.product_id === this.printedPhotosProductId
-    );
+    for (const item of order.line_items || []) {
+      if (item.product_id !== this.printedPhotosProductId || !item.variant_title) continue;
 
-    if (!printedPhotosItem || !printedPhotosItem.variant_title) {
-      return 25; // Default if no variant found
-    }
+      let count = 0;
+      let photoSize: PhotoSize | undefined;
+      let photoType: PhotoType | undefined;
+
+      for (const part of item.variant_title.split('/').map(p => p.trim().toLowerCase())) {
+        const number = parseInt(part, 10);
+        if (!isNaN(number) && /^\d+/.test(part) && !/^\d+\s*[x×"]/.test(part)) {
+          count = number;
+        }
+        if (/small|3\s*[x×"]\s*4/.test(part)) photoSize = 'small';
+        if (/large|4\s*[x×"]\s*6/.test(part)) photoSize = 'large';
+        if (/polaroid/.test(part)) photoType = 'polaroid';
+        if (/normal|classic|regular|standard/.test(part)) photoType = 'normal';
+      }
 
-    // Parse the variant title (e.g., "12", "15", "20", "25")
-    const maxUploads = parseInt(printedPhotosItem.variant_title, 10);
+      if (count <= 0) continue;
 
-    // Validate it's a valid number, otherwise default to 25
-    if (isNaN(maxUploads) || maxUploads <= 0) {
-      return 25;
+      // Multiply by quantity in case they ordered multiple
+      const quantity = count * item.quantity;
+      const existing = allowances.find(a => a.photoSize === photoSize && a.photoType === photoType);
+      if (existing) {
+        existing.quantity += quantity;
+      } else {
+        allowances.push({ photoSize, photoType, quantity });
+      }
     }
 
-    // Multiply by quantity in case they ordered multiple
-    return maxUploads * printedPhotosItem.quantity;
+    // Default if no variant found
+    return allowances.length > 0 ? allowances : [{ quantity: 25 }];
   }
 
   /**
-   * Determine if an order has reached a terminal state (cannot change further)
+   * Get the max uploads for an order (total prints across all printed photos variants)
    */
-  private isOrderTerminal(order: ShopifyOrder): boolean {
-    if (order.cancelled_at) return true;
-    if (order.fulfillment_status === 'restocked') return true;
-
-    if (order.fulfillments && order.fulfillments.length > 0) {
-      const latest = order.fulfillments[order.fulfillments.length - 1];
-      const status = latest.shipment_status?.toLowerCase();
-      
-      // Common terminal shipment statuses
-      const terminalStatuses = ['delivered', 'failure', 'rto', 'cancelled', 'returned'];
-      if (status && terminalStatuses.includes(status)) return true;
-    }
-
-    // Check tags for failure markers
-    const tags = (order.tags || '').toLowerCase();
-    if (tags.includes('rto') || tags.includes('failed') || tags.includes('delivery failed')) return true;
-
-    return false;
+  getMaxUploadsForOrder(order: ShopifyOrder): number {
+    return this.getPrintAllowancesForOrder(order).reduce((sum, a) => sum + a.quantity, 0);
   }
 
   /**
@@ -196,163 +216,61 @@ class ShopifyService {
   }
 
   /**
-   * Check if cached data exists (infinite cache - no expiry check)
+   * Fetch a single order by its Shopify ID, or null when it doesn't exist
    */
-  private async getCachedOrders(cacheKey: string): Promise<ShopifyOrder[] | null> {
+  async getOrderById(orderId: number | string): Promise<ShopifyOrder | null> {
     try {
-      const cached = await ShopifyOrderCache.findOne({ cacheKey });
-
-      if (cached) {
-        console.log(`Cache hit for ${cacheKey}, cached at ${cached.cachedAt}`);
-        return cached.orders;
-      }
-
-      console.log(`Cache miss for ${cacheKey}`);
-      return null;
+      const data = await this.makeRequest<{ order?: ShopifyOrder }>(`/orders/${orderId}.json?status=any`);
+      return data.order || null;
     } catch (error) {
-      console.error('Error fetching from cache:', error);
-      return null;
-    }
-  }
-
-  /**
-   * Update cache with fresh data (infinite cache)
-   */
-  private async updateCache(cacheKey: string, orders: ShopifyOrder[]): Promise<void> {
-    try {
-      const now = new Date();
-      // Set expiresAt to 100 years in the future (effectively infinite)
-      const expiresAt = new Date(now.getTime() + (100 * 365 * 24 * 60 * 60 * 1000));
-
-      // Trim orders to keep only necessary fields to avoid MongoDB 16MB document limit
-      const trimmedOrders = orders.map(order => this.trimOrderForCache(order));
-
-      await ShopifyOrderCache.findOneAndUpdate(
-        { cacheKey },
-        {
-          orders: trimmedOrders,
-          cachedAt: now,
-          expiresAt,
-        },
-        { upsert: true, new: true }
-      );
-
-      // Order data is the revenue source for DailyROAS — refresh it in the
-      // background whenever the all_orders cache changes (the only event that
-      // can change any day's revenue). Reads of /daily-roas never recompute.
-      if (cacheKey.startsWith('all_orders_')) {
-        scheduleRoasRecompute(`order cache ${cacheKey} updated`);
+      if (error instanceof Error && error.message.includes('Shopify API Error: 404')) {
+        return null;
       }
-
-    } catch (error) {
-      console.error('Error updating cache:', error);
-      // Don't throw - caching is not critical
+      console.error('Error fetching order by id:', error);
+      throw error;
     }
   }
 
   /**
-   * Trims a Shopify order object to keep only the fields used by our application.
-   * This is critical to keep the cache size under MongoDB's 16MB limit.
+   * Save fetched orders to the order store. Order data is the revenue source for
+   * DailyROAS, so it is refreshed in the background whenever orders are saved
+   * (reads of /daily-roas never recompute).
    */
-  private trimOrderForCache(order: any): any {
-    if (!order) return order;
-
-    return {
-      id: order.id,
-      name: order.name,
-      email: order.email,
-      created_at: order.created_at,
-      createdAt: order.created_at, // Map for frontend
-      fulfillment_status: order.fulfillment_status,
-      financial_status: order.financial_status,
-      cancelled_at: order.cancelled_at,
-      total_price: order.total_price,
-      current_total_price: order.current_total_price,
-      total_price_set: order.total_price_set,
-      gateway: order.gateway,
-      payment_gateway_names: order.payment_gateway_names,
-      tags: order.tags,
-      customer: order.customer ? {
-        id: order.customer.id,
-        email: order.customer.email,
-        first_name: order.customer.first_name,
-        last_name: order.customer.last_name,
-        tags: order.customer.tags
-      } : undefined,
-      line_items: Array.isArray(order.line_items) ? order.line_items.map((li: any) => ({
-        id: li.id,
-        title: li.title,
-        quantity: li.quantity,
-        variant_title: li.variant_title,
-        price: li.price,
-        product_id: li.product_id,
-        sku: li.sku
-      })) : [],
-      shipping_address: order.shipping_address ? {
-        first_name: order.shipping_address.first_name,
-        last_name: order.shipping_address.last_name,
-        name: order.shipping_address.name,
-        address1: order.shipping_address.address1,
-        city: order.shipping_address.city,
-        province: order.shipping_address.province,
-        zip: order.shipping_address.zip,
-        phone: order.shipping_address.phone
-      } : undefined,
-      fulfillments: Array.isArray(order.fulfillments) ? order.fulfillments.map((f: any) => ({
-        id: f.id,
-        status: f.status,
-        shipment_status: f.shipment_status,
-        tracking_company: f.tracking_company,
-        tracking_number: f.tracking_number,
-        tracking_url: f.tracking_url
-      })) : []
-    };
-  }
-
-
-  /**
-   * Clear all cached orders
-   * Useful for forcing a refresh of Shopify data
-   */
-  async clearOrdersCache(): Promise<void> {
+  private async storeOrders(orders: ShopifyOrder[], reason: string): Promise<void> {
     try {
-      await ShopifyOrderCache.deleteMany({});
-      console.log('All order caches cleared');
+      await saveOrders(orders);
+      scheduleRoasRecompute(reason);
     } catch (error) {
-      console.error('Error clearing cache:', error);
-      throw error;
+      console.error('Error saving orders:', error);
+      // Don't throw - the caller already has the orders
     }
   }
 
   /**
-   * Clear specific cache entry
+   * Save a single pushed order (from a webhook) to the order store. An order we
+   * haven't seen before also gets its upload link. A payload older than the stored
+   * copy is ignored.
    */
-  async clearSpecificCache(cacheKey: string): Promise<void> {
-    try {
-      await ShopifyOrderCache.deleteOne({ cacheKey });
-      console.log(`Cache cleared for ${cacheKey}`);
-    } catch (error) {
-      console.error('Error clearing specific cache:', error);
-      throw error;
+  async saveWebhookOrder(order: ShopifyOrder): Promise<UpsertOrderResult> {
+    const result = await upsertOrder(order);
+    if (result === 'inserted') {
+      await this.createLinksForNewOrders([order]);
     }
+    return result;
   }
 
   /**
    * Get orders that contain the printed photos product
-   * Fetches more orders and filters to only those with the product
-   * Uses caching with 5-minute TTL
+   * Served from the order store; before the first sync, fetches recent orders
+   * from Shopify and filters to only those with the product
    */
   async getOrdersWithPrintedPhotos(limit: number = 50): Promise<ShopifyOrder[]> {
     try {
-      const cacheKey = `printed_photos_${limit}`;
-
-      // Try to get from cache first
-      const cachedOrders = await this.getCachedOrders(cacheKey);
-      if (cachedOrders) {
-        return cachedOrders;
+      if (await hasStoredOrders()) {
+        return getStoredOrders(limit, { productId: this.printedPhotosProductId });
       }
 
-      // Cache miss - fetch from Shopify
+      // Nothing synced yet - fetch from Shopify
       console.log('Fetching orders from Shopify API...');
 
       // Fetch more orders than needed since we'll filter them
@@ -368,12 +286,7 @@ class ShopifyService {
       const filteredOrders = allOrders.filter(order => this.orderContainsPrintedPhotos(order));
 
       // Return up to the requested limit
-      const result = filteredOrders.slice(0, limit);
-
-      // Update cache
-      await this.updateCache(cacheKey, result);
-
-      return result;
+      return filteredOrders.slice(0, limit);
     } catch (error) {
       console.error('Error fetching orders:', error);
       throw error;
@@ -390,20 +303,18 @@ class ShopifyService {
   /**
    * Get ALL recent orders (not filtered by product)
    * For sales tracking and general order management
-   * Uses caching with 5-minute TTL
+   * Served from the order store, which the order sync and webhooks keep current;
+   * only an empty store triggers a full fetch from Shopify
    */
   async getAllOrders(limit: number = 50, createdAtMin?: string): Promise<ShopifyOrder[]> {
     try {
-      const cacheKey = createdAtMin ? `all_orders_${limit}_${createdAtMin}` : `all_orders_${limit}`;
-
-      // Try to get from cache first
-      const cachedOrders = await this.getCachedOrders(cacheKey);
-      if (cachedOrders) {
-        console.log(`Using cached orders: ${cachedOrders.length}`);
-        return cachedOrders;
+      if (await hasStoredOrders()) {
+        const storedOrders = await getStoredOrders(limit, { createdAtMin });
+        console.log(`Using stored orders: ${storedOrders.length}`);
+        return storedOrders;
       }
 
-      // Cache miss - fetch from Shopify with pagination using Link header
+      // Empty store - fetch from Shopify with pagination using Link header
       console.log(`Fetching up to ${limit} orders from Shopify API${createdAtMin ? ` since ${createdAtMin}` : ''}...`);
 
       const allOrders: ShopifyOrder[] = [];
@@ -503,8 +414,7 @@ class ShopifyService {
         console.log('Orders per date:', JSON.stringify(dateCounts, null, 2));
       }
 
-      // Update cache
-      await this.updateCache(cacheKey, allOrders);
+      await this.storeOrders(allOrders, 'full order fetch');
 
       return allOrders;
     } catch (error) {
@@ -514,121 +424,134 @@ class ShopifyService {
   }
 
   /**
-   * Sync orders using the "Head + Pending" strategy.
-   * 1. Fetches "Head": New orders created since the last known order.
-   * 2. Fetches "Pending": Updates for existing in-flight orders that aren't terminal.
+   * Fetch every order updated within a window (oldest update first), following
+   * page_info cursors. Used by the incremental sync and by replays. A window too big
+   * for one cursor run is continued from the last updated_at seen.
    */
-  async syncOrders(limit: number = 5000): Promise<number> {
-    try {
-      const cacheKey = `all_orders_${limit}`;
-      const cachedData = await ShopifyOrderCache.findOne({ cacheKey });
-      
-      if (!cachedData || !cachedData.orders || cachedData.orders.length === 0) {
-        console.log(`[Sync] No cache found, performing full fetch...`);
-        const orders = await this.getAllOrders(limit);
-        return orders.length;
+  async fetchOrdersUpdatedBetween(updatedAtMin: Date, updatedAtMax: Date): Promise<ShopifyOrder[]> {
+    // Keyed by id: the overlap at each restart returns a few orders twice
+    const byId = new Map<number, ShopifyOrder>();
+
+    let segmentStart = updatedAtMin;
+    while (true) {
+      const { orders, complete } = await this.fetchUpdatedSegment(segmentStart, updatedAtMax);
+      for (const order of orders) byId.set(order.id, order);
+      if (complete) break;
+
+      // Restart at the newest update seen, inclusive, so orders sharing that second aren't skipped
+      const lastUpdatedAt = new Date(orders[orders.length - 1]?.updated_at ?? NaN);
+      if (isNaN(lastUpdatedAt.getTime()) || lastUpdatedAt.getTime() <= segmentStart.getTime()) {
+        throw new Error(`Too many orders updated at ${segmentStart.toISOString()} to page through`);
       }
+      segmentStart = lastUpdatedAt;
+    }
 
-      const existingOrders: ShopifyOrder[] = cachedData.orders;
-      
-      // Find the order with the highest ID to use as since_id
-      // Don't assume index 0 is the latest ID, although it should be if sorted by date
-      let maxId = BigInt(0);
-      existingOrders.forEach(o => {
-        try {
-          const id = BigInt(o.id);
-          if (id > maxId) maxId = id;
-        } catch (e) { /* ignore NaN */ }
-      });
-      
-      // Step 1: Identify "Pending" orders to re-sync
-      const pendingIds = existingOrders
-        .filter(order => !this.isOrderTerminal(order))
-        .map(order => order.id.toString());
-      
-      console.log(`[Sync] Identified ${pendingIds.length} pending orders to update.`);
-
-      const updatedOrders: ShopifyOrder[] = [];
-
-      // Step 2: Fetch "Head" (New orders)
-      // We use since_id to get orders created AFTER the latest one we have
-      // Loop to fetch all new orders if there are more than 250
-      if (maxId > 0n) {
-        let lastIdFetched = maxId.toString();
-        let hasMore = true;
-        let headCount = 0;
-
-        console.log(`[Sync] Fetching new orders since ID ${lastIdFetched}...`);
-        
-        while (hasMore) {
-          const { data } = await this.makeRequestWithHeaders<ShopifyOrdersResponse>(
-            `/orders.json?since_id=${lastIdFetched}&status=any&limit=250`
-          );
-          
-          if (data.orders && data.orders.length > 0) {
-            console.log(`[Sync] Found ${data.orders.length} new orders in this batch.`);
-            updatedOrders.push(...data.orders);
-            headCount += data.orders.length;
-            
-            // Get the last ID from this batch to use for next since_id
-            lastIdFetched = data.orders[data.orders.length - 1].id.toString();
-            
-            // If we got less than 250, we've reached the end
-            if (data.orders.length < 250) {
-              hasMore = false;
-            }
-          } else {
-            hasMore = false;
-          }
+    return [...byId.values()];
+  }
 
-          // Safety: max 10 batches (2500 new orders)
-          if (updatedOrders.length > 2500) break;
-        }
-        
-        if (headCount > 0) {
-          console.log(`[Sync] Total new orders fetched: ${headCount}`);
-        }
-      }
+  /**
+   * One run of page_info cursors over a window, stopping after maxPages. `complete`
+   * is false when Shopify had more pages left.
+   */
+  private async fetchUpdatedSegment(updatedAtMin: Date, updatedAtMax: Date): Promise<{ orders: ShopifyOrder[]; complete: boolean }> {
+    const orders: ShopifyOrder[] = [];
+    const perPage = 250; // Shopify max per request
+    const maxPages = 40; // 10000 orders per cursor run
+
+    // Filters go in the first request only; later pages are addressed by page_info alone
+    const initialParams = new URLSearchParams({
+      status: 'any',
+      limit: perPage.toString(),
+      updated_at_min: updatedAtMin.toISOString(),
+      updated_at_max: updatedAtMax.toISOString(),
+      order: 'updated_at asc',
+    });
+
+    let url: string | null = `/orders.json?${initialParams.toString()}`;
+    for (let page = 1; url && page <= maxPages; page++) {
+      const { data, linkHeader }: { data: ShopifyOrdersResponse; linkHeader: string | null } =
+        await this.makeRequestWithHeaders<ShopifyOrdersResponse>(url);
+      orders.push(...(data.orders || []));
+
+      const pageInfo = this.parseNextPageInfo(linkHeader);
+      url = pageInfo ? `/orders.json?page_info=${pageInfo}&limit=${perPage}` : null;
+    }
 
-      // Step 3: Fetch "Pending" updates by ID list
-      // Shopify allows a strict maximum of 50 IDs in one request via the ids parameter
-      if (pendingIds.length > 0) {
-        for (let i = 0; i < pendingIds.length; i += 50) {
-          const batch = pendingIds.slice(i, i + 50);
-          console.log(`[Sync] Fetching batch of ${batch.length} pending updates...`);
-          const { data } = await this.makeRequestWithHeaders<ShopifyOrdersResponse>(
-            `/orders.json?ids=${batch.join(',')}&status=any`
-          );
-          if (data.orders) {
-            updatedOrders.push(...data.orders);
-          }
+    return { orders, complete: url === null };
+  }
+
+  /**
+   * Start a bulk operation exporting the results of `query` as JSONL. Shopify runs
+   * one bulk query per shop at a time.
+   */
+  async startBulkQuery(query: string): Promise<ShopifyBulkOperation> {
+    const data = await this.graphql<{
+      bulkOperationRunQuery: { bulkOperation: ShopifyBulkOperation | null; userErrors: Array<{ message: string }> };
+    }>(
+      `mutation RunBulkQuery($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation { id status }
+          userErrors { field message }
         }
-      }
+      }`,
+      { query }
+    );
 
-      // Step 4: Merge results back into cache
-      if (updatedOrders.length > 0) {
-        const existingMap = new Map<string, ShopifyOrder>();
-        existingOrders.forEach(o => existingMap.set(o.id.toString(), o));
+    const { bulkOperation, userErrors } = data.bulkOperationRunQuery;
+    if (!bulkOperation || userErrors.length > 0) {
+      throw new Error(`Bulk operation not started: ${userErrors.map(e => e.message).join('; ') || 'unknown error'}`);
+    }
+    return bulkOperation;
+  }
 
-        updatedOrders.forEach(order => {
-          existingMap.set(order.id.toString(), order);
-        });
+  /**
+   * Current state of a bulk operation; once COMPLETED, `url` points at the JSONL result
+   * (null when the query matched nothing)
+   */
+  async getBulkOperation(id: string): Promise<ShopifyBulkOperation | null> {
+    const data = await this.graphql<{ node: ShopifyBulkOperation | null }>(
+      `query BulkOperation($id: ID!) {
+        node(id: $id) {
+          ... on BulkOperation { id status errorCode objectCount url partialDataUrl }
+        }
+      }`,
+      { id }
+    );
+    return data.node;
+  }
 
-        const mergedOrdersList = Array.from(existingMap.values());
-        mergedOrdersList.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  /**
+   * Save orders from a sync to the order store. Orders we haven't seen before also
+   * get their upload links.
+   */
+  async saveSyncedOrders(orders: ShopifyOrder[]): Promise<SaveOrdersResult> {
+    if (orders.length === 0) return { inserted: 0, updated: 0, skipped: 0, failed: 0, failedIds: [] };
 
-        const finalOrders = mergedOrdersList.slice(0, limit);
-        await this.updateCache(cacheKey, finalOrders);
-        console.log(`[Sync] Successfully updated ${updatedOrders.length} orders in cache (Final count: ${finalOrders.length}).`);
-        return updatedOrders.length;
-      }
+    const storedIds = await getStoredOrderIds(orders.map(order => order.id));
+    const result = await saveOrders(orders);
+    await this.createLinksForNewOrders(orders.filter(order => !storedIds.has(order.id)));
+    return result;
+  }
 
-      console.log(`[Sync] No updates found.`);
-      return 0;
+  /**
+   * Create upload links (queued for outreach) for new orders that include printed photos.
+   * Failures are logged rather than thrown so they never fail the sync.
+   */
+  private async createLinksForNewOrders(orders: ShopifyOrder[]): Promise<void> {
+    const candidates = orders.filter(order => this.orderContainsPrintedPhotos(order) && !order.cancelled_at);
+    if (candidates.length === 0) return;
 
+    try {
+      const created = await createLinksForOrders(candidates.map(order => ({
+        order,
+        maxUploads: this.getMaxUploadsForOrder(order),
+        allowances: this.getPrintAllowancesForOrder(order),
+      })));
+      if (created > 0) {
+        console.log(`[Sync] Created ${created} magic links for new orders.`);
+      }
     } catch (error) {
-      console.error('Error syncing orders:', error);
-      throw error;
+      console.error('[Sync] Failed to create magic links for new orders:', error);
     }
   }
 
@@ -863,8 +786,11 @@ class ShopifyService {
         }
       );
 
-      // Clear orders cache so the change is reflected
-      await this.clearOrdersCache();
+      // Refresh the stored copy so the change is reflected
+      const updatedOrder = await this.getOrderById(order.id);
+      if (updatedOrder) {
+        await upsertOrder(updatedOrder);
+      }
 
       return { success: true };
     } catch (error: any) {
@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import config from '../config';
+import { ShopifyWebhookDelivery } from '../models';
+import { SHOPIFY_WEBHOOK_TOPICS } from '../models/ShopifyWebhookDelivery';
+import type { ShopifyWebhookTopic } from '../models/ShopifyWebhookDelivery';
+import type { ShopifyOrder } from '../types';
+import shopifyService from './shopifyService';
+import { recomputeForDate } from './roasService';
+import { recomputeShippingForDate } from './shippingStatsService';
+import { recomputeOrderStatsForDate } from './orderStatsService';
+import { recomputePnlForDate } from './dailyPnlService';
+
+const STORE_TIMEZONE = 'Asia/Kolkata';
+
+// A delivery still 'processing' after this long is assumed lost (e.g. the process
+// restarted mid-way), so Shopify's next retry may take it over
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Webhooks arrive in bursts (create, then updated, then fulfillment); wait a moment
+// so one recompute covers all of them
+const RECOMPUTE_DELAY_MS = 5000;
+
+function toDateKey(date: Date): string {
+  return date.toLocaleDateString('en-CA', { timeZone: STORE_TIMEZONE });
+}
+
+export const isShopifyWebhookTopic = (topic: unknown): topic is ShopifyWebhookTopic =>
+  typeof topic === 'string' && (SHOPIFY_WEBHOOK_TOPICS as readonly string[]).includes(topic);
+
+/**
+ * Check the X-Shopify-Hmac-Sha256 header against the raw request body. Always false
+ * when no webhook secret is configured.
+ */
+export function verifyShopifyHmac(rawBody: Buffer, hmacHeader: unknown): boolean {
+  if (!config.shopify.webhookSecret || typeof hmacHeader !== 'string' || !hmacHeader) return false;
+
+  const expected = crypto.createHmac('sha256', config.shopify.webhookSecret).update(rawBody).digest();
+  const received = Buffer.from(hmacHeader, 'base64');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Claim a delivery for processing. Returns false when the same webhook id was
+ * already processed or is being processed; a delivery that failed earlier, or has
+ * been stuck processing past the timeout, is retried.
+ */
+export async function claimDelivery(webhookId: string, topic: ShopifyWebhookTopic, shopDomain?: string): Promise<boolean> {
+  try {
+    await ShopifyWebhookDelivery.create({ webhookId, topic, shopDomain });
+    return true;
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) throw error;
+
+    const retried = await ShopifyWebhookDelivery.findOneAndUpdate(
+      {
+        webhookId,
+        $or: [
+          { status: 'failed' },
+          { status: 'processing', receivedAt: { $lt: new Date(Date.now() - PROCESSING_TIMEOUT_MS) } },
+        ],
+      },
+      { $set: { status: 'processing', receivedAt: new Date() }, $inc: { attempts: 1 }, $unset: { error: 1 } }
+    );
+    return !!retried;
+  }
+}
+
+/**
+ * The full order a webhook is about. Order topics carry the order itself; a
+ * fulfillment only carries its order_id, so the order is fetched.
+ */
+async function resolveOrder(topic: ShopifyWebhookTopic, payload: any): Promise<ShopifyOrder | null> {
+  if (topic === 'fulfillments/update') {
+    return payload?.order_id ? shopifyService.getOrderById(payload.order_id) : null;
+  }
+  return payload?.id ? payload as ShopifyOrder : null;
+}
+
+/**
+ * Apply a claimed delivery: store the order and queue recomputes for the day it was
+ * placed. Marks the delivery processed, or failed (so Shopify's retry is accepted) on error.
+ */
+export async function processDelivery(webhookId: string, topic: ShopifyWebhookTopic, payload: any): Promise<void> {
+  try {
+    const order = await resolveOrder(topic, payload);
+    if (!order) {
+      throw new Error(topic === 'fulfillments/update' ? `Order ${payload?.order_id} not found` : 'Payload has no order id');
+    }
+
+    const saved = await shopifyService.saveWebhookOrder(order);
+    if (saved !== 'stale') {
+      scheduleDateRecomputes([toDateKey(new Date(order.created_at))], `${topic} ${order.name}`);
+    }
+
+    await ShopifyWebhookDelivery.updateOne(
+      { webhookId },
+      { $set: { status: 'processed', processedAt: new Date(), orderId: order.id, orderName: order.name } }
+    );
+    if (saved === 'stale') {
+      console.log(`Shopify webhook ${topic} for ${order.name} skipped: a newer copy is already stored`);
+    } else {
+      console.log(`Shopify webhook ${topic} applied to ${order.name}${saved === 'inserted' ? ' (new order)' : ''}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await ShopifyWebhookDelivery.updateOne({ webhookId }, { $set: { status: 'failed', error: message } });
+    throw error;
+  }
+}
+
+// ─── per-date recomputes ─────────────────────────────────────────────────────
+// Same daily tables the backfills fill, refreshed only for the days a webhook touched.
+
+const pendingDates = new Set<string>();
+let recomputeTimer: NodeJS.Timeout | null = null;
+let recomputeInFlight = false;
+
+async function recomputeDate(dateKey: string): Promise<void> {
+  await recomputeForDate(dateKey);
+  await recomputeShippingForDate(dateKey);
+  await recomputeOrderStatsForDate(dateKey);
+  await recomputePnlForDate(dateKey);
+}
+
+async function flushDateRecomputes(reason: string): Promise<void> {
+  recomputeTimer = null;
+  if (recomputeInFlight) {
+    // Picked up when the running batch finishes
+    return;
+  }
+
+  recomputeInFlight = true;
+  try {
+    while (pendingDates.size > 0) {
+      const dateKeys = [...pendingDates];
+      pendingDates.clear();
+      for (const dateKey of dateKeys) {
+        try {
+          await recomputeDate(dateKey);
+        } catch (error) {
+          console.error(`Daily recompute for ${dateKey} (${reason}) failed:`, error);
+        }
+      }
+      console.log(`Daily recompute (${reason}): ${dateKeys.join(', ')} refreshed`);
+    }
+  } finally {
+    recomputeInFlight = false;
+  }
+}
+
+/**
+ * Queue ROAS, shipping, order stats and P&L recomputes for the given days. Coalesced:
+ * dates queued within a few seconds of each other are recomputed once.
+ */
+export function scheduleDateRecomputes(dateKeys: string[], reason: string): void {
+  dateKeys.forEach(dateKey => pendingDates.add(dateKey));
+  if (recomputeTimer) return;
+  recomputeTimer = setTimeout(() => { flushDateRecomputes(reason); }, RECOMPUTE_DELAY_MS);
+  recomputeTimer.unref();
+}
@@ -0,0 +1,30 @@
+import config from '../../config';
+import { S3StorageProvider } from './s3Storage';
+import { LocalDiskStorageProvider } from './localDiskStorage';
+import type { StorageProvider } from './types';
+
+export type { StorageProvider, PutObjectOptions, StoredObject, StoredPart } from './types';
+
+const createStorageProvider = (): StorageProvider => {
+  switch (config.storage.driver) {
+    case 'local':
+      return new LocalDiskStorageProvider();
+    case 's3':
+    default:
+      return new S3StorageProvider();
+  }
+};
+
+const storage = createStorageProvider();
+
+/**
+ * Loadable URLs for a photo and its derivatives. The URLs saved on the record
+ * are only usable as-is on S3, so responses build them fresh from the keys.
+ */
+export const getImageUrls = (image: { s3Key: string; thumbnailKey?: string; printKey?: string }) => ({
+  s3Url: storage.getReadUrl(image.s3Key),
+  thumbnailUrl: image.thumbnailKey ? storage.getReadUrl(image.thumbnailKey) : undefined,
+  printUrl: image.printKey ? storage.getReadUrl(image.printKey) : undefined,
+});
+
+export default storage;
@@ -0,0 +1,225 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../../config';
+import type { StorageProvider, PutObjectOptions, StoredObject, StoredPart } from './types';
+
+// Bookkeeping lives in dot-folders next to the objects and is skipped by list()
+const META_DIR = '.meta';
+const MULTIPART_DIR = '.multipart';
+
+// Read URLs are handed out with each API response, so they only need to outlive a page visit
+const READ_URL_TTL_SECONDS = 6 * 60 * 60;
+
+const signKey = (key: string, expires: number): string =>
+  crypto.createHmac('sha256', `${config.jwt.secret}:storage`).update(`${key}:${expires}`).digest('hex');
+
+/**
+ * Check a signed read URL's key, expiry (unix seconds) and signature
+ */
+export const verifyReadSignature = (key: string, expires: number, signature: string): boolean => {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+  const expected = Buffer.from(signKey(key, expires));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * Stores photos on the local disk so the upload flow can run without AWS
+ * (laptops, CI). Objects are only served through signed URLs from getReadUrl(),
+ * checked by routes/storage.ts, never as a public folder.
+ */
+export class LocalDiskStorageProvider implements StorageProvider {
+  readonly name = 'local' as const;
+  private root: string;
+
+  constructor() {
+    this.root = path.resolve(config.storage.localPath);
+  }
+
+  private resolveKey(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  private multipartDir(uploadId: string): string {
+    if (!/^[a-f0-9-]+$/.test(uploadId)) {
+      throw new Error(`Invalid upload ID: ${uploadId}`);
+    }
+    return path.join(this.root, MULTIPART_DIR, uploadId);
+  }
+
+  private async writeMeta(key: string, options: PutObjectOptions): Promise<void> {
+    const metaPath = path.join(this.root, META_DIR, `${key}.json`);
+    await fsp.mkdir(path.dirname(metaPath), { recursive: true });
+    await fsp.writeFile(metaPath, JSON.stringify(options));
+  }
+
+  async put(key: string, body: Buffer, options: PutObjectOptions): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    await fsp.writeFile(filePath, body);
+    await this.writeMeta(key, options);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fsp.readFile(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async stream(key: string): Promise<Readable | null> {
+    const filePath = this.resolveKey(key);
+    try {
+      await fsp.access(filePath);
+    } catch {
+      return null;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fsp.rm(this.resolveKey(key), { force: true });
+    await fsp.rm(path.join(this.root, META_DIR, `${key}.json`), { force: true });
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fsp.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else {
+          const key = path.relative(this.root, fullPath).split(path.sep).join('/');
+          if (key.startsWith(prefix)) {
+            const stats = await fsp.stat(fullPath);
+            objects.push({ key, size: stats.size, lastModified: stats.mtime });
+          }
+        }
+      }
+    };
+
+    await walk(this.root);
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  getPublicUrl(key: string): string {
+    return `${config.storage.publicUrl}/storage/${key}`;
+  }
+
+  getReadUrl(key: string): string {
+    const expires = Math.floor(Date.now() / 1000) + READ_URL_TTL_SECONDS;
+    return `${this.getPublicUrl(key)}?expires=${expires}&signature=${signKey(key, expires)}`;
+  }
+
+  async createMultipartUpload(key: string, options: PutObjectOptions): Promise<string> {
+    this.resolveKey(key);
+    const uploadId = uuidv4();
+    const dir = this.multipartDir(uploadId);
+    await fsp.mkdir(dir, { recursive: true });
+    await fsp.writeFile(path.join(dir, 'upload.json'), JSON.stringify({ key, ...options }));
+    return uploadId;
+  }
+
+  async uploadPart(_key: string, uploadId: string, partNumber: number, body: Readable, contentLength: number): Promise<string> {
+    const dir = this.multipartDir(uploadId);
+    const partPath = path.join(dir, `${partNumber}.part`);
+    const tmpPath = `${partPath}.${uuidv4()}.tmp`;
+    const hash = crypto.createHash('md5');
+    let received = 0;
+    let etag: string;
+
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(body, counter, fs.createWriteStream(tmpPath));
+      if (received !== contentLength) {
+        throw new Error(`Part ${partNumber} received ${received} of ${contentLength} bytes`);
+      }
+      // The etag is kept beside the part so listParts() never has to read the part back
+      etag = hash.digest('hex');
+      await fsp.writeFile(`${partPath}.etag`, etag);
+      await fsp.rename(tmpPath, partPath);
+    } catch (error) {
+      await fsp.rm(tmpPath, { force: true });
+      throw error;
+    }
+
+    return etag;
+  }
+
+  async listParts(_key: string, uploadId: string): Promise<StoredPart[]> {
+    const dir = this.multipartDir(uploadId);
+    let entries: string[];
+    try {
+      entries = await fsp.readdir(dir);
+    } catch {
+      return [];
+    }
+
+    const parts: StoredPart[] = [];
+    for (const entry of entries) {
+      const match = entry.match(/^(\d+)\.part$/);
+      if (!match) continue;
+      const partPath = path.join(dir, entry);
+      const stats = await fsp.stat(partPath);
+      const etag = await fsp.readFile(`${partPath}.etag`, 'utf8').catch(() => '');
+      parts.push({ partNumber: parseInt(match[1], 10), size: stats.size, etag });
+    }
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: StoredPart[]): Promise<void> {
+    const dir = this.multipartDir(uploadId);
+    const upload = JSON.parse(await fsp.readFile(path.join(dir, 'upload.json'), 'utf8')) as PutObjectOptions & { key: string };
+    if (upload.key !== key) {
+      throw new Error(`Upload ${uploadId} does not belong to ${key}`);
+    }
+
+    const filePath = this.resolveKey(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+
+    const out = fs.createWriteStream(filePath);
+    try {
+      for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+        await pipeline(fs.createReadStream(path.join(dir, `${part.partNumber}.part`)), out, { end: false });
+      }
+    } finally {
+      await new Promise<void>((resolve, reject) => out.end((err?: Error | null) => (err ? reject(err) : resolve())));
+    }
+
+    await this.writeMeta(key, { contentType: upload.contentType, metadata: upload.metadata });
+    await fsp.rm(dir, { recursive: true, force: true });
+  }
+
+  async abortMultipartUpload(_key: string, uploadId: string): Promise<void> {
+    await fsp.rm(this.multipartDir(uploadId), { recursive: true, force: true });
+  }
+}
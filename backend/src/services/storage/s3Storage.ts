@@ -0,0 +1,180 @@
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { fromInstanceMetadata } from '@aws-sdk/credential-provider-imds';
+import config from '../../config';
+import type { StorageProvider, PutObjectOptions, StoredObject, StoredPart } from './types';
+
+const isNotFound = (error: unknown): boolean => {
+  const name = (error as { name?: string })?.name;
+  return name === 'NoSuchKey' || name === 'NotFound';
+};
+
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3' as const;
+  private client: S3Client;
+  private bucket: string;
+
+  constructor() {
+    this.bucket = config.aws.s3Bucket;
+    // Use environment credentials for local dev, instance metadata (EC2 IAM role) in production
+    this.client = new S3Client({
+      region: config.aws.region,
+      credentials: config.aws.accessKeyId && config.aws.secretAccessKey
+        ? {
+            accessKeyId: config.aws.accessKeyId,
+            secretAccessKey: config.aws.secretAccessKey,
+          }
+        : fromInstanceMetadata(),
+      forcePathStyle: false,
+    });
+  }
+
+  async put(key: string, body: Buffer, options: PutObjectOptions): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      Metadata: options.metadata,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!response.Body) return null;
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async stream(key: string): Promise<Readable | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return (response.Body as Readable | undefined) || null;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of response.Contents || []) {
+        if (object.Key) {
+          objects.push({ key: object.Key, size: object.Size || 0, lastModified: object.LastModified });
+        }
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  getPublicUrl(key: string): string {
+    return `https://${this.bucket}.s3.${config.aws.region}.amazonaws.com/${key}`;
+  }
+
+  getReadUrl(key: string): string {
+    return this.getPublicUrl(key);
+  }
+
+  async createMultipartUpload(key: string, options: PutObjectOptions): Promise<string> {
+    const response = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: options.contentType,
+      Metadata: options.metadata,
+    }));
+
+    if (!response.UploadId) {
+      throw new Error('S3 did not return an upload ID');
+    }
+    return response.UploadId;
+  }
+
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Readable, contentLength: number): Promise<string> {
+    const response = await this.client.send(new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: body,
+      ContentLength: contentLength,
+    }));
+
+    return response.ETag || '';
+  }
+
+  async listParts(key: string, uploadId: string): Promise<StoredPart[]> {
+    const parts: StoredPart[] = [];
+    let marker: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListPartsCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumberMarker: marker,
+      }));
+
+      for (const part of response.Parts || []) {
+        if (part.PartNumber && part.ETag) {
+          parts.push({ partNumber: part.PartNumber, size: part.Size || 0, etag: part.ETag });
+        }
+      }
+
+      marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (marker);
+
+    return parts;
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: StoredPart[]): Promise<void> {
+    await this.client.send(new CompleteMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map(p => ({ PartNumber: p.partNumber, ETag: p.etag })),
+      },
+    }));
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.client.send(new AbortMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+    }));
+  }
+}
@@ -0,0 +1,41 @@
+import { Readable } from 'stream';
+
+export interface PutObjectOptions {
+  contentType: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified?: Date;
+}
+
+export interface StoredPart {
+  partNumber: number;
+  size: number;
+  etag: string;
+}
+
+/**
+ * Where customer photos live. Keys are the same for every driver
+ * (e.g. uploads/<order>/<size>/<type>/<file>), so records stay portable.
+ */
+export interface StorageProvider {
+  readonly name: 's3' | 'local';
+
+  put(key: string, body: Buffer, options: PutObjectOptions): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  stream(key: string): Promise<Readable | null>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<StoredObject[]>;
+  getPublicUrl(key: string): string;
+  // URL a browser can load the object from right now (short-lived and signed on the local driver)
+  getReadUrl(key: string): string;
+
+  createMultipartUpload(key: string, options: PutObjectOptions): Promise<string>;
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Readable, contentLength: number): Promise<string>;
+  listParts(key: string, uploadId: string): Promise<StoredPart[]>;
+  completeMultipartUpload(key: string, uploadId: string, parts: StoredPart[]): Promise<void>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
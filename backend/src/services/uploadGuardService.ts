@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import config from '../config';
+import { BlockedUploadAttempt, MagicLink, MagicLinkEvent, IMagicLink, IBlockedUploadAttempt } from '../models';
+import type { BlockedUploadReason } from '../models/BlockedUploadAttempt';
+
+const PIN_LENGTH = 4;
+const ACCESS_KEY_EXPIRES_IN = '7d';
+// Access keys get their own secret and audience so they can never pass as an admin session
+const ACCESS_KEY_AUDIENCE = 'upload';
+const accessKeySecret = () => `${config.jwt.secret}:upload-access`;
+
+interface WindowCount {
+  count: number;
+  resetAt: number;
+  // Only the first blocked request in a window is logged, so a flood doesn't flood the log too
+  logged: boolean;
+}
+
+export interface LimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  shouldLog: boolean;
+}
+
+/**
+ * Fixed-window counter kept in memory. Limits are per API process, which is
+ * enough to stop a single client hammering the public upload routes.
+ */
+class WindowLimiter {
+  private counts = new Map<string, WindowCount>();
+
+  constructor(private limit: () => number, private windowMs: () => number) {}
+
+  hit(key: string): LimitResult {
+    const now = Date.now();
+    this.prune(now);
+
+    let entry = this.counts.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + this.windowMs(), logged: false };
+      this.counts.set(key, entry);
+    }
+    entry.count++;
+
+    const retryAfterSeconds = Math.ceil((entry.resetAt - now) / 1000);
+    if (entry.count <= this.limit()) {
+      return { allowed: true, retryAfterSeconds, shouldLog: false };
+    }
+
+    const shouldLog = !entry.logged;
+    entry.logged = true;
+    return { allowed: false, retryAfterSeconds, shouldLog };
+  }
+
+  reset(key: string): void {
+    this.counts.delete(key);
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.counts) {
+      if (entry.resetAt <= now) this.counts.delete(key);
+    }
+  }
+}
+
+const windowMs = () => config.uploadProtection.windowMinutes * 60 * 1000;
+
+const ipLimiter = new WindowLimiter(() => config.uploadProtection.requestsPerIp, windowMs);
+const tokenLimiter = new WindowLimiter(() => config.uploadProtection.requestsPerToken, windowMs);
+const pinLimiter = new WindowLimiter(() => config.uploadProtection.pinAttempts, windowMs);
+
+/**
+ * Count one request against the per-IP and per-link limits.
+ * Returns the limit that was hit, or null when the request may go ahead.
+ */
+export function checkRequestRate(
+  ip: string,
+  token: string
+): (LimitResult & { reason: BlockedUploadReason }) | null {
+  const byIp = ipLimiter.hit(ip);
+  if (!byIp.allowed) return { ...byIp, reason: 'rate_limit_ip' };
+
+  const byToken = tokenLimiter.hit(token);
+  if (!byToken.allowed) return { ...byToken, reason: 'rate_limit_token' };
+
+  return null;
+}
+
+/**
+ * Count one PIN attempt for this link from this address. This only slows a single
+ * client down; the per-link lockout below is what caps guessing overall.
+ */
+export function checkPinAttemptRate(ip: string, token: string): LimitResult {
+  return pinLimiter.hit(`${token}:${ip}`);
+}
+
+/**
+ * Forget failed PIN attempts once the customer gets it right
+ */
+export function clearPinAttempts(ip: string, token: string): void {
+  pinLimiter.reset(`${token}:${ip}`);
+}
+
+/**
+ * Seconds until a link locked by wrong PINs opens again, or 0 when it isn't locked
+ */
+export function getPinLockoutSeconds(magicLink: Pick<IMagicLink, 'pinLockedUntil'>): number {
+  if (!magicLink.pinLockedUntil) return 0;
+  return Math.max(Math.ceil((magicLink.pinLockedUntil.getTime() - Date.now()) / 1000), 0);
+}
+
+/**
+ * Count a wrong PIN against the link itself, whatever address it came from. The count is
+ * kept in Mongo so it holds across API processes and restarts. Returns true when this
+ * attempt locked the link.
+ */
+export async function recordPinFailure(magicLink: IMagicLink): Promise<boolean> {
+  const updated = await MagicLink.findOneAndUpdate(
+    { _id: magicLink._id },
+    { $inc: { pinFailedAttempts: 1 } },
+    { new: true }
+  );
+  if (!updated || updated.pinFailedAttempts < config.uploadProtection.pinLockoutAttempts) return false;
+
+  const pinLockedUntil = new Date(Date.now() + config.uploadProtection.pinLockoutMinutes * 60 * 1000);
+  await MagicLink.updateOne({ _id: magicLink._id }, { $set: { pinLockedUntil, pinFailedAttempts: 0 } });
+  magicLink.pinLockedUntil = pinLockedUntil;
+  return true;
+}
+
+/**
+ * Forget the link's wrong PINs once the customer gets it right
+ */
+export async function clearPinFailures(magicLink: IMagicLink): Promise<void> {
+  if (!magicLink.pinFailedAttempts && !magicLink.pinLockedUntil) return;
+  await MagicLink.updateOne({ _id: magicLink._id }, { $set: { pinFailedAttempts: 0 }, $unset: { pinLockedUntil: 1 } });
+}
+
+/**
+ * Whether the link has had too many uploads and replacements in the last hour.
+ * Returns an error message, or null when allowed.
+ */
+export async function checkHourlyUploadCap(magicLink: IMagicLink): Promise<string | null> {
+  const limit = config.uploadProtection.uploadsPerLinkPerHour;
+  const since = new Date(Date.now() - 60 * 60 * 1000);
+
+  const recent = await MagicLinkEvent.countDocuments({
+    magicLinkId: magicLink._id,
+    type: { $in: ['uploaded', 'replaced'] },
+    createdAt: { $gte: since },
+  });
+
+  if (recent >= limit) {
+    return `Too many uploads in the last hour (limit ${limit}). Please try again later`;
+  }
+  return null;
+}
+
+/**
+ * The PIN for a link: the last digits of the customer's phone, or null when
+ * the order has no usable phone number
+ */
+export function getLinkPin(magicLink: Pick<IMagicLink, 'customerPhone'>): string | null {
+  const digits = (magicLink.customerPhone || '').replace(/\D/g, '');
+  return digits.length >= PIN_LENGTH ? digits.slice(-PIN_LENGTH) : null;
+}
+
+/**
+ * Whether customers must enter the PIN before the upload page opens
+ */
+export function isPinRequired(magicLink: IMagicLink): boolean {
+  return !!magicLink.pinRequired && getLinkPin(magicLink) !== null;
+}
+
+/**
+ * Compare an entered PIN with the link's PIN
+ */
+export function verifyPin(magicLink: IMagicLink, pin: string): boolean {
+  const expected = getLinkPin(magicLink);
+  const entered = String(pin || '').replace(/\D/g, '');
+  if (!expected || entered.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(entered), Buffer.from(expected));
+}
+
+/**
+ * Key the upload page sends with every request once the PIN was entered.
+ * It is bound to the token, so reissuing the link invalidates it.
+ */
+export function issueAccessKey(magicLink: IMagicLink): string {
+  return jwt.sign({ token: magicLink.token, scope: 'upload' }, accessKeySecret(), {
+    audience: ACCESS_KEY_AUDIENCE,
+    expiresIn: ACCESS_KEY_EXPIRES_IN,
+  });
+}
+
+/**
+ * Whether an access key was issued for this link and has not expired
+ */
+export function hasValidAccessKey(magicLink: IMagicLink, accessKey: string | undefined): boolean {
+  if (!accessKey) return false;
+  try {
+    const payload = jwt.verify(accessKey, accessKeySecret(), { audience: ACCESS_KEY_AUDIENCE }) as { token?: string; scope?: string };
+    return payload.scope === 'upload' && payload.token === magicLink.token;
+  } catch {
+    return false;
+  }
+}
+
+interface BlockedAttemptInput {
+  reason: BlockedUploadReason;
+  ip: string;
+  token: string;
+  method: string;
+  path: string;
+  magicLink?: IMagicLink | null;
+  details?: string;
+}
+
+/**
+ * Record a blocked request. Never throws - logging must not break the response.
+ */
+export async function logBlockedAttempt(input: BlockedAttemptInput): Promise<void> {
+  try {
+    await BlockedUploadAttempt.create({
+      reason: input.reason,
+      ip: input.ip,
+      tokenHint: input.token.slice(-6),
+      magicLinkId: input.magicLink?._id,
+      orderNumber: input.magicLink?.orderNumber,
+      method: input.method,
+      path: input.path,
+      details: input.details,
+    });
+  } catch (error) {
+    console.error('Failed to log blocked upload attempt:', error);
+  }
+}
+
+/**
+ * Most recent blocked attempts, optionally for one link
+ */
+export async function getBlockedAttempts(magicLink?: IMagicLink, limit = 200): Promise<IBlockedUploadAttempt[]> {
+  const filter = magicLink ? { magicLinkId: magicLink._id } : {};
+  return BlockedUploadAttempt.find(filter).sort({ createdAt: -1 }).limit(limit);
+}
@@ -0,0 +1,313 @@
+import { Readable } from 'stream';
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { UploadSession, IUploadSession, UploadedImage, IUploadedImage, IMagicLink } from '../models';
+import type { PhotoSize, PhotoType } from '../models/UploadedImage';
+import magicLinkService from './magicLinkService';
+import storage, { StoredPart } from './storage';
+import { processUploadedImage, detectImageFormat } from './imageProcessingService';
+
+// S3 requires every part except the last to be at least 5MB (the local driver follows suit)
+export const UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+export const MAX_UPLOAD_FILE_SIZE = 20 * 1024 * 1024;
+const SESSION_TTL_HOURS = 24;
+// A completion that hasn't finished by now is assumed to have died with its process
+const COMPLETION_TIMEOUT_MS = 5 * 60 * 1000;
+// How long a concurrent completion call waits for the one holding the session
+const COMPLETION_WAIT_MS = 30 * 1000;
+const COMPLETION_POLL_MS = 500;
+
+interface CompletedUpload {
+  image: IUploadedImage;
+  // false when another request completed the session and this one was handed its result
+  created: boolean;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface CreateUploadSessionInput {
+  magicLink: IMagicLink;
+  originalName: string;
+  fileSize: number;
+  mimeType: string;
+  photoSize: PhotoSize;
+  photoType: PhotoType;
+}
+
+class UploadSessionService {
+  /**
+   * Start a multipart upload for one photo
+   */
+  async createSession(input: CreateUploadSessionInput): Promise<IUploadSession> {
+    const { magicLink, originalName, fileSize, mimeType, photoSize, photoType } = input;
+
+    const fileExtension = originalName.split('.').pop() || 'jpg';
+    const fileName = `${uuidv4()}.${fileExtension}`;
+    const orderFolder = magicLink.orderNumber.replace(/[^a-zA-Z0-9]/g, '_');
+    const s3Key = `uploads/${orderFolder}/${photoSize}/${photoType}/${fileName}`;
+
+    const uploadId = await storage.createMultipartUpload(s3Key, {
+      contentType: mimeType,
+      metadata: {
+        orderNumber: magicLink.orderNumber,
+        originalName,
+        photoSize,
+        photoType,
+      },
+    });
+
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + SESSION_TTL_HOURS);
+
+    const session = new UploadSession({
+      magicLinkId: magicLink._id,
+      orderNumber: magicLink.orderNumber,
+      uploadId,
+      s3Key,
+      fileName,
+      originalName,
+      fileSize,
+      mimeType,
+      photoSize,
+      photoType,
+      partSize: UPLOAD_PART_SIZE,
+      totalParts: Math.max(1, Math.ceil(fileSize / UPLOAD_PART_SIZE)),
+      expiresAt,
+    });
+
+    await session.save();
+    return session;
+  }
+
+  /**
+   * Find an unfinished session for the same file, so re-selecting it after a reload resumes instead of restarting
+   */
+  async findResumableSession(magicLinkId: mongoose.Types.ObjectId, originalName: string, fileSize: number, photoSize: PhotoSize, photoType: PhotoType): Promise<IUploadSession | null> {
+    return UploadSession.findOne({
+      magicLinkId,
+      originalName,
+      fileSize,
+      photoSize,
+      photoType,
+      status: 'pending',
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Find a session belonging to a magic link
+   */
+  async findSession(magicLinkId: mongoose.Types.ObjectId, sessionId: string): Promise<IUploadSession | null> {
+    return UploadSession.findOne({ _id: sessionId, magicLinkId });
+  }
+
+  /**
+   * Expected byte length of a given part (the last part carries the remainder)
+   */
+  getExpectedPartSize(session: IUploadSession, partNumber: number): number {
+    if (partNumber < session.totalParts) return session.partSize;
+    return session.fileSize - session.partSize * (session.totalParts - 1);
+  }
+
+  /**
+   * Stream one part straight through to storage without buffering it in memory
+   */
+  async uploadPart(session: IUploadSession, partNumber: number, body: Readable, contentLength: number): Promise<string> {
+    return storage.uploadPart(session.s3Key, session.uploadId, partNumber, body, contentLength);
+  }
+
+  /**
+   * List the parts storage already holds, so a client can resume after a dropped connection
+   */
+  async listParts(session: IUploadSession): Promise<StoredPart[]> {
+    // Once the parts are joined storage no longer knows the upload ID, but every part is in
+    if (session.assembledAt) {
+      return Array.from({ length: session.totalParts }, (_, i) => ({
+        partNumber: i + 1,
+        size: this.getExpectedPartSize(session, i + 1),
+        etag: '',
+      }));
+    }
+    return storage.listParts(session.s3Key, session.uploadId);
+  }
+
+  /**
+   * Stitch the parts together, process the image, record it and count it against the link.
+   * The session is claimed first, so concurrent calls for it record exactly one photo.
+   */
+  async completeSession(session: IUploadSession, token: string): Promise<CompletedUpload> {
+    const claimed = await this.claimSession(session);
+    if (!claimed) {
+      const existing = await this.waitForCompletion(session);
+      if (existing) return { image: existing, created: false };
+      throw new UploadCompletionInProgressError();
+    }
+
+    try {
+      const image = await this.assembleSession(claimed, token);
+      return { image, created: true };
+    } catch (error) {
+      // Let the customer retry (e.g. after sending the missing parts) unless the file was rejected outright
+      if (!(error instanceof InvalidImageError)) {
+        await UploadSession.updateOne(
+          { _id: claimed._id, status: 'completing' },
+          { $set: { status: 'pending' }, $unset: { completingAt: 1 } }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically move a session from 'pending' to 'completing'. A 'completing' session whose
+   * holder has gone quiet for too long can be taken over. Returns null when someone else holds it.
+   */
+  private async claimSession(session: IUploadSession): Promise<IUploadSession | null> {
+    const staleBefore = new Date(Date.now() - COMPLETION_TIMEOUT_MS);
+    return UploadSession.findOneAndUpdate(
+      {
+        _id: session._id,
+        $or: [
+          { status: 'pending' },
+          { status: 'completing', completingAt: { $lt: staleBefore } },
+        ],
+      },
+      { $set: { status: 'completing', completingAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Wait for the request holding a session to finish it, returning the image it recorded
+   */
+  private async waitForCompletion(session: IUploadSession): Promise<IUploadedImage | null> {
+    const deadline = Date.now() + COMPLETION_WAIT_MS;
+    while (true) {
+      const current = await UploadSession.findById(session._id);
+      if (!current || current.status === 'aborted') return null;
+      if (current.status === 'completed' && current.uploadedImageId) {
+        return UploadedImage.findById(current.uploadedImageId);
+      }
+      if (current.status === 'pending' || Date.now() >= deadline) return null;
+      await sleep(COMPLETION_POLL_MS);
+    }
+  }
+
+  /**
+   * Have storage join the parts into the final object and note it, so a retry
+   * after a later failure doesn't try to complete the spent upload ID again
+   */
+  private async joinParts(session: IUploadSession): Promise<void> {
+    const parts = await this.listParts(session);
+
+    const missing: number[] = [];
+    for (let partNumber = 1; partNumber <= session.totalParts; partNumber++) {
+      if (!parts.some(p => p.partNumber === partNumber)) missing.push(partNumber);
+    }
+    if (missing.length > 0) {
+      throw new IncompleteUploadError(missing);
+    }
+
+    await storage.completeMultipartUpload(session.s3Key, session.uploadId, parts);
+
+    session.assembledAt = new Date();
+    await session.save();
+  }
+
+  private async assembleSession(session: IUploadSession, token: string): Promise<IUploadedImage> {
+    if (!session.assembledAt) {
+      await this.joinParts(session);
+    }
+
+    // A previous attempt may have recorded the photo before failing on the count or the session
+    if (session.uploadedImageId) {
+      const recorded = await UploadedImage.findById(session.uploadedImageId);
+      if (recorded) {
+        await magicLinkService.incrementUploadCount(token);
+        session.status = 'completed';
+        await session.save();
+        return recorded;
+      }
+    }
+
+    const s3Url = storage.getPublicUrl(session.s3Key);
+
+    const uploadedImage = new UploadedImage({
+      magicLinkId: session.magicLinkId,
+      orderNumber: session.orderNumber,
+      fileName: session.fileName,
+      originalName: session.originalName,
+      s3Key: session.s3Key,
+      s3Url,
+      fileSize: session.fileSize,
+      mimeType: session.mimeType,
+      photoSize: session.photoSize,
+      photoType: session.photoType,
+    });
+
+    // The parts are streamed straight to storage, so this is the first look at the content
+    const original = await storage.get(session.s3Key);
+    if (!original || !detectImageFormat(original)) {
+      await storage.delete(session.s3Key);
+      session.status = 'aborted';
+      await session.save();
+      throw new InvalidImageError();
+    }
+    await processUploadedImage(uploadedImage, original);
+
+    await uploadedImage.save();
+    session.uploadedImageId = uploadedImage._id as mongoose.Types.ObjectId;
+    await session.save();
+
+    await magicLinkService.incrementUploadCount(token);
+
+    session.status = 'completed';
+    await session.save();
+
+    return uploadedImage;
+  }
+
+  /**
+   * Abandon a session and release the parts held by storage
+   */
+  async abortSession(session: IUploadSession): Promise<void> {
+    try {
+      if (session.assembledAt) {
+        await storage.delete(session.s3Key);
+      } else {
+        await storage.abortMultipartUpload(session.s3Key, session.uploadId);
+      }
+    } catch (storageError) {
+      console.warn('Failed to abort multipart upload in storage:', storageError);
+    }
+
+    session.status = 'aborted';
+    await session.save();
+  }
+}
+
+export class IncompleteUploadError extends Error {
+  missingParts: number[];
+
+  constructor(missingParts: number[]) {
+    super(`Missing parts: ${missingParts.join(', ')}`);
+    this.name = 'IncompleteUploadError';
+    this.missingParts = missingParts;
+  }
+}
+
+export class InvalidImageError extends Error {
+  constructor() {
+    super('File is not a supported image');
+    this.name = 'InvalidImageError';
+  }
+}
+
+export class UploadCompletionInProgressError extends Error {
+  constructor() {
+    super('Upload is still being completed');
+    this.name = 'UploadCompletionInProgressError';
+  }
+}
+
+export default new UploadSessionService();
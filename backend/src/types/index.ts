@@ -85,10 +85,13 @@ export interface ShopifyCustomer {
   email?: string;
   first_name?: string;
   last_name?: string;
+  phone?: string | null;
   tags?: string;
 }
 
 export interface ShopifyAddress {
+  name?: string;
+  phone?: string | null;
   city?: string;
   province?: string;
   country?: string;
@@ -99,12 +102,15 @@ export interface ShopifyOrder {
   id: number;
   name: string;
   email?: string;
+  phone?: string | null;
   created_at: string;
   updated_at?: string;
   line_items: ShopifyLineItem[];
   fulfillment_status?: string | null;
   fulfillments?: ShopifyFulfillment[];
   gateway?: string;
+  // Only on some older orders; gateway replaced it
+  payment_gateway?: string;
   payment_gateway_names?: string[];
   tags?: string;
   total_price?: string;
@@ -118,3 +124,15 @@ export interface ShopifyOrder {
 export interface ShopifyOrdersResponse {
   orders: ShopifyOrder[];
 }
+
+// Shopify GraphQL bulk operation, as returned by bulkOperationRunQuery and node(id:)
+export type ShopifyBulkOperationStatus = 'CREATED' | 'RUNNING' | 'COMPLETED' | 'CANCELING' | 'CANCELED' | 'FAILED' | 'EXPIRED';
+
+export interface ShopifyBulkOperation {
+  id: string;
+  status: ShopifyBulkOperationStatus;
+  errorCode?: string | null;
+  objectCount?: string;
+  url?: string | null;
+  partialDataUrl?: string | null;
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import type { Response } from 'express';
+import config from '../src/config';
+import { requireAdmin } from '../src/routes/adminAuth';
+import { issueAccessKey, hasValidAccessKey } from '../src/services/uploadGuardService';
+import type { IMagicLink } from '../src/models';
+import type { AuthenticatedRequest } from '../src/types';
+
+const magicLink = { token: 'link-token' } as IMagicLink;
+
+const authenticate = (bearer: string) => {
+  const req = { headers: { authorization: `Bearer ${bearer}` } } as AuthenticatedRequest;
+  let status = 200;
+  let nextCalled = false;
+  const res = {
+    status(code: number) { status = code; return this; },
+    json() { return this; },
+  } as unknown as Response;
+  requireAdmin(req, res, () => { nextCalled = true; });
+  return { status, nextCalled, user: req.user };
+};
+
+test('accepts an admin session', () => {
+  const token = jwt.sign({ userId: 'u1', email: 'admin@example.com' }, config.jwt.secret);
+  const result = authenticate(token);
+
+  assert.equal(result.nextCalled, true);
+  assert.deepEqual(result.user, { userId: 'u1', email: 'admin@example.com' });
+});
+
+test('rejects a customer upload access key', () => {
+  const result = authenticate(issueAccessKey(magicLink));
+
+  assert.equal(result.nextCalled, false);
+  assert.equal(result.status, 401);
+});
+
+test('rejects tokens signed with the admin secret that are not sessions', () => {
+  for (const payload of [{ token: 'link-token', scope: 'upload' }, { userId: 'u1', email: 'a@b.c', scope: 'upload' }, { email: 'a@b.c' }]) {
+    const result = authenticate(jwt.sign(payload, config.jwt.secret));
+    assert.equal(result.nextCalled, false);
+    assert.equal(result.status, 401);
+  }
+});
+
+test('access keys only open the link they were issued for', () => {
+  const accessKey = issueAccessKey(magicLink);
+
+  assert.equal(hasValidAccessKey(magicLink, accessKey), true);
+  assert.equal(hasValidAccessKey({ token: 'other-token' } as IMagicLink, accessKey), false);
+  // An old-style key signed with the admin secret no longer works
+  assert.equal(hasValidAccessKey(magicLink, jwt.sign({ token: 'link-token', scope: 'upload' }, config.jwt.secret)), false);
+});
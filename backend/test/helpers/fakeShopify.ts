@@ -0,0 +1,66 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import config from '../../src/config';
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: any;
+}
+
+export interface FakeResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export type FakeHandler = (request: FakeRequest, origin: string) => FakeResponse | Promise<FakeResponse>;
+
+/**
+ * A local stand-in for the Shopify Admin API. Points config.shopify.apiBaseUrl at
+ * itself while running; every request goes to `handler`.
+ */
+export async function startFakeShopify(handler: FakeHandler): Promise<{ origin: string; requests: FakeRequest[]; close: () => Promise<void> }> {
+  const requests: FakeRequest[] = [];
+  const previousBaseUrl = config.shopify.apiBaseUrl;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', async () => {
+      const url = new URL(req.url || '/', origin);
+      const raw = Buffer.concat(chunks).toString('utf8');
+      const request: FakeRequest = {
+        method: req.method || 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        body: raw && (req.headers['content-type'] || '').includes('json') ? JSON.parse(raw) : raw,
+      };
+      requests.push(request);
+
+      try {
+        const response = await handler(request, origin);
+        const body = typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
+        res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers });
+        res.end(body);
+      } catch (error) {
+        res.writeHead(500);
+        res.end(String(error));
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  config.shopify.apiBaseUrl = origin;
+
+  return {
+    origin,
+    requests,
+    close: async () => {
+      config.shopify.apiBaseUrl = previousBaseUrl;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
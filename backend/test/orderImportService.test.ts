@@ -0,0 +1,124 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OrderImport } from '../src/models';
+import type { IOrderImport } from '../src/models';
+import type { ShopifyOrder } from '../src/types';
+import type { SaveOrdersResult } from '../src/services/orderStoreService';
+import { runImportSteps } from '../src/services/orderImportService';
+import { startFakeShopify, FakeRequest } from './helpers/fakeShopify';
+
+const ORDER_COUNT = 600;
+
+// Bulk JSONL: each order line is followed by its line items, linked by __parentId
+const resultLines: string[] = [];
+for (let n = 1; n <= ORDER_COUNT; n++) {
+  const gid = `gid://shopify/Order/${n}`;
+  resultLines.push(JSON.stringify({
+    id: gid,
+    legacyResourceId: String(n),
+    name: `#${1000 + n}`,
+    email: `customer${n}@example.com`,
+    phone: '+919876543210',
+    createdAt: '2025-06-01T10:00:00Z',
+    updatedAt: '2025-06-02T10:00:00Z',
+    displayFinancialStatus: 'PAID',
+    displayFulfillmentStatus: 'UNFULFILLED',
+    paymentGatewayNames: ['Razorpay'],
+    tags: [],
+    totalPriceSet: { shopMoney: { amount: '499.00', currencyCode: 'INR' } },
+    fulfillments: [],
+  }));
+  for (let item = 1; item <= 2; item++) {
+    resultLines.push(JSON.stringify({
+      __parentId: gid,
+      id: `gid://shopify/LineItem/${n * 10 + item}`,
+      title: 'Printed photos',
+      quantity: 1,
+      product: { legacyResourceId: '42' },
+      variant: { legacyResourceId: '7' },
+    }));
+  }
+}
+
+function handleShopify(request: FakeRequest, origin: string) {
+  if (request.method === 'POST' && request.path.endsWith('/graphql.json')) {
+    return {
+      body: {
+        data: {
+          node: { id: request.body.variables.id, status: 'COMPLETED', objectCount: String(resultLines.length), url: `${origin}/results/orders.jsonl` },
+        },
+      },
+    };
+  }
+  if (request.path === '/results/orders.jsonl') {
+    return { headers: { 'Content-Type': 'application/jsonl' }, body: resultLines.join('\n') + '\n' };
+  }
+  return { status: 404, body: { errors: 'Not Found' } };
+}
+
+// A job that lives in memory only; saves just record the checkpoint
+function createJob(): IOrderImport {
+  const job = new OrderImport({ bulkOperationId: 'gid://shopify/BulkOperation/1' });
+  job.save = (async () => job) as unknown as typeof job.save;
+  return job;
+}
+
+const recordWrites = (written: ShopifyOrder[], failOnCall?: number) => {
+  let calls = 0;
+  return async (orders: ShopifyOrder[]): Promise<SaveOrdersResult> => {
+    calls++;
+    if (calls === failOnCall) throw new Error('Lost connection to the database');
+    written.push(...orders);
+    return { inserted: orders.length, updated: 0, skipped: 0, failed: 0, failedIds: [] };
+  };
+};
+
+test('resumes an interrupted import from its checkpoint', async () => {
+  const shopify = await startFakeShopify(handleShopify);
+  try {
+    const job = createJob();
+
+    const firstRun: ShopifyOrder[] = [];
+    await assert.rejects(runImportSteps(job, recordWrites(firstRun, 2)), /Lost connection/);
+
+    assert.equal(job.status, 'importing');
+    assert.equal(firstRun.length, 250);
+    assert.equal(job.ordersProcessed, 250);
+    // The checkpoint sits on the first line of order 251
+    assert.equal(job.linesProcessed, 250 * 3);
+
+    const secondRun: ShopifyOrder[] = [];
+    await runImportSteps(job, recordWrites(secondRun));
+
+    assert.equal(secondRun[0].id, 251);
+    assert.deepEqual([...firstRun, ...secondRun].map(order => order.id), Array.from({ length: ORDER_COUNT }, (_, i) => i + 1));
+    assert.ok(secondRun.every(order => order.line_items.length === 2));
+    assert.equal(job.ordersProcessed, ORDER_COUNT);
+    assert.equal(job.linesProcessed, resultLines.length);
+
+    // The export was only polled once; the resumed run went straight to the result
+    assert.equal(shopify.requests.filter(request => request.path.endsWith('/graphql.json')).length, 1);
+  } finally {
+    await shopify.close();
+  }
+});
+
+test('maps bulk nodes to the REST order shape', async () => {
+  const shopify = await startFakeShopify(handleShopify);
+  try {
+    const written: ShopifyOrder[] = [];
+    await runImportSteps(createJob(), recordWrites(written));
+
+    const [order] = written;
+    assert.equal(order.id, 1);
+    assert.equal(order.name, '#1001');
+    assert.equal(order.phone, '+919876543210');
+    assert.equal(order.financial_status, 'paid');
+    assert.equal(order.fulfillment_status, null);
+    assert.equal(order.gateway, 'Razorpay');
+    assert.deepEqual(order.line_items.map(item => [item.id, item.product_id, item.variant_id]), [[11, 42, 7], [12, 42, 7]]);
+    assert.equal('_gid' in order, false);
+  } finally {
+    await shopify.close();
+  }
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextCursor } from '../src/services/orderSyncService';
+import type { ShopifyOrder } from '../src/types';
+
+const PREVIOUS = new Date('2026-03-01T00:00:00Z');
+const STARTED_AT = new Date('2026-03-01T06:00:00Z');
+
+const order = (id: number, updatedAt: string) => ({ id, name: `#${id}`, updated_at: updatedAt }) as unknown as ShopifyOrder;
+
+const orders = [
+  order(1, '2026-03-01T01:00:00Z'),
+  order(2, '2026-03-01T02:00:00Z'),
+  order(3, '2026-03-01T03:00:00Z'),
+  order(4, '2026-03-01T04:00:00Z'),
+];
+
+test('moves the cursor to the newest update when every order saved', () => {
+  assert.deepEqual(getNextCursor(orders, [], 0, PREVIOUS, STARTED_AT), new Date('2026-03-01T04:00:00Z'));
+});
+
+test('moves the cursor to the start of the run when nothing changed', () => {
+  assert.deepEqual(getNextCursor([], [], 0, PREVIOUS, STARTED_AT), STARTED_AT);
+});
+
+test('does not move the cursor past an order that failed to save', () => {
+  const cursor = getNextCursor(orders, [3, 2], 2, PREVIOUS, STARTED_AT);
+
+  assert.deepEqual(cursor, new Date('2026-03-01T02:00:00Z'));
+});
+
+test('keeps the previous cursor when a failed order cannot be placed', () => {
+  // Two failures, but only one could be matched back to an order
+  assert.deepEqual(getNextCursor(orders, [3], 2, PREVIOUS, STARTED_AT), PREVIOUS);
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { allocatePrints, checkAllowancesFilled, PrintLine } from '../src/services/printAllowanceService';
+
+const prints = (photoSize: PrintLine['photoSize'], photoType: PrintLine['photoType'], copies = 1): PrintLine =>
+  ({ photoSize, photoType, copies });
+
+test('fills the most specific allowance first', () => {
+  const { usage, overflow } = allocatePrints(
+    [{ quantity: 2 }, { photoSize: 'small', photoType: 'polaroid', quantity: 2 }],
+    [prints('small', 'polaroid', 2)]
+  );
+
+  assert.deepEqual(overflow, []);
+  assert.deepEqual(usage.map(a => a.used), [0, 2]);
+});
+
+test('reroutes a print when the first choice blocks another photo', () => {
+  // Greedy puts the small polaroid on "Small" and leaves the small normal print nowhere to go
+  const { usage, overflow } = allocatePrints(
+    [{ photoSize: 'small', quantity: 1 }, { photoType: 'polaroid', quantity: 1 }],
+    [prints('small', 'polaroid'), prints('small', 'normal')]
+  );
+
+  assert.deepEqual(overflow, []);
+  assert.deepEqual(usage.map(a => a.used), [1, 1]);
+});
+
+test('fits mixed partial allowances of 10 Small and 10 Polaroid', () => {
+  const allowances = [{ photoSize: 'small' as const, quantity: 10 }, { photoType: 'polaroid' as const, quantity: 10 }];
+  const lines = [prints('small', 'polaroid', 6), prints('small', 'normal', 4), prints('large', 'polaroid', 5), prints('small', 'polaroid', 5)];
+
+  const { usage, overflow } = allocatePrints(allowances, lines);
+
+  assert.deepEqual(overflow, []);
+  assert.deepEqual(usage.map(a => a.used), [10, 10]);
+  assert.equal(checkAllowancesFilled(allowances, lines), null);
+});
+
+test('moves prints along a chain of allowances', () => {
+  const { overflow } = allocatePrints(
+    [
+      { photoSize: 'small', quantity: 1 },
+      { photoType: 'polaroid', quantity: 1 },
+      { photoSize: 'large', quantity: 1 },
+    ],
+    [prints('small', 'polaroid'), prints('large', 'polaroid'), prints('small', 'normal')]
+  );
+
+  assert.deepEqual(overflow, []);
+});
+
+test('reports only the prints that cannot fit anywhere', () => {
+  const { overflow } = allocatePrints(
+    [{ photoSize: 'small', quantity: 10 }, { photoType: 'polaroid', quantity: 10 }],
+    [prints('small', 'normal', 12), prints('large', 'polaroid', 3), prints('large', 'normal', 1)]
+  );
+
+  assert.deepEqual(overflow, [prints('small', 'normal', 2), prints('large', 'normal', 1)]);
+});
+
+test('asks for the prints still missing from each allowance', () => {
+  const error = checkAllowancesFilled(
+    [{ photoSize: 'small', quantity: 10 }, { photoType: 'polaroid', quantity: 10 }],
+    [prints('small', 'polaroid', 12)]
+  );
+
+  assert.equal(error, 'Please add 8 more Polaroid (any size) before submitting');
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import shopifyService from '../src/services/shopifyService';
+import { startFakeShopify, FakeRequest } from './helpers/fakeShopify';
+
+const PAGE_SIZE = 250;
+const WINDOW_START = Date.parse('2026-01-01T00:00:00Z');
+
+// 10,600 orders, two per second, so a restart lands in the middle of a shared updated_at
+const orders = Array.from({ length: 10600 }, (_, i) => ({
+  id: i + 1,
+  name: `#${1000 + i}`,
+  created_at: new Date(WINDOW_START).toISOString(),
+  updated_at: new Date(WINDOW_START + Math.floor(i / 2) * 1000).toISOString(),
+}));
+
+// Shopify-style paging: filters on the first request, then an opaque page_info cursor
+function listOrders(request: FakeRequest, origin: string) {
+  const cursor = request.query.get('page_info');
+  const { min, max, offset } = cursor
+    ? JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    : { min: request.query.get('updated_at_min'), max: request.query.get('updated_at_max'), offset: 0 };
+
+  const matching = orders.filter(order => order.updated_at >= min && order.updated_at <= max);
+  const page = matching.slice(offset, offset + PAGE_SIZE);
+  const headers: Record<string, string> = {};
+  if (offset + PAGE_SIZE < matching.length) {
+    const next = Buffer.from(JSON.stringify({ min, max, offset: offset + PAGE_SIZE })).toString('base64url');
+    headers.Link = `<${origin}/admin/api/2024-01/orders.json?limit=${PAGE_SIZE}&page_info=${next}>; rel="next"`;
+  }
+  return { headers, body: { orders: page } };
+}
+
+test('pages through a window with more orders than one cursor run allows', async () => {
+  const shopify = await startFakeShopify(listOrders);
+  try {
+    const fetched = await shopifyService.fetchOrdersUpdatedBetween(new Date(WINDOW_START), new Date(WINDOW_START + 24 * 60 * 60 * 1000));
+
+    assert.equal(fetched.length, orders.length);
+    assert.equal(new Set(fetched.map(order => order.id)).size, orders.length);
+    // The first run stops at the page cap; the second restarts from the last updated_at it saw
+    const restarts = shopify.requests.filter(request => request.query.has('updated_at_min'));
+    assert.equal(restarts.length, 2);
+    assert.equal(restarts[1].query.get('updated_at_min'), orders[40 * PAGE_SIZE - 1].updated_at);
+  } finally {
+    await shopify.close();
+  }
+});
+
+test('fetches a small window in one run', async () => {
+  const shopify = await startFakeShopify(listOrders);
+  try {
+    const fetched = await shopifyService.fetchOrdersUpdatedBetween(new Date(WINDOW_START), new Date(WINDOW_START + 99 * 1000));
+
+    assert.equal(fetched.length, 200);
+    assert.equal(shopify.requests.length, 1);
+  } finally {
+    await shopify.close();
+  }
+});
@@ -9,6 +9,8 @@ import { ToolsPage } from './pages/ToolsPage';
 import { AnalysisPage } from './pages/AnalysisPage';
 import { AttendancePage } from './pages/AttendancePage';
 import BacklogPage from './pages/BacklogPage';
+import ProductionBoardPage from './pages/ProductionBoardPage';
+import PackingStationPage from './pages/PackingStationPage';
 import AbandonedCheckoutsPage from './pages/AbandonedCheckoutsPage';
 import { AdminLayout } from './layouts/AdminLayout';
 import { api } from './services/api';
@@ -49,6 +51,8 @@ function App() {
             <Route path="dashboard" element={<DashboardPage />} />
             <Route path="sales-management" element={<SalesManagementPage />} />
             <Route path="backlog" element={<BacklogPage />} />
+            <Route path="production" element={<ProductionBoardPage />} />
+            <Route path="packing" element={<PackingStationPage />} />
             <Route path="abandoned-checkouts" element={<AbandonedCheckoutsPage />} />
             <Route path="expenses/*" element={<ExpensesPage />} />
             <Route path="analysis/*" element={<AnalysisPage />} />
@@ -77,6 +77,30 @@ export function AdminLayout() {
             {!sidebarCollapsed && <span>Backlog</span>}
           </Link>
 
+          <Link
+            to="/admin/production"
+            className={`${styles['nav-item']} ${isActive('/admin/production') ? styles.active : ''}`}
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <rect x="3" y="3" width="5" height="18" rx="1" />
+              <rect x="10" y="3" width="5" height="12" rx="1" />
+              <rect x="17" y="3" width="4" height="8" rx="1" />
+            </svg>
+            {!sidebarCollapsed && <span>Production</span>}
+          </Link>
+
+          <Link
+            to="/admin/packing"
+            className={`${styles['nav-item']} ${isActive('/admin/packing') ? styles.active : ''}`}
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z" />
+              <polyline points="3.27 6.96 12 12.01 20.73 6.96" />
+              <line x1="12" y1="22.08" x2="12" y2="12" />
+            </svg>
+            {!sidebarCollapsed && <span>Packing</span>}
+          </Link>
+
           <Link
             to="/admin/abandoned-checkouts"
             className={`${styles['nav-item']} ${isActive('/admin/abandoned-checkouts') ? styles.active : ''}`}
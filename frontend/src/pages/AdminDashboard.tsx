@@ -3,8 +3,15 @@ import toast from 'react-hot-toast';
 import { useNavigate, useParams } from 'react-router-dom';
 import { api } from '../services/api';
 import type { AdminUser, MagicLinkInfo, ShopifyOrder } from '../services/api';
+import { PhotoReviewModal } from './AdminDashboard/PhotoReviewModal';
+import { MagicLinkDetailsModal } from './AdminDashboard/MagicLinkDetailsModal';
+import { OutreachQueueModal } from './AdminDashboard/OutreachQueueModal';
+import { FollowUpQueueModal } from './AdminDashboard/FollowUpQueueModal';
+import { RetentionModal } from './AdminDashboard/RetentionModal';
 import styles from './AdminDashboard.module.css';
 
+type PreviewImage = { id: string; s3Url: string; thumbnailUrl?: string; originalName: string };
+
 interface OrderWithLink extends ShopifyOrder {
   magicLink?: MagicLinkInfo;
 }
@@ -45,10 +52,20 @@ export function AdminDashboard() {
   const [copiedToken, setCopiedToken] = useState<string | null>(null);
   const [downloadingFor, setDownloadingFor] = useState<string | null>(null);
   const [deletingFor, setDeletingFor] = useState<string | null>(null);
+  // Token being exported, or 'all' for the combined export
+  const [printingFor, setPrintingFor] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleteModalToken, setDeleteModalToken] = useState<string | null>(null);
   const [deleteModalOrderNumber, setDeleteModalOrderNumber] = useState<string | null>(null);
-  const [deleteModalImages, setDeleteModalImages] = useState<Array<{ id: string; s3Url: string; originalName: string }>>([]);
+  const [linkDetailsFor, setLinkDetailsFor] = useState<{ token: string; orderNumber: string } | null>(null);
+  const [reviewingOrder, setReviewingOrder] = useState<{ token: string; orderNumber: string } | null>(null);
+  const [showOutreach, setShowOutreach] = useState(false);
+  const [outreachCount, setOutreachCount] = useState(0);
+  const [showFollowUps, setShowFollowUps] = useState(false);
+  const [showRetention, setShowRetention] = useState(false);
+  const [followUpCount, setFollowUpCount] = useState(0);
+  const [deleteModalImages, setDeleteModalImages] = useState<PreviewImage[]>([]);
+  const [deleteModalDuplicates, setDeleteModalDuplicates] = useState<Array<{ first: PreviewImage; second: PreviewImage; distance: number }>>([]);
 
   // Product filters
   const [productSearch, setProductSearch] = useState('');
@@ -71,10 +88,12 @@ export function AdminDashboard() {
 
   const loadData = useCallback(async () => {
     try {
-      const [meRes, ordersRes, linksRes] = await Promise.all([
+      const [meRes, ordersRes, linksRes, outreachRes, followUpsRes] = await Promise.all([
         api.getMe(),
         api.getOrders(10000, true), // Fetch 250 all orders
         api.getMagicLinks(),
+        api.getOutreachQueue(),
+        api.getFollowUps(),
       ]);
 
       if (!meRes.success) {
@@ -84,6 +103,8 @@ export function AdminDashboard() {
       }
 
       setUser(meRes.user || null);
+      setOutreachCount(outreachRes.outreach?.length || 0);
+      setFollowUpCount(followUpsRes.followUps?.length || 0);
       const allLinks = linksRes.links || [];
       setLinks(allLinks);
 
@@ -302,6 +323,34 @@ export function AdminDashboard() {
     }
   };
 
+  const handlePrintSheets = async (tokens: string[], key: string) => {
+    setPrintingFor(key);
+    try {
+      const { failedCount } = await api.downloadPrintSheets(tokens);
+      if (failedCount > 0) {
+        toast.error(`${failedCount} photo(s) could not be rendered and are missing from the sheets`);
+      }
+    } catch (err) {
+      console.error('Failed to build print sheets:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to build print sheets. Please try again.');
+    } finally {
+      setPrintingFor(null);
+    }
+  };
+
+  const handleOrderReopened = (token: string, reopenedAt: string) => {
+    setOrders(prev => prev.map(o =>
+      o.magicLink?.token === token
+        ? { ...o, magicLink: { ...o.magicLink, submittedForPrinting: false, reopenedAt } }
+        : o
+    ));
+  };
+
+  const handleLinkChanged = (link: MagicLinkInfo) => {
+    setOrders(prev => prev.map(o => (o.magicLink?.id === link.id ? { ...o, magicLink: link } : o)));
+    setLinks(prev => prev.map(l => (l.id === link.id ? link : l)));
+  };
+
   const handleCloseDeleteModal = () => {
     setShowDeleteModal(false);
     // Reset state after modal animation
@@ -309,6 +358,7 @@ export function AdminDashboard() {
       setDeleteModalToken(null);
       setDeleteModalOrderNumber(null);
       setDeleteModalImages([]);
+      setDeleteModalDuplicates([]);
     }, 200);
   };
 
@@ -323,6 +373,13 @@ export function AdminDashboard() {
       if (response.success && response.images) {
         // Get first 5 images
         setDeleteModalImages(response.images.slice(0, 5));
+
+        const byId = new Map(response.images.map(img => [img.id, img]));
+        setDeleteModalDuplicates((response.duplicates || []).flatMap(pair => {
+          const first = byId.get(pair.imageIds[0]);
+          const second = byId.get(pair.imageIds[1]);
+          return first && second ? [{ first, second, distance: pair.distance }] : [];
+        }));
       }
     } catch (err) {
       console.error('Failed to load images for preview:', err);
@@ -384,6 +441,10 @@ export function AdminDashboard() {
     );
   }
 
+  const readyToPrintTokens = orders
+    .filter(o => o.magicLink?.submittedForPrinting && !o.magicLink.imagesDeleted)
+    .map(o => o.magicLink!.token);
+
   const stats = [
     {
       label: 'Total Orders',
@@ -457,9 +518,46 @@ export function AdminDashboard() {
 
               {/* Recent Orders Section */}
               <div className={styles['content-section']}>
-                <div className={styles['section-header']}>
-                  <h2>Recent Orders</h2>
-                  <p>Orders that require photo uploads from customers</p>
+                <div className={`${styles['section-header']} ${styles['section-header-row']}`}>
+                  <div>
+                    <h2>Recent Orders</h2>
+                    <p>Orders that require photo uploads from customers</p>
+                  </div>
+                  <div className={styles['section-header-actions']}>
+                    <button
+                      className={styles['action-btn']}
+                      onClick={() => setShowFollowUps(true)}
+                      title="Reminders for customers who haven't finished uploading, and the upload funnel"
+                    >
+                      Follow-ups{followUpCount > 0 ? ` (${followUpCount})` : ''}
+                    </button>
+                    <button
+                      className={styles['action-btn']}
+                      onClick={() => setShowRetention(true)}
+                      title="Rules for deleting customer photos automatically, with a dry run and purge history"
+                    >
+                      Retention
+                    </button>
+                    {outreachCount > 0 && (
+                      <button
+                        className={styles['action-btn']}
+                        onClick={() => setShowOutreach(true)}
+                        title="Links created automatically for new orders, ready to send on WhatsApp"
+                      >
+                        Links to Send ({outreachCount})
+                      </button>
+                    )}
+                    {readyToPrintTokens.length > 0 && (
+                      <button
+                        className={`${styles['action-btn']} ${styles.primary}`}
+                        onClick={() => handlePrintSheets(readyToPrintTokens, 'all')}
+                        disabled={printingFor !== null}
+                        title="Impose every submitted order onto printer sheets"
+                      >
+                        {printingFor === 'all' ? 'Building sheets...' : `Print Sheets (${readyToPrintTokens.length} orders)`}
+                      </button>
+                    )}
+                  </div>
                 </div>
 
                 <div className={styles['table-card']}>
@@ -525,6 +623,16 @@ export function AdminDashboard() {
                                       </svg>
                                     )}
                                   </button>
+                                  <button
+                                    className={styles['icon-btn']}
+                                    onClick={() => setLinkDetailsFor({ token: order.magicLink!.token, orderNumber: order.name })}
+                                    title="Link history and settings"
+                                  >
+                                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                      <circle cx="12" cy="12" r="10" />
+                                      <polyline points="12 6 12 12 16 14" />
+                                    </svg>
+                                  </button>
                                 </div>
                               ) : (
                                 <span className={styles['no-link']}>—</span>
@@ -536,6 +644,11 @@ export function AdminDashboard() {
                                   <div className={styles['progress-ring']}>
                                     <span>{order.magicLink.currentUploads}/{order.magicLink.maxUploads}</span>
                                   </div>
+                                  {order.magicLink.reopenedAt && !order.magicLink.submittedForPrinting && (
+                                    <span className={styles['awaiting-badge']} title="Photos were rejected in review">
+                                      Awaiting replacements
+                                    </span>
+                                  )}
                                 </div>
                               ) : (
                                 <button
@@ -548,8 +661,18 @@ export function AdminDashboard() {
                               )}
                             </td>
                             <td>
-                              {order.magicLink && order.magicLink.currentUploads === order.magicLink.maxUploads && !order.magicLink.imagesDeleted ? (
+                              {order.magicLink && (order.magicLink.submittedForPrinting || order.magicLink.reopenedAt || order.magicLink.currentUploads === order.magicLink.maxUploads) && !order.magicLink.imagesDeleted ? (
                                 <div style={{ display: 'flex', gap: '8px' }}>
+                                  <button
+                                    className={styles['icon-btn']}
+                                    onClick={() => setReviewingOrder({ token: order.magicLink!.token, orderNumber: order.name })}
+                                    title="Review photos"
+                                  >
+                                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                      <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
+                                      <circle cx="12" cy="12" r="3" />
+                                    </svg>
+                                  </button>
                                   <button
                                     className={`${styles['icon-btn']} ${styles.download}`}
                                     onClick={() => handleDownloadImages(order.magicLink!.token)}
@@ -569,6 +692,27 @@ export function AdminDashboard() {
                                       </svg>
                                     )}
                                   </button>
+                                  {order.magicLink.submittedForPrinting && (
+                                    <button
+                                      className={styles['icon-btn']}
+                                      onClick={() => handlePrintSheets([order.magicLink!.token], order.magicLink!.token)}
+                                      disabled={printingFor !== null}
+                                      title="Download print sheets (PDF)"
+                                    >
+                                      {printingFor === order.magicLink.token ? (
+                                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={styles.spinner}>
+                                          <circle cx="12" cy="12" r="10" opacity="0.25" />
+                                          <path d="M4 12a8 8 0 018-8" opacity="0.75" />
+                                        </svg>
+                                      ) : (
+                                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                          <polyline points="6 9 6 2 18 2 18 9" />
+                                          <path d="M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2" />
+                                          <rect x="6" y="14" width="12" height="8" />
+                                        </svg>
+                                      )}
+                                    </button>
+                                  )}
                                   <button
                                     className={`${styles['icon-btn']} ${styles.delete}`}
                                     onClick={() => handleDeleteImagesClick(order.magicLink!.token, order.name)}
@@ -942,6 +1086,45 @@ export function AdminDashboard() {
         </div>
       )}
 
+      {linkDetailsFor && (
+        <MagicLinkDetailsModal
+          token={linkDetailsFor.token}
+          orderNumber={linkDetailsFor.orderNumber}
+          onClose={() => setLinkDetailsFor(null)}
+          onChange={handleLinkChanged}
+        />
+      )}
+
+      {showOutreach && (
+        <OutreachQueueModal
+          onClose={() => setShowOutreach(false)}
+          onCountChange={setOutreachCount}
+        />
+      )}
+
+      {showFollowUps && (
+        <FollowUpQueueModal
+          onClose={() => setShowFollowUps(false)}
+          onCountChange={setFollowUpCount}
+        />
+      )}
+
+      {showRetention && (
+        <RetentionModal
+          onClose={() => setShowRetention(false)}
+          onPurged={loadData}
+        />
+      )}
+
+      {reviewingOrder && (
+        <PhotoReviewModal
+          token={reviewingOrder.token}
+          orderNumber={reviewingOrder.orderNumber}
+          onClose={() => setReviewingOrder(null)}
+          onReopened={(reopenedAt) => handleOrderReopened(reviewingOrder.token, reopenedAt)}
+        />
+      )}
+
       {/* Delete Images Confirmation Modal */}
       {showDeleteModal && (
         <div className={styles['modal-overlay']} onClick={handleCloseDeleteModal}>
@@ -1002,7 +1185,7 @@ export function AdminDashboard() {
                   <div className={styles['preview-images']}>
                     {deleteModalImages.map((img) => (
                       <div key={img.id} className={styles['preview-thumbnail']}>
-                        <img src={img.s3Url} alt={img.originalName} />
+                        <img src={img.thumbnailUrl || img.s3Url} alt={img.originalName} />
                       </div>
                     ))}
                   </div>
@@ -1016,6 +1199,37 @@ export function AdminDashboard() {
                   )}
                 </div>
               )}
+
+              {deleteModalDuplicates.length > 0 && (
+                <div className={styles['images-preview-section']}>
+                  <div className={styles['images-preview-header']}>
+                    <div className={styles['images-preview-title']}>
+                      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <rect x="9" y="9" width="13" height="13" rx="2" ry="2" />
+                        <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" />
+                      </svg>
+                      <h3>Possible Duplicates</h3>
+                    </div>
+                    <span className={styles['images-count']}>
+                      {deleteModalDuplicates.length} {deleteModalDuplicates.length === 1 ? 'pair' : 'pairs'}
+                    </span>
+                  </div>
+                  <div className={styles['duplicate-pairs']}>
+                    {deleteModalDuplicates.map(({ first, second, distance }) => (
+                      <div key={`${first.id}-${second.id}`} className={styles['duplicate-pair']}>
+                        {[first, second].map(img => (
+                          <div key={img.id} className={styles['preview-thumbnail']} title={img.originalName}>
+                            <img src={img.thumbnailUrl || img.s3Url} alt={img.originalName} />
+                          </div>
+                        ))}
+                        <span className={styles['duplicate-distance']}>
+                          {distance === 0 ? 'Identical' : `${distance} bit${distance === 1 ? '' : 's'} apart`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className={styles['modal-footer']}>
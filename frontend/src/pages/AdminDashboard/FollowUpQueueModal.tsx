@@ -0,0 +1,243 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { api } from '../../services/api';
+import type { FollowUp, UploadFunnel } from '../../services/api';
+import { buildWhatsAppLink } from './whatsapp';
+import styles from '../AdminDashboard.module.css';
+
+const STAGE_LABELS: Record<FollowUp['stage'], string> = {
+  not_opened: 'Never opened',
+  not_started: 'Opened, no photos',
+  incomplete: 'Uploading',
+  not_submitted: 'Not submitted',
+};
+
+const FUNNEL_WINDOWS = [7, 30, 90];
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '–');
+
+interface FollowUpQueueModalProps {
+  onClose: () => void;
+  onCountChange: (count: number) => void;
+}
+
+export function FollowUpQueueModal({ onClose, onCountChange }: FollowUpQueueModalProps) {
+  const [followUps, setFollowUps] = useState<FollowUp[]>([]);
+  const [funnel, setFunnel] = useState<UploadFunnel | null>(null);
+  const [funnelDays, setFunnelDays] = useState(30);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyToken, setBusyToken] = useState<string | null>(null);
+  const [delaysInput, setDelaysInput] = useState('');
+  const [template, setTemplate] = useState('');
+  const [showSettings, setShowSettings] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const [queueRes, templateRes] = await Promise.all([
+        api.getFollowUps(),
+        api.getReminderTemplate(),
+      ]);
+      if (queueRes.success) {
+        setFollowUps(queueRes.followUps || []);
+        setDelaysInput((queueRes.delaysHours || []).join(', '));
+        onCountChange(queueRes.followUps?.length || 0);
+      } else {
+        toast.error(queueRes.error || 'Failed to load follow-ups');
+      }
+      if (templateRes.success) {
+        setTemplate(templateRes.message || '');
+      }
+    } catch {
+      toast.error('Failed to load follow-ups');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onCountChange]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  useEffect(() => {
+    api.getUploadFunnel(funnelDays)
+      .then(response => setFunnel(response.success ? response.funnel || null : null))
+      .catch(() => setFunnel(null));
+  }, [funnelDays]);
+
+  const handleSend = async (followUp: FollowUp) => {
+    window.open(buildWhatsAppLink(followUp.customerPhone, followUp.message), '_blank', 'noopener');
+
+    setBusyToken(followUp.token);
+    try {
+      const response = await api.recordReminder(followUp.token, followUp.message);
+      if (response.success) {
+        const remaining = followUps.filter(f => f.token !== followUp.token);
+        setFollowUps(remaining);
+        onCountChange(remaining.length);
+      } else {
+        toast.error(response.error || 'Failed to record reminder');
+      }
+    } catch {
+      toast.error('Failed to record reminder');
+    } finally {
+      setBusyToken(null);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    const delaysHours = delaysInput.split(',').map(d => parseInt(d.trim(), 10)).filter(d => !isNaN(d));
+
+    setIsSavingSettings(true);
+    try {
+      const [delaysRes, templateRes] = await Promise.all([
+        api.saveReminderDelays(delaysHours),
+        api.saveReminderTemplate(template),
+      ]);
+      if (delaysRes.success && templateRes.success) {
+        toast.success('Reminder settings saved');
+        setShowSettings(false);
+        await loadQueue();
+      } else {
+        toast.error(delaysRes.error || templateRes.error || 'Failed to save settings');
+      }
+    } catch {
+      toast.error('Failed to save settings');
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const funnelSteps = funnel
+    ? [
+        { label: 'Link created', value: funnel.created },
+        { label: 'Opened', value: funnel.opened },
+        { label: 'First photo', value: funnel.firstPhoto },
+        { label: 'Submitted', value: funnel.submitted },
+      ]
+    : [];
+
+  return (
+    <div className={styles['modal-overlay']} onClick={onClose}>
+      <div className={`${styles['modal-content']} ${styles['outreach-modal']}`} onClick={(e) => e.stopPropagation()}>
+        <div className={styles['modal-header']}>
+          <h2>Upload Follow-ups</h2>
+          <button className={styles['modal-close']} onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className={styles['modal-body']}>
+          {funnel && (
+            <div className={styles['funnel']}>
+              <div className={styles['funnel-header']}>
+                <span>Links created in the last</span>
+                {FUNNEL_WINDOWS.map(days => (
+                  <button
+                    key={days}
+                    className={`${styles['funnel-window']} ${funnelDays === days ? styles.active : ''}`}
+                    onClick={() => setFunnelDays(days)}
+                  >
+                    {days} days
+                  </button>
+                ))}
+              </div>
+              <div className={styles['funnel-steps']}>
+                {funnelSteps.map(step => (
+                  <div key={step.label} className={styles['funnel-step']}>
+                    <span className={styles['funnel-value']}>{step.value}</span>
+                    <span className={styles['funnel-label']}>{step.label}</span>
+                    <span className={styles['funnel-rate']}>{percent(step.value, funnel.created)}</span>
+                  </div>
+                ))}
+              </div>
+              <p className={styles['funnel-note']}>
+                {funnel.reminded} reminded · {funnel.submittedAfterReminder} of them submitted ({percent(funnel.submittedAfterReminder, funnel.reminded)})
+              </p>
+            </div>
+          )}
+
+          <p className={styles['modal-description']}>
+            Unfinished links whose next reminder is due.
+            <button className={styles['outreach-template-toggle']} onClick={() => setShowSettings(!showSettings)}>
+              {showSettings ? 'Hide settings' : 'Reminder settings'}
+            </button>
+          </p>
+
+          {showSettings && (
+            <div className={styles['outreach-template']}>
+              <label className={styles['follow-up-delays']}>
+                <span>Hours before each reminder (first counts from link creation, the rest from the previous reminder)</span>
+                <input
+                  type="text"
+                  value={delaysInput}
+                  onChange={(e) => setDelaysInput(e.target.value)}
+                  placeholder="24, 48, 96"
+                />
+              </label>
+              <textarea
+                rows={4}
+                value={template}
+                onChange={(e) => setTemplate(e.target.value)}
+              />
+              <div className={styles['outreach-template-footer']}>
+                <span>[name], [order], [link], [prints], [uploaded] and [remaining] are filled in.</span>
+                <button
+                  className={`${styles['modal-btn']} ${styles.confirm}`}
+                  onClick={handleSaveSettings}
+                  disabled={isSavingSettings || !template.trim()}
+                >
+                  {isSavingSettings ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className={styles['loading-section']}>
+              <div className={styles.spinner}></div>
+              <p>Loading follow-ups...</p>
+            </div>
+          ) : followUps.length === 0 ? (
+            <p className={styles['modal-description']}>No reminders due right now.</p>
+          ) : (
+            <ul className={styles['outreach-list']}>
+              {followUps.map(followUp => (
+                <li key={followUp.token}>
+                  <div className={styles['outreach-head']}>
+                    <span className={styles['outreach-order']}>{followUp.orderNumber}</span>
+                    <span>{followUp.customerName}</span>
+                    <span className={styles['outreach-phone']}>{followUp.customerPhone || 'No phone on order'}</span>
+                  </div>
+                  <div className={styles['follow-up-meta']}>
+                    {STAGE_LABELS[followUp.stage]} · {followUp.currentUploads}/{followUp.maxUploads} photos · Reminder {followUp.attempt}
+                    {followUp.lastReminderAt && ` · last sent ${new Date(followUp.lastReminderAt).toLocaleDateString()}`}
+                  </div>
+                  <p className={styles['outreach-message']}>{followUp.message}</p>
+                  <div className={styles['outreach-actions']}>
+                    <button
+                      className={`${styles['modal-btn']} ${styles.confirm}`}
+                      onClick={() => handleSend(followUp)}
+                      disabled={busyToken !== null}
+                    >
+                      {busyToken === followUp.token ? 'Saving...' : 'Send reminder'}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className={styles['modal-footer']}>
+          <button className={`${styles['modal-btn']} ${styles.cancel}`} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
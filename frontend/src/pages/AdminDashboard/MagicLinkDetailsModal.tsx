@@ -0,0 +1,327 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { api } from '../../services/api';
+import type { MagicLinkInfo, MagicLinkEvent, PrintAllowance, BlockedUploadAttempt } from '../../services/api';
+import styles from '../AdminDashboard.module.css';
+
+type Allowance = Omit<PrintAllowance, 'used'>;
+
+const EVENT_LABELS: Record<MagicLinkEvent['type'], string> = {
+  created: 'Link created',
+  opened: 'Opened by customer',
+  uploaded: 'Photo uploaded',
+  replaced: 'Photo replaced',
+  deleted: 'Photo deleted',
+  settings_changed: 'Print options changed',
+  submitted: 'Submitted for printing',
+  reopened: 'Reopened',
+  photo_rejected: 'Photo rejected',
+  expiry_extended: 'Expiry extended',
+  limit_changed: 'Prints changed',
+  token_reissued: 'Link reissued',
+  pin_changed: 'PIN setting changed',
+  reminder_sent: 'Reminder sent',
+  images_deleted: 'Photos deleted',
+  deactivated: 'Link deactivated',
+};
+
+const BLOCKED_LABELS: Record<BlockedUploadAttempt['reason'], string> = {
+  rate_limit_ip: 'Too many requests from one address',
+  rate_limit_token: 'Too many requests on this link',
+  hourly_cap: 'Hourly upload limit reached',
+  bad_file: 'Not an image file',
+  pin_required: 'No PIN entered',
+  pin_invalid: 'Wrong PIN',
+  pin_locked: 'Locked out after wrong PINs',
+};
+
+const EXTEND_OPTIONS = [7, 30];
+
+const SIZE_LABELS = { small: 'Small', large: 'Large' } as const;
+const TYPE_LABELS = { normal: 'Normal', polaroid: 'Polaroid' } as const;
+
+const describeAllowance = (a: Allowance) => {
+  if (a.photoSize && a.photoType) return `${SIZE_LABELS[a.photoSize]} ${TYPE_LABELS[a.photoType]}`;
+  if (a.photoSize) return `${SIZE_LABELS[a.photoSize]}, any style`;
+  if (a.photoType) return `${TYPE_LABELS[a.photoType]}, any size`;
+  return 'Any size or style';
+};
+
+const getLinkStatus = (link: MagicLinkInfo): string => {
+  if (link.imagesDeleted) return 'Images deleted';
+  if (!link.isActive) return 'Deactivated';
+  if (link.submittedForPrinting) return 'Submitted';
+  if (link.reopenedAt) return 'Awaiting replacements';
+  if (new Date(link.expiresAt) < new Date()) return 'Expired';
+  return 'Open';
+};
+
+interface MagicLinkDetailsModalProps {
+  token: string;
+  orderNumber: string;
+  onClose: () => void;
+  onChange: (link: MagicLinkInfo) => void;
+}
+
+export function MagicLinkDetailsModal({ token, orderNumber, onClose, onChange }: MagicLinkDetailsModalProps) {
+  const [link, setLink] = useState<MagicLinkInfo | null>(null);
+  const [events, setEvents] = useState<MagicLinkEvent[]>([]);
+  const [blockedAttempts, setBlockedAttempts] = useState<BlockedUploadAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [allowances, setAllowances] = useState<Allowance[]>([]);
+
+  const loadHistory = useCallback(async (linkToken: string) => {
+    try {
+      const [response, blockedResponse] = await Promise.all([
+        api.getMagicLinkEvents(linkToken),
+        api.getBlockedUploadAttempts(linkToken),
+      ]);
+      setBlockedAttempts(blockedResponse.success ? blockedResponse.attempts || [] : []);
+      if (response.success && response.magicLink) {
+        setLink(response.magicLink);
+        setEvents(response.events || []);
+        setAllowances(
+          response.magicLink.allowances && response.magicLink.allowances.length > 0
+            ? response.magicLink.allowances.map(a => ({ ...a }))
+            : [{ quantity: response.magicLink.maxUploads }]
+        );
+      } else {
+        toast.error(response.error || 'Failed to load link history');
+      }
+    } catch {
+      toast.error('Failed to load link history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory(token);
+  }, [token, loadHistory]);
+
+  // Every lifecycle action returns the updated link; reload history so the new event shows
+  const runAction = async (key: string, action: () => Promise<{ success: boolean; magicLink?: MagicLinkInfo; error?: string }>, successMessage: string) => {
+    setBusyAction(key);
+    try {
+      const response = await action();
+      if (response.success && response.magicLink) {
+        onChange(response.magicLink);
+        await loadHistory(response.magicLink.token);
+        toast.success(successMessage);
+      } else {
+        toast.error(response.error || 'Something went wrong');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleReissue = () => {
+    if (!link) return;
+    if (!window.confirm('Create a new link for this order? The current link will stop working immediately.')) return;
+    runAction('reissue', () => api.reissueMagicLink(link.token), 'New link created — send it to the customer');
+  };
+
+  const updateQuantity = (index: number, quantity: number) => {
+    setAllowances(prev => prev.map((a, i) => (i === index ? { ...a, quantity } : a)));
+  };
+
+  const totalPrints = allowances.reduce((sum, a) => sum + (a.quantity || 0), 0);
+  const savedAllowances = link?.allowances?.length ? link.allowances : [{ quantity: link?.maxUploads || 0 }];
+  const limitsChanged = allowances.some((a, i) => a.quantity !== savedAllowances[i]?.quantity);
+  const limitsValid = allowances.every(a => Number.isInteger(a.quantity) && a.quantity >= 1);
+  const isSplit = allowances.some(a => a.photoSize || a.photoType);
+
+  return (
+    <div className={styles['modal-overlay']} onClick={onClose}>
+      <div className={`${styles['modal-content']} ${styles['link-details-modal']}`} onClick={(e) => e.stopPropagation()}>
+        <div className={styles['modal-header']}>
+          <h2>Upload Link · {orderNumber}</h2>
+          <button className={styles['modal-close']} onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className={styles['modal-body']}>
+          {isLoading || !link ? (
+            <div className={styles['loading-section']}>
+              <div className={styles.spinner}></div>
+              <p>Loading link...</p>
+            </div>
+          ) : (
+            <>
+              <div className={styles['link-summary']}>
+                <div>
+                  <span className={styles['link-summary-label']}>Status</span>
+                  <span className={styles['link-summary-value']}>{getLinkStatus(link)}</span>
+                </div>
+                <div>
+                  <span className={styles['link-summary-label']}>Expires</span>
+                  <span className={styles['link-summary-value']}>{new Date(link.expiresAt).toLocaleDateString()}</span>
+                </div>
+                <div>
+                  <span className={styles['link-summary-label']}>Uploaded</span>
+                  <span className={styles['link-summary-value']}>{link.currentUploads}/{link.maxUploads}</span>
+                </div>
+              </div>
+
+              <div className={styles['link-actions']}>
+                <div className={styles['link-action-row']}>
+                  <span className={styles['link-summary-label']}>Extend</span>
+                  {EXTEND_OPTIONS.map(days => (
+                    <button
+                      key={days}
+                      className={styles['link-action-btn']}
+                      onClick={() => runAction(`extend-${days}`, () => api.extendMagicLink(link.token, days), `Link extended by ${days} days`)}
+                      disabled={busyAction !== null}
+                    >
+                      {busyAction === `extend-${days}` ? 'Extending...' : `+${days} days`}
+                    </button>
+                  ))}
+                </div>
+
+                <div className={styles['link-action-row']}>
+                  <span className={styles['link-summary-label']}>Prints</span>
+                  {allowances.map((allowance, index) => (
+                    <label key={index} className={styles['link-allowance-input']}>
+                      {isSplit && <span>{describeAllowance(allowance)}</span>}
+                      <input
+                        type="number"
+                        min={1}
+                        value={allowance.quantity || ''}
+                        onChange={(e) => updateQuantity(index, parseInt(e.target.value, 10) || 0)}
+                      />
+                    </label>
+                  ))}
+                  <button
+                    className={styles['link-action-btn']}
+                    onClick={() => runAction(
+                      'limits',
+                      () => api.updateMagicLinkLimits(link.token, isSplit ? { allowances } : { maxUploads: totalPrints }),
+                      `Order now has ${totalPrints} prints`
+                    )}
+                    disabled={busyAction !== null || !limitsChanged || !limitsValid}
+                  >
+                    {busyAction === 'limits' ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+
+                <div className={styles['link-action-row']}>
+                  <span className={styles['link-summary-label']}>PIN</span>
+                  {link.pin ? (
+                    <>
+                      <span className={styles['link-pin-status']}>
+                        {link.pinRequired ? `Required · ${link.pin}` : 'Off'}
+                      </span>
+                      <button
+                        className={styles['link-action-btn']}
+                        onClick={() => runAction(
+                          'pin',
+                          () => api.setMagicLinkPin(link.token, !link.pinRequired),
+                          link.pinRequired ? 'PIN removed' : 'Customer now needs the PIN to open the link'
+                        )}
+                        disabled={busyAction !== null}
+                        title="Last 4 digits of the order phone"
+                      >
+                        {busyAction === 'pin' ? 'Saving...' : link.pinRequired ? 'Remove PIN' : 'Require PIN'}
+                      </button>
+                    </>
+                  ) : (
+                    <span className={styles['link-pin-status']}>No phone number on the order</span>
+                  )}
+                </div>
+
+                <div className={styles['link-action-row']}>
+                  {(link.submittedForPrinting || !link.isActive || getLinkStatus(link) === 'Expired') && !link.imagesDeleted && (
+                    <button
+                      className={styles['link-action-btn']}
+                      onClick={() => runAction('reopen', () => api.reopenMagicLink(link.token), 'Link reopened for the customer')}
+                      disabled={busyAction !== null}
+                      title="Let the customer add photos and replace rejected ones; submitted photos stay locked"
+                    >
+                      {busyAction === 'reopen' ? 'Reopening...' : 'Reopen'}
+                    </button>
+                  )}
+                  {(link.submittedForPrinting || link.reopenedAt) && !link.imagesDeleted && (
+                    <button
+                      className={styles['link-action-btn']}
+                      onClick={() => runAction('unlock', () => api.reopenMagicLink(link.token, true), 'Customer can now change any photo')}
+                      disabled={busyAction !== null}
+                      title="Let the customer change any photo again, including ones already submitted"
+                    >
+                      {busyAction === 'unlock' ? 'Unlocking...' : 'Unlock all photos'}
+                    </button>
+                  )}
+                  <button
+                    className={`${styles['link-action-btn']} ${styles.danger}`}
+                    onClick={handleReissue}
+                    disabled={busyAction !== null}
+                    title="Use when the link was sent to the wrong person"
+                  >
+                    {busyAction === 'reissue' ? 'Reissuing...' : 'Reissue link'}
+                  </button>
+                </div>
+              </div>
+
+              <div className={styles['link-history']}>
+                <h3>History</h3>
+                {events.length === 0 ? (
+                  <p className={styles['modal-description']}>No activity recorded yet.</p>
+                ) : (
+                  <ul>
+                    {events.map(event => (
+                      <li key={event.id} className={styles[`event-${event.actor}`]}>
+                        <div className={styles['link-history-title']}>
+                          <span>{EVENT_LABELS[event.type]}</span>
+                          <time>{new Date(event.createdAt).toLocaleString()}</time>
+                        </div>
+                        {(event.details || event.adminUser) && (
+                          <div className={styles['link-history-details']}>
+                            {event.details}
+                            {event.adminUser && <span> · {event.adminUser}</span>}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {blockedAttempts.length > 0 && (
+                <div className={styles['link-history']}>
+                  <h3>Blocked Attempts</h3>
+                  <ul>
+                    {blockedAttempts.map(attempt => (
+                      <li key={attempt.id} className={styles['event-blocked']}>
+                        <div className={styles['link-history-title']}>
+                          <span>{BLOCKED_LABELS[attempt.reason]}</span>
+                          <time>{new Date(attempt.createdAt).toLocaleString()}</time>
+                        </div>
+                        <div className={styles['link-history-details']}>
+                          {attempt.method} {attempt.path} · {attempt.ip}
+                          {attempt.details && <span> · {attempt.details}</span>}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className={styles['modal-footer']}>
+          <button className={`${styles['modal-btn']} ${styles.cancel}`} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { api } from '../../services/api';
+import type { MagicLinkOutreach } from '../../services/api';
+import { buildWhatsAppLink } from './whatsapp';
+import styles from '../AdminDashboard.module.css';
+
+interface OutreachQueueModalProps {
+  onClose: () => void;
+  onCountChange: (count: number) => void;
+}
+
+export function OutreachQueueModal({ onClose, onCountChange }: OutreachQueueModalProps) {
+  const [entries, setEntries] = useState<MagicLinkOutreach[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [template, setTemplate] = useState('');
+  const [showTemplate, setShowTemplate] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      try {
+        const [queueRes, templateRes] = await Promise.all([
+          api.getOutreachQueue(),
+          api.getOutreachTemplate(),
+        ]);
+        if (queueRes.success) {
+          setEntries(queueRes.outreach || []);
+        } else {
+          toast.error(queueRes.error || 'Failed to load outreach queue');
+        }
+        if (templateRes.success) {
+          setTemplate(templateRes.message || '');
+        }
+      } catch {
+        toast.error('Failed to load outreach queue');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadQueue();
+  }, []);
+
+  const handleMark = async (entry: MagicLinkOutreach, status: 'sent' | 'skipped') => {
+    setBusyId(entry.id);
+    try {
+      const response = await api.markOutreach(entry.id, status);
+      if (response.success) {
+        const remaining = entries.filter(e => e.id !== entry.id);
+        setEntries(remaining);
+        onCountChange(remaining.length);
+      } else {
+        toast.error(response.error || 'Failed to update');
+      }
+    } catch {
+      toast.error('Failed to update');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSend = (entry: MagicLinkOutreach) => {
+    window.open(buildWhatsAppLink(entry.customerPhone, entry.message), '_blank', 'noopener');
+    handleMark(entry, 'sent');
+  };
+
+  const handleSaveTemplate = async () => {
+    setIsSavingTemplate(true);
+    try {
+      const response = await api.saveOutreachTemplate(template);
+      if (response.success) {
+        toast.success('Template saved for new links');
+        setShowTemplate(false);
+      } else {
+        toast.error(response.error || 'Failed to save template');
+      }
+    } catch {
+      toast.error('Failed to save template');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  return (
+    <div className={styles['modal-overlay']} onClick={onClose}>
+      <div className={`${styles['modal-content']} ${styles['outreach-modal']}`} onClick={(e) => e.stopPropagation()}>
+        <div className={styles['modal-header']}>
+          <h2>Links to Send</h2>
+          <button className={styles['modal-close']} onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className={styles['modal-body']}>
+          <p className={styles['modal-description']}>
+            Upload links created automatically for new printed-photo orders. Send each one on WhatsApp, or skip it.
+            <button className={styles['outreach-template-toggle']} onClick={() => setShowTemplate(!showTemplate)}>
+              {showTemplate ? 'Hide message template' : 'Edit message template'}
+            </button>
+          </p>
+
+          {showTemplate && (
+            <div className={styles['outreach-template']}>
+              <textarea
+                rows={4}
+                value={template}
+                onChange={(e) => setTemplate(e.target.value)}
+              />
+              <div className={styles['outreach-template-footer']}>
+                <span>[name], [order], [link] and [prints] are filled in. Applies to links created after saving.</span>
+                <button
+                  className={`${styles['modal-btn']} ${styles.confirm}`}
+                  onClick={handleSaveTemplate}
+                  disabled={isSavingTemplate || !template.trim()}
+                >
+                  {isSavingTemplate ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className={styles['loading-section']}>
+              <div className={styles.spinner}></div>
+              <p>Loading queue...</p>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className={styles['modal-description']}>Nothing to send right now.</p>
+          ) : (
+            <ul className={styles['outreach-list']}>
+              {entries.map(entry => (
+                <li key={entry.id}>
+                  <div className={styles['outreach-head']}>
+                    <span className={styles['outreach-order']}>{entry.orderNumber}</span>
+                    <span>{entry.customerName}</span>
+                    <span className={styles['outreach-phone']}>{entry.customerPhone || 'No phone on order'}</span>
+                  </div>
+                  <p className={styles['outreach-message']}>{entry.message}</p>
+                  <div className={styles['outreach-actions']}>
+                    <button
+                      className={`${styles['modal-btn']} ${styles.cancel}`}
+                      onClick={() => handleMark(entry, 'skipped')}
+                      disabled={busyId !== null}
+                    >
+                      Skip
+                    </button>
+                    <button
+                      className={`${styles['modal-btn']} ${styles.confirm}`}
+                      onClick={() => handleSend(entry)}
+                      disabled={busyId !== null}
+                    >
+                      {busyId === entry.id ? 'Saving...' : 'Send on WhatsApp'}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className={styles['modal-footer']}>
+          <button className={`${styles['modal-btn']} ${styles.cancel}`} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { api } from '../../services/api';
+import type { ReviewImage, DuplicatePair } from '../../services/api';
+import styles from '../AdminDashboard.module.css';
+
+// Matches the server limit
+const MAX_REASON_LENGTH = 300;
+
+const QUICK_REASONS = [
+  'Too dark to print well',
+  'Wrong orientation',
+  'Too blurry',
+  'Inappropriate content',
+];
+
+interface PhotoReviewModalProps {
+  token: string;
+  orderNumber: string;
+  onClose: () => void;
+  // Rejecting a photo on a submitted order reopens it for the customer
+  onReopened: (reopenedAt: string) => void;
+}
+
+export function PhotoReviewModal({ token, orderNumber, onClose, onReopened }: PhotoReviewModalProps) {
+  const [images, setImages] = useState<ReviewImage[]>([]);
+  const [duplicates, setDuplicates] = useState<DuplicatePair[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadImages = async () => {
+      try {
+        const response = await api.getReviewImages(token);
+        if (response.success && response.images) {
+          setImages(response.images);
+          setDuplicates(response.duplicates || []);
+        } else {
+          toast.error(response.error || 'Failed to load photos');
+        }
+      } catch {
+        toast.error('Failed to load photos');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadImages();
+  }, [token]);
+
+  const duplicateIds = new Set(duplicates.flatMap(pair => pair.imageIds));
+  const openRejections = images.filter(img => img.rejection && !img.rejection.replacedAt).length;
+
+  const startRejecting = (imageId: string) => {
+    setRejectingId(imageId);
+    setReason('');
+  };
+
+  const handleReject = async () => {
+    if (!rejectingId || !reason.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const response = await api.rejectImage(token, rejectingId, reason.trim());
+      if (response.success && response.rejection) {
+        setImages(prev => prev.map(img => (img.id === rejectingId ? { ...img, rejection: response.rejection } : img)));
+        setRejectingId(null);
+        if (response.reopenedAt) {
+          onReopened(response.reopenedAt);
+        }
+        toast.success('Photo sent back to the customer');
+      } else {
+        toast.error(response.error || 'Failed to reject photo');
+      }
+    } catch {
+      toast.error('Failed to reject photo');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={styles['modal-overlay']} onClick={onClose}>
+      <div className={`${styles['modal-content']} ${styles['review-modal']}`} onClick={(e) => e.stopPropagation()}>
+        <div className={styles['modal-header']}>
+          <h2>Review Photos · {orderNumber}</h2>
+          <button className={styles['modal-close']} onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className={styles['modal-body']}>
+          <p className={styles['modal-description']}>
+            Rejecting a photo reopens the order so the customer can replace just that photo and resubmit.
+            {openRejections > 0 && ` ${openRejections} photo(s) are waiting for a replacement.`}
+          </p>
+
+          {isLoading ? (
+            <div className={styles['loading-section']}>
+              <div className={styles.spinner}></div>
+              <p>Loading photos...</p>
+            </div>
+          ) : images.length === 0 ? (
+            <p className={styles['modal-description']}>No photos uploaded yet.</p>
+          ) : (
+            <div className={styles['review-grid']}>
+              {images.map(img => {
+                const isRejected = !!img.rejection && !img.rejection.replacedAt;
+                return (
+                  <div
+                    key={img.id}
+                    className={`${styles['review-card']} ${isRejected ? styles.rejected : ''}`}
+                  >
+                    <div className={styles['review-thumb']}>
+                      <img src={img.thumbnailUrl || img.s3Url} alt={img.originalName} />
+                      {img.copies > 1 && <span className={styles['review-copies']}>×{img.copies}</span>}
+                    </div>
+                    <div className={styles['review-meta']}>
+                      <span className={styles['review-name']} title={img.originalName}>{img.originalName}</span>
+                      <span className={styles['review-tags']}>
+                        {img.photoSize === 'large' ? 'Large' : 'Small'} · {img.photoType === 'polaroid' ? 'Polaroid' : 'Normal'}
+                        {img.quality && img.quality.verdict !== 'ok' && ` · ${img.quality.effectiveDpi} DPI`}
+                        {duplicateIds.has(img.id) && ' · Duplicate?'}
+                      </span>
+                      {img.rejection && (
+                        <span className={styles['review-reason']}>
+                          {img.rejection.replacedAt ? 'Replaced after: ' : 'Rejected: '}
+                          {img.rejection.reason}
+                        </span>
+                      )}
+                    </div>
+
+                    {rejectingId === img.id ? (
+                      <div className={styles['review-reject-form']}>
+                        <div className={styles['review-quick-reasons']}>
+                          {QUICK_REASONS.map(quick => (
+                            <button key={quick} type="button" onClick={() => setReason(quick)}>
+                              {quick}
+                            </button>
+                          ))}
+                        </div>
+                        <textarea
+                          value={reason}
+                          maxLength={MAX_REASON_LENGTH}
+                          rows={2}
+                          placeholder="Tell the customer what to fix"
+                          onChange={(e) => setReason(e.target.value)}
+                          autoFocus
+                        />
+                        <div className={styles['review-reject-actions']}>
+                          <button
+                            className={`${styles['modal-btn']} ${styles.cancel}`}
+                            onClick={() => setRejectingId(null)}
+                            disabled={isSaving}
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            className={`${styles['modal-btn']} ${styles.danger}`}
+                            onClick={handleReject}
+                            disabled={!reason.trim() || isSaving}
+                          >
+                            {isSaving ? 'Rejecting...' : 'Reject'}
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      !isRejected && (
+                        <button className={styles['review-reject-btn']} onClick={() => startRejecting(img.id)}>
+                          Reject
+                        </button>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className={styles['modal-footer']}>
+          <button className={`${styles['modal-btn']} ${styles.cancel}`} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
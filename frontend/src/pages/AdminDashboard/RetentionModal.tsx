@@ -0,0 +1,283 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { api } from '../../services/api';
+import type { RetentionRule, RetentionPreview, RetentionPurge } from '../../services/api';
+import styles from '../AdminDashboard.module.css';
+
+const TRIGGERS: { trigger: RetentionRule['trigger']; label: string; hint: string }[] = [
+  { trigger: 'delivered', label: 'After delivery', hint: 'days after the parcel is delivered' },
+  { trigger: 'rto', label: 'RTO orders', hint: 'days after submission, for orders that came back' },
+  { trigger: 'submitted', label: 'Any order', hint: 'days after submission, even without delivery data' },
+];
+
+const TRIGGER_LABELS: Record<RetentionRule['trigger'], string> = {
+  delivered: 'Delivered',
+  rto: 'RTO',
+  submitted: 'Submitted',
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+interface RetentionModalProps {
+  onClose: () => void;
+  onPurged: () => void;
+}
+
+export function RetentionModal({ onClose, onPurged }: RetentionModalProps) {
+  const [enabled, setEnabled] = useState(false);
+  // Days per trigger as typed; an empty box means the rule is off
+  const [days, setDays] = useState<Record<RetentionRule['trigger'], string>>({ delivered: '', rto: '', submitted: '' });
+  const [lastRunAt, setLastRunAt] = useState<string | undefined>();
+  const [purges, setPurges] = useState<RetentionPurge[]>([]);
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const [expandedPurge, setExpandedPurge] = useState<RetentionPurge | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPurging, setIsPurging] = useState(false);
+
+  const loadPreview = useCallback(async () => {
+    try {
+      const response = await api.getRetentionPreview();
+      if (response.success) {
+        setPreview({
+          generatedAt: response.generatedAt!,
+          totalLinks: response.totalLinks || 0,
+          totalImages: response.totalImages || 0,
+          totalBytes: response.totalBytes || 0,
+          candidates: response.candidates || [],
+        });
+      } else {
+        toast.error(response.error || 'Failed to load preview');
+      }
+    } catch {
+      toast.error('Failed to load preview');
+    }
+  }, []);
+
+  const loadRetention = useCallback(async () => {
+    try {
+      const response = await api.getRetention();
+      if (response.success && response.settings) {
+        setEnabled(response.settings.enabled);
+        setLastRunAt(response.settings.lastRunAt);
+        setDays({
+          delivered: '',
+          rto: '',
+          submitted: '',
+          ...Object.fromEntries(response.settings.rules.map(rule => [rule.trigger, String(rule.days)])),
+        });
+        setPurges(response.purges || []);
+      } else {
+        toast.error(response.error || 'Failed to load retention settings');
+      }
+    } catch {
+      toast.error('Failed to load retention settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRetention();
+    loadPreview();
+  }, [loadRetention, loadPreview]);
+
+  const handleSave = async () => {
+    const rules: RetentionRule[] = TRIGGERS
+      .filter(({ trigger }) => days[trigger].trim() !== '')
+      .map(({ trigger }) => ({ trigger, days: Number(days[trigger]) }));
+
+    setIsSaving(true);
+    try {
+      const response = await api.saveRetentionSettings({ enabled, rules });
+      if (response.success) {
+        toast.success('Retention settings saved');
+        await loadPreview();
+      } else {
+        toast.error(response.error || 'Failed to save settings');
+      }
+    } catch {
+      toast.error('Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!preview || preview.totalLinks === 0) return;
+    if (!window.confirm(`Permanently delete ${preview.totalImages} photos from ${preview.totalLinks} orders? This cannot be undone.`)) return;
+
+    setIsPurging(true);
+    try {
+      const response = await api.runRetentionPurge();
+      if (response.success) {
+        if (response.purge) {
+          const { linksPurged, linksFailed, bytesFreed } = response.purge;
+          toast.success(`Purged ${linksPurged} orders, freed ${formatBytes(bytesFreed)}${linksFailed ? ` (${linksFailed} failed)` : ''}`);
+          onPurged();
+        } else {
+          toast.success(response.message || 'Nothing to delete');
+        }
+        await Promise.all([loadRetention(), loadPreview()]);
+      } else {
+        toast.error(response.error || 'Failed to run purge');
+      }
+    } catch {
+      toast.error('Failed to run purge');
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  const handleTogglePurge = async (purge: RetentionPurge) => {
+    if (expandedPurge?._id === purge._id) {
+      setExpandedPurge(null);
+      return;
+    }
+    try {
+      const response = await api.getRetentionPurge(purge._id);
+      if (response.success && response.purge) {
+        setExpandedPurge(response.purge);
+      } else {
+        toast.error(response.error || 'Failed to load purge');
+      }
+    } catch {
+      toast.error('Failed to load purge');
+    }
+  };
+
+  return (
+    <div className={styles['modal-overlay']} onClick={onClose}>
+      <div className={`${styles['modal-content']} ${styles['outreach-modal']}`} onClick={(e) => e.stopPropagation()}>
+        <div className={styles['modal-header']}>
+          <h2>Photo Retention</h2>
+          <button className={styles['modal-close']} onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className={styles['modal-body']}>
+          {isLoading ? (
+            <div className={styles['loading-section']}>
+              <div className={styles.spinner}></div>
+              <p>Loading retention settings...</p>
+            </div>
+          ) : (
+            <>
+              <p className={styles['modal-description']}>
+                Customer photos of submitted orders are deleted once the earliest matching rule is due. Leave a rule empty to turn it off.
+              </p>
+
+              <div className={styles['outreach-template']}>
+                {TRIGGERS.map(({ trigger, label, hint }) => (
+                  <label key={trigger} className={styles['retention-rule']}>
+                    <span className={styles['retention-rule-label']}>{label}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={days[trigger]}
+                      onChange={(e) => setDays({ ...days, [trigger]: e.target.value })}
+                      placeholder="Off"
+                    />
+                    <span>{hint}</span>
+                  </label>
+                ))}
+                <label className={styles['retention-enabled']}>
+                  <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+                  <span>Run automatically{lastRunAt ? ` · last checked ${formatDate(lastRunAt)}` : ''}</span>
+                </label>
+                <div className={styles['outreach-template-footer']}>
+                  <span>The preview below uses the saved rules.</span>
+                  <button
+                    className={`${styles['modal-btn']} ${styles.confirm}`}
+                    onClick={handleSave}
+                    disabled={isSaving}
+                  >
+                    {isSaving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+
+              <h3 className={styles['retention-heading']}>Dry run</h3>
+              {!preview ? (
+                <p className={styles['modal-description']}>Building preview...</p>
+              ) : preview.totalLinks === 0 ? (
+                <p className={styles['modal-description']}>No photos are due for deletion.</p>
+              ) : (
+                <>
+                  <p className={styles['modal-description']}>
+                    {preview.totalLinks} orders · {preview.totalImages} photos · frees about {formatBytes(preview.totalBytes)}
+                  </p>
+                  <ul className={styles['retention-list']}>
+                    {preview.candidates.map(candidate => (
+                      <li key={candidate.token}>
+                        <span className={styles['outreach-order']}>{candidate.orderNumber}</span>
+                        <span>{candidate.customerName}</span>
+                        <span className={styles['retention-meta']}>
+                          {TRIGGER_LABELS[candidate.trigger]} {formatDate(candidate.anchorDate)} · {candidate.imageCount} photos · {formatBytes(candidate.bytes)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className={styles['outreach-actions']}>
+                    <button
+                      className={`${styles['modal-btn']} ${styles.danger}`}
+                      onClick={handlePurge}
+                      disabled={isPurging}
+                    >
+                      {isPurging ? 'Deleting...' : 'Delete now'}
+                    </button>
+                  </div>
+                </>
+              )}
+
+              <h3 className={styles['retention-heading']}>Past purges</h3>
+              {purges.length === 0 ? (
+                <p className={styles['modal-description']}>No purges yet.</p>
+              ) : (
+                <ul className={styles['retention-list']}>
+                  {purges.map(purge => (
+                    <li key={purge._id}>
+                      <button className={styles['retention-purge']} onClick={() => handleTogglePurge(purge)}>
+                        <span>{new Date(purge.startedAt).toLocaleString('en-IN')}</span>
+                        <span className={styles['retention-meta']}>
+                          {purge.source === 'manual' ? `Manual (${purge.runBy})` : 'Scheduled'} · {purge.linksPurged} orders · {purge.imagesDeleted} photos · {formatBytes(purge.bytesFreed)}
+                          {purge.linksFailed > 0 && ` · ${purge.linksFailed} failed`}
+                        </span>
+                      </button>
+                      {expandedPurge?._id === purge._id && (
+                        <ul className={styles['retention-items']}>
+                          {(expandedPurge.items || []).map(item => (
+                            <li key={item.magicLinkId}>
+                              {item.orderNumber} · {TRIGGER_LABELS[item.trigger]} {formatDate(item.anchorDate)} ·{' '}
+                              {item.error ? <span className={styles['retention-error']}>{item.error}</span> : `${item.imageCount} photos, ${formatBytes(item.bytesFreed)}`}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className={styles['modal-footer']}>
+          <button className={`${styles['modal-btn']} ${styles.cancel}`} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
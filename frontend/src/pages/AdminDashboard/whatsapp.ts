@@ -0,0 +1,15 @@
+// Indian numbers are often stored without the country code
+const toWhatsAppNumber = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length === 10 ? `91${digits}` : digits;
+};
+
+/**
+ * Click-to-chat link with the message filled in; without a phone WhatsApp asks who to send it to
+ */
+export const buildWhatsAppLink = (phone: string | undefined, message: string) => {
+  const text = encodeURIComponent(message);
+  return phone
+    ? `https://api.whatsapp.com/send?phone=${toWhatsAppNumber(phone)}&text=${text}`
+    : `https://api.whatsapp.com/send?text=${text}`;
+};
@@ -10,6 +10,8 @@ import { CreateTicketForm } from './analysis/CreateTicketForm';
 import { AdsAnalysis } from './analysis/AdsAnalysis';
 import { Reels } from './analysis/Reels';
 import { Agency } from './analysis/Agency';
+import { Customers } from './analysis/Customers';
+import { CustomerProfile } from './analysis/CustomerProfile';
 import styles from './AnalysisPage.module.css';
 
 export function AnalysisPage() {
@@ -26,6 +28,7 @@ export function AnalysisPage() {
     const isAds = currentPath.includes('/admin/analysis/ads');
     const isReels = currentPath.includes('/admin/analysis/reels');
     const isAgency = currentPath.includes('/admin/analysis/agency');
+    const isCustomers = currentPath.includes('/admin/analysis/customers');
 
     useEffect(() => {
         loadUser();
@@ -125,6 +128,12 @@ export function AnalysisPage() {
                     >
                         Tickets
                     </Link>
+                    <Link
+                        to="/admin/analysis/customers"
+                        className={`${styles['analysis-nav-item']} ${isCustomers ? styles.active : ''}`}
+                    >
+                        Customers
+                    </Link>
                     <Link
                         to="/admin/analysis/reels"
                         className={`${styles['analysis-nav-item']} ${isReels ? styles.active : ''}`}
@@ -146,6 +155,8 @@ export function AnalysisPage() {
                     <Route path="stuck-orders" element={<StuckOrdersAnalysis />} />
                     <Route path="tickets" element={<TicketsAnalysis />} />
                     <Route path="tickets/new" element={<CreateTicketForm />} />
+                    <Route path="customers" element={<Customers />} />
+                    <Route path="customers/:customerId" element={<CustomerProfile />} />
                     <Route path="reels" element={<Reels />} />
                     <Route path="agency" element={<Agency />} />
                     <Route path="*" element={<Navigate to="ads" replace />} />
@@ -1,5 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
 import { api, type BacklogOrder } from '../services/api';
+import { PRODUCTION_STAGE_LABELS } from './ProductionBoardPage/stages';
 import styles from './BacklogPage.module.css';
 import toast from 'react-hot-toast';
 
@@ -10,6 +11,7 @@ interface EnrichedOrder extends BacklogOrder {
   _monthKey: string;   // 'YYYY-MM'
   _day: number;        // day-of-month for week bucketing
   _statusClass: string;
+  _statusLabel: string;
   _dateLabel: string;  // formatted display string
 }
 
@@ -35,10 +37,22 @@ function computeStatusClass(order: BacklogOrder): string {
   if (status.includes('fail') || status.includes('rto')) return styles.failed;
   if (status.includes('transit') || status.includes('shipped')) return styles.transit;
   if (status === 'out_for_delivery') return styles.outForDelivery;
+  // Not shipped yet: the production board knows where it is
+  if (order.productionStage === 'handed_to_courier') return styles.transit;
+  if (order.productionStage) return styles.production;
   if (!order.fulfillmentStatus || order.fulfillmentStatus === 'unfulfilled') return styles.unfulfilled;
   return styles.confirmed;
 }
 
+function computeStatusLabel(order: BacklogOrder): string {
+  const status = order.deliveryStatus?.toLowerCase() || '';
+  const hasShipmentStatus = !!status && status !== 'fulfilled' && status !== 'unfulfilled';
+  if (!hasShipmentStatus && order.productionStage) {
+    return `${PRODUCTION_STAGE_LABELS[order.productionStage]}${order.productionStale ? ' (stale)' : ''}`;
+  }
+  return order.deliveryStatus || order.fulfillmentStatus || 'Pending';
+}
+
 function enrich(order: BacklogOrder): EnrichedOrder {
   const d = new Date(order.createdAt);
   const month = d.getMonth() + 1;
@@ -46,7 +60,8 @@ function enrich(order: BacklogOrder): EnrichedOrder {
     ...order,
     _monthKey: `${d.getFullYear()}-${String(month).padStart(2, '0')}`,
     _day: d.getDate(),
-    _statusClass: computeStatusClass(order),
+    _statusClass: `${computeStatusClass(order)} ${order.productionStale ? styles.stale : ''}`,
+    _statusLabel: computeStatusLabel(order),
     _dateLabel: d.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }),
   };
 }
@@ -148,9 +163,11 @@ export default function BacklogPage() {
         <div className={styles['header-actions']}>
           <div className={styles['legend']}>
             <div className={styles['legend-item']}><span className={`${styles['box-preview']} ${styles.unfulfilled}`}></span> Unfulfilled</div>
+            <div className={styles['legend-item']}><span className={`${styles['box-preview']} ${styles.production}`}></span> In Production</div>
             <div className={styles['legend-item']}><span className={`${styles['box-preview']} ${styles.transit}`}></span> In Transit</div>
             <div className={styles['legend-item']}><span className={`${styles['box-preview']} ${styles.delivered}`}></span> Delivered</div>
             <div className={styles['legend-item']}><span className={`${styles['box-preview']} ${styles.failed}`}></span> Failed</div>
+            <div className={styles['legend-item']}><span className={`${styles['box-preview']} ${styles.production} ${styles.stale}`}></span> Stale</div>
           </div>
           <div className={styles['view-selector']}>
             <label htmlFor="view-mode">View Mode</label>
@@ -211,7 +228,7 @@ export default function BacklogPage() {
                             <div className={styles['box-hover-card']}>
                               <div className={styles['card-name']}>{order.name}</div>
                               <div className={styles['card-customer']}>{order.customerName}</div>
-                              <div className={styles['card-status']}>{order.deliveryStatus || order.fulfillmentStatus || 'Pending'}</div>
+                              <div className={styles['card-status']}>{order._statusLabel}</div>
                               <div className={styles['card-items']}>
                                 {order.lineItems.length > 0 ? (
                                   order.lineItems.map((item, idx) => (
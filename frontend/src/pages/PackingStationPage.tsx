@@ -0,0 +1,249 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { api } from '../services/api';
+import type { PackingChecklistItem, PackingOrder, PackerThroughput } from '../services/api';
+import { PRODUCTION_STAGE_LABELS } from './ProductionBoardPage/stages';
+import styles from './PackingStationPage.module.css';
+
+// The station is a shared machine; remember who is packing between orders
+const PACKER_STORAGE_KEY = 'packingStationEmployeeId';
+
+function formatSeconds(seconds: number | null | undefined): string {
+  if (seconds === null || seconds === undefined) return '—';
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest > 0 ? `${minutes}m ${rest}s` : `${minutes}m`;
+}
+
+export default function PackingStationPage() {
+  const [checklist, setChecklist] = useState<PackingChecklistItem[]>([]);
+  const [employees, setEmployees] = useState<{ id: string; name: string }[]>([]);
+  const [throughput, setThroughput] = useState<PackerThroughput[]>([]);
+  const [employeeId, setEmployeeId] = useState(() => localStorage.getItem(PACKER_STORAGE_KEY) || '');
+  const [code, setCode] = useState('');
+  const [order, setOrder] = useState<PackingOrder | null>(null);
+  const [ticked, setTicked] = useState<string[]>([]);
+  const [isLooking, setIsLooking] = useState(false);
+  const [isPacking, setIsPacking] = useState(false);
+  const scanInput = useRef<HTMLInputElement>(null);
+
+  const loadStation = useCallback(async () => {
+    try {
+      const response = await api.getPackingStation();
+      if (response.success) {
+        setChecklist(response.checklist || []);
+        setEmployees(response.employees || []);
+        setThroughput(response.throughput || []);
+      } else {
+        toast.error(response.error || 'Failed to load packing station');
+      }
+    } catch {
+      toast.error('Failed to load packing station');
+    }
+  }, []);
+
+  useEffect(() => { loadStation(); }, [loadStation]);
+
+  // Drop a remembered packer who has since been deactivated
+  useEffect(() => {
+    if (employees.length > 0 && employeeId && !employees.some(e => e.id === employeeId)) {
+      setEmployeeId('');
+    }
+  }, [employees, employeeId]);
+
+  const handleEmployeeChange = (id: string) => {
+    setEmployeeId(id);
+    localStorage.setItem(PACKER_STORAGE_KEY, id);
+    scanInput.current?.focus();
+  };
+
+  const handleLookup = async () => {
+    const scanned = code.trim();
+    if (!scanned) return;
+    if (!employeeId) {
+      toast.error('Choose who is packing first');
+      return;
+    }
+
+    setIsLooking(true);
+    try {
+      const response = await api.lookupPackingOrder(scanned, employeeId);
+      if (response.success && response.order) {
+        setOrder(response.order);
+        setTicked([]);
+      } else {
+        setOrder(null);
+        toast.error(response.error || 'Order not found');
+      }
+    } catch {
+      toast.error('Failed to look up order');
+    } finally {
+      setIsLooking(false);
+      setCode('');
+      scanInput.current?.focus();
+    }
+  };
+
+  const toggleItem = (key: string) => {
+    setTicked(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const handlePacked = async () => {
+    if (!order) return;
+    setIsPacking(true);
+    try {
+      const response = await api.markOrderPacked(order.orderNumber, employeeId, ticked);
+      if (response.success) {
+        toast.success(`${order.orderNumber} packed`);
+        setOrder(null);
+        setTicked([]);
+        await loadStation();
+      } else {
+        toast.error(response.error || 'Failed to mark packed');
+      }
+    } catch {
+      toast.error('Failed to mark packed');
+    } finally {
+      setIsPacking(false);
+      scanInput.current?.focus();
+    }
+  };
+
+  const allTicked = checklist.length > 0 && checklist.every(item => ticked.includes(item.key));
+  const canPack = !!order && order.submittedForPrinting && allTicked && !isPacking;
+
+  return (
+    <div className={styles['packing-page']}>
+      <header className={styles['header']}>
+        <div className={styles['titles']}>
+          <h1>Packing Station</h1>
+          <p className={styles['subtitle']}>Scan the order code on the print sheet to check and pack it</p>
+        </div>
+        <select
+          className={styles['packer']}
+          value={employeeId}
+          onChange={(e) => handleEmployeeChange(e.target.value)}
+        >
+          <option value="">Who is packing?</option>
+          {employees.map(employee => (
+            <option key={employee.id} value={employee.id}>{employee.name}</option>
+          ))}
+        </select>
+      </header>
+
+      <div className={styles['scan-bar']}>
+        <input
+          ref={scanInput}
+          autoFocus
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+          placeholder="Scan or type an order code, e.g. PB1234S"
+          disabled={isLooking}
+        />
+        <button onClick={handleLookup} disabled={isLooking || !code.trim()}>
+          {isLooking ? '...' : 'Look up'}
+        </button>
+      </div>
+
+      <div className={styles['layout']}>
+        <main className={styles['order-panel']}>
+          {!order ? (
+            <p className={styles['empty']}>No order scanned yet.</p>
+          ) : (
+            <>
+              <div className={styles['order-head']}>
+                <div>
+                  <h2>{order.orderNumber}</h2>
+                  <p>{order.customerName}{order.city ? ` · ${order.city}` : ''}</p>
+                </div>
+                <div className={styles['order-badges']}>
+                  {order.productionStage && (
+                    <span className={styles['badge']}>{PRODUCTION_STAGE_LABELS[order.productionStage]}</span>
+                  )}
+                  {order.label.status === 'ready' ? (
+                    <span className={`${styles['badge']} ${styles.ready}`} title={order.label.shipmentStatus}>
+                      Label: {order.label.courierName || 'Courier'} · {order.label.awbCode}
+                    </span>
+                  ) : (
+                    <span className={`${styles['badge']} ${styles.missing}`}>No shipping label yet</span>
+                  )}
+                </div>
+              </div>
+
+              {!order.submittedForPrinting && (
+                <p className={styles['warning']}>The customer has not submitted these photos for printing.</p>
+              )}
+              {order.lastPacked && (
+                <p className={styles['warning']}>
+                  Already packed by {order.lastPacked.employeeName} on {new Date(order.lastPacked.packedAt).toLocaleString('en-IN')}.
+                </p>
+              )}
+
+              <div className={styles['prints']}>
+                <strong>{order.printCount} prints</strong>
+                <span>from {order.photos.length} photos</span>
+                {order.printBreakdown.map(row => (
+                  <span key={row.label} className={styles['print-size']}>{row.count} × {row.label}</span>
+                ))}
+              </div>
+
+              {order.imagesDeleted ? (
+                <p className={styles['empty']}>Photos for this order have been deleted.</p>
+              ) : (
+                <div className={styles['thumbnails']}>
+                  {order.photos.map(photo => (
+                    <div key={photo.id} className={styles['thumbnail']}>
+                      <img src={photo.thumbnailUrl || photo.s3Url} alt="" loading="lazy" />
+                      {photo.copies > 1 && <span className={styles['copies']}>×{photo.copies}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className={styles['checklist']}>
+                {checklist.map(item => (
+                  <label key={item.key} className={styles['check-item']}>
+                    <input type="checkbox" checked={ticked.includes(item.key)} onChange={() => toggleItem(item.key)} />
+                    <span>{item.label}</span>
+                  </label>
+                ))}
+              </div>
+
+              <button className={styles['pack-btn']} onClick={handlePacked} disabled={!canPack}>
+                {isPacking ? 'Saving...' : 'Mark packed'}
+              </button>
+            </>
+          )}
+        </main>
+
+        <aside className={styles['stats-panel']}>
+          <h3>Packed today</h3>
+          {throughput.length === 0 ? (
+            <p className={styles['empty']}>Nothing packed yet today.</p>
+          ) : (
+            <table className={styles['stats-table']}>
+              <thead>
+                <tr>
+                  <th>Packer</th>
+                  <th>Orders</th>
+                  <th>Avg time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {throughput.map(row => (
+                  <tr key={row.employeeId}>
+                    <td>{row.employeeName}</td>
+                    <td>{row.packed}</td>
+                    <td>{formatSeconds(row.averageSecondsToPack)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+}
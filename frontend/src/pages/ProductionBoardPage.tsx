@@ -0,0 +1,213 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { api } from '../services/api';
+import type { ProductionOrder, ProductionStage } from '../services/api';
+import { PRODUCTION_STAGES } from './ProductionBoardPage/stages';
+import styles from './ProductionBoardPage.module.css';
+
+function formatDuration(hours: number): string {
+  if (hours < 1) return '<1h';
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  const rest = hours % 24;
+  return rest > 0 ? `${days}d ${rest}h` : `${days}d`;
+}
+
+export default function ProductionBoardPage() {
+  const [orders, setOrders] = useState<ProductionOrder[]>([]);
+  const [employees, setEmployees] = useState<{ id: string; name: string }[]>([]);
+  const [staleAfterHours, setStaleAfterHours] = useState(24);
+  const [thresholdInput, setThresholdInput] = useState('24');
+  const [loading, setLoading] = useState(true);
+  const [busyToken, setBusyToken] = useState<string | null>(null);
+  const [staleOnly, setStaleOnly] = useState(false);
+
+  const loadBoard = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await api.getProductionBoard();
+      if (response.success) {
+        setOrders(response.orders || []);
+        setEmployees(response.employees || []);
+        setStaleAfterHours(response.staleAfterHours || 24);
+        setThresholdInput(String(response.staleAfterHours || 24));
+      } else {
+        toast.error(response.error || 'Failed to load production board');
+      }
+    } catch {
+      toast.error('Failed to load production board');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { loadBoard(); }, [loadBoard]);
+
+  const columns = useMemo(() => {
+    const visible = staleOnly ? orders.filter(o => o.isStale) : orders;
+    return PRODUCTION_STAGES.map(({ stage, label }) => {
+      const stageOrders = visible.filter(o => o.stage === stage);
+      return { stage, label, orders: stageOrders, staleCount: stageOrders.filter(o => o.isStale).length };
+    });
+  }, [orders, staleOnly]);
+
+  const staleTotal = useMemo(() => orders.filter(o => o.isStale).length, [orders]);
+
+  const handleMove = async (order: ProductionOrder, stage: ProductionStage) => {
+    setBusyToken(order.token);
+    try {
+      const response = await api.moveProductionStage(order.token, stage);
+      if (response.success && response.job) {
+        const job = response.job;
+        setOrders(prev => prev.map(o => o.token === order.token ? { ...o, ...job, hoursInStage: 0, isStale: false } : o));
+      } else {
+        toast.error(response.error || 'Failed to move order');
+      }
+    } catch {
+      toast.error('Failed to move order');
+    } finally {
+      setBusyToken(null);
+    }
+  };
+
+  const handleAssign = async (order: ProductionOrder, assigneeId: string) => {
+    setBusyToken(order.token);
+    try {
+      const response = await api.assignProductionStage(order.token, assigneeId || null);
+      if (response.success && response.job) {
+        const job = response.job;
+        setOrders(prev => prev.map(o => o.token === order.token ? { ...o, ...job } : o));
+      } else {
+        toast.error(response.error || 'Failed to assign order');
+      }
+    } catch {
+      toast.error('Failed to assign order');
+    } finally {
+      setBusyToken(null);
+    }
+  };
+
+  const handleSaveThreshold = async () => {
+    const hours = parseInt(thresholdInput, 10);
+    if (isNaN(hours) || hours === staleAfterHours) return;
+    try {
+      const response = await api.saveProductionSettings(hours);
+      if (response.success) {
+        toast.success('Stale threshold saved');
+        await loadBoard();
+      } else {
+        toast.error(response.error || 'Failed to save threshold');
+        setThresholdInput(String(staleAfterHours));
+      }
+    } catch {
+      toast.error('Failed to save threshold');
+    }
+  };
+
+  return (
+    <div className={styles['production-page']}>
+      <header className={styles['header']}>
+        <div className={styles['titles']}>
+          <h1>Production Board</h1>
+          <p className={styles['subtitle']}>Submitted photo orders from download to courier pickup</p>
+        </div>
+        <div className={styles['header-actions']}>
+          <label className={styles['threshold']}>
+            <span>Flag after</span>
+            <input
+              type="number"
+              min={1}
+              value={thresholdInput}
+              onChange={(e) => setThresholdInput(e.target.value)}
+              onBlur={handleSaveThreshold}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveThreshold()}
+            />
+            <span>hours in one stage</span>
+          </label>
+          <button
+            className={`${styles['filter-btn']} ${staleOnly ? styles.active : ''}`}
+            onClick={() => setStaleOnly(!staleOnly)}
+            disabled={staleTotal === 0 && !staleOnly}
+          >
+            Stale only ({staleTotal})
+          </button>
+          <button className={styles['refresh-btn']} onClick={loadBoard} disabled={loading}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={loading ? styles.spinning : ''}>
+              <path d="M21.5 2v6h-6M2.5 22v-6h6M2 11.5a10 10 0 0 1 18.8-4.3M22 12.5a10 10 0 0 1-18.8 4.2" />
+            </svg>
+            {loading ? '...' : 'Refresh'}
+          </button>
+        </div>
+      </header>
+
+      {loading && orders.length === 0 ? (
+        <div className={styles['loading-state']}>
+          <div className={styles['spinner']}></div>
+          <p>Loading board...</p>
+        </div>
+      ) : (
+        <div className={styles['board']}>
+          {columns.map((column, columnIndex) => (
+            <section key={column.stage} className={styles['column']}>
+              <div className={styles['column-header']}>
+                <h2>{column.label}</h2>
+                <span className={styles['column-count']}>{column.orders.length}</span>
+                {column.staleCount > 0 && <span className={styles['column-stale']}>{column.staleCount} stale</span>}
+              </div>
+              <div className={styles['column-cards']}>
+                {column.orders.map(order => {
+                  const current = order.steps[order.steps.length - 1];
+                  const previous = PRODUCTION_STAGES[columnIndex - 1];
+                  const next = PRODUCTION_STAGES[columnIndex + 1];
+                  return (
+                    <div key={order.token} className={`${styles['card']} ${order.isStale ? styles.stale : ''}`}>
+                      <div className={styles['card-head']}>
+                        <span className={styles['card-order']}>{order.orderNumber}</span>
+                        <span className={styles['card-age']} title={`In ${column.label.toLowerCase()} since ${new Date(order.stageEnteredAt).toLocaleString('en-IN')}`}>
+                          {formatDuration(order.hoursInStage)}
+                        </span>
+                      </div>
+                      <div className={styles['card-customer']}>{order.customerName} · {order.maxUploads} prints</div>
+                      <select
+                        className={styles['card-assignee']}
+                        value={current?.assigneeId || ''}
+                        onChange={(e) => handleAssign(order, e.target.value)}
+                        disabled={busyToken === order.token}
+                      >
+                        <option value="">Unassigned</option>
+                        {employees.map(employee => (
+                          <option key={employee.id} value={employee.id}>{employee.name}</option>
+                        ))}
+                      </select>
+                      <div className={styles['card-actions']}>
+                        {previous && (
+                          <button
+                            onClick={() => handleMove(order, previous.stage)}
+                            disabled={busyToken === order.token}
+                            title={`Back to ${previous.label}`}
+                          >
+                            ←
+                          </button>
+                        )}
+                        {next && (
+                          <button
+                            className={styles['card-next']}
+                            onClick={() => handleMove(order, next.stage)}
+                            disabled={busyToken === order.token}
+                          >
+                            {next.label} →
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+                {column.orders.length === 0 && <p className={styles['column-empty']}>No orders</p>}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
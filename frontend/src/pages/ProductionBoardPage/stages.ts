@@ -0,0 +1,15 @@
+import type { ProductionStage } from '../../services/api';
+
+// Board columns, in workflow order
+export const PRODUCTION_STAGES: { stage: ProductionStage; label: string }[] = [
+  { stage: 'submitted', label: 'Submitted' },
+  { stage: 'downloaded', label: 'Downloaded' },
+  { stage: 'printed', label: 'Printed' },
+  { stage: 'quality_checked', label: 'Quality Checked' },
+  { stage: 'packed', label: 'Packed' },
+  { stage: 'handed_to_courier', label: 'Handed to Courier' },
+];
+
+export const PRODUCTION_STAGE_LABELS = Object.fromEntries(
+  PRODUCTION_STAGES.map(({ stage, label }) => [stage, label])
+) as Record<ProductionStage, string>;
@@ -3,6 +3,7 @@ import toast from 'react-hot-toast';
 import { api } from '../services/api';
 import styles from './SalesPage.module.css';
 import { OrdersTableBody } from './SalesPage/OrdersTableBody';
+import { OrderTimelineDrawer } from './SalesPage/OrderTimelineDrawer';
 
 import { type ShopifyOrder } from '../services/api';
 
@@ -169,6 +170,9 @@ export function SalesPage({ initialFilter }: SalesPageProps = {}) {
 
   // Pending drawer
   const [showPendingDrawer, setShowPendingDrawer] = useState(false);
+
+  // Order timeline drawer
+  const [timelineOrderName, setTimelineOrderName] = useState<string | null>(null);
   const [pendingFilterCOD, setPendingFilterCOD] = useState(false);
   const [pendingFilterPaid, setPendingFilterPaid] = useState(false);
   const [pendingFilterDelayDays, setPendingFilterDelayDays] = useState<Set<number>>(new Set());
@@ -2326,12 +2330,17 @@ export function SalesPage({ initialFilter }: SalesPageProps = {}) {
               acknowledgedOrderIds={acknowledgedOrderIds}
               onMarkTicketRaised={handleMarkTicketRaised}
               ticketRaisedOrderIds={ticketRaisedOrderIds}
+              onOpenTimeline={setTimelineOrderName}
               showAWBColumn={showAWBColumn}
             />
           </table>
         </div>
       </div>
 
+      {timelineOrderName && (
+        <OrderTimelineDrawer orderName={timelineOrderName} onClose={() => setTimelineOrderName(null)} />
+      )}
+
       {/* Pending Products Drawer */}
       {
         showPendingDrawer && (
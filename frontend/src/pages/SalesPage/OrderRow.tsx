@@ -1,5 +1,5 @@
 import React from 'react';
-import { MoreVertical, CheckCircle, Tag, LifeBuoy, Bookmark } from 'lucide-react';
+import { MoreVertical, CheckCircle, Tag, LifeBuoy, Bookmark, History } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import {
   DropdownMenu,
@@ -27,6 +27,7 @@ interface OrderRowProps {
   acknowledgedOrderIds: Set<number>;
   onMarkTicketRaised?: (orderId: number, orderName: string) => void;
   ticketRaisedOrderIds: Set<number>;
+  onOpenTimeline?: (orderName: string) => void;
   showAWBColumn?: boolean;
 }
 
@@ -45,6 +46,7 @@ export const OrderRow: React.FC<OrderRowProps> = ({
   acknowledgedOrderIds,
   onMarkTicketRaised,
   ticketRaisedOrderIds,
+  onOpenTimeline,
   showAWBColumn = false,
 }) => {
   const navigate = useNavigate();
@@ -230,6 +232,12 @@ export const OrderRow: React.FC<OrderRowProps> = ({
               </button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className={cn("font-sans", styles['dropdown-content'])}>
+              {onOpenTimeline && (
+                <DropdownMenuItem onClick={() => onOpenTimeline(order.name)} className={styles['action-dropdown-item']}>
+                  <History />
+                  <span>View Timeline</span>
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem onClick={handleMarkDeliveryStatus} className={styles['action-dropdown-item']}>
                 <CheckCircle />
                 <span>Mark Delivery Status</span>
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import styles from '../SalesPage.module.css';
+
+import { api, type OrderEvent } from '../../services/api';
+
+interface OrderTimelineDrawerProps {
+  orderName: string;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<OrderEvent['source'], string> = {
+  shopify: 'Shopify',
+  lifecycle: 'Status',
+  shiprocket: 'Shiprocket',
+  ticket: 'Courier ticket',
+  ticket_raised: 'Ticket raised',
+  acknowledged: 'Acknowledged',
+  rto: 'RTO',
+  discarded: 'Discarded',
+  magic_link: 'Upload link',
+  upload: 'Photos',
+};
+
+const formatEventTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const OrderTimelineDrawer: React.FC<OrderTimelineDrawerProps> = ({ orderName, onClose }) => {
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api.getOrderTimeline(orderName)
+      .then((response) => {
+        if (cancelled) return;
+        if (response.success) {
+          // Newest first: the latest state is what's usually being looked for
+          setEvents([...(response.events || [])].reverse());
+        } else {
+          setError(response.error || 'Failed to load timeline');
+        }
+      })
+      .catch(() => { if (!cancelled) setError('Failed to load timeline'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [orderName]);
+
+  return (
+    <div className={styles['drawer-overlay']} onClick={onClose}>
+      <div className={styles['drawer']} onClick={(e) => e.stopPropagation()}>
+        <div className={styles['drawer-header']}>
+          <h3>{orderName} timeline</h3>
+          <button className={styles['drawer-close']} onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className={styles['drawer-body']}>
+          {isLoading ? (
+            <div className={styles['loading-cogs']}>
+              <p>Loading timeline...</p>
+            </div>
+          ) : error ? (
+            <p className={styles['timeline-error']}>{error}</p>
+          ) : events.length === 0 ? (
+            <p className={styles['timeline-empty']}>Nothing recorded for this order yet</p>
+          ) : (
+            <ol className={styles['timeline-list']}>
+              {events.map((event, idx) => (
+                <li key={idx} className={styles['timeline-event']}>
+                  <span className={`${styles['timeline-dot']} ${styles[`timeline-${event.source}`] || ''}`}></span>
+                  <div className={styles['timeline-content']}>
+                    <div className={styles['timeline-title']}>{event.title}</div>
+                    {event.details && <div className={styles['timeline-details']}>{event.details}</div>}
+                    <div className={styles['timeline-meta']}>
+                      {formatEventTime(event.at)} · {SOURCE_LABELS[event.source]}
+                      {event.actor ? ` · ${event.actor}` : ''}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
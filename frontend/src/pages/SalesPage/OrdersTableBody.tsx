@@ -29,6 +29,7 @@ interface OrdersTableBodyProps {
   acknowledgedOrderIds: Set<number>;
   onMarkTicketRaised?: (orderId: number, orderName: string) => void;
   ticketRaisedOrderIds: Set<number>;
+  onOpenTimeline?: (orderName: string) => void;
   showAWBColumn?: boolean;
 }
 
@@ -52,6 +53,7 @@ export const OrdersTableBody: React.FC<OrdersTableBodyProps> = ({
   acknowledgedOrderIds,
   onMarkTicketRaised,
   ticketRaisedOrderIds,
+  onOpenTimeline,
   showAWBColumn = false,
 }) => {
   if (hasStatusFilter) {
@@ -88,6 +90,7 @@ export const OrdersTableBody: React.FC<OrdersTableBodyProps> = ({
             acknowledgedOrderIds={acknowledgedOrderIds}
             onMarkTicketRaised={onMarkTicketRaised}
             ticketRaisedOrderIds={ticketRaisedOrderIds}
+            onOpenTimeline={onOpenTimeline}
             showAWBColumn={showAWBColumn}
           />
         ))}
@@ -180,6 +183,7 @@ export const OrdersTableBody: React.FC<OrdersTableBodyProps> = ({
                 acknowledgedOrderIds={acknowledgedOrderIds}
                 onMarkTicketRaised={onMarkTicketRaised}
                 ticketRaisedOrderIds={ticketRaisedOrderIds}
+                onOpenTimeline={onOpenTimeline}
                 showAWBColumn={showAWBColumn}
               />
             ))}
@@ -7,6 +7,7 @@ import { StockPrediction } from './StockPrediction';
 import { ProductsManager } from './tools/ProductsManager';
 import { VariantPerformance } from './tools/VariantPerformance';
 import { Labels } from './tools/Labels';
+import { OrderSync } from './tools/OrderSync';
 import { GSTMonthlyReports } from './GSTMonthlyReports';
 import styles from './ToolsPage.module.css';
 
@@ -23,6 +24,7 @@ export function ToolsPage() {
   const isGSTReports = currentPath.includes('/admin/tools/gst-reports');
   const isVariantPerformance = currentPath.includes('/admin/tools/variant-performance');
   const isLabels = currentPath.includes('/admin/tools/labels');
+  const isOrderSync = currentPath.includes('/admin/tools/order-sync');
 
   useEffect(() => {
     loadUser();
@@ -128,6 +130,12 @@ export function ToolsPage() {
           >
             Labels
           </Link>
+          <Link
+            to="/admin/tools/order-sync"
+            className={`${styles['tools-nav-item']} ${isOrderSync ? styles.active : ''}`}
+          >
+            Order Sync
+          </Link>
         </div>
 
         <Routes>
@@ -137,6 +145,7 @@ export function ToolsPage() {
           <Route path="gst-reports" element={<GSTMonthlyReports />} />
           <Route path="variant-performance" element={<VariantPerformance />} />
           <Route path="labels" element={<Labels />} />
+          <Route path="order-sync" element={<OrderSync />} />
           <Route path="*" element={<Navigate to="profit-calculator" replace />} />
         </Routes>
       </main>
@@ -2,7 +2,12 @@ import { useState, useEffect, useRef } from 'react';
 import toast from 'react-hot-toast';
 import { useParams } from 'react-router-dom';
 import { api } from '../services/api';
-import type { UploadInfo } from '../services/api';
+import type { UploadInfo, ImageQuality, ImageCrop, PrintAllowance, DuplicatePair, ImageRejection } from '../services/api';
+import { CropEditor } from './UploadPage/CropEditor';
+import { PhotoOptionsEditor } from './UploadPage/PhotoOptionsEditor';
+import { PinEntry } from './UploadPage/PinEntry';
+import { OrderTimeline } from './UploadPage/OrderTimeline';
+import type { PhotoOptions } from './UploadPage/PhotoOptionsEditor';
 import styles from './UploadPage.module.css';
 
 type PhotoSize = 'large' | 'small';
@@ -13,17 +18,34 @@ interface SelectedFile {
   preview: string;
   uploading: boolean;
   uploaded: boolean;
+  progress?: number;
   error?: string;
   previewError?: boolean;
 }
 
+const SIZE_LABELS: Record<PhotoSize, string> = { small: 'Small', large: 'Large' };
+const TYPE_LABELS: Record<PhotoType, string> = { normal: 'Normal', polaroid: 'Polaroid' };
+
+const describeAllowance = (a: PrintAllowance) => {
+  if (a.photoSize && a.photoType) return `${SIZE_LABELS[a.photoSize]} ${TYPE_LABELS[a.photoType]}`;
+  if (a.photoSize) return `${SIZE_LABELS[a.photoSize]}, any style`;
+  if (a.photoType) return `${TYPE_LABELS[a.photoType]}, any size`;
+  return 'Any size or style';
+};
+
 interface UploadedImage {
   id: string;
   fileName: string;
   originalName: string;
   s3Url: string;
+  thumbnailUrl?: string;
   photoSize: PhotoSize;
   photoType: PhotoType;
+  quality?: ImageQuality;
+  crop?: ImageCrop;
+  copies: number;
+  caption?: string;
+  rejection?: ImageRejection;
   uploadedAt: string;
   orientation?: 'landscape' | 'portrait' | 'square';
 }
@@ -33,6 +55,7 @@ export function UploadPage() {
   const [info, setInfo] = useState<UploadInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  const [needsPin, setNeedsPin] = useState(false);
   
   // Selection state - locked once confirmed
   const [photoSize, setPhotoSize] = useState<PhotoSize>('small');
@@ -47,7 +70,15 @@ export function UploadPage() {
   
   // Uploaded images
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
+  const [duplicates, setDuplicates] = useState<DuplicatePair[]>([]);
   const [deletingImageId, setDeletingImageId] = useState<string | null>(null);
+  const [replacingImageId, setReplacingImageId] = useState<string | null>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const replaceTargetRef = useRef<string | null>(null);
+  const [croppingImage, setCroppingImage] = useState<UploadedImage | null>(null);
+  const [isSavingCrop, setIsSavingCrop] = useState(false);
+  const [editingOptionsImage, setEditingOptionsImage] = useState<UploadedImage | null>(null);
+  const [isSavingOptions, setIsSavingOptions] = useState(false);
   const [imageOrientations, setImageOrientations] = useState<Record<string, 'landscape' | 'portrait' | 'square'>>({});
   const [imageLoadFailures, setImageLoadFailures] = useState<Record<string, boolean>>({});
   
@@ -55,6 +86,8 @@ export function UploadPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
 
+  const uploadedPrints = uploadedImages.reduce((sum, img) => sum + (img.copies || 1), 0);
+
   // Detect image orientation when image loads
   const handleImageLoad = (imageId: string, event: React.SyntheticEvent<HTMLImageElement>) => {
     const img = event.currentTarget;
@@ -84,11 +117,10 @@ export function UploadPage() {
     ));
   };
 
-  // Get CSS class for image based on size and orientation
-  const getImageClass = (imageId: string): string => {
-    const orientation = imageOrientations[imageId] || 'loading';
-    const size = photoSize; // Use current selected size
-    return `${styles['uploaded-card']} ${styles[`${size}-${orientation}`] || ''}`;
+  // Get CSS class for image based on its print size and orientation
+  const getImageClass = (img: UploadedImage): string => {
+    const orientation = imageOrientations[img.id] || 'loading';
+    return `${styles['uploaded-card']} ${styles[`${img.photoSize}-${orientation}`] || ''}`;
   };
 
   useEffect(() => {
@@ -104,7 +136,13 @@ export function UploadPage() {
         api.getUploadedImages(t),
       ]);
       
+      if (infoRes.pinRequired) {
+        setNeedsPin(true);
+        return;
+      }
+
       if (infoRes.success) {
+        setNeedsPin(false);
         setInfo(infoRes);
         // Load saved print settings if available
         if (infoRes.photoSize) {
@@ -120,6 +158,7 @@ export function UploadPage() {
       
       if (imagesRes.success && imagesRes.images) {
         setUploadedImages(imagesRes.images);
+        setDuplicates(imagesRes.duplicates || []);
       }
     } catch {
       setError('Unable to validate link');
@@ -128,6 +167,27 @@ export function UploadPage() {
     }
   };
 
+  const handlePinSubmit = async (pin: string): Promise<string | null> => {
+    if (!token) return null;
+    try {
+      const result = await api.verifyUploadPin(token, pin);
+      if (!result.success) return result.error || 'Wrong PIN';
+      await loadData(token);
+      return null;
+    } catch {
+      return 'Unable to check PIN. Please try again';
+    }
+  };
+
+  // Allowance usage is computed on the server, so re-fetch after anything that changes prints
+  const refreshInfo = async () => {
+    if (!token) return;
+    const infoRes = await api.validateUploadToken(token);
+    if (infoRes.success) {
+      setInfo(infoRes);
+    }
+  };
+
   const handleConfirmOptions = async () => {
     if (!token) return;
     
@@ -179,8 +239,8 @@ export function UploadPage() {
 
   const addFiles = (files: File[]) => {
     if (!info) return;
-    // Calculate remaining slots based on actual uploaded images
-    const currentRemaining = Math.max(0, (info.maxUploads || 0) - uploadedImages.length);
+    // Calculate remaining slots based on prints already claimed (copies included)
+    const currentRemaining = Math.max(0, (info.maxUploads || 0) - uploadedPrints);
     const remainingSlots = currentRemaining - selectedFiles.filter(f => !f.uploaded).length;
     const imageFiles = files.filter(isSupportedImage);
     const filesToAdd = imageFiles.slice(0, Math.max(0, remainingSlots));
@@ -208,19 +268,30 @@ export function UploadPage() {
     if (!token || selectedFiles.length === 0) return;
 
     setIsUploading(true);
+    const duplicateNames: string[] = [];
 
     for (let i = 0; i < selectedFiles.length; i++) {
       if (selectedFiles[i].uploaded) continue;
 
       setSelectedFiles(prev => {
         const newFiles = [...prev];
-        newFiles[i] = { ...newFiles[i], uploading: true };
+        newFiles[i] = { ...newFiles[i], uploading: true, progress: 0, error: undefined };
         return newFiles;
       });
 
       try {
-        const result = await api.uploadPhoto(token, selectedFiles[i].file, photoSize, photoType);
+        const result = await api.uploadPhotoResumable(token, selectedFiles[i].file, photoSize, photoType, (progress) => {
+          setSelectedFiles(prev => {
+            const newFiles = [...prev];
+            newFiles[i] = { ...newFiles[i], progress };
+            return newFiles;
+          });
+        });
         
+        if (result.success && result.image?.duplicateOf?.length) {
+          duplicateNames.push(selectedFiles[i].file.name);
+        }
+
         if (result.success) {
           const newImage: UploadedImage = {
             id: Date.now().toString(),
@@ -229,6 +300,7 @@ export function UploadPage() {
             s3Url: selectedFiles[i].preview,
             photoSize,
             photoType,
+            copies: 1,
             uploadedAt: new Date().toISOString(),
           };
           setUploadedImages(prev => [newImage, ...prev]);
@@ -244,14 +316,6 @@ export function UploadPage() {
           };
           return newFiles;
         });
-
-        if (result.success && info) {
-          setInfo({
-            ...info,
-            currentUploads: (info.currentUploads || 0) + 1,
-            remainingUploads: (info.remainingUploads || 1) - 1,
-          });
-        }
       } catch {
         setSelectedFiles(prev => {
           const newFiles = [...prev];
@@ -267,7 +331,17 @@ export function UploadPage() {
       const imagesRes = await api.getUploadedImages(token);
       if (imagesRes.success && imagesRes.images) {
         setUploadedImages(imagesRes.images);
+        setDuplicates(imagesRes.duplicates || []);
       }
+      await refreshInfo();
+    }
+
+    if (duplicateNames.length > 0) {
+      toast.error(
+        duplicateNames.length === 1
+          ? `${duplicateNames[0]} looks like a photo you already uploaded`
+          : `${duplicateNames.length} photos look like ones you already uploaded`
+      );
     }
 
     setIsUploading(false);
@@ -292,13 +366,8 @@ export function UploadPage() {
           return rest;
         });
         setUploadedImages(prev => prev.filter(img => img.id !== imageId));
-        if (info) {
-          setInfo({
-            ...info,
-            currentUploads: Math.max(0, (info.currentUploads || 0) - 1),
-            remainingUploads: (info.remainingUploads || 0) + 1,
-          });
-        }
+        setDuplicates(prev => prev.filter(pair => !pair.imageIds.includes(imageId)));
+        await refreshInfo();
       } else {
         toast.error(result.error || 'Failed to delete image');
       }
@@ -309,6 +378,152 @@ export function UploadPage() {
     }
   };
 
+  const handleReplaceClick = (imageId: string) => {
+    replaceTargetRef.current = imageId;
+    replaceInputRef.current?.click();
+  };
+
+  const handleReplaceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const imageId = replaceTargetRef.current;
+    e.target.value = '';
+    if (!token || !file || !imageId) return;
+
+    setReplacingImageId(imageId);
+
+    try {
+      const result = await api.replaceImage(token, imageId, file);
+
+      if (result.success && result.image) {
+        const replaced = result.image;
+        setImageLoadFailures(prev => {
+          const { [imageId]: _removed, ...rest } = prev;
+          void _removed;
+          return rest;
+        });
+        setUploadedImages(prev => prev.map(img => img.id === imageId
+          ? {
+              ...img,
+              originalName: file.name,
+              s3Url: replaced.s3Url,
+              thumbnailUrl: replaced.thumbnailUrl,
+              quality: replaced.quality,
+              crop: undefined,
+              rejection: img.rejection ? { ...img.rejection, replacedAt: new Date().toISOString() } : undefined,
+            }
+          : img
+        ));
+        if (uploadedImages.some(img => img.id === imageId && img.rejection)) {
+          await refreshInfo();
+        }
+        const imagesRes = await api.getUploadedImages(token);
+        if (imagesRes.success) {
+          setDuplicates(imagesRes.duplicates || []);
+        }
+        if (replaced.quality && replaced.quality.verdict !== 'ok') {
+          toast.error(replaced.quality.reason || 'This photo may still print blurry');
+        } else {
+          toast.success('Photo replaced');
+        }
+      } else {
+        toast.error(result.error || 'Failed to replace photo');
+      }
+    } catch {
+      toast.error('Failed to replace photo');
+    } finally {
+      setReplacingImageId(null);
+      replaceTargetRef.current = null;
+    }
+  };
+
+  const handleSaveCrop = async (crop: ImageCrop) => {
+    if (!token || !croppingImage) return;
+    const imageId = croppingImage.id;
+
+    setIsSavingCrop(true);
+
+    try {
+      const result = await api.updateImageCrop(token, imageId, crop);
+
+      if (result.success) {
+        setUploadedImages(prev => prev.map(img => img.id === imageId ? { ...img, crop } : img));
+        setCroppingImage(null);
+        toast.success('Crop saved');
+      } else {
+        toast.error(result.error || 'Failed to save crop');
+      }
+    } catch {
+      toast.error('Failed to save crop');
+    } finally {
+      setIsSavingCrop(false);
+    }
+  };
+
+  const handleResetCrop = async () => {
+    if (!token || !croppingImage) return;
+    const imageId = croppingImage.id;
+
+    setIsSavingCrop(true);
+
+    try {
+      const result = await api.clearImageCrop(token, imageId);
+
+      if (result.success) {
+        setUploadedImages(prev => prev.map(img => img.id === imageId ? { ...img, crop: undefined } : img));
+        setCroppingImage(null);
+      } else {
+        toast.error(result.error || 'Failed to reset crop');
+      }
+    } catch {
+      toast.error('Failed to reset crop');
+    } finally {
+      setIsSavingCrop(false);
+    }
+  };
+
+  const handleSaveOptions = async (options: PhotoOptions) => {
+    if (!token || !editingOptionsImage) return;
+    const imageId = editingOptionsImage.id;
+
+    setIsSavingOptions(true);
+
+    try {
+      const result = await api.updateImageOptions(token, imageId, options);
+
+      if (result.success && result.image) {
+        const updated = result.image;
+        setUploadedImages(prev => prev.map(img => img.id === imageId
+          ? { ...img, photoSize: updated.photoSize, photoType: updated.photoType, copies: updated.copies, caption: updated.caption, quality: updated.quality, crop: updated.crop }
+          : img
+        ));
+        setEditingOptionsImage(null);
+        await refreshInfo();
+        if (updated.quality?.verdict === 'reject') {
+          toast.error(updated.quality.reason || 'This photo is too low resolution for that size');
+        } else {
+          toast.success('Print options saved');
+        }
+      } else {
+        toast.error(result.error || 'Failed to update photo');
+      }
+    } catch {
+      toast.error('Failed to update photo');
+    } finally {
+      setIsSavingOptions(false);
+    }
+  };
+
+  const duplicateIds = new Set(duplicates.flatMap(pair => pair.imageIds));
+
+  // Photos sent back during review, and (once reopened) the approved photos that stay locked
+  const rejectedPhotos = info?.rejectedPhotos || [];
+  const rejectedPhotoIds = new Set(rejectedPhotos.map(photo => photo.id));
+  const isApprovedInReview = (img: UploadedImage) =>
+    !!info?.reopenedAt && !img.rejection && new Date(img.uploadedAt) <= new Date(info.reopenedAt);
+
+  const lowQualityCount = uploadedImages.filter(img => img.quality && img.quality.verdict !== 'ok').length;
+  const rejectedCount = uploadedImages.filter(img => img.quality?.verdict === 'reject').length;
+
   const handleSubmitForPrinting = () => {
     if (!token || !info) return;
     setShowConfirmModal(true);
@@ -345,11 +560,15 @@ export function UploadPage() {
 
   const pendingCount = selectedFiles.filter(f => !f.uploaded && !f.error).length;
   
-  // Use uploadedImages.length as source of truth for actual uploaded count
-  const actualUploaded = uploadedImages.length;
+  // Use uploadedImages as source of truth for actual uploaded count (each copy is a print)
+  const actualUploaded = uploadedPrints;
   const maxUploads = info?.maxUploads || 0;
   const actualRemaining = Math.max(0, maxUploads - actualUploaded);
-  const allPhotosUploaded = actualUploaded >= maxUploads && maxUploads > 0;
+  const allowances = info?.allowances || [];
+  const allowancesFilled = allowances.every(a => a.used >= a.quantity);
+  const allPhotosUploaded = actualUploaded === maxUploads && maxUploads > 0 && allowancesFilled && rejectedPhotos.length === 0;
+  // Only worth showing when the order is split across sizes/styles
+  const showAllowances = allowances.some(a => a.photoSize || a.photoType);
   const isSubmitted = info?.submittedForPrinting;
 
   if (isLoading) {
@@ -361,6 +580,10 @@ export function UploadPage() {
     );
   }
 
+  if (needsPin) {
+    return <PinEntry onSubmit={handlePinSubmit} />;
+  }
+
   if (error || !info) {
     return (
       <div className={`${styles['upload-page']} ${styles['error-page']}`}>
@@ -400,6 +623,7 @@ export function UploadPage() {
               <p>All images have been removed from our server as per our privacy policy.</p>
               <p className={styles['thank-you']}>Thank you for choosing PhotoBookX! 📸</p>
             </div>
+            {info.orderStatus && <OrderTimeline status={info.orderStatus} />}
             <a href="https://photobookx.com" className={styles['primary-btn']}>
               <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                 <path d="M3 9l9-7 9 7v11a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"/>
@@ -461,6 +685,8 @@ export function UploadPage() {
                   })}</span>
                 </div>
               </div>
+
+              {info.orderStatus && <OrderTimeline status={info.orderStatus} />}
               
               {/* Show uploaded photos in read-only mode */}
               {uploadedImages.length > 0 && (
@@ -475,9 +701,9 @@ export function UploadPage() {
                   </div>
                   <div className={styles['uploaded-grid']}>
                     {uploadedImages.map((img) => (
-                      <div key={img.id} className={`${getImageClass(img.id)} ${styles.readonly}`}>
+                      <div key={img.id} className={`${getImageClass(img)} ${styles.readonly}`}>
                         <img 
-                          src={img.s3Url} 
+                          src={img.thumbnailUrl || img.s3Url} 
                           alt={img.originalName}
                           onLoad={(e) => handleImageLoad(img.id, e)}
                         />
@@ -532,6 +758,18 @@ export function UploadPage() {
                 <span><strong>{actualUploaded}</strong> uploaded</span>
               </div>
             </div>
+            {showAllowances && (
+              <div className={styles['allowance-list']}>
+                {allowances.map((a, index) => (
+                  <span
+                    key={index}
+                    className={`${styles['allowance-item']} ${a.used >= a.quantity ? styles.complete : ''}`}
+                  >
+                    {describeAllowance(a)}: <strong>{a.used}/{a.quantity}</strong>
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Step 1: Options Selection */}
@@ -541,7 +779,7 @@ export function UploadPage() {
                 <div className={styles['step-number']}>1</div>
                 <div className={styles['step-info']}>
                   <h2>Choose Print Settings</h2>
-                  <p>These settings will apply to <strong>all photos</strong> you upload</p>
+                  <p>These settings will apply to the <strong>next photos</strong> you upload</p>
                 </div>
               </div>
 
@@ -632,7 +870,7 @@ export function UploadPage() {
                   <line x1="12" y1="16" x2="12" y2="12"/>
                   <line x1="12" y1="8" x2="12.01" y2="8"/>
                 </svg>
-                <span>All photos will be printed with these settings. You cannot mix sizes or styles in the same order.</span>
+                <span>You can mix sizes and styles: upload one batch, then change these settings for the next. Each photo's size, style and number of copies can also be changed after uploading.</span>
               </div>
 
               <button className={styles['confirm-options-btn']} onClick={handleConfirmOptions}>
@@ -744,6 +982,14 @@ export function UploadPage() {
                           {file.uploading && (
                             <div className={styles['preview-overlay']}>
                               <div className={styles['preview-loader']}></div>
+                              {file.progress !== undefined && (
+                                <div className={styles['preview-progress']}>
+                                  <div
+                                    className={styles['preview-progress-bar']}
+                                    style={{ width: `${Math.round(file.progress * 100)}%` }}
+                                  ></div>
+                                </div>
+                              )}
                             </div>
                           )}
                           {file.uploaded && (
@@ -789,6 +1035,28 @@ export function UploadPage() {
                 <h3>Uploaded Photos ({uploadedImages.length})</h3>
               </div>
               
+              {rejectedPhotos.length > 0 && (
+                <div className={`${styles['quality-notice']} ${styles.reject}`}>
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="12" cy="12" r="10"/>
+                    <line x1="12" y1="8" x2="12" y2="12"/>
+                    <line x1="12" y1="16" x2="12.01" y2="16"/>
+                  </svg>
+                  <div>
+                    <span>
+                      We checked your photos and need {rejectedPhotos.length === 1 ? 'one replaced' : `${rejectedPhotos.length} replaced`} before printing.
+                      Tap Replace on {rejectedPhotos.length === 1 ? 'it' : 'each'}, then send your order again. Your other photos are approved and locked.
+                    </span>
+                    <ul className={styles['rejected-list']}>
+                      {rejectedPhotos.map(photo => (
+                        <li key={photo.id}>
+                          <strong>{photo.originalName}</strong>: {photo.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
               <div className={styles['data-notice']}>
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                   <circle cx="12" cy="12" r="10"/>
@@ -797,9 +1065,44 @@ export function UploadPage() {
                 </svg>
                 <span>Your photos will be permanently deleted from our servers after printing is complete.</span>
               </div>
+              {lowQualityCount > 0 && (
+                <div className={`${styles['quality-notice']} ${rejectedCount > 0 ? styles.reject : ''}`}>
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
+                    <line x1="12" y1="9" x2="12" y2="13"/>
+                    <line x1="12" y1="17" x2="12.01" y2="17"/>
+                  </svg>
+                  <span>
+                    {rejectedCount > 0
+                      ? `${rejectedCount} photo${rejectedCount > 1 ? 's are' : ' is'} too low resolution to print. Replace ${rejectedCount > 1 ? 'them' : 'it'} with the original photo before submitting.`
+                      : `${lowQualityCount} photo${lowQualityCount > 1 ? 's' : ''} may print blurry. For best results, replace ${lowQualityCount > 1 ? 'them' : 'it'} with the original from your camera roll.`}
+                  </span>
+                </div>
+              )}
+              {duplicates.length > 0 && (
+                <div className={styles['quality-notice']}>
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <rect x="9" y="9" width="13" height="13" rx="2" ry="2"/>
+                    <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/>
+                  </svg>
+                  <span>
+                    {duplicates.length === 1
+                      ? 'Two of your photos look the same.'
+                      : `${duplicates.length} pairs of your photos look the same.`}
+                    {' '}They're marked "Looks duplicate" below. If you want more than one print of a photo, delete the extra and use Options → Copies instead.
+                  </span>
+                </div>
+              )}
+              <input
+                ref={replaceInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleReplaceFile}
+                style={{ display: 'none' }}
+              />
               <div className={styles['uploaded-grid']}>
                 {uploadedImages.map((img) => (
-                  <div key={img.id} className={`${getImageClass(img.id)} ${deletingImageId === img.id ? styles.deleting : ''}`}>
+                  <div key={img.id} className={`${getImageClass(img)} ${deletingImageId === img.id ? styles.deleting : ''}`}>
                     {imageLoadFailures[img.id] ? (
                       <div className={styles['image-fallback']}>
                         <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -812,35 +1115,97 @@ export function UploadPage() {
                       </div>
                     ) : (
                       <img 
-                        src={img.s3Url} 
+                        src={img.thumbnailUrl || img.s3Url} 
                         alt={img.originalName} 
                         onLoad={(e) => handleImageLoad(img.id, e)}
                         onError={() => handleImageError(img.id)}
                       />
                     )}
-                    {deletingImageId === img.id ? (
+                    {deletingImageId === img.id || replacingImageId === img.id ? (
                       <div className={styles['delete-overlay']}>
                         <div className={styles['delete-loader']}></div>
                       </div>
                     ) : (
                       <>
-                        <div className={styles['uploaded-check']}>
-                          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3">
-                            <polyline points="20 6 9 17 4 12"/>
-                          </svg>
+                        <div className={styles['print-tag']}>
+                          {SIZE_LABELS[img.photoSize]} · {TYPE_LABELS[img.photoType]}
+                          {img.copies > 1 ? ` · ×${img.copies}` : ''}
                         </div>
-                        <button 
-                          className={styles['delete-btn']} 
-                          onClick={() => handleDeleteImage(img.id)}
-                          title="Delete photo"
-                        >
-                          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                            <polyline points="3 6 5 6 21 6"/>
-                            <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
-                            <line x1="10" y1="11" x2="10" y2="17"/>
-                            <line x1="14" y1="11" x2="14" y2="17"/>
-                          </svg>
-                        </button>
+                        {img.photoType === 'polaroid' && img.caption && !rejectedPhotoIds.has(img.id) && (
+                          <div className={styles['caption-preview']} title={img.caption}>{img.caption}</div>
+                        )}
+                        {rejectedPhotoIds.has(img.id) && (
+                          <div className={styles['rejected-reason']} title={img.rejection?.reason}>
+                            {img.rejection?.reason}
+                          </div>
+                        )}
+                        {!isApprovedInReview(img) && (
+                          <div className={styles['card-actions']}>
+                            <button
+                              className={styles['card-action-btn']}
+                              onClick={() => setEditingOptionsImage(img)}
+                              title={img.photoType === 'polaroid' ? 'Change size, style, copies or caption' : 'Change size, style or number of copies'}
+                            >
+                              Options
+                            </button>
+                            <button
+                              className={styles['card-action-btn']}
+                              onClick={() => setCroppingImage(img)}
+                              title="Choose how this photo is cropped for printing"
+                            >
+                              {img.crop ? 'Edit crop' : 'Crop'}
+                            </button>
+                            {(rejectedPhotoIds.has(img.id) || (img.quality && img.quality.verdict !== 'ok')) && (
+                              <button
+                                className={styles['card-action-btn']}
+                                onClick={() => handleReplaceClick(img.id)}
+                                title={img.rejection?.reason || img.quality?.reason}
+                              >
+                                Replace
+                              </button>
+                            )}
+                          </div>
+                        )}
+                        {duplicateIds.has(img.id) && (
+                          <div
+                            className={`${styles['duplicate-badge']} ${img.quality && img.quality.verdict !== 'ok' ? styles.stacked : ''}`}
+                            title="This photo looks like another one in your order"
+                          >
+                            Looks duplicate
+                          </div>
+                        )}
+                        {rejectedPhotoIds.has(img.id) ? (
+                          <div className={`${styles['quality-badge']} ${styles.reject}`} title={img.rejection?.reason}>
+                            Needs replacing
+                          </div>
+                        ) : img.quality && img.quality.verdict !== 'ok' ? (
+                          <div
+                            className={`${styles['quality-badge']} ${styles[img.quality.verdict]}`}
+                            title={img.quality.reason}
+                          >
+                            {img.quality.verdict === 'reject' ? 'Too blurry' : 'Low quality'}
+                          </div>
+                        ) : (
+                          <div className={styles['uploaded-check']}>
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3">
+                              <polyline points="20 6 9 17 4 12"/>
+                            </svg>
+                          </div>
+                        )}
+                        {!isApprovedInReview(img) && (
+                          <button 
+                            className={styles['delete-btn']} 
+                            onClick={() => handleDeleteImage(img.id)}
+                            title="Delete photo"
+                          >
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                              <polyline points="3 6 5 6 21 6"/>
+                              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
+                              <line x1="10" y1="11" x2="10" y2="17"/>
+                              <line x1="14" y1="11" x2="14" y2="17"/>
+                            </svg>
+                          </button>
+                        )}
                       </>
                     )}
                   </div>
@@ -858,7 +1223,7 @@ export function UploadPage() {
                     <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"/>
                     <polyline points="22 4 12 14.01 9 11.01"/>
                   </svg>
-                  <span>All {maxUploads} photos uploaded! Ready to print.</span>
+                  <span>All {maxUploads} prints added! Ready to print.</span>
                 </div>
                 <button 
                   className={styles['submit-btn']} 
@@ -889,7 +1254,13 @@ export function UploadPage() {
                     <circle cx="12" cy="12" r="10"/>
                     <polyline points="12 6 12 12 16 14"/>
                   </svg>
-                  <span>Upload {actualRemaining} more photo{actualRemaining !== 1 ? 's' : ''} to submit for printing</span>
+                  <span>
+                    {rejectedPhotos.length > 0
+                      ? `Replace ${rejectedPhotos.length} photo${rejectedPhotos.length !== 1 ? 's' : ''} we sent back to submit again`
+                      : actualRemaining > 0
+                      ? `Add ${actualRemaining} more print${actualRemaining !== 1 ? 's' : ''} to submit for printing`
+                      : 'Your prints don\'t match the sizes and styles in your order yet'}
+                  </span>
                 </div>
                 <button className={`${styles['submit-btn']} ${styles.disabled}`} disabled>
                   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -910,6 +1281,34 @@ export function UploadPage() {
       </main>
 
       {/* Confirmation Modal */}
+      {croppingImage && (
+        <CropEditor
+          imageUrl={croppingImage.thumbnailUrl || croppingImage.s3Url}
+          photoSize={croppingImage.photoSize}
+          photoType={croppingImage.photoType}
+          initialCrop={croppingImage.crop}
+          isSaving={isSavingCrop}
+          onSave={handleSaveCrop}
+          onReset={handleResetCrop}
+          onCancel={() => setCroppingImage(null)}
+        />
+      )}
+
+      {editingOptionsImage && (
+        <PhotoOptionsEditor
+          imageUrl={editingOptionsImage.thumbnailUrl || editingOptionsImage.s3Url}
+          initialOptions={{
+            photoSize: editingOptionsImage.photoSize,
+            photoType: editingOptionsImage.photoType,
+            copies: editingOptionsImage.copies || 1,
+            caption: editingOptionsImage.caption || '',
+          }}
+          isSaving={isSavingOptions}
+          onSave={handleSaveOptions}
+          onCancel={() => setEditingOptionsImage(null)}
+        />
+      )}
+
       {showConfirmModal && (
         <div className={styles['modal-overlay']} onClick={() => setShowConfirmModal(false)}>
           <div className={styles['modal-content']} onClick={(e) => e.stopPropagation()}>
@@ -922,8 +1321,13 @@ export function UploadPage() {
             </div>
             <h2>Ready to Print?</h2>
             <p className={styles['modal-message']}>
-              You're about to submit <strong>{actualUploaded} photos</strong> for printing.
+              You're about to submit <strong>{actualUploaded} prints</strong> ({uploadedImages.length} photos) for printing.
             </p>
+            {duplicates.length > 0 && (
+              <p className={styles['modal-message']}>
+                <strong>{duplicates.length === 1 ? '2 photos look' : `${duplicates.length} pairs of photos look`} the same.</strong> Cancel to review them first.
+              </p>
+            )}
             <div className={styles['modal-warning']}>
               <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                 <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from 'react';
+import styles from '../UploadPage.module.css';
+import type { ImageCrop } from '../../services/api';
+
+type PhotoSize = 'large' | 'small';
+type PhotoType = 'normal' | 'polaroid';
+type Rotation = ImageCrop['rotation'];
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Width / height of the printed image area in portrait (matches the backend print specs)
+const PRINT_ASPECT_RATIOS: Record<PhotoSize, Record<PhotoType, number>> = {
+  small: { normal: 3 / 4, polaroid: 2.6 / 2.9 },
+  large: { normal: 4 / 6, polaroid: 3.5 / 4.5 },
+};
+
+const MAX_STAGE_WIDTH = 520;
+const MODAL_GUTTER = 80;
+const MAX_STAGE_HEIGHT = 440;
+const MIN_CROP_FRACTION = 0.15;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+interface CropEditorProps {
+  imageUrl: string;
+  photoSize: PhotoSize;
+  photoType: PhotoType;
+  initialCrop?: ImageCrop;
+  isSaving: boolean;
+  onSave: (crop: ImageCrop) => void;
+  onReset: () => void;
+  onCancel: () => void;
+}
+
+export function CropEditor({ imageUrl, photoSize, photoType, initialCrop, isSaving, onSave, onReset, onCancel }: CropEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ mode: 'move' | 'resize'; startX: number; startY: number; startBox: Box } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [rotation, setRotation] = useState<Rotation>(initialCrop?.rotation || 0);
+  const [landscape, setLandscape] = useState<boolean | null>(null);
+  const [box, setBox] = useState<Box | null>(
+    initialCrop ? { x: initialCrop.x, y: initialCrop.y, width: initialCrop.width, height: initialCrop.height } : null
+  );
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      if (initialCrop) {
+        const sideways = initialCrop.rotation === 90 || initialCrop.rotation === 270;
+        const w = sideways ? img.naturalHeight : img.naturalWidth;
+        const h = sideways ? img.naturalWidth : img.naturalHeight;
+        setLandscape(initialCrop.width * w > initialCrop.height * h);
+      }
+      setImage(img);
+    };
+    img.onerror = () => setLoadError(true);
+    img.src = imageUrl;
+  }, [imageUrl, initialCrop]);
+
+  const sideways = rotation === 90 || rotation === 270;
+  const naturalWidth = image ? (sideways ? image.naturalHeight : image.naturalWidth) : 1;
+  const naturalHeight = image ? (sideways ? image.naturalWidth : image.naturalHeight) : 1;
+  // Fit the stage inside the modal on small phone screens too
+  const maxStageWidth = Math.min(MAX_STAGE_WIDTH, window.innerWidth - MODAL_GUTTER);
+  const scale = Math.min(maxStageWidth / naturalWidth, MAX_STAGE_HEIGHT / naturalHeight);
+  const stageWidth = Math.round(naturalWidth * scale);
+  const stageHeight = Math.round(naturalHeight * scale);
+
+  const isLandscape = landscape ?? naturalWidth > naturalHeight;
+  const portraitRatio = PRINT_ASPECT_RATIOS[photoSize][photoType];
+  const ratio = isLandscape ? 1 / portraitRatio : portraitRatio;
+  // Box height (as a fraction of the stage) for each unit of box width
+  const heightPerWidth = stageWidth / (stageHeight * ratio);
+
+  // Largest centred box with the print aspect ratio
+  const defaultBox = (): Box => {
+    const width = heightPerWidth <= 1 ? 1 : 1 / heightPerWidth;
+    const height = width * heightPerWidth;
+    return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+  };
+
+  const activeBox = box ?? defaultBox();
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+
+    canvas.width = stageWidth;
+    canvas.height = stageHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const drawWidth = sideways ? stageHeight : stageWidth;
+    const drawHeight = sideways ? stageWidth : stageHeight;
+    ctx.clearRect(0, 0, stageWidth, stageHeight);
+    ctx.save();
+    ctx.translate(stageWidth / 2, stageHeight / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+    ctx.restore();
+  }, [image, rotation, sideways, stageWidth, stageHeight]);
+
+  const rotate = (direction: 1 | -1) => {
+    setRotation(prev => (((prev + direction * 90) % 360 + 360) % 360) as Rotation);
+    setLandscape(null);
+    setBox(null);
+  };
+
+  const toggleOrientation = () => {
+    setLandscape(!isLandscape);
+    setBox(null);
+  };
+
+  const handlePointerDown = (mode: 'move' | 'resize') => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startBox: activeBox };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = (e.clientX - drag.startX) / stageWidth;
+    const dy = (e.clientY - drag.startY) / stageHeight;
+    const start = drag.startBox;
+
+    if (drag.mode === 'move') {
+      setBox({
+        ...start,
+        x: clamp(start.x + dx, 0, 1 - start.width),
+        y: clamp(start.y + dy, 0, 1 - start.height),
+      });
+    } else {
+      // Resize from the bottom-right corner, keeping the print aspect ratio
+      const maxWidth = Math.min(1 - start.x, (1 - start.y) / heightPerWidth);
+      const width = clamp(start.width + Math.max(dx, dy / heightPerWidth), Math.min(MIN_CROP_FRACTION, maxWidth), maxWidth);
+      setBox({ ...start, width, height: width * heightPerWidth });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleSave = () => {
+    onSave({
+      x: round(activeBox.x),
+      y: round(activeBox.y),
+      width: round(activeBox.width),
+      height: round(activeBox.height),
+      rotation,
+    });
+  };
+
+  return (
+    <div className={styles['modal-overlay']} onClick={onCancel}>
+      <div className={`${styles['modal-content']} ${styles['crop-modal']}`} onClick={(e) => e.stopPropagation()}>
+        <h2>Adjust Crop</h2>
+        <p className={styles['modal-message']}>
+          Drag the box to choose what gets printed. Drag the corner to resize.
+        </p>
+
+        {loadError ? (
+          <div className={styles['image-fallback']}>
+            <p>Preview not available</p>
+          </div>
+        ) : !image ? (
+          <div className={styles['crop-loading']}>
+            <div className={styles['delete-loader']}></div>
+          </div>
+        ) : (
+          <div className={styles['crop-stage']} style={{ width: stageWidth, height: stageHeight }}>
+            <canvas ref={canvasRef} />
+            <div
+              className={styles['crop-box']}
+              style={{
+                left: `${activeBox.x * 100}%`,
+                top: `${activeBox.y * 100}%`,
+                width: `${activeBox.width * 100}%`,
+                height: `${activeBox.height * 100}%`,
+              }}
+              onPointerDown={handlePointerDown('move')}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <div
+                className={styles['crop-handle']}
+                onPointerDown={handlePointerDown('resize')}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className={styles['crop-toolbar']}>
+          <button type="button" onClick={() => rotate(-1)} disabled={!image} title="Rotate left">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="1 4 1 10 7 10"/>
+              <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"/>
+            </svg>
+          </button>
+          <button type="button" onClick={() => rotate(1)} disabled={!image} title="Rotate right">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="23 4 23 10 17 10"/>
+              <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"/>
+            </svg>
+          </button>
+          <button type="button" onClick={toggleOrientation} disabled={!image}>
+            {isLandscape ? 'Landscape' : 'Portrait'}
+          </button>
+          {initialCrop && (
+            <button type="button" onClick={onReset} disabled={isSaving}>
+              Reset
+            </button>
+          )}
+        </div>
+
+        <div className={styles['modal-actions']}>
+          <button className={`${styles['modal-btn']} ${styles.cancel}`} onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            className={`${styles['modal-btn']} ${styles.confirm}`}
+            onClick={handleSave}
+            disabled={!image || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save Crop'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import type { OrderStatus } from '../../services/api';
+import styles from '../UploadPage.module.css';
+
+// Shiprocket dates arrive as "2025-06-02 14:05:00"; ours are ISO strings
+const formatDate = (value: string) => {
+  const date = new Date(value.includes('T') ? value : value.replace(' ', 'T'));
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+interface OrderTimelineProps {
+  status: OrderStatus;
+}
+
+export function OrderTimeline({ status }: OrderTimelineProps) {
+  const { shipment } = status;
+
+  return (
+    <div className={styles['order-timeline']}>
+      <h3>Order Status</h3>
+      <ol className={styles['timeline-steps']}>
+        {status.steps.map(step => (
+          <li key={step.key} className={`${styles['timeline-step']} ${styles[step.state]}`}>
+            <span className={styles['timeline-dot']}>
+              {step.state === 'done' && (
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3">
+                  <polyline points="20 6 9 17 4 12"/>
+                </svg>
+              )}
+            </span>
+            <div className={styles['timeline-body']}>
+              <span className={styles['timeline-label']}>{step.label}</span>
+              {step.date && <span className={styles['timeline-date']}>{formatDate(step.date)}</span>}
+              {step.detail && <span className={styles['timeline-detail']}>{step.detail}</span>}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {shipment && (
+        <a href={shipment.trackingUrl} target="_blank" rel="noopener noreferrer" className={styles['timeline-track-link']}>
+          Track with {shipment.courierName || 'courier'} (AWB {shipment.awbCode})
+        </a>
+      )}
+    </div>
+  );
+}
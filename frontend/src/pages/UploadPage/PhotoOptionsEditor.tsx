@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import styles from '../UploadPage.module.css';
+
+type PhotoSize = 'large' | 'small';
+type PhotoType = 'normal' | 'polaroid';
+
+export interface PhotoOptions {
+  photoSize: PhotoSize;
+  photoType: PhotoType;
+  copies: number;
+  caption: string;
+}
+
+const MAX_COPIES = 10;
+// Matches the server limit; longer captions don't fit the polaroid strip
+const MAX_CAPTION_LENGTH = 40;
+
+interface PhotoOptionsEditorProps {
+  imageUrl: string;
+  initialOptions: PhotoOptions;
+  isSaving: boolean;
+  onSave: (options: PhotoOptions) => void;
+  onCancel: () => void;
+}
+
+export function PhotoOptionsEditor({ imageUrl, initialOptions, isSaving, onSave, onCancel }: PhotoOptionsEditorProps) {
+  const [photoSize, setPhotoSize] = useState<PhotoSize>(initialOptions.photoSize);
+  const [photoType, setPhotoType] = useState<PhotoType>(initialOptions.photoType);
+  const [copies, setCopies] = useState(initialOptions.copies);
+  const [caption, setCaption] = useState(initialOptions.caption);
+
+  const printChanged = photoSize !== initialOptions.photoSize || photoType !== initialOptions.photoType;
+  const hasChanges = printChanged || copies !== initialOptions.copies || caption.trim() !== initialOptions.caption;
+
+  return (
+    <div className={styles['modal-overlay']} onClick={onCancel}>
+      <div className={`${styles['modal-content']} ${styles['options-modal']}`} onClick={(e) => e.stopPropagation()}>
+        <h2>Print Options</h2>
+        <img src={imageUrl} alt="" className={styles['options-preview']} />
+
+        <div className={styles['options-row']}>
+          <span className={styles['options-row-label']}>Size</span>
+          <div className={styles['options-segment']}>
+            <button
+              type="button"
+              className={photoSize === 'small' ? styles.active : ''}
+              onClick={() => setPhotoSize('small')}
+            >
+              Small 3"×4"
+            </button>
+            <button
+              type="button"
+              className={photoSize === 'large' ? styles.active : ''}
+              onClick={() => setPhotoSize('large')}
+            >
+              Large 4"×6"
+            </button>
+          </div>
+        </div>
+
+        <div className={styles['options-row']}>
+          <span className={styles['options-row-label']}>Style</span>
+          <div className={styles['options-segment']}>
+            <button
+              type="button"
+              className={photoType === 'normal' ? styles.active : ''}
+              onClick={() => setPhotoType('normal')}
+            >
+              Normal
+            </button>
+            <button
+              type="button"
+              className={photoType === 'polaroid' ? styles.active : ''}
+              onClick={() => setPhotoType('polaroid')}
+            >
+              Polaroid
+            </button>
+          </div>
+        </div>
+
+        <div className={styles['options-row']}>
+          <span className={styles['options-row-label']}>Copies</span>
+          <div className={styles['copies-stepper']}>
+            <button type="button" onClick={() => setCopies(copies - 1)} disabled={copies <= 1}>−</button>
+            <span>{copies}</span>
+            <button type="button" onClick={() => setCopies(copies + 1)} disabled={copies >= MAX_COPIES}>+</button>
+          </div>
+        </div>
+
+        {photoType === 'polaroid' && (
+          <div className={styles['caption-field']}>
+            <label htmlFor="photo-caption">Caption <span>(printed in the bottom border)</span></label>
+            <input
+              id="photo-caption"
+              type="text"
+              value={caption}
+              maxLength={MAX_CAPTION_LENGTH}
+              placeholder="e.g. Goa, Dec 2025"
+              onChange={(e) => setCaption(e.target.value)}
+            />
+            <span className={styles['caption-count']}>{caption.length}/{MAX_CAPTION_LENGTH}</span>
+          </div>
+        )}
+
+        {printChanged && (
+          <p className={styles['options-note']}>Changing the size or style resets this photo's crop.</p>
+        )}
+
+        <div className={styles['modal-actions']}>
+          <button className={`${styles['modal-btn']} ${styles.cancel}`} onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            className={`${styles['modal-btn']} ${styles.confirm}`}
+            onClick={() => onSave({ photoSize, photoType, copies, caption: caption.trim() })}
+            disabled={!hasChanges || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
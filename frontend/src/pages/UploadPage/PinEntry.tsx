@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import styles from '../UploadPage.module.css';
+
+const PIN_LENGTH = 4;
+
+interface PinEntryProps {
+  onSubmit: (pin: string) => Promise<string | null>;
+}
+
+export function PinEntry({ onSubmit }: PinEntryProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin.length !== PIN_LENGTH) return;
+
+    setIsChecking(true);
+    setError('');
+    const submitError = await onSubmit(pin);
+    if (submitError) {
+      setError(submitError);
+      setPin('');
+    }
+    setIsChecking(false);
+  };
+
+  return (
+    <div className={`${styles['upload-page']} ${styles['error-page']}`}>
+      <form className={`${styles['error-container']} ${styles['pin-container']}`} onSubmit={handleSubmit}>
+        <svg className={styles['pin-icon']} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="3" y="11" width="18" height="11" rx="2" ry="2"/>
+          <path d="M7 11V7a5 5 0 0 1 10 0v4"/>
+        </svg>
+        <h1>Enter your PIN</h1>
+        <p>To keep your photos private, enter the last 4 digits of the phone number on your order.</p>
+        <input
+          className={styles['pin-input']}
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={PIN_LENGTH}
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+          autoFocus
+        />
+        {error && <p className={styles['pin-error']}>{error}</p>}
+        <button type="submit" className={styles['primary-btn']} disabled={pin.length !== PIN_LENGTH || isChecking}>
+          {isChecking ? 'Checking...' : 'Open upload page'}
+        </button>
+      </form>
+    </div>
+  );
+}
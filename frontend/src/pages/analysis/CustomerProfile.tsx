@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { api } from '../../services/api';
+import type { CustomerProfile as CustomerProfileData } from '../../services/api';
+import styles from './Customers.module.css';
+
+function fmt(n: number) { return n.toLocaleString('en-IN'); }
+
+const formatDate = (value?: string | null) =>
+    value ? new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+
+const STATE_LABELS: Record<string, string> = {
+    placed: 'Placed',
+    fulfilled: 'Fulfilled',
+    in_transit: 'In transit',
+    out_for_delivery: 'Out for delivery',
+    delivery_attempted: 'Delivery attempted',
+    delivered: 'Delivered',
+    failed: 'RTO / failed',
+    cancelled: 'Cancelled',
+    discarded: 'Discarded',
+};
+
+export function CustomerProfile() {
+    const { customerId } = useParams<{ customerId: string }>();
+    const [profile, setProfile] = useState<CustomerProfileData | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!customerId) return;
+        let cancelled = false;
+        api.getCustomer(customerId)
+            .then(res => {
+                if (cancelled) return;
+                if (res.success && res.customer) {
+                    setProfile({
+                        customer: res.customer,
+                        orders: res.orders || [],
+                        abandonedCheckouts: res.abandonedCheckouts || [],
+                        tickets: res.tickets || [],
+                        rtoOrders: res.rtoOrders || [],
+                    });
+                } else {
+                    setError(res.error || 'Customer not found');
+                }
+            })
+            .catch(() => { if (!cancelled) setError('Failed to load customer'); })
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [customerId]);
+
+    if (isLoading) return (
+        <div className={styles.loading}>
+            <div className={styles.spinner} />
+            <p>Loading customer…</p>
+        </div>
+    );
+
+    if (error || !profile) return (
+        <div className={styles.page}>
+            <Link to="/admin/analysis/customers" className={styles['back-link']}>← All customers</Link>
+            <div className={styles.error}>{error || 'Customer not found'}</div>
+        </div>
+    );
+
+    const { customer, orders, abandonedCheckouts, tickets, rtoOrders } = profile;
+    const rtoMarks = new Map(rtoOrders.map(mark => [mark.shopifyOrderId, mark]));
+    const finalOrders = customer.deliveredCount + customer.rtoCount;
+
+    return (
+        <div className={styles.page}>
+            <Link to="/admin/analysis/customers" className={styles['back-link']}>← All customers</Link>
+
+            <div className={styles['profile-header']}>
+                <h2 className={styles['profile-name']}>{customer.name || 'Unnamed customer'}</h2>
+                <div className={styles['profile-contact']}>
+                    {[...customer.phones, ...customer.emails, customer.city].filter(Boolean).join(' · ')}
+                </div>
+            </div>
+
+            <div className={styles.stats}>
+                {[
+                    { label: 'Lifetime value', value: `₹${fmt(Math.round(customer.lifetimeValue))}` },
+                    { label: 'Orders', value: fmt(customer.orderCount) },
+                    { label: 'Delivered', value: fmt(customer.deliveredCount) },
+                    { label: 'RTO', value: fmt(customer.rtoCount) },
+                    { label: 'RTO rate', value: finalOrders > 0 ? `${((customer.rtoCount / finalOrders) * 100).toFixed(0)}%` : '—' },
+                    { label: 'First order', value: formatDate(customer.firstOrderAt) },
+                    { label: 'Last order', value: formatDate(customer.lastOrderAt) },
+                ].map(s => (
+                    <div key={s.label} className={styles['stat-card']}>
+                        <div className={styles['stat-value']}>{s.value}</div>
+                        <div className={styles['stat-label']}>{s.label}</div>
+                    </div>
+                ))}
+            </div>
+
+            <div className={styles.card}>
+                <div className={styles['card-header']}>
+                    <div className={styles['card-title']}>Orders</div>
+                </div>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>Order</th>
+                            <th>Placed</th>
+                            <th>Payment</th>
+                            <th>Status</th>
+                            <th className={styles.num}>Total</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {orders.map(order => {
+                            const rtoMark = rtoMarks.get(order.id);
+                            return (
+                                <tr key={order.id}>
+                                    <td>{order.name}</td>
+                                    <td>{formatDate(order.createdAt)}</td>
+                                    <td>{order.prepaid ? 'Prepaid' : 'COD'}</td>
+                                    <td>
+                                        <span className={`${styles['state-badge']} ${styles[`state-${order.state}`] || ''}`}>
+                                            {STATE_LABELS[order.state] || order.state}
+                                        </span>
+                                        {rtoMark && (
+                                            <div className={styles.muted}>
+                                                Marked RTO {formatDate(rtoMark.markedRTOAt)}{rtoMark.notes ? ` · ${rtoMark.notes}` : ''}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className={styles.num}>₹{fmt(Math.round(order.total))}</td>
+                                </tr>
+                            );
+                        })}
+                        {orders.length === 0 && (
+                            <tr><td colSpan={5} className={styles.empty}>No orders</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className={styles.columns}>
+                <div className={styles.card}>
+                    <div className={styles['card-header']}>
+                        <div className={styles['card-title']}>Courier tickets</div>
+                    </div>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>Order</th>
+                                <th>Courier</th>
+                                <th>Status</th>
+                                <th>Opened</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {tickets.map(ticket => (
+                                <tr key={ticket._id}>
+                                    <td>{ticket.orderNumber}</td>
+                                    <td>{ticket.courierName} · {ticket.awb}</td>
+                                    <td>{ticket.status.replace('_', ' ')}</td>
+                                    <td>{formatDate(ticket.createdAt)}</td>
+                                </tr>
+                            ))}
+                            {tickets.length === 0 && (
+                                <tr><td colSpan={4} className={styles.empty}>No tickets</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className={styles.card}>
+                    <div className={styles['card-header']}>
+                        <div className={styles['card-title']}>Abandoned checkouts</div>
+                    </div>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>Date</th>
+                                <th>Name</th>
+                                <th>Follow-up</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {abandonedCheckouts.map(checkout => (
+                                <tr key={checkout._id}>
+                                    <td>{checkout.dateStr}</td>
+                                    <td>{checkout.name}</td>
+                                    <td>{checkout.status.replace('_', ' ')}</td>
+                                </tr>
+                            ))}
+                            {abandonedCheckouts.length === 0 && (
+                                <tr><td colSpan={3} className={styles.empty}>No abandoned checkouts</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { api } from '../../services/api';
+import type { CustomerSummary, RepeatPurchaseReport } from '../../services/api';
+import styles from './Customers.module.css';
+
+type CustomerSort = 'ltv' | 'orders' | 'recent';
+
+function fmt(n: number) { return n.toLocaleString('en-IN'); }
+
+const formatDate = (value?: string | null) =>
+    value ? new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+
+const formatMonth = (month: string) =>
+    new Date(`${month}-01T00:00:00`).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+
+export function Customers() {
+    const navigate = useNavigate();
+    const [report, setReport] = useState<RepeatPurchaseReport | null>(null);
+    const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+    const [search, setSearch] = useState('');
+    const [sort, setSort] = useState<CustomerSort>('ltv');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRebuilding, setIsRebuilding] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadReport = useCallback(async () => {
+        try {
+            const res = await api.getRepeatPurchaseReport();
+            if (res.success && res.report) setReport(res.report);
+            else setError(res.error || 'Failed to load repeat purchase report');
+        } catch {
+            setError('Failed to load repeat purchase report');
+        }
+    }, []);
+
+    const loadCustomers = useCallback(async (term: string, order: CustomerSort) => {
+        try {
+            const res = await api.getCustomers(term, order);
+            if (res.success) setCustomers(res.customers || []);
+            else toast.error(res.error || 'Failed to load customers');
+        } catch {
+            toast.error('Failed to load customers');
+        }
+    }, []);
+
+    useEffect(() => {
+        Promise.all([loadReport(), loadCustomers('', 'ltv')]).finally(() => setIsLoading(false));
+    }, [loadReport, loadCustomers]);
+
+    // Search as the admin types, once they pause
+    useEffect(() => {
+        if (isLoading) return;
+        const timer = setTimeout(() => loadCustomers(search, sort), 300);
+        return () => clearTimeout(timer);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [search, sort]);
+
+    const handleRebuild = async () => {
+        setIsRebuilding(true);
+        try {
+            const res = await api.rebuildCustomers();
+            if (res.success) {
+                toast.success(`Rebuilt ${fmt(res.customers ?? 0)} customers from ${fmt(res.orders ?? 0)} orders`);
+                await Promise.all([loadReport(), loadCustomers(search, sort)]);
+            } else {
+                toast.error(res.error || 'Rebuild failed');
+            }
+        } catch {
+            toast.error('Rebuild failed');
+        } finally {
+            setIsRebuilding(false);
+        }
+    };
+
+    if (isLoading) return (
+        <div className={styles.loading}>
+            <div className={styles.spinner} />
+            <p>Loading customers…</p>
+        </div>
+    );
+
+    if (error || !report) return <div className={styles.error}>{error || 'Failed to load repeat purchase report'}</div>;
+
+    return (
+        <div className={styles.page}>
+            <div className={styles.stats}>
+                {[
+                    { label: 'Customers', value: fmt(report.customers) },
+                    { label: 'Repeat customers', value: fmt(report.repeatCustomers) },
+                    { label: 'Repeat rate', value: `${report.repeatRate}%` },
+                    { label: 'Avg orders / customer', value: report.averageOrders.toFixed(2) },
+                    { label: 'Avg lifetime value', value: `₹${fmt(report.averageLifetimeValue)}` },
+                    { label: 'Revenue from repeat customers', value: `${report.repeatRevenueShare}%` },
+                    { label: 'Avg days to 2nd order', value: report.averageDaysToSecondOrder != null ? String(report.averageDaysToSecondOrder) : '—' },
+                ].map(s => (
+                    <div key={s.label} className={styles['stat-card']}>
+                        <div className={styles['stat-value']}>{s.value}</div>
+                        <div className={styles['stat-label']}>{s.label}</div>
+                    </div>
+                ))}
+            </div>
+
+            <div className={styles.columns}>
+                <div className={styles.card}>
+                    <div className={styles['card-header']}>
+                        <div>
+                            <div className={styles['card-title']}>Orders per customer</div>
+                            <div className={styles['card-subtitle']}>Cancelled and discarded orders aren't counted</div>
+                        </div>
+                    </div>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>Orders</th>
+                                <th className={styles.num}>Customers</th>
+                                <th className={styles.num}>Share</th>
+                                <th className={styles.num}>Lifetime value</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.distribution.map(row => (
+                                <tr key={row.orders}>
+                                    <td>{row.orders}</td>
+                                    <td className={styles.num}>{fmt(row.customers)}</td>
+                                    <td className={styles.num}>{report.customers > 0 ? ((row.customers / report.customers) * 100).toFixed(1) : '0.0'}%</td>
+                                    <td className={styles.num}>₹{fmt(row.lifetimeValue)}</td>
+                                </tr>
+                            ))}
+                            {report.distribution.length === 0 && (
+                                <tr><td colSpan={4} className={styles.empty}>No customers yet</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className={styles.card}>
+                    <div className={styles['card-header']}>
+                        <div>
+                            <div className={styles['card-title']}>Repeat rate by first order month</div>
+                            <div className={styles['card-subtitle']}>Recent months have had less time to come back</div>
+                        </div>
+                    </div>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>First order</th>
+                                <th className={styles.num}>Customers</th>
+                                <th className={styles.num}>Came back</th>
+                                <th className={styles.num}>Repeat rate</th>
+                                <th className={styles.num}>Lifetime value</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.cohorts.map(row => (
+                                <tr key={row.month}>
+                                    <td>{formatMonth(row.month)}</td>
+                                    <td className={styles.num}>{fmt(row.customers)}</td>
+                                    <td className={styles.num}>{fmt(row.repeatCustomers)}</td>
+                                    <td className={styles.num}>{row.repeatRate}%</td>
+                                    <td className={styles.num}>₹{fmt(row.lifetimeValue)}</td>
+                                </tr>
+                            ))}
+                            {report.cohorts.length === 0 && (
+                                <tr><td colSpan={5} className={styles.empty}>No customers yet</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <div className={styles.card}>
+                <div className={styles['card-header']}>
+                    <div>
+                        <div className={styles['card-title']}>Customers</div>
+                        <div className={styles['card-subtitle']}>
+                            Matched on phone and email · rebuilt {report.rebuiltAt ? new Date(report.rebuiltAt).toLocaleString('en-IN') : 'never'}
+                        </div>
+                    </div>
+                    <div className={styles.controls}>
+                        <input
+                            type="text"
+                            value={search}
+                            onChange={e => setSearch(e.target.value)}
+                            placeholder="Phone, email or name"
+                            className={styles.input}
+                        />
+                        <select value={sort} onChange={e => setSort(e.target.value as CustomerSort)} className={styles.select}>
+                            <option value="ltv">Lifetime value</option>
+                            <option value="orders">Most orders</option>
+                            <option value="recent">Latest order</option>
+                        </select>
+                        <button onClick={handleRebuild} disabled={isRebuilding} className={styles.button}>
+                            {isRebuilding ? 'Rebuilding…' : 'Rebuild'}
+                        </button>
+                    </div>
+                </div>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>Customer</th>
+                            <th>Phone</th>
+                            <th>City</th>
+                            <th className={styles.num}>Orders</th>
+                            <th className={styles.num}>Delivered</th>
+                            <th className={styles.num}>RTO</th>
+                            <th className={styles.num}>Lifetime value</th>
+                            <th>Last order</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {customers.map(customer => (
+                            <tr key={customer._id} className={styles.clickable} onClick={() => navigate(`/admin/analysis/customers/${customer._id}`)}>
+                                <td>
+                                    <div>{customer.name || '—'}</div>
+                                    {customer.emails[0] && <div className={styles.muted}>{customer.emails[0]}</div>}
+                                </td>
+                                <td>{customer.phones[0] || '—'}</td>
+                                <td>{customer.city || '—'}</td>
+                                <td className={styles.num}>{customer.orderCount}</td>
+                                <td className={styles.num}>{customer.deliveredCount}</td>
+                                <td className={styles.num}>{customer.rtoCount}</td>
+                                <td className={styles.num}>₹{fmt(Math.round(customer.lifetimeValue))}</td>
+                                <td>{formatDate(customer.lastOrderAt)}</td>
+                            </tr>
+                        ))}
+                        {customers.length === 0 && (
+                            <tr><td colSpan={8} className={styles.empty}>No customers found</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,244 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { api } from '../../services/api';
+import type { OrderSyncHealth, OrderImport } from '../../services/api';
+import styles from './OrderSync.module.css';
+
+// How often progress is refreshed while an import is running
+const IMPORT_POLL_MS = 5000;
+
+const formatDateTime = (value?: string) =>
+  value ? new Date(value).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : '—';
+
+const IMPORT_STATUS_LABELS: Record<OrderImport['status'], string> = {
+  exporting: 'Shopify is exporting',
+  importing: 'Importing',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+const isActive = (orderImport: OrderImport) => orderImport.status === 'exporting' || orderImport.status === 'importing';
+
+export function OrderSync() {
+  const [health, setHealth] = useState<OrderSyncHealth | null>(null);
+  const [imports, setImports] = useState<OrderImport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [replayFrom, setReplayFrom] = useState('');
+  const [replayTo, setReplayTo] = useState('');
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [importSince, setImportSince] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+
+  const loadHealth = useCallback(async () => {
+    try {
+      const response = await api.getOrderSyncHealth();
+      if (response.success) {
+        setHealth({
+          state: response.state ?? null,
+          recentRuns: response.recentRuns || [],
+          inProgress: !!response.inProgress,
+          stale: !!response.stale,
+        });
+      } else {
+        toast.error(response.error || 'Failed to load sync health');
+      }
+    } catch {
+      toast.error('Failed to load sync health');
+    }
+  }, []);
+
+  const loadImports = useCallback(async () => {
+    try {
+      const response = await api.getOrderImports();
+      if (response.success) setImports(response.imports || []);
+    } catch (err) {
+      console.error('Failed to load order imports:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    Promise.all([loadHealth(), loadImports()]).finally(() => setIsLoading(false));
+  }, [loadHealth, loadImports]);
+
+  const hasActiveImport = imports.some(isActive);
+
+  useEffect(() => {
+    if (!hasActiveImport) return;
+    const timer = setInterval(loadImports, IMPORT_POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveImport, loadImports]);
+
+  const handleReplay = async () => {
+    if (!replayFrom || !replayTo) {
+      toast.error('Pick both ends of the window');
+      return;
+    }
+    setIsReplaying(true);
+    try {
+      const response = await api.replayOrderSync(new Date(replayFrom).toISOString(), new Date(replayTo).toISOString());
+      if (response.success && response.run) {
+        toast.success(`Replayed ${response.run.fetched} orders (${response.run.inserted} new)`);
+        await loadHealth();
+      } else {
+        toast.error(response.error || 'Replay failed');
+      }
+    } catch {
+      toast.error('Replay failed');
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  const handleStartImport = async () => {
+    setIsStarting(true);
+    try {
+      const response = await api.startOrderImport(importSince || undefined);
+      if (response.success) {
+        toast.success('Import started');
+        await loadImports();
+      } else {
+        toast.error(response.error || 'Failed to start import');
+      }
+    } catch {
+      toast.error('Failed to start import');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleResume = async (id: string) => {
+    try {
+      const response = await api.resumeOrderImport(id);
+      if (response.success) {
+        toast.success('Import resumed');
+        await loadImports();
+      } else {
+        toast.error(response.error || 'Failed to resume import');
+      }
+    } catch {
+      toast.error('Failed to resume import');
+    }
+  };
+
+  if (isLoading) {
+    return <div className={styles.loading}><div className={styles.spinner} /></div>;
+  }
+
+  const state = health?.state;
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <div>
+          <h1 className={styles.title}>Order Sync</h1>
+          <p className={styles.subtitle}>Incremental sync from Shopify and historical imports into the order store</p>
+        </div>
+      </header>
+
+      <section className={styles.card}>
+        <div className={styles['card-header']}>
+          <h2 className={styles['card-title']}>Sync health</h2>
+          <span className={`${styles.badge} ${health?.stale ? styles['badge-bad'] : styles['badge-good']}`}>
+            {health?.inProgress ? 'Running' : health?.stale ? 'Behind' : 'Healthy'}
+          </span>
+        </div>
+        <div className={styles.stats}>
+          <div className={styles.stat}>
+            <span className={styles['stat-label']}>Last success</span>
+            <span className={styles['stat-value']}>{formatDateTime(state?.lastSuccessAt)}</span>
+          </div>
+          <div className={styles.stat}>
+            <span className={styles['stat-label']}>Last run</span>
+            <span className={styles['stat-value']}>{formatDateTime(state?.lastRunAt)}</span>
+          </div>
+          <div className={styles.stat}>
+            <span className={styles['stat-label']}>Synced up to</span>
+            <span className={styles['stat-value']}>{formatDateTime(state?.cursor)}</span>
+          </div>
+        </div>
+        {state?.lastError && <p className={styles.error}>Last error: {state.lastError}</p>}
+
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Started</th>
+              <th>Source</th>
+              <th>Window</th>
+              <th>Fetched</th>
+              <th>New</th>
+              <th>Updated</th>
+              <th>Failed</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(health?.recentRuns || []).map(run => (
+              <tr key={run._id}>
+                <td>{formatDateTime(run.startedAt)}</td>
+                <td>{run.source}{run.runBy ? ` · ${run.runBy}` : ''}</td>
+                <td>{formatDateTime(run.windowStart)} → {formatDateTime(run.windowEnd)}</td>
+                <td>{run.fetched}</td>
+                <td>{run.inserted}</td>
+                <td>{run.updated}</td>
+                <td>{run.failed}</td>
+                <td title={run.error}>{run.status}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className={styles.form}>
+          <span className={styles['form-label']}>Replay orders updated between</span>
+          <input type="datetime-local" value={replayFrom} onChange={e => setReplayFrom(e.target.value)} className={styles.input} />
+          <span className={styles['form-label']}>and</span>
+          <input type="datetime-local" value={replayTo} onChange={e => setReplayTo(e.target.value)} className={styles.input} />
+          <button onClick={handleReplay} disabled={isReplaying} className={styles.button}>
+            {isReplaying ? 'Replaying…' : 'Replay'}
+          </button>
+        </div>
+      </section>
+
+      <section className={styles.card}>
+        <div className={styles['card-header']}>
+          <h2 className={styles['card-title']}>Historical import</h2>
+        </div>
+        <p className={styles.hint}>
+          Exports orders through a Shopify bulk operation, with no 10,000-order limit. An interrupted import resumes where it stopped.
+        </p>
+        <div className={styles.form}>
+          <span className={styles['form-label']}>Orders created since</span>
+          <input type="date" value={importSince} onChange={e => setImportSince(e.target.value)} className={styles.input} />
+          <button onClick={handleStartImport} disabled={isStarting || hasActiveImport} className={styles.button}>
+            {isStarting ? 'Starting…' : importSince ? 'Import' : 'Import all orders'}
+          </button>
+        </div>
+
+        {imports.map(orderImport => (
+          <div key={orderImport._id} className={styles['import-row']}>
+            <div className={styles['import-main']}>
+              <span className={styles['import-status']}>{IMPORT_STATUS_LABELS[orderImport.status]}</span>
+              <span className={styles['import-meta']}>
+                {formatDateTime(orderImport.startedAt)}
+                {orderImport.createdAtMin ? ` · since ${new Date(orderImport.createdAtMin).toLocaleDateString('en-IN')}` : ' · all orders'}
+                {orderImport.startedBy ? ` · ${orderImport.startedBy}` : ''}
+              </span>
+            </div>
+            <div className={styles['import-progress']}>
+              {orderImport.status === 'exporting'
+                ? `${orderImport.objectCount} objects exported`
+                : `${orderImport.ordersProcessed} orders · ${orderImport.inserted} new · ${orderImport.updated} updated · ${orderImport.skipped} already current · ${orderImport.failed} failed`}
+            </div>
+            {orderImport.status === 'failed' && (
+              <>
+                <p className={styles.error}>{orderImport.error}</p>
+                <button onClick={() => handleResume(orderImport._id)} disabled={hasActiveImport} className={styles['button-secondary']}>
+                  Resume
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
@@ -67,15 +67,163 @@ interface MagicLinkInfo {
   customerEmail?: string;
   customerPhone?: string;
   maxUploads: number;
+  allowances?: Array<Omit<PrintAllowance, 'used'>>;
   currentUploads: number;
   expiresAt: string;
   isActive: boolean;
   imagesDeleted: boolean;
   imagesDeletedAt?: string;
+  submittedForPrinting?: boolean;
+  submittedAt?: string;
+  reopenedAt?: string;
+  pinRequired?: boolean;
+  // Last 4 digits of the order phone; null when the order has no usable phone
+  pin?: string | null;
   createdAt: string;
   uploadUrl: string;
 }
 
+// A link created from a synced order, waiting for an admin to send it on WhatsApp
+interface MagicLinkOutreach {
+  id: string;
+  magicLinkId: string;
+  orderNumber: string;
+  customerName: string;
+  customerPhone?: string;
+  message: string;
+  status: 'pending' | 'sent' | 'skipped';
+  handledAt?: string;
+  handledBy?: string;
+  createdAt: string;
+}
+
+// An unfinished link whose next reminder is due
+interface FollowUp {
+  token: string;
+  orderNumber: string;
+  customerName: string;
+  customerPhone?: string;
+  currentUploads: number;
+  maxUploads: number;
+  linkCreatedAt: string;
+  stage: 'not_opened' | 'not_started' | 'incomplete' | 'not_submitted';
+  attempt: number;
+  dueAt: string;
+  lastReminderAt?: string;
+  message: string;
+}
+
+// Links created in the window and how far they got
+interface UploadFunnel {
+  days: number;
+  created: number;
+  opened: number;
+  firstPhoto: number;
+  submitted: number;
+  reminded: number;
+  submittedAfterReminder: number;
+}
+
+// Photo retention: what starts the clock and how many days until photos are deleted
+interface RetentionRule {
+  trigger: 'delivered' | 'rto' | 'submitted';
+  days: number;
+}
+
+interface RetentionSettings {
+  enabled: boolean;
+  rules: RetentionRule[];
+  lastRunAt?: string;
+}
+
+// A link the current rules would purge (dry run)
+interface RetentionCandidate {
+  token: string;
+  orderNumber: string;
+  customerName: string;
+  trigger: RetentionRule['trigger'];
+  anchorDate: string;
+  dueAt: string;
+  imageCount: number;
+  bytes: number;
+}
+
+interface RetentionPreview {
+  generatedAt: string;
+  totalLinks: number;
+  totalImages: number;
+  totalBytes: number;
+  candidates: RetentionCandidate[];
+}
+
+interface RetentionPurgeItem {
+  magicLinkId: string;
+  orderNumber: string;
+  trigger: RetentionRule['trigger'];
+  anchorDate: string;
+  imageCount: number;
+  bytesFreed: number;
+  error?: string;
+}
+
+// One retention run; items are only included when fetching a single purge
+interface RetentionPurge {
+  _id: string;
+  source: 'scheduled' | 'manual';
+  runBy?: string;
+  startedAt: string;
+  finishedAt: string;
+  linksPurged: number;
+  linksFailed: number;
+  imagesDeleted: number;
+  bytesFreed: number;
+  items?: RetentionPurgeItem[];
+}
+
+// A request the public upload API refused
+interface BlockedUploadAttempt {
+  id: string;
+  reason: 'rate_limit_ip' | 'rate_limit_token' | 'hourly_cap' | 'bad_file' | 'pin_required' | 'pin_invalid' | 'pin_locked';
+  ip: string;
+  tokenHint: string;
+  orderNumber?: string;
+  method: string;
+  path: string;
+  details?: string;
+  createdAt: string;
+}
+
+interface MagicLinkEvent {
+  id: string;
+  type:
+    | 'created'
+    | 'opened'
+    | 'uploaded'
+    | 'replaced'
+    | 'deleted'
+    | 'settings_changed'
+    | 'submitted'
+    | 'reopened'
+    | 'photo_rejected'
+    | 'expiry_extended'
+    | 'limit_changed'
+    | 'token_reissued'
+    | 'pin_changed'
+    | 'reminder_sent'
+    | 'images_deleted'
+    | 'deactivated';
+  actor: 'customer' | 'admin' | 'system';
+  adminUser?: string;
+  details?: string;
+  createdAt: string;
+}
+
+interface MagicLinkResponse {
+  success: boolean;
+  magicLink?: MagicLinkInfo;
+  error?: string;
+}
+
 interface MagicLinksResponse {
   success: boolean;
   links?: MagicLinkInfo[];
@@ -103,6 +251,165 @@ export interface BacklogOrder {
   deliveryStatus: string | null;
   customerName: string | null;
   lineItems: { title: string; quantity: number; variantTitle: string | null }[];
+  // From the production board; null when photos haven't been submitted
+  productionStage: ProductionStage | null;
+  productionStale: boolean;
+}
+
+type ProductionStage = 'submitted' | 'downloaded' | 'printed' | 'quality_checked' | 'packed' | 'handed_to_courier';
+
+interface ProductionStep {
+  stage: ProductionStage;
+  enteredAt: string;
+  assigneeId?: string;
+  assigneeName?: string;
+  movedBy: string;
+}
+
+interface ProductionJobInfo {
+  stage: ProductionStage;
+  stageEnteredAt: string;
+  steps: ProductionStep[];
+}
+
+// A submitted order on the production board
+interface ProductionOrder extends ProductionJobInfo {
+  token: string;
+  orderNumber: string;
+  customerName: string;
+  maxUploads: number;
+  submittedAt?: string;
+  hoursInStage: number;
+  isStale: boolean;
+}
+
+// Packing station
+interface PackingChecklistItem {
+  key: string;
+  label: string;
+}
+
+interface PackingOrder {
+  token: string;
+  orderNumber: string;
+  customerName: string;
+  city?: string;
+  submittedForPrinting: boolean;
+  imagesDeleted?: boolean;
+  photos: { id: string; thumbnailUrl?: string; s3Url: string; photoSize: string; photoType: string; copies: number }[];
+  printCount: number;
+  printBreakdown: { label: string; count: number }[];
+  label: { status: 'ready' | 'missing'; awbCode?: string; courierName?: string; shipmentStatus?: string };
+  productionStage?: ProductionStage;
+  lastPacked?: { employeeName: string; packedAt: string };
+}
+
+interface PackerThroughput {
+  employeeId: string;
+  employeeName: string;
+  packed: number;
+  averageSecondsToPack: number | null;
+}
+
+// Order sync: incremental runs over an updated_at window
+interface OrderSyncRun {
+  _id: string;
+  source: 'scheduled' | 'manual' | 'replay';
+  runBy?: string;
+  windowStart: string;
+  windowEnd: string;
+  status: 'running' | 'succeeded' | 'partial' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  fetched: number;
+  inserted: number;
+  updated: number;
+  failed: number;
+  error?: string;
+}
+
+interface OrderSyncHealth {
+  state: { cursor?: string; lastRunAt?: string; lastSuccessAt?: string; lastError?: string } | null;
+  recentRuns: OrderSyncRun[];
+  inProgress: boolean;
+  stale: boolean;
+}
+
+// Historical import through a Shopify bulk operation
+interface OrderImport {
+  _id: string;
+  status: 'exporting' | 'importing' | 'completed' | 'failed';
+  createdAtMin?: string;
+  startedBy?: string;
+  objectCount: number;
+  ordersProcessed: number;
+  inserted: number;
+  updated: number;
+  // Already stored with the same or a newer copy
+  skipped: number;
+  failed: number;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+// One entry in an order's merged timeline (GET /api/admin/orders/:orderNumber/timeline)
+interface OrderEvent {
+  at: string;
+  source: 'shopify' | 'lifecycle' | 'shiprocket' | 'ticket' | 'ticket_raised' | 'acknowledged' | 'rto' | 'discarded' | 'magic_link' | 'upload';
+  title: string;
+  details?: string;
+  // Admin email, 'customer' or 'system'
+  actor?: string;
+}
+
+// One person across orders, abandoned checkouts and tickets, matched on phone and email
+interface CustomerSummary {
+  _id: string;
+  key: string;
+  name?: string;
+  city?: string;
+  phones: string[];
+  emails: string[];
+  orderCount: number;
+  deliveredCount: number;
+  rtoCount: number;
+  cancelledCount: number;
+  lifetimeValue: number;
+  firstOrderAt?: string;
+  secondOrderAt?: string;
+  lastOrderAt?: string;
+  rebuiltAt: string;
+}
+
+interface CustomerOrder {
+  id: number;
+  name: string;
+  createdAt: string;
+  total: number;
+  state: string;
+  prepaid: boolean;
+}
+
+interface CustomerProfile {
+  customer: CustomerSummary;
+  orders: CustomerOrder[];
+  abandonedCheckouts: Array<{ _id: string; dateStr: string; phone: string; name: string; status: string; createdAt: string }>;
+  tickets: Array<{ _id: string; orderNumber: string; awb: string; courierName: string; currentStatus: string; status: string; createdAt: string }>;
+  rtoOrders: Array<{ _id: string; shopifyOrderId: number; orderName: string; markedRTOAt: string; notes?: string }>;
+}
+
+interface RepeatPurchaseReport {
+  customers: number;
+  repeatCustomers: number;
+  repeatRate: number;
+  averageOrders: number;
+  averageLifetimeValue: number;
+  repeatRevenueShare: number;
+  averageDaysToSecondOrder: number | null;
+  distribution: Array<{ orders: string; customers: number; lifetimeValue: number }>;
+  cohorts: Array<{ month: string; customers: number; repeatCustomers: number; repeatRate: number; lifetimeValue: number }>;
+  rebuiltAt: string | null;
 }
 
 // Shopify Order Types
@@ -163,16 +470,139 @@ interface UploadInfo {
   maxUploads?: number;
   currentUploads?: number;
   remainingUploads?: number;
+  allowances?: PrintAllowance[];
+  printsUsed?: number;
   expiresAt?: string;
   submittedForPrinting?: boolean;
   submittedAt?: string;
+  reopenedAt?: string;
+  rejectedPhotos?: RejectedPhoto[];
   imagesDeleted?: boolean;
   imagesDeletedAt?: string;
   photoSize?: 'large' | 'small';
   photoType?: 'normal' | 'polaroid';
+  // The link needs the PIN before anything else works
+  pinRequired?: boolean;
+  // Present once the photos have been submitted
+  orderStatus?: OrderStatus;
   error?: string;
 }
 
+// One step of the customer-facing order timeline
+interface OrderTimelineStep {
+  key: 'photos_received' | 'printing' | 'dispatched' | 'in_transit' | 'delivered';
+  label: string;
+  state: 'done' | 'current' | 'upcoming';
+  date?: string;
+  detail?: string;
+}
+
+interface OrderStatus {
+  steps: OrderTimelineStep[];
+  shipment?: {
+    awbCode: string;
+    courierName?: string;
+    trackingUrl: string;
+    currentStatus?: string;
+    latestEvent?: { activity: string; location?: string; date: string };
+    estimatedDelivery?: string;
+  };
+}
+
+// A photo sent back during review that the customer still has to replace
+interface RejectedPhoto {
+  id: string;
+  originalName: string;
+  thumbnailUrl?: string;
+  reason: string;
+  rejectedAt: string;
+}
+
+// Prints bought for one size/style; a missing size or style means the customer picks
+interface PrintAllowance {
+  photoSize?: 'large' | 'small';
+  photoType?: 'normal' | 'polaroid';
+  quantity: number;
+  used: number;
+}
+
+interface ImageQuality {
+  verdict: 'ok' | 'warn' | 'reject';
+  reason?: string;
+  width: number;
+  height: number;
+  effectiveDpi: number;
+  hasExif: boolean;
+  cameraModel?: string;
+}
+
+interface ImageRejection {
+  reason: string;
+  rejectedAt: string;
+  replacedAt?: string;
+}
+
+interface ReviewImage {
+  id: string;
+  originalName: string;
+  s3Url: string;
+  thumbnailUrl?: string;
+  photoSize: 'large' | 'small';
+  photoType: 'normal' | 'polaroid';
+  copies: number;
+  caption?: string;
+  quality?: ImageQuality;
+  rejection?: ImageRejection;
+  uploadedAt: string;
+}
+
+interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: 0 | 90 | 180 | 270;
+}
+
+interface UploadSessionInfo {
+  id: string;
+  status?: 'pending' | 'completing' | 'completed' | 'aborted';
+  partSize: number;
+  totalParts: number;
+  uploadedParts: number[];
+  expiresAt: string;
+}
+
+interface UploadSessionResponse {
+  success: boolean;
+  session?: UploadSessionInfo;
+  error?: string;
+}
+
+// Two photos on the same link that look like the same shot
+interface DuplicatePair {
+  imageIds: [string, string];
+  distance: number;
+}
+
+interface CompleteUploadResponse {
+  success: boolean;
+  image?: {
+    id: string;
+    fileName: string;
+    s3Url: string;
+    thumbnailUrl?: string;
+    photoSize: 'large' | 'small';
+    photoType: 'normal' | 'polaroid';
+    quality?: ImageQuality;
+    duplicateOf?: Array<{ id: string; originalName: string; distance: number }>;
+  };
+  missingParts?: number[];
+  error?: string;
+}
+
+const UPLOAD_PART_RETRIES = 3;
+
 class ApiService {
   private baseUrl: string;
 
@@ -196,11 +626,19 @@ class ApiService {
     return !!this.getToken();
   }
 
+  // Key from POST /api/upload/:token/pin, kept per link so a customer only enters the PIN once
+  private uploadAccessHeaders(uploadToken: string): Record<string, string> {
+    const accessKey = localStorage.getItem(`uploadAccess:${uploadToken}`);
+    return accessKey ? { 'X-Upload-Access': accessKey } : {};
+  }
+
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const token = this.getToken();
 
+    const uploadToken = endpoint.match(/^\/api\/upload\/([^/?]+)/)?.[1];
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
+      ...(uploadToken ? this.uploadAccessHeaders(uploadToken) : {}),
       ...options.headers,
     };
 
@@ -287,9 +725,41 @@ class ApiService {
       throw new Error('Failed to download images');
     }
 
+    await this.saveDownload(response, 'order_images.zip');
+  }
+
+  /**
+   * Download the printer sheet PDF for one or more submitted orders.
+   * Returns how many photos could not be placed on the sheets.
+   */
+  async downloadPrintSheets(tokens: string[]): Promise<{ failedCount: number }> {
+    const authToken = this.getToken();
+    const response = tokens.length === 1
+      ? await fetch(`${this.baseUrl}/api/admin/magic-links/${tokens[0]}/print-sheets`, {
+          headers: { 'Authorization': `Bearer ${authToken}` },
+        })
+      : await fetch(`${this.baseUrl}/api/admin/magic-links/print-sheets`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${authToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ tokens }),
+        });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || 'Failed to build print sheets');
+    }
+
+    await this.saveDownload(response, 'print_sheets.pdf');
+    return { failedCount: parseInt(response.headers.get('X-Print-Sheets-Failed') || '0', 10) };
+  }
+
+  private async saveDownload(response: Response, fallbackName: string): Promise<void> {
     // Get filename from Content-Disposition header
     const contentDisposition = response.headers.get('Content-Disposition');
-    let filename = 'order_images.zip'; // fallback
+    let filename = fallbackName;
 
     if (contentDisposition) {
       // Try to extract filename from Content-Disposition header
@@ -320,6 +790,158 @@ class ApiService {
     });
   }
 
+  async getMagicLinkEvents(token: string): Promise<{
+    success: boolean;
+    magicLink?: MagicLinkInfo;
+    events?: MagicLinkEvent[];
+    error?: string;
+  }> {
+    return this.request(`/api/admin/magic-links/${token}/events`);
+  }
+
+  async extendMagicLink(token: string, extendDays: number): Promise<MagicLinkResponse> {
+    return this.request(`/api/admin/magic-links/${token}/expiry`, {
+      method: 'PATCH',
+      body: JSON.stringify({ extendDays }),
+    });
+  }
+
+  async reopenMagicLink(token: string, unlockPhotos = false): Promise<MagicLinkResponse> {
+    return this.request(`/api/admin/magic-links/${token}/reopen`, {
+      method: 'POST',
+      body: JSON.stringify({ unlockPhotos }),
+    });
+  }
+
+  async updateMagicLinkLimits(
+    token: string,
+    limits: { maxUploads: number } | { allowances: Array<Omit<PrintAllowance, 'used'>> }
+  ): Promise<MagicLinkResponse> {
+    return this.request(`/api/admin/magic-links/${token}/limits`, {
+      method: 'PATCH',
+      body: JSON.stringify(limits),
+    });
+  }
+
+  async reissueMagicLink(token: string): Promise<MagicLinkResponse> {
+    return this.request(`/api/admin/magic-links/${token}/reissue`, {
+      method: 'POST',
+    });
+  }
+
+  async setMagicLinkPin(token: string, required: boolean): Promise<MagicLinkResponse> {
+    return this.request(`/api/admin/magic-links/${token}/pin`, {
+      method: 'PATCH',
+      body: JSON.stringify({ required }),
+    });
+  }
+
+  async getOutreachQueue(status: MagicLinkOutreach['status'] = 'pending'): Promise<{ success: boolean; outreach?: MagicLinkOutreach[]; error?: string }> {
+    return this.request(`/api/admin/magic-links/outreach?status=${status}`);
+  }
+
+  async markOutreach(id: string, status: 'sent' | 'skipped'): Promise<{ success: boolean; outreach?: MagicLinkOutreach; error?: string }> {
+    return this.request(`/api/admin/magic-links/outreach/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+    });
+  }
+
+  async getOutreachTemplate(): Promise<{ success: boolean; message?: string; error?: string }> {
+    return this.request('/api/admin/magic-links/outreach/template');
+  }
+
+  async saveOutreachTemplate(message: string): Promise<{ success: boolean; message?: string; error?: string }> {
+    return this.request('/api/admin/magic-links/outreach/template', {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+    });
+  }
+
+  async getFollowUps(): Promise<{ success: boolean; followUps?: FollowUp[]; delaysHours?: number[]; error?: string }> {
+    return this.request('/api/admin/magic-links/follow-ups');
+  }
+
+  async getUploadFunnel(days: number = 30): Promise<{ success: boolean; funnel?: UploadFunnel; error?: string }> {
+    return this.request(`/api/admin/magic-links/follow-ups/funnel?days=${days}`);
+  }
+
+  async saveReminderDelays(delaysHours: number[]): Promise<{ success: boolean; delaysHours?: number[]; error?: string }> {
+    return this.request('/api/admin/magic-links/follow-ups/settings', {
+      method: 'PUT',
+      body: JSON.stringify({ delaysHours }),
+    });
+  }
+
+  async getReminderTemplate(): Promise<{ success: boolean; message?: string; error?: string }> {
+    return this.request('/api/admin/magic-links/follow-ups/template');
+  }
+
+  async saveReminderTemplate(message: string): Promise<{ success: boolean; message?: string; error?: string }> {
+    return this.request('/api/admin/magic-links/follow-ups/template', {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+    });
+  }
+
+  async recordReminder(token: string, message: string): Promise<{ success: boolean; reminder?: { id: string; attempt: number; sentAt: string }; error?: string }> {
+    return this.request(`/api/admin/magic-links/${token}/reminders`, {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+    });
+  }
+
+  async getRetention(): Promise<{ success: boolean; settings?: RetentionSettings; purges?: RetentionPurge[]; error?: string }> {
+    return this.request('/api/admin/magic-links/retention');
+  }
+
+  async saveRetentionSettings(settings: { enabled: boolean; rules: RetentionRule[] }): Promise<{ success: boolean; settings?: RetentionSettings; error?: string }> {
+    return this.request('/api/admin/magic-links/retention/settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async getRetentionPreview(): Promise<{ success: boolean; error?: string } & Partial<RetentionPreview>> {
+    return this.request('/api/admin/magic-links/retention/preview');
+  }
+
+  async runRetentionPurge(): Promise<{ success: boolean; purge?: RetentionPurge | null; message?: string; error?: string }> {
+    return this.request('/api/admin/magic-links/retention/purge', { method: 'POST' });
+  }
+
+  async getRetentionPurge(id: string): Promise<{ success: boolean; purge?: RetentionPurge; error?: string }> {
+    return this.request(`/api/admin/magic-links/retention/purges/${id}`);
+  }
+
+  async getBlockedUploadAttempts(token: string): Promise<{ success: boolean; attempts?: BlockedUploadAttempt[]; error?: string }> {
+    return this.request(`/api/admin/magic-links/${token}/blocked-attempts`);
+  }
+
+  async getReviewImages(token: string): Promise<{
+    success: boolean;
+    submittedForPrinting?: boolean;
+    reopenedAt?: string;
+    images?: ReviewImage[];
+    duplicates?: DuplicatePair[];
+    error?: string;
+  }> {
+    return this.request(`/api/admin/magic-links/${token}/images`);
+  }
+
+  async rejectImage(token: string, imageId: string, reason: string): Promise<{
+    success: boolean;
+    submittedForPrinting?: boolean;
+    reopenedAt?: string;
+    rejection?: ImageRejection;
+    error?: string;
+  }> {
+    return this.request(`/api/admin/magic-links/${token}/images/${imageId}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
   // Shopify Orders
   async getOrders(limit = 50, allOrders = false, createdAtMin?: string, month?: string): Promise<OrdersResponse> {
     const allParam = allOrders ? '&all=true' : '';
@@ -328,6 +950,64 @@ class ApiService {
     return this.request<OrdersResponse>(`/api/admin/magic-links/shopify/orders?limit=${limit}${allParam}${dateParam}${monthParam}`);
   }
 
+  async getProductionBoard(): Promise<{
+    success: boolean;
+    staleAfterHours?: number;
+    employees?: { id: string; name: string }[];
+    orders?: ProductionOrder[];
+    error?: string;
+  }> {
+    return this.request('/api/admin/production/board');
+  }
+
+  async moveProductionStage(token: string, stage: ProductionStage, assigneeId?: string): Promise<{ success: boolean; job?: ProductionJobInfo; error?: string }> {
+    return this.request(`/api/admin/production/${token}/stage`, {
+      method: 'PATCH',
+      body: JSON.stringify({ stage, assigneeId }),
+    });
+  }
+
+  async assignProductionStage(token: string, assigneeId: string | null): Promise<{ success: boolean; job?: ProductionJobInfo; error?: string }> {
+    return this.request(`/api/admin/production/${token}/assignee`, {
+      method: 'PATCH',
+      body: JSON.stringify({ assigneeId }),
+    });
+  }
+
+  async saveProductionSettings(staleAfterHours: number): Promise<{ success: boolean; staleAfterHours?: number; error?: string }> {
+    return this.request('/api/admin/production/settings', {
+      method: 'PUT',
+      body: JSON.stringify({ staleAfterHours }),
+    });
+  }
+
+  async getPackingStation(days = 1): Promise<{
+    success: boolean;
+    checklist?: PackingChecklistItem[];
+    employees?: { id: string; name: string }[];
+    days?: number;
+    throughput?: PackerThroughput[];
+    error?: string;
+  }> {
+    return this.request(`/api/admin/packing/station?days=${days}`);
+  }
+
+  async lookupPackingOrder(code: string, employeeId?: string): Promise<{ success: boolean; order?: PackingOrder; error?: string }> {
+    const query = employeeId ? `?employeeId=${encodeURIComponent(employeeId)}` : '';
+    return this.request(`/api/admin/packing/orders/${encodeURIComponent(code)}${query}`);
+  }
+
+  async markOrderPacked(code: string, employeeId: string, checklist: string[]): Promise<{
+    success: boolean;
+    event?: { orderNumber: string; employeeName: string; secondsToPack?: number; createdAt: string };
+    error?: string;
+  }> {
+    return this.request(`/api/admin/packing/orders/${encodeURIComponent(code)}/packed`, {
+      method: 'POST',
+      body: JSON.stringify({ employeeId, checklist }),
+    });
+  }
+
   async getBacklogOrders(): Promise<{ success: boolean; orders?: BacklogOrder[]; error?: string }> {
     return this.request('/api/admin/sales/backlog-orders');
   }
@@ -345,6 +1025,55 @@ class ApiService {
     );
   }
 
+  async getOrderSyncHealth(): Promise<{ success: boolean; error?: string } & Partial<OrderSyncHealth>> {
+    return this.request('/api/admin/magic-links/shopify/orders/sync');
+  }
+
+  async replayOrderSync(from: string, to: string): Promise<{ success: boolean; run?: OrderSyncRun; error?: string }> {
+    return this.request('/api/admin/magic-links/shopify/orders/sync/replay', {
+      method: 'POST',
+      body: JSON.stringify({ from, to }),
+    });
+  }
+
+  async getOrderImports(): Promise<{ success: boolean; imports?: OrderImport[]; error?: string }> {
+    return this.request('/api/admin/magic-links/shopify/orders/imports');
+  }
+
+  async startOrderImport(createdAtMin?: string): Promise<{ success: boolean; import?: OrderImport; error?: string }> {
+    return this.request('/api/admin/magic-links/shopify/orders/imports', {
+      method: 'POST',
+      body: JSON.stringify({ createdAtMin }),
+    });
+  }
+
+  async resumeOrderImport(id: string): Promise<{ success: boolean; import?: OrderImport; error?: string }> {
+    return this.request(`/api/admin/magic-links/shopify/orders/imports/${id}/resume`, { method: 'POST' });
+  }
+
+  async getOrderTimeline(orderNumber: string): Promise<{ success: boolean; orderNumber?: string; events?: OrderEvent[]; error?: string }> {
+    return this.request(`/api/admin/orders/${encodeURIComponent(orderNumber)}/timeline`);
+  }
+
+  // Customers
+  async getCustomers(search: string, sort: 'ltv' | 'orders' | 'recent'): Promise<{ success: boolean; customers?: CustomerSummary[]; error?: string }> {
+    const params = new URLSearchParams({ sort });
+    if (search) params.set('search', search);
+    return this.request(`/api/admin/customers?${params.toString()}`);
+  }
+
+  async getCustomer(id: string): Promise<{ success: boolean; error?: string } & Partial<CustomerProfile>> {
+    return this.request(`/api/admin/customers/${id}`);
+  }
+
+  async getRepeatPurchaseReport(): Promise<{ success: boolean; report?: RepeatPurchaseReport; error?: string }> {
+    return this.request('/api/admin/customers/repeat-purchase');
+  }
+
+  async rebuildCustomers(): Promise<{ success: boolean; customers?: number; orders?: number; error?: string }> {
+    return this.request('/api/admin/customers/rebuild', { method: 'POST' });
+  }
+
   // Shiprocket Shipping Charges
   async fetchShippingCharge(orderNumber: string, refetch: boolean = true): Promise<{ success: boolean; shippingCharge?: number; message?: string; error?: string }> {
     return this.request<{ success: boolean; shippingCharge?: number; message?: string; error?: string }>(
@@ -734,6 +1463,19 @@ class ApiService {
     return this.request<UploadInfo>(`/api/upload/${token}`);
   }
 
+  async verifyUploadPin(token: string, pin: string): Promise<{ success: boolean; error?: string }> {
+    const response = await this.request<{ success: boolean; accessKey?: string; error?: string }>(`/api/upload/${token}/pin`, {
+      method: 'POST',
+      body: JSON.stringify({ pin }),
+    });
+
+    if (response.success && response.accessKey) {
+      localStorage.setItem(`uploadAccess:${token}`, response.accessKey);
+    }
+
+    return { success: response.success, error: response.error };
+  }
+
   async getUploadedImages(token: string): Promise<{
     success: boolean;
     images?: Array<{
@@ -741,37 +1483,203 @@ class ApiService {
       fileName: string;
       originalName: string;
       s3Url: string;
+      thumbnailUrl?: string;
+      printUrl?: string;
       photoSize: 'large' | 'small';
       photoType: 'normal' | 'polaroid';
+      quality?: ImageQuality;
+      crop?: ImageCrop;
+      copies: number;
+      caption?: string;
+      rejection?: ImageRejection;
       uploadedAt: string;
     }>;
+    duplicates?: DuplicatePair[];
     error?: string;
   }> {
     return this.request(`/api/upload/${token}/images`);
   }
 
-  async uploadPhoto(
+  async createUploadSession(
     token: string,
-    file: File | Blob,
+    file: File,
     size: 'large' | 'small',
     type: 'normal' | 'polaroid'
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<UploadSessionResponse> {
+    return this.request<UploadSessionResponse>(`/api/upload/${token}/uploads`, {
+      method: 'POST',
+      body: JSON.stringify({
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+        size,
+        type,
+      }),
+    });
+  }
+
+  async getUploadSession(token: string, sessionId: string): Promise<UploadSessionResponse> {
+    return this.request<UploadSessionResponse>(`/api/upload/${token}/uploads/${sessionId}`);
+  }
+
+  async uploadPart(
+    token: string,
+    sessionId: string,
+    partNumber: number,
+    chunk: Blob
+  ): Promise<{ success: boolean; partNumber?: number; error?: string }> {
+    const response = await fetch(`${this.baseUrl}/api/upload/${token}/uploads/${sessionId}/parts/${partNumber}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        ...this.uploadAccessHeaders(token),
+      },
+      body: chunk,
+    });
+
+    return response.json();
+  }
+
+  async completeUploadSession(token: string, sessionId: string): Promise<CompleteUploadResponse> {
+    return this.request<CompleteUploadResponse>(`/api/upload/${token}/uploads/${sessionId}/complete`, {
+      method: 'POST',
+    });
+  }
+
+  async abortUploadSession(token: string, sessionId: string): Promise<{ success: boolean; error?: string }> {
+    return this.request(`/api/upload/${token}/uploads/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Upload a photo in parts, skipping parts the server already has and retrying
+   * failed parts, so a dropped connection resumes instead of starting over.
+   */
+  async uploadPhotoResumable(
+    token: string,
+    file: File,
+    size: 'large' | 'small',
+    type: 'normal' | 'polaroid',
+    onProgress?: (fraction: number) => void
+  ): Promise<CompleteUploadResponse> {
+    const created = await this.createUploadSession(token, file, size, type);
+    if (!created.success || !created.session) {
+      return { success: false, error: created.error || 'Failed to start upload' };
+    }
+
+    const session = created.session;
+    const done = new Set(session.uploadedParts);
+    onProgress?.(done.size / session.totalParts);
+
+    const sendPart = async (partNumber: number): Promise<boolean> => {
+      const start = (partNumber - 1) * session.partSize;
+      const chunk = file.slice(start, Math.min(start + session.partSize, file.size));
+
+      for (let attempt = 0; attempt < UPLOAD_PART_RETRIES; attempt++) {
+        try {
+          const result = await this.uploadPart(token, session.id, partNumber, chunk);
+          if (result.success) return true;
+        } catch {
+          // Network error - fall through to retry
+        }
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+      }
+      return false;
+    };
+
+    const sendMissing = async (partNumbers: number[]): Promise<boolean> => {
+      for (const partNumber of partNumbers) {
+        if (!(await sendPart(partNumber))) return false;
+        done.add(partNumber);
+        onProgress?.(done.size / session.totalParts);
+      }
+      return true;
+    };
+
+    const pending: number[] = [];
+    for (let partNumber = 1; partNumber <= session.totalParts; partNumber++) {
+      if (!done.has(partNumber)) pending.push(partNumber);
+    }
+
+    if (!(await sendMissing(pending))) {
+      return { success: false, error: 'Upload interrupted - select the photo again to resume' };
+    }
+
+    let completed = await this.completeUploadSession(token, session.id);
+
+    // The server may have lost a part we thought was stored; send those once more
+    if (!completed.success && completed.missingParts?.length) {
+      if (!(await sendMissing(completed.missingParts))) {
+        return { success: false, error: 'Upload interrupted - select the photo again to resume' };
+      }
+      completed = await this.completeUploadSession(token, session.id);
+    }
+
+    return completed;
+  }
+
+  async replaceImage(
+    token: string,
+    imageId: string,
+    file: File | Blob
+  ): Promise<{ success: boolean; image?: { id: string; s3Url: string; thumbnailUrl?: string; quality?: ImageQuality }; error?: string }> {
     const formData = new FormData();
     formData.append('photo', file);
-    formData.append('size', size);
-    formData.append('type', type);
 
-    const response = await fetch(`${this.baseUrl}/api/upload/${token}/upload`, {
-      method: 'POST',
+    const response = await fetch(`${this.baseUrl}/api/upload/${token}/images/${imageId}`, {
+      method: 'PUT',
+      headers: this.uploadAccessHeaders(token),
       body: formData,
     });
 
     return response.json();
   }
 
+  async updateImageCrop(
+    token: string,
+    imageId: string,
+    crop: ImageCrop
+  ): Promise<{ success: boolean; crop?: ImageCrop; error?: string }> {
+    return this.request(`/api/upload/${token}/images/${imageId}/crop`, {
+      method: 'PUT',
+      body: JSON.stringify(crop),
+    });
+  }
+
+  async updateImageOptions(
+    token: string,
+    imageId: string,
+    options: { photoSize?: 'large' | 'small'; photoType?: 'normal' | 'polaroid'; copies?: number; caption?: string }
+  ): Promise<{
+    success: boolean;
+    image?: {
+      id: string;
+      photoSize: 'large' | 'small';
+      photoType: 'normal' | 'polaroid';
+      copies: number;
+      caption?: string;
+      quality?: ImageQuality;
+      crop?: ImageCrop;
+    };
+    error?: string;
+  }> {
+    return this.request(`/api/upload/${token}/images/${imageId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(options),
+    });
+  }
+
+  async clearImageCrop(token: string, imageId: string): Promise<{ success: boolean; error?: string }> {
+    return this.request(`/api/upload/${token}/images/${imageId}/crop`, {
+      method: 'DELETE',
+    });
+  }
+
   async deleteImage(token: string, imageId: string): Promise<{ success: boolean; error?: string }> {
     const response = await fetch(`${this.baseUrl}/api/upload/${token}/images/${imageId}`, {
       method: 'DELETE',
+      headers: this.uploadAccessHeaders(token),
     });
 
     return response.json();
@@ -780,6 +1688,7 @@ class ApiService {
   async submitForPrinting(token: string): Promise<{ success: boolean; message?: string; error?: string }> {
     const response = await fetch(`${this.baseUrl}/api/upload/${token}/submit`, {
       method: 'POST',
+      headers: this.uploadAccessHeaders(token),
     });
 
     return response.json();
@@ -794,6 +1703,7 @@ class ApiService {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
+        ...this.uploadAccessHeaders(token),
       },
       body: JSON.stringify({ photoSize, photoType }),
     });
@@ -1477,4 +2387,4 @@ async getVariantPerformance(days = 30): Promise<{
 
 
 export const api = new ApiService();
-export type { AdminUser, MagicLinkInfo, UploadInfo, ShopifyOrder };
+export type { AdminUser, MagicLinkInfo, UploadInfo, ShopifyOrder, ImageQuality, ImageCrop, PrintAllowance, DuplicatePair, ImageRejection, RejectedPhoto, ReviewImage, MagicLinkEvent, BlockedUploadAttempt, MagicLinkOutreach, FollowUp, UploadFunnel, OrderTimelineStep, OrderStatus, RetentionRule, RetentionSettings, RetentionCandidate, RetentionPreview, RetentionPurge, RetentionPurgeItem, ProductionStage, ProductionStep, ProductionJobInfo, ProductionOrder, PackingChecklistItem, PackingOrder, PackerThroughput, OrderSyncRun, OrderSyncHealth, OrderImport, OrderEvent, CustomerSummary, CustomerOrder, CustomerProfile, RepeatPurchaseReport };